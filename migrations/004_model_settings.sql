@@ -0,0 +1,15 @@
+-- Migration: Add model selection to agents and per-thread model overrides
+-- Models are stored as "provider:model" specs, e.g. "openai:gpt-4o-2024-11-20"
+ALTER TABLE agents ADD COLUMN model TEXT;
+ALTER TABLE agents ADD COLUMN temperature REAL;
+ALTER TABLE agents ADD COLUMN max_tokens INTEGER;
+-- Thread Settings (per-thread model override)
+CREATE TABLE IF NOT EXISTS thread_settings (
+    thread_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    model TEXT,
+    temperature REAL,
+    max_tokens INTEGER,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (thread_id, user_id)
+);
@@ -0,0 +1,32 @@
+-- Migration: OAuth2 authorization for independent MCP servers
+-- Tokens are envelope-encrypted like auth_config, the expiry is kept in the
+-- clear so refreshes can be scheduled without decrypting the tokens
+ALTER TABLE mcp_servers_independent ADD COLUMN oauth_tokens TEXT;
+ALTER TABLE mcp_servers_independent ADD COLUMN oauth_token_expires_at DATETIME;
+-- OAuth flows pointed at the legacy mcp_servers table and had nowhere to keep
+-- the PKCE verifier, no flows were ever written so the table is recreated
+DROP TABLE IF EXISTS mcp_oauth_flows;
+CREATE TABLE IF NOT EXISTS mcp_oauth_flows (
+    id TEXT PRIMARY KEY,
+    server_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    state TEXT NOT NULL UNIQUE,
+    step TEXT CHECK(
+        step IN (
+            'initiated',
+            'callback_received',
+            'token_exchange',
+            'completed',
+            'failed'
+        )
+    ) NOT NULL,
+    auth_url TEXT,
+    code_verifier TEXT NOT NULL,
+    redirect_uri TEXT NOT NULL,
+    error TEXT,
+    expires_at DATETIME NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (server_id) REFERENCES mcp_servers_independent(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_oauth_flows_state ON mcp_oauth_flows(state);
+CREATE INDEX IF NOT EXISTS idx_oauth_flows_server_id ON mcp_oauth_flows(server_id);
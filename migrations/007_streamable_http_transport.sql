@@ -0,0 +1,42 @@
+-- Migration: Streamable HTTP transport for MCP servers
+-- mcp_servers_independent.transport is unconstrained, the legacy mcp_servers
+-- table has a CHECK constraint that SQLite can only change by rebuilding it
+PRAGMA defer_foreign_keys = true;
+CREATE TABLE mcp_servers_new (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    url TEXT NOT NULL,
+    transport TEXT CHECK(
+        transport IN ('websocket', 'sse', 'streamable-http')
+    ) NOT NULL,
+    user_id TEXT NOT NULL,
+    group_id TEXT NOT NULL,
+    auth_type TEXT CHECK(
+        auth_type IN ('none', 'apikey', 'basic', 'oauth2', 'custom')
+    ) NOT NULL,
+    encrypted_credentials TEXT,
+    -- JSON blob, encrypted
+    status TEXT CHECK(
+        status IN (
+            'connected',
+            'disconnected',
+            'error',
+            'authenticating',
+            'pending_auth'
+        )
+    ) DEFAULT 'disconnected',
+    is_enabled BOOLEAN DEFAULT TRUE,
+    last_connected DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (group_id) REFERENCES mcp_groups(id) ON DELETE CASCADE
+);
+INSERT INTO mcp_servers_new
+SELECT id, name, url, transport, user_id, group_id, auth_type, encrypted_credentials,
+    status, is_enabled, last_connected, created_at, updated_at
+FROM mcp_servers;
+DROP TABLE mcp_servers;
+ALTER TABLE mcp_servers_new RENAME TO mcp_servers;
+CREATE INDEX IF NOT EXISTS idx_mcp_servers_user_id ON mcp_servers(user_id);
+CREATE INDEX IF NOT EXISTS idx_mcp_servers_group_id ON mcp_servers(group_id);
+CREATE INDEX IF NOT EXISTS idx_mcp_servers_status ON mcp_servers(status, user_id);
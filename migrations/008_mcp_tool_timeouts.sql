@@ -0,0 +1,4 @@
+-- Migration: Per-tool timeouts for independent MCP servers
+-- JSON object of tool name to timeout in milliseconds, tools without an
+-- entry use the default of 60 seconds
+ALTER TABLE mcp_servers_independent ADD COLUMN tool_timeouts TEXT;
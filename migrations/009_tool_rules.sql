@@ -0,0 +1,5 @@
+-- Migration: Tool allow and deny rules on agents and thread MCP assignments
+-- JSON object {"allow": [...], "deny": [...]} of tool name glob patterns,
+-- NULL lets every tool of the servers through
+ALTER TABLE agents ADD COLUMN tool_rules TEXT;
+ALTER TABLE thread_mcp_servers ADD COLUMN tool_rules TEXT;
@@ -0,0 +1,15 @@
+-- Migration: Tool approval policies
+-- Each rule sets whether the tools matching a glob pattern run automatically,
+-- need the user's approval or are denied, for a user, agent, MCP server or thread
+CREATE TABLE IF NOT EXISTS tool_policies (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    scope TEXT CHECK(scope IN ('user', 'agent', 'server', 'thread')) NOT NULL,
+    scope_id TEXT,
+    -- Limits the rule to the tools of one MCP server
+    server_id TEXT,
+    tool_pattern TEXT NOT NULL,
+    decision TEXT CHECK(decision IN ('auto', 'confirm', 'deny')) NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_tool_policies_user ON tool_policies(user_id);
@@ -0,0 +1,21 @@
+-- Migration: Tool execution audit log
+-- One row per built-in or MCP tool call, for reviewing who ran what and when
+CREATE TABLE IF NOT EXISTS tool_executions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    thread_id TEXT NOT NULL,
+    -- Primary agent of the thread when the tool ran
+    agent_id TEXT,
+    tool_call_id TEXT,
+    tool_name TEXT NOT NULL,
+    -- Set for MCP tools
+    server_id TEXT,
+    arguments TEXT,
+    result_size INTEGER,
+    latency_ms INTEGER NOT NULL,
+    decision TEXT CHECK(decision IN ('auto', 'approved')) NOT NULL,
+    error TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_tool_executions_user ON tool_executions(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_tool_executions_thread ON tool_executions(user_id, thread_id, created_at);
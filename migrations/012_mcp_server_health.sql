@@ -0,0 +1,13 @@
+-- Migration: MCP server health history
+-- Periodic health checks and manual tests record whether a server answered
+-- and how fast. The latest checks decide whether its circuit is open.
+CREATE TABLE IF NOT EXISTS mcp_server_health (
+    id TEXT PRIMARY KEY,
+    server_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    ok BOOLEAN NOT NULL,
+    latency_ms INTEGER,
+    error TEXT,
+    checked_at DATETIME NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_mcp_server_health_server ON mcp_server_health(user_id, server_id, checked_at);
@@ -0,0 +1,40 @@
+-- Migration: MCP sampling
+-- Servers can ask the thread's model for completions. Trusted servers skip
+-- the user's approval, and each server has a daily token budget.
+ALTER TABLE mcp_servers_independent ADD COLUMN sampling_trusted BOOLEAN DEFAULT FALSE;
+-- Tokens per day, NULL uses the default budget
+ALTER TABLE mcp_servers_independent ADD COLUMN sampling_token_budget INTEGER;
+
+-- Sampling requests are logged with the tool executions, the decision CHECK
+-- constraint gains 'denied' which SQLite can only change by rebuilding the table
+CREATE TABLE tool_executions_new (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    thread_id TEXT NOT NULL,
+    -- Primary agent of the thread when the tool ran
+    agent_id TEXT,
+    tool_call_id TEXT,
+    tool_name TEXT NOT NULL,
+    -- Set for MCP tools
+    server_id TEXT,
+    arguments TEXT,
+    result_size INTEGER,
+    latency_ms INTEGER NOT NULL,
+    decision TEXT CHECK(decision IN ('auto', 'approved', 'denied')) NOT NULL,
+    error TEXT,
+    kind TEXT CHECK(kind IN ('tool', 'sampling')) NOT NULL DEFAULT 'tool',
+    -- Model tokens used by a sampling request
+    tokens INTEGER,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+INSERT INTO tool_executions_new
+    (id, user_id, thread_id, agent_id, tool_call_id, tool_name, server_id, arguments,
+     result_size, latency_ms, decision, error, created_at)
+SELECT id, user_id, thread_id, agent_id, tool_call_id, tool_name, server_id, arguments,
+    result_size, latency_ms, decision, error, created_at
+FROM tool_executions;
+DROP TABLE tool_executions;
+ALTER TABLE tool_executions_new RENAME TO tool_executions;
+CREATE INDEX IF NOT EXISTS idx_tool_executions_user ON tool_executions(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_tool_executions_thread ON tool_executions(user_id, thread_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_tool_executions_sampling ON tool_executions(user_id, server_id, kind, created_at);
@@ -0,0 +1,84 @@
+/**
+ * Re-wrap stored MCP credentials with the current MCP_CREDENTIALS_KEY.
+ *
+ * Set the new key as MCP_CREDENTIALS_KEY and the old one(s) as
+ * MCP_CREDENTIALS_KEY_PREVIOUS, then run:
+ *
+ *   npm run rekey-credentials -- --local     # or --remote, add --dry-run to preview
+ *
+ * Credentials still stored as plain JSON are encrypted on the way. Once the
+ * command has run against every environment the previous key can be removed.
+ */
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  CREDENTIAL_COLUMNS,
+  getCredentialKeyOptions,
+  rekeyCredentialStatements,
+} from "../src/lib/credentials";
+
+const DATABASE = "mcp-agents-db";
+
+const args = process.argv.slice(2);
+const target = args.includes("--remote") ? "--remote" : "--local";
+const dryRun = args.includes("--dry-run");
+
+function d1<T>(extraArgs: string[]): T {
+  const output = execFileSync(
+    "npx",
+    ["wrangler", "d1", "execute", DATABASE, target, "--json", ...extraArgs],
+    { encoding: "utf8", stdio: ["ignore", "pipe", "inherit"] }
+  );
+  return JSON.parse(output) as T;
+}
+
+async function main() {
+  const keyOptions = getCredentialKeyOptions();
+  if (!process.env.MCP_CREDENTIALS_KEY) {
+    throw new Error("MCP_CREDENTIALS_KEY is not set");
+  }
+
+  const updates: string[] = [];
+  for (const credentialColumn of CREDENTIAL_COLUMNS) {
+    const { table, column } = credentialColumn;
+    const [{ results }] = d1<{ results: { id: string; value: string }[] }[]>([
+      "--command",
+      `SELECT id, ${column} AS value FROM ${table} WHERE ${column} IS NOT NULL`,
+    ]);
+
+    updates.push(
+      ...(await rekeyCredentialStatements(
+        credentialColumn,
+        results,
+        keyOptions
+      ))
+    );
+    console.log(`${table}.${column}: ${results.length} credential(s) checked`);
+  }
+
+  if (updates.length === 0) {
+    console.log("All credentials already use the current key");
+    return;
+  }
+  if (dryRun) {
+    console.log(`${updates.length} credential(s) would be re-keyed`);
+    return;
+  }
+
+  const dir = mkdtempSync(path.join(tmpdir(), "rekey-"));
+  try {
+    const file = path.join(dir, "rekey.sql");
+    writeFileSync(file, updates.join("\n"));
+    d1(["--file", file]);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+  console.log(`${updates.length} credential(s) re-keyed`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
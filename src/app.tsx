@@ -1,17 +1,28 @@
-import React, { useEffect, useState, useRef, useCallback, use } from "react"; // Added React import
+import React, {
+  useEffect,
+  useState,
+  useRef,
+  useCallback,
+  useLayoutEffect,
+  useMemo,
+  use,
+} from "react"; // Added React import
 import { useAgent } from "agents/react";
 import { useAgentChat } from "agents/ai-react";
 import type { Message } from "@ai-sdk/react";
-import type { tools } from "./tools";
+import type { Attachment } from "ai";
 
 // Component imports
 import { Button } from "@/components/button/Button";
 import { Card } from "@/components/card/Card";
+import { DropdownMenu } from "@/components/dropdown/DropdownMenu";
 import { Avatar } from "@/components/avatar/Avatar";
 import { Toggle } from "@/components/toggle/Toggle";
 import { Textarea } from "@/components/textarea/Textarea";
 import { MemoizedMarkdown } from "@/components/memoized-markdown";
 import { ToolInvocationCard } from "@/components/tool-invocation-card/ToolInvocationCard";
+import { ToolActivityPanel } from "@/components/tool-activity/ToolActivityPanel";
+import { Modal } from "@/components/modal/Modal";
 
 // Icon imports
 import {
@@ -23,6 +34,11 @@ import {
   PaperPlaneTilt,
   Stop,
   List,
+  SignOut,
+  CaretDown,
+  Paperclip,
+  ClockCounterClockwise,
+  X,
 } from "@phosphor-icons/react";
 
 // Sidebar import
@@ -37,11 +53,21 @@ import { useNotificationContext } from "@/providers/NotificationProvider";
 import { AgentQuickSelector } from "@/components/agent-selector/AgentQuickSelector";
 import { AgentManagementPanel } from "@/components/agent-selector/AgentManagementPanel";
 import { MCPServerLibrary } from "@/components/mcp-library/MCPServerLibrary";
-
-// List of tools that require human confirmation
-const toolsRequiringConfirmation: (keyof typeof tools)[] = [
-  "getWeatherInformation",
-];
+import { MCPResourcePicker } from "@/components/mcp-resources/MCPResourcePicker";
+import { MCPPromptCommandMenu } from "@/components/mcp-prompts/MCPPromptCommandMenu";
+import { MCPPromptArgumentsForm } from "@/components/mcp-prompts/MCPPromptArgumentsForm";
+import { useMCPPrompts } from "@/hooks/useMCPPrompts";
+import {
+  getThreadPrompt,
+  promptCommand,
+  promptMessagesToChatMessages,
+} from "@/lib/mcp-prompts-client";
+import type { MCPPrompt } from "@/types/mcp";
+import { latestToolProgress } from "@/lib/mcp-tool-calls";
+import type { ToolDecision, ToolDecisionsAgent } from "@/lib/tool-policies";
+import type { SamplingApprovalRequest } from "@/lib/mcp-sampling";
+import { useModelOptions } from "@/hooks/useModelOptions";
+import { useThreadMessages } from "@/hooks/useThreadMessages";
 
 // Define a type for the user data
 interface User {
@@ -55,23 +81,120 @@ const ChatInterface: React.FC<{
   currentUser: User | null;
   setCurrentUser: React.Dispatch<React.SetStateAction<User | null>>;
   currentThreadId: string;
-}> = ({ enabled, currentUser, setCurrentUser, currentThreadId }) => {
+  onToolsUpdated?: () => void;
+}> = ({
+  enabled,
+  currentUser,
+  setCurrentUser,
+  currentThreadId,
+  onToolsUpdated,
+}) => {
   // State to control when we can safely use the agent chat hook
   const [canUseAgentChat, setCanUseAgentChat] = useState(false);
 
   // Get notification context for cross-thread notifications
-  const { addNotification } = useNotificationContext();
+  const { addNotification, addToolsUpdated } = useNotificationContext();
 
-  const [historyMessages, setHistoryMessages] = useState<Message[] | undefined>(
-    undefined
+  // Latest page of the thread for the chat, earlier pages load on scrolling up
+  const {
+    latestMessages: historyMessages,
+    isLoading: isLoadingHistory,
+    earlierMessages,
+    hasEarlier,
+    isLoadingEarlier,
+    error: earlierMessagesError,
+    loadEarlier,
+    clearEarlier,
+  } = useThreadMessages(
+    currentThreadId,
+    enabled && !!currentUser?.userId && !!currentThreadId,
+    () => setCurrentUser(null)
   );
-  const [isLoadingHistory, setIsLoadingHistory] = useState<boolean>(true);
+  // Approval policy of each tool, sent by the agent on connect and every turn
+  const [toolDecisions, setToolDecisions] = useState<
+    Record<string, ToolDecision>
+  >({});
+  const [toolDecisionsAgent, setToolDecisionsAgent] =
+    useState<ToolDecisionsAgent | null>(null);
 
   const agent = useAgent({
     agent: "chat",
     name: `${currentUser?.userId}-${currentThreadId}`,
+    onMessage: (event: MessageEvent) => {
+      // The agent asks for re-consent when an OAuth MCP server's tokens stop working
+      if (typeof event.data !== "string") return;
+      try {
+        const data = JSON.parse(event.data);
+        if (data.type === "mcp_auth_required") {
+          addNotification({
+            title: "Authorization Required",
+            message: `${data.serverName} needs you to authorize it again before its tools can be used.`,
+            type: "warning",
+            threadId: data.threadId,
+            mcpEventType: "mcp_auth_required",
+            mcpServerId: data.serverId,
+            mcpActionRequired: true,
+          });
+        }
+        // An MCP server asks to sample the thread's model and the user has to approve it
+        if (data.type === "sampling_request") {
+          const { request } = data as { request: SamplingApprovalRequest };
+          addNotification({
+            title: "Sampling Request",
+            message: `${request.serverName} wants to ask the model (up to ${request.maxTokens} tokens): "${request.preview}"`,
+            type: "warning",
+            threadId: data.threadId,
+            mcpEventType: "sampling_request",
+            mcpServerId: request.serverId,
+            mcpActionRequired: true,
+            samplingRequestId: request.id,
+          });
+        }
+        // An MCP server of this thread changed its tools while connected
+        if (data.type === "tools_updated") {
+          if (data.kind === "tools") {
+            addToolsUpdated(
+              data.serverName,
+              data.toolsAdded,
+              data.toolsRemoved,
+              data.threadId
+            );
+          }
+          onToolsUpdated?.();
+        }
+        if (data.type === "tool_decisions") {
+          setToolDecisions(data.decisions);
+          setToolDecisionsAgent(data.agent ?? null);
+        }
+      } catch {
+        // Not a JSON message
+      }
+    },
   });
 
+  // Report the outcome of an MCP server authorization after its redirect back
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const outcome = params.get("mcp_oauth");
+    if (!outcome) return;
+
+    addNotification(
+      outcome === "success"
+        ? {
+            title: "MCP Server Authorized",
+            message: "The server can now be used in your chats.",
+            type: "success",
+            mcpServerId: params.get("server") || undefined,
+          }
+        : {
+            title: "MCP Authorization Failed",
+            message: params.get("message") || "Authorization failed",
+            type: "error",
+          }
+    );
+    window.history.replaceState(null, "", window.location.pathname);
+  }, [addNotification]);
+
   // Enable agent chat only when we have a valid user, thread, and history is loaded
   useEffect(() => {
     const expectedName = `${currentUser?.userId}-${currentThreadId}`;
@@ -416,50 +539,54 @@ const ChatInterface: React.FC<{
     return () => clearInterval(interval);
   }, [currentUser?.userId, currentThreadId, addNotification]);
 
+  // Per-thread model override, empty means the agent's or default model
+  const modelProviders = useModelOptions(enabled);
+  const [threadSettings, setThreadSettings] = useState<{
+    model: string | null;
+    temperature: number | null;
+    maxTokens: number | null;
+  }>({ model: null, temperature: null, maxTokens: null });
+
   useEffect(() => {
-    if (enabled && currentUser?.userId && currentThreadId) {
-      console.log(
-        `[HISTORY_LOADING] Loading history for thread: ${currentThreadId}`
-      );
-      setIsLoadingHistory(true);
-      const url =
-        currentThreadId === "default"
-          ? "/chat/history"
-          : `/threads/${currentThreadId}`;
-      fetch(url)
-        .then((res) => {
-          if (res.ok) {
-            return res.json();
-          }
-          if (res.status === 401) {
-            setCurrentUser(null);
-          }
-          console.error("Failed to fetch chat history, status:", res.status);
-          return [];
-        })
-        .then((data: unknown) => {
-          const messages = Array.isArray(data) ? (data as Message[]) : [];
-          console.log(
-            `[HISTORY_LOADED] Loaded ${messages.length} messages for thread: ${currentThreadId}`
-          );
-          setHistoryMessages(messages);
-        })
-        .catch((err) => {
-          console.error("Error fetching/parsing chat history:", err);
-          setHistoryMessages([]);
-        })
-        .finally(() => {
-          setIsLoadingHistory(false);
-        });
-    } else if (!enabled) {
-      setHistoryMessages(undefined);
-      setIsLoadingHistory(true);
+    if (!enabled || !currentThreadId) return;
+
+    let cancelled = false;
+    fetch(`/api/threads/${currentThreadId}/settings`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: any) => {
+        if (!cancelled && data?.settings) setThreadSettings(data.settings);
+      })
+      .catch((error) => {
+        console.error("Failed to load thread settings:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, currentThreadId]);
+
+  const handleThreadModelChange = async (model: string) => {
+    const settings = { ...threadSettings, model: model || null };
+    setThreadSettings(settings);
+    try {
+      const response = await fetch(`/api/threads/${currentThreadId}/settings`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to update thread settings: ${response.status}`);
+      }
+    } catch (error) {
+      console.error("Failed to update thread model:", error);
     }
-  }, [enabled, currentUser?.userId, currentThreadId, setCurrentUser]);
+  };
 
   // Always call useAgentChat hook to avoid hook order violations
   const agentChatResult = useAgentChat({
     agent: agent,
+    // Start from the latest page instead of the agent's whole history
+    getInitialMessages: null,
     initialMessages: historyMessages,
     maxSteps: 5,
     onError: (err) => {
@@ -489,6 +616,10 @@ const ChatInterface: React.FC<{
     clearHistory,
     isLoading: isAgentLoading,
     stop,
+    setInput: setAgentInput,
+    setMessages: setAgentMessages,
+    append: appendAgentMessage,
+    data: agentData,
   } = canUseAgentChat
       ? agentChatResult
       : {
@@ -500,8 +631,18 @@ const ChatInterface: React.FC<{
         clearHistory: () => { },
         isLoading: false,
         stop: () => { },
+        setInput: () => { },
+        setMessages: () => { },
+        append: async () => null,
+        data: undefined,
       };
 
+  // Progress of running MCP tool calls, streamed by the agent as data parts
+  const toolProgress = useMemo(
+    () => latestToolProgress(agentData),
+    [agentData]
+  );
+
   // Component remounting via key prop handles thread switching
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -517,6 +658,48 @@ const ChatInterface: React.FC<{
     }
   }, [agentMessages, scrollToBottom]);
 
+  // Earlier pages go above the chat's messages, a message in both shows once
+  const displayedMessages = useMemo(() => {
+    const chatMessageIds = new Set(agentMessages.map((m: Message) => m.id));
+    return [
+      ...earlierMessages.filter((m) => !chatMessageIds.has(m.id)),
+      ...agentMessages,
+    ];
+  }, [earlierMessages, agentMessages]);
+
+  // Scrolling up near the top loads the page before, keeping the view in place
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const lastScrollTop = useRef(0);
+  const scrollHeightBeforeLoad = useRef<number | null>(null);
+  const loadEarlierMessages = () => {
+    scrollHeightBeforeLoad.current =
+      messagesContainerRef.current?.scrollHeight ?? null;
+    loadEarlier();
+  };
+  const handleMessagesScroll = () => {
+    const container = messagesContainerRef.current;
+    if (!container) return;
+    const scrollingUp = container.scrollTop < lastScrollTop.current;
+    lastScrollTop.current = container.scrollTop;
+    if (
+      scrollingUp &&
+      container.scrollTop < 200 &&
+      hasEarlier &&
+      !isLoadingEarlier
+    ) {
+      loadEarlierMessages();
+    }
+  };
+  // biome-ignore lint/correctness/useExhaustiveDependencies: runs when a page was prepended
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    if (!container || scrollHeightBeforeLoad.current === null) return;
+    container.scrollTop +=
+      container.scrollHeight - scrollHeightBeforeLoad.current;
+    scrollHeightBeforeLoad.current = null;
+  }, [earlierMessages]);
+
+  const [showToolActivity, setShowToolActivity] = useState(false);
   const [showDebug, setShowDebug] = useState(() => {
     const saved = localStorage.getItem("showDebug");
     return saved ? JSON.parse(saved) : false;
@@ -530,9 +713,8 @@ const ChatInterface: React.FC<{
       (part) =>
         part.type === "tool-invocation" &&
         part.toolInvocation.state === "call" &&
-        toolsRequiringConfirmation.includes(
-          part.toolInvocation.toolName as keyof typeof tools
-        )
+        toolDecisions[part.toolInvocation.toolName] !== undefined &&
+        toolDecisions[part.toolInvocation.toolName] !== "auto"
     )
   );
 
@@ -542,6 +724,74 @@ const ChatInterface: React.FC<{
 
   const [textareaHeight, setTextareaHeight] = useState("auto");
 
+  // MCP resource contents sent with the next message
+  const [resourceAttachments, setResourceAttachments] = useState<Attachment[]>(
+    []
+  );
+  const takeResourceAttachments = () => {
+    const attachments = resourceAttachments;
+    setResourceAttachments([]);
+    return attachments.length > 0
+      ? { experimental_attachments: attachments }
+      : {};
+  };
+
+  // MCP prompts as slash commands, e.g. "/github:review-pr"
+  const slashCommand =
+    agentInput.startsWith("/") && !/\s/.test(agentInput) ? agentInput : null;
+  const { prompts: mcpPrompts, isLoading: isLoadingPrompts } = useMCPPrompts(
+    currentThreadId,
+    slashCommand !== null
+  );
+  const matchingPrompts = slashCommand
+    ? mcpPrompts.filter((prompt) =>
+        promptCommand(prompt).startsWith(slashCommand)
+      )
+    : [];
+  const [activePrompt, setActivePrompt] = useState<MCPPrompt | null>(null);
+  const [isRunningPrompt, setIsRunningPrompt] = useState(false);
+  const [promptError, setPromptError] = useState<string | null>(null);
+
+  // Expands the prompt into the conversation. A trailing user message is
+  // sent so the agent answers it, earlier messages are only added.
+  const runPrompt = async (prompt: MCPPrompt, args: Record<string, string>) => {
+    setIsRunningPrompt(true);
+    setPromptError(null);
+    try {
+      const messages = promptMessagesToChatMessages(
+        prompt,
+        await getThreadPrompt(currentThreadId, prompt, args)
+      );
+      const last = messages.at(-1);
+      if (last?.role === "user") {
+        if (messages.length > 1) {
+          setAgentMessages([...agentMessages, ...messages.slice(0, -1)]);
+        }
+        appendAgentMessage(last);
+      } else if (messages.length > 0) {
+        setAgentMessages([...agentMessages, ...messages]);
+      }
+      setActivePrompt(null);
+    } catch (error) {
+      setActivePrompt(prompt);
+      setPromptError(
+        error instanceof Error ? error.message : "Failed to run prompt"
+      );
+    } finally {
+      setIsRunningPrompt(false);
+    }
+  };
+
+  const selectPrompt = (prompt: MCPPrompt) => {
+    setAgentInput("");
+    setPromptError(null);
+    if (prompt.arguments.length === 0) {
+      runPrompt(prompt, {});
+    } else {
+      setActivePrompt(prompt);
+    }
+  };
+
   // Show loading state in the chat area while keeping sidebar functional
   const isLoadingAgent = enabled && (isLoadingHistory || !canUseAgentChat);
 
@@ -627,25 +877,67 @@ const ChatInterface: React.FC<{
           />
           <span className="text-xs text-muted-foreground">Debug</span>
         </div>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={() => {
-            clearHistory();
-          }}
-          aria-label="Clear chat history"
-        >
-          <Trash size={16} />
-          <span className="ml-1 text-xs">Clear</span>
-        </Button>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowToolActivity(true)}
+            aria-label="Show tool activity"
+          >
+            <ClockCounterClockwise size={16} />
+            <span className="ml-1 text-xs">Tool activity</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              clearHistory();
+              clearEarlier();
+            }}
+            aria-label="Clear chat history"
+          >
+            <Trash size={16} />
+            <span className="ml-1 text-xs">Clear</span>
+          </Button>
+        </div>
       </div>
 
+      <Modal
+        isOpen={showToolActivity}
+        onClose={() => setShowToolActivity(false)}
+        clickOutsideToClose
+        className="max-w-2xl"
+      >
+        <ToolActivityPanel threadId={currentThreadId} />
+      </Modal>
+
       {/* Messages */}
       {/* Adjusted max-h for messages area, accounting for the ChatInterface controls bar + main app header + input form padding */}
       {/* Approximate calculation: 100vh - app_header_h - chat_controls_h - input_form_h - misc_padding */}
       {/* Let's assume app_header is ~3.5rem, chat_controls is ~3rem, input_form is ~4rem. Total ~10.5rem. Plus p-4 on main container (2rem). */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4 pb-24 max-h-[calc(100vh-12.5rem)]">
-        {agentMessages.length === 0 && !isAgentLoading && (
+      <div
+        ref={messagesContainerRef}
+        onScroll={handleMessagesScroll}
+        className="flex-1 overflow-y-auto p-4 space-y-4 pb-24 max-h-[calc(100vh-12.5rem)]"
+      >
+        {hasEarlier && (
+          <div className="flex flex-col items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={loadEarlierMessages}
+              disabled={isLoadingEarlier}
+            >
+              {isLoadingEarlier
+                ? "Loading earlier messages..."
+                : "Load earlier messages"}
+            </Button>
+            {earlierMessagesError && (
+              <p className="text-xs text-red-500">{earlierMessagesError}</p>
+            )}
+          </div>
+        )}
+        {displayedMessages.length === 0 && !isAgentLoading && (
           <div className="h-full flex items-center justify-center">
             <Card className="p-6 max-w-md mx-auto bg-neutral-100 dark:bg-neutral-900">
               <div className="text-center space-y-4">
@@ -667,10 +959,10 @@ const ChatInterface: React.FC<{
           </div>
         )}
 
-        {agentMessages.map((m: Message, index) => {
+        {displayedMessages.map((m: Message, index) => {
           const isUser = m.role === "user";
           const showAvatar =
-            index === 0 || agentMessages[index - 1]?.role !== m.role;
+            index === 0 || displayedMessages[index - 1]?.role !== m.role;
           const messageDate = m.createdAt
             ? new Date(m.createdAt as any)
             : new Date();
@@ -736,10 +1028,8 @@ const ChatInterface: React.FC<{
                         if (part.type === "tool-invocation") {
                           const toolInvocation = part.toolInvocation;
                           const toolCallId = toolInvocation.toolCallId;
-                          const needsConfirmation =
-                            toolsRequiringConfirmation.includes(
-                              toolInvocation.toolName as keyof typeof tools
-                            );
+                          const decision =
+                            toolDecisions[toolInvocation.toolName];
 
                           if (showDebug) return null;
 
@@ -748,13 +1038,36 @@ const ChatInterface: React.FC<{
                               key={`${toolCallId}-${i}`}
                               toolInvocation={toolInvocation}
                               toolCallId={toolCallId}
-                              needsConfirmation={needsConfirmation}
+                              needsConfirmation={decision === "confirm"}
+                              decision={decision}
+                              agentName={toolDecisionsAgent?.name}
                               addToolResult={addToolResult}
+                              progress={toolProgress[toolCallId]}
                             />
                           );
                         }
                         return null;
                       })}
+                      {m.experimental_attachments &&
+                        m.experimental_attachments.length > 0 && (
+                          <div
+                            className={`flex flex-wrap gap-1 mt-1 ${
+                              isUser ? "justify-end" : "justify-start"
+                            }`}
+                          >
+                            {m.experimental_attachments.map(
+                              (attachment, attachmentIndex) => (
+                                <span
+                                  key={`${attachment.name}-${attachmentIndex}`}
+                                  className="inline-flex items-center gap-1 text-xs text-muted-foreground bg-neutral-100 dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-md px-2 py-0.5"
+                                >
+                                  <Paperclip size={12} />
+                                  {attachment.name}
+                                </span>
+                              )
+                            )}
+                          </div>
+                        )}
                     </div>
                   </div>
                 </div>
@@ -775,6 +1088,11 @@ const ChatInterface: React.FC<{
           e.preventDefault();
           if (!enabled || isAgentLoading) return;
 
+          if (matchingPrompts.length > 0) {
+            selectPrompt(matchingPrompts[0]);
+            return;
+          }
+
           // Check if this is the first message in a new thread
           const isFirstMessage =
             agentMessages.length === 0 &&
@@ -782,6 +1100,7 @@ const ChatInterface: React.FC<{
 
           handleAgentSubmit(e, {
             data: { annotations: { hello: "world" } },
+            ...takeResourceAttachments(),
           });
           setTextareaHeight("auto");
 
@@ -796,8 +1115,53 @@ const ChatInterface: React.FC<{
         }}
         className="p-3 bg-neutral-50 absolute bottom-0 left-0 right-0 z-10 border-t border-neutral-300 dark:border-neutral-800 dark:bg-neutral-900"
       >
+        {activePrompt && (
+          <MCPPromptArgumentsForm
+            key={`${activePrompt.serverId}:${activePrompt.name}`}
+            prompt={activePrompt}
+            isRunning={isRunningPrompt}
+            error={promptError}
+            onRun={(args) => runPrompt(activePrompt, args)}
+            onCancel={() => {
+              setActivePrompt(null);
+              setPromptError(null);
+            }}
+          />
+        )}
+        {resourceAttachments.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-2">
+            {resourceAttachments.map((attachment, index) => (
+              <span
+                key={`${attachment.name}-${index}`}
+                className="inline-flex items-center gap-1 text-xs bg-neutral-100 dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-md pl-2 pr-1 py-0.5"
+              >
+                <Paperclip size={12} />
+                {attachment.name}
+                <button
+                  type="button"
+                  onClick={() =>
+                    setResourceAttachments((prev) =>
+                      prev.filter((_, i) => i !== index)
+                    )
+                  }
+                  className="rounded hover:bg-neutral-200 dark:hover:bg-neutral-700 p-0.5"
+                  aria-label={`Remove ${attachment.name}`}
+                >
+                  <X size={10} />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
         <div className="flex items-center gap-2">
           <div className="flex-1 relative">
+            {slashCommand && (isLoadingPrompts || mcpPrompts.length > 0) && (
+              <MCPPromptCommandMenu
+                prompts={matchingPrompts}
+                isLoading={isLoadingPrompts}
+                onSelect={selectPrompt}
+              />
+            )}
             <Textarea
               disabled={
                 !enabled || pendingToolCallConfirmation || isAgentLoading
@@ -825,12 +1189,21 @@ const ChatInterface: React.FC<{
                 ) {
                   e.preventDefault();
 
+                  // Enter on a slash command picks the best matching prompt
+                  if (matchingPrompts.length > 0) {
+                    selectPrompt(matchingPrompts[0]);
+                    return;
+                  }
+
                   // Check if this is the first message in a new thread
                   const isFirstMessage =
                     agentMessages.length === 0 &&
                     (!historyMessages || historyMessages.length === 0);
 
-                  handleAgentSubmit(e as unknown as React.FormEvent);
+                  handleAgentSubmit(
+                    e as unknown as React.FormEvent,
+                    takeResourceAttachments()
+                  );
                   setTextareaHeight("auto");
 
                   // If this is the first message, refresh threads after a short delay
@@ -848,6 +1221,50 @@ const ChatInterface: React.FC<{
               rows={2}
               style={{ height: textareaHeight }}
             />
+            <div className="absolute bottom-0 left-0 p-2 w-fit flex items-center gap-1">
+              <MCPResourcePicker
+                threadId={currentThreadId}
+                disabled={!enabled || isAgentLoading}
+                onAttach={(attachments) =>
+                  setResourceAttachments((prev) => [...prev, ...attachments])
+                }
+              />
+              <select
+                aria-label="Thread model"
+                value={threadSettings.model || ""}
+                onChange={(e) => handleThreadModelChange(e.target.value)}
+                disabled={!enabled || isAgentLoading}
+                className="max-w-48 truncate bg-transparent text-xs text-muted-foreground rounded-md px-1 py-0.5 border border-transparent hover:border-neutral-200 dark:hover:border-neutral-700 focus:outline-none"
+              >
+                <option value="">Agent default model</option>
+                {threadSettings.model &&
+                  !modelProviders.some((provider) =>
+                    provider.models.includes(threadSettings.model as string)
+                  ) && (
+                    <option value={threadSettings.model}>
+                      {threadSettings.model}
+                    </option>
+                  )}
+                {modelProviders
+                  .filter((provider) => provider.models.length > 0)
+                  .map((provider) => (
+                    <optgroup
+                      key={provider.id}
+                      label={
+                        provider.configured
+                          ? provider.name
+                          : `${provider.name} (not configured)`
+                      }
+                    >
+                      {provider.models.map((model) => (
+                        <option key={model} value={model}>
+                          {model.slice(provider.id.length + 1)}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ))}
+              </select>
+            </div>
             <div className="absolute bottom-0 right-0 p-2 w-fit flex flex-row justify-end">
               {isAgentLoading ? (
                 <button
@@ -1251,6 +1668,12 @@ export default function Chat() {
     }
   };
 
+  // A server's tools changed while connected, show its current tools
+  const reloadMCPServers = () => {
+    loadIndependentMCPServers();
+    loadCurrentThreadMCPServers();
+  };
+
   const handleCreateIndependentMCPServer = async (serverConfig: any) => {
     try {
       const response = await fetch('/api/mcp-servers-independent', {
@@ -1527,9 +1950,6 @@ export default function Chat() {
                 <p className="text-sm">Loading user...</p>
               ) : currentUser ? (
                 <div className="flex items-center gap-2 sm:gap-4">
-                  <span className="text-sm hidden sm:block">
-                    Welcome, {currentUser.username}!
-                  </span>
                   <div className="flex items-center gap-1">
                     <NotificationButton onNavigateToChat={handleThreadSelect} />
                     <Button
@@ -1547,21 +1967,69 @@ export default function Chat() {
                       )}
                     </Button>
                   </div>
-                  <button
-                    onClick={async () => {
-                      try {
-                        await fetch("/auth/logout", { method: "GET" });
-                        setCurrentUser(null);
-                        window.location.reload();
-                      } catch (error) {
-                        console.error("Logout failed:", error);
-                        window.location.href = "/auth/logout";
-                      }
-                    }}
-                    className="px-3 py-1.5 text-sm bg-red-500 text-white rounded hover:bg-red-600"
+                  <DropdownMenu
+                    align="end"
+                    side="bottom"
+                    sideOffset={6}
+                    size="sm"
+                    MenuItems={[
+                      {
+                        type: "title",
+                        titleContent: (
+                          <span className="text-xs text-muted-foreground">
+                            Signed in as {currentUser.username}
+                          </span>
+                        ),
+                      },
+                      {
+                        type: "button",
+                        label: "Log out",
+                        icon: <SignOut />,
+                        onClick: async () => {
+                          try {
+                            await fetch("/auth/logout", { method: "GET" });
+                            setCurrentUser(null);
+                            window.location.reload();
+                          } catch (error) {
+                            console.error("Logout failed:", error);
+                            window.location.href = "/auth/logout";
+                          }
+                        },
+                      },
+                      { type: "divider" },
+                      {
+                        type: "button",
+                        label: "Log out all devices",
+                        destructiveAction: true,
+                        onClick: async () => {
+                          try {
+                            const response = await fetch("/auth/sessions", {
+                              method: "DELETE",
+                            });
+                            if (!response.ok) {
+                              throw new Error(
+                                `Failed to revoke sessions: ${response.status}`
+                              );
+                            }
+                            setCurrentUser(null);
+                            window.location.reload();
+                          } catch (error) {
+                            console.error(
+                              "Failed to log out all devices:",
+                              error
+                            );
+                          }
+                        },
+                      },
+                    ]}
                   >
-                    Logout
-                  </button>
+                    <span className="flex items-center gap-1 text-sm">
+                      <span className="hidden sm:block">
+                        {currentUser.username}
+                      </span>
+                      <CaretDown size={14} />
+                    </span>
+                  </DropdownMenu>
                 </div>
               ) : (
                 <a
@@ -1591,6 +2059,7 @@ export default function Chat() {
               currentUser={currentUser}
               setCurrentUser={setCurrentUser}
               currentThreadId={currentThreadId}
+              onToolsUpdated={reloadMCPServers}
             />
           )}
 
@@ -1632,6 +2101,11 @@ export default function Chat() {
               onCreateMCPServer={handleCreateMCPServer}
               onUpdateMCPServer={handleUpdateMCPServer}
               onDeleteMCPServer={handleDeleteMCPServer}
+              onAgentImported={() => {
+                loadAvailableAgents();
+                loadMcpGroups();
+                loadIndependentMCPServers();
+              }}
             />
           </div>
         </div>
@@ -1649,6 +2123,7 @@ export default function Chat() {
               onUpdateServer={handleUpdateIndependentMCPServer}
               onDeleteServer={handleDeleteIndependentMCPServer}
               onTestServer={handleTestIndependentMCPServer}
+              onServersImported={loadIndependentMCPServers}
             />
           </div>
         </div>
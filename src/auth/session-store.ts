@@ -0,0 +1,207 @@
+/**
+ * Server-side session records in D1
+ * Each session cookie points at a row here, so sessions can be listed,
+ * revoked one by one, or revoked everywhere at once.
+ */
+
+export interface SessionRecord {
+  id: string;
+  userId: string;
+  username: string;
+  userAgent?: string;
+  ip?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+}
+
+interface SessionRow {
+  id: string;
+  user_id: string;
+  username: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+}
+
+export interface SessionClientInfo {
+  userAgent?: string;
+  ip?: string;
+}
+
+// Avoid a write on every request, last-seen only needs to be roughly right
+const LAST_SEEN_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+const toRecord = (row: SessionRow): SessionRecord => ({
+  id: row.id,
+  userId: row.user_id,
+  username: row.username,
+  userAgent: row.user_agent || undefined,
+  ip: row.ip || undefined,
+  createdAt: row.created_at,
+  lastSeenAt: row.last_seen_at,
+  expiresAt: row.expires_at,
+});
+
+/**
+ * Client details recorded with a session
+ */
+export function getSessionClientInfo(request: Request): SessionClientInfo {
+  return {
+    userAgent: request.headers.get("User-Agent") || undefined,
+    ip:
+      request.headers.get("CF-Connecting-IP") ||
+      request.headers.get("X-Forwarded-For")?.split(",")[0].trim() ||
+      undefined,
+  };
+}
+
+/**
+ * Create a session record and return its opaque ID
+ */
+export async function createSessionRecord(
+  db: D1Database,
+  session: { userId: string; username: string; expiresAt: Date },
+  client: SessionClientInfo = {}
+): Promise<string> {
+  const id = Buffer.from(crypto.getRandomValues(new Uint8Array(32))).toString(
+    "base64url"
+  );
+  const now = new Date().toISOString();
+
+  await db
+    .prepare(
+      `
+      INSERT INTO sessions (id, user_id, username, user_agent, ip, created_at, last_seen_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `
+    )
+    .bind(
+      id,
+      session.userId,
+      session.username,
+      client.userAgent || null,
+      client.ip || null,
+      now,
+      now,
+      session.expiresAt.toISOString()
+    )
+    .run();
+
+  return id;
+}
+
+/**
+ * Look up an active session, or null if it is unknown, revoked or expired
+ */
+export async function getActiveSession(
+  db: D1Database,
+  sessionId: string
+): Promise<SessionRecord | null> {
+  const row = await db
+    .prepare(
+      `
+      SELECT id, user_id, username, user_agent, ip, created_at, last_seen_at, expires_at
+      FROM sessions
+      WHERE id = ? AND revoked_at IS NULL AND expires_at > ?
+    `
+    )
+    .bind(sessionId, new Date().toISOString())
+    .first<SessionRow>();
+
+  return row ? toRecord(row) : null;
+}
+
+/**
+ * Record that a session was used, at most once per update interval
+ */
+export async function touchSession(
+  db: D1Database,
+  session: SessionRecord,
+  client: SessionClientInfo = {}
+): Promise<void> {
+  const lastSeen = new Date(session.lastSeenAt).getTime();
+  if (Date.now() - lastSeen < LAST_SEEN_UPDATE_INTERVAL_MS) {
+    return;
+  }
+
+  await db
+    .prepare(
+      `
+      UPDATE sessions
+      SET last_seen_at = ?, user_agent = COALESCE(?, user_agent), ip = COALESCE(?, ip)
+      WHERE id = ?
+    `
+    )
+    .bind(
+      new Date().toISOString(),
+      client.userAgent || null,
+      client.ip || null,
+      session.id
+    )
+    .run();
+}
+
+export async function listSessions(
+  db: D1Database,
+  userId: string
+): Promise<SessionRecord[]> {
+  const rows = await db
+    .prepare(
+      `
+      SELECT id, user_id, username, user_agent, ip, created_at, last_seen_at, expires_at
+      FROM sessions
+      WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+      ORDER BY last_seen_at DESC
+    `
+    )
+    .bind(userId, new Date().toISOString())
+    .all<SessionRow>();
+
+  return rows.results.map(toRecord);
+}
+
+/**
+ * Revoke one of the user's sessions. Returns false if the user has no such session.
+ */
+export async function revokeSession(
+  db: D1Database,
+  userId: string,
+  sessionId: string
+): Promise<boolean> {
+  const result = await db
+    .prepare(
+      `
+      UPDATE sessions
+      SET revoked_at = ?
+      WHERE id = ? AND user_id = ? AND revoked_at IS NULL
+    `
+    )
+    .bind(new Date().toISOString(), sessionId, userId)
+    .run();
+
+  return result.meta.changes > 0;
+}
+
+/**
+ * Revoke every active session of a user ("log out everywhere")
+ */
+export async function revokeAllSessions(
+  db: D1Database,
+  userId: string
+): Promise<number> {
+  const result = await db
+    .prepare(
+      `
+      UPDATE sessions
+      SET revoked_at = ?
+      WHERE user_id = ? AND revoked_at IS NULL
+    `
+    )
+    .bind(new Date().toISOString(), userId)
+    .run();
+
+  return result.meta.changes;
+}
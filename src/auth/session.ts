@@ -1,37 +1,241 @@
 import { type SerializeOptions, serialize } from "cookie"; // We'll need to install 'cookie'
+import {
+  getActiveSession,
+  getSessionClientInfo,
+  touchSession,
+} from "./session-store";
 
 export interface SessionData {
   userId: string;
   username: string;
   accessToken?: string; // Optional: store if needed for GitHub API calls
-  // consider adding iat (issued at) and exp (expires at) if not relying on cookie's Max-Age/Expires
+  sid?: string; // Server-side session ID, see session-store.ts
+  iat?: number; // Issued at, seconds since epoch
+  exp?: number; // Expires at, seconds since epoch
+}
+
+/**
+ * Secrets used to sign and encrypt session cookies.
+ * New cookies are always issued with the first secret, the others are only
+ * accepted so sessions survive a key rotation.
+ */
+export interface SessionKeyOptions {
+  secrets: string[];
+  encrypt: boolean;
 }
 
 const SESSION_COOKIE_NAME = "__session";
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7; // 1 week
 // Default cookie options - Secure should be true in production
 const defaultCookieOptions: SerializeOptions = {
   httpOnly: true,
   secure: process.env.NODE_ENV === "production", // Needs NODE_ENV to be set appropriately
   path: "/",
   sameSite: "lax", // CSRF protection
-  maxAge: 60 * 60 * 24 * 7, // 1 week
+  maxAge: SESSION_MAX_AGE_SECONDS,
 };
 
-// This function will be more complex if we add signing/encryption
-// For now, it's a simple JSON stringification and Base64 encoding
-export function createSessionCookie(
+// Token formats: "s1.<payload>.<sig>" (signed) and "e1.<iv>.<ciphertext>.<sig>" (encrypted and signed)
+const SIGNED_VERSION = "s1";
+const ENCRYPTED_VERSION = "e1";
+// Tolerate small clock differences between isolates when checking iat
+const CLOCK_SKEW_SECONDS = 60;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Read the session keys from the environment.
+ * SESSION_SECRET is the current key, SESSION_SECRET_PREVIOUS holds a comma
+ * separated list of retired keys that are still accepted.
+ */
+export function getSessionKeyOptions(): SessionKeyOptions {
+  const current = process.env.SESSION_SECRET;
+  const previous = (process.env.SESSION_SECRET_PREVIOUS || "")
+    .split(",")
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+  return {
+    secrets: current ? [current, ...previous] : previous,
+    encrypt: process.env.SESSION_ENCRYPT !== "false",
+  };
+}
+
+interface SessionKeys {
+  signKey: CryptoKey;
+  encryptKey: CryptoKey;
+}
+
+const derivedKeys = new Map<string, Promise<SessionKeys>>();
+
+// Separate HMAC and AES keys are derived from each secret with HKDF
+function deriveKeys(secret: string): Promise<SessionKeys> {
+  let keys = derivedKeys.get(secret);
+  if (!keys) {
+    keys = (async () => {
+      const material = await crypto.subtle.importKey(
+        "raw",
+        encoder.encode(secret),
+        "HKDF",
+        false,
+        ["deriveKey"]
+      );
+      const hkdf = (info: string) => ({
+        name: "HKDF",
+        hash: "SHA-256",
+        salt: new Uint8Array(0),
+        info: encoder.encode(info),
+      });
+      const [signKey, encryptKey] = await Promise.all([
+        crypto.subtle.deriveKey(
+          hkdf("session-sign"),
+          material,
+          { name: "HMAC", hash: "SHA-256", length: 256 },
+          false,
+          ["sign", "verify"]
+        ),
+        crypto.subtle.deriveKey(
+          hkdf("session-encrypt"),
+          material,
+          { name: "AES-GCM", length: 256 },
+          false,
+          ["encrypt", "decrypt"]
+        ),
+      ]);
+      return { signKey, encryptKey };
+    })();
+    derivedKeys.set(secret, keys);
+  }
+  return keys;
+}
+
+const toBase64Url = (data: ArrayBuffer | Uint8Array) =>
+  Buffer.from(
+    data instanceof Uint8Array ? data : new Uint8Array(data)
+  ).toString("base64url");
+
+const fromBase64Url = (value: string) =>
+  new Uint8Array(Buffer.from(value, "base64url"));
+
+/**
+ * Serialize session data into a signed (and optionally encrypted) token
+ */
+export async function sealSession(
+  sessionData: SessionData,
+  keyOptions: SessionKeyOptions
+): Promise<string> {
+  const [secret] = keyOptions.secrets;
+  if (!secret) {
+    throw new Error("SESSION_SECRET is not configured");
+  }
+
+  const { signKey, encryptKey } = await deriveKeys(secret);
+  const payload = encoder.encode(JSON.stringify(sessionData));
+
+  let unsigned: string;
+  if (keyOptions.encrypt) {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      encryptKey,
+      payload
+    );
+    unsigned = `${ENCRYPTED_VERSION}.${toBase64Url(iv)}.${toBase64Url(ciphertext)}`;
+  } else {
+    unsigned = `${SIGNED_VERSION}.${toBase64Url(payload)}`;
+  }
+
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    signKey,
+    encoder.encode(unsigned)
+  );
+  return `${unsigned}.${toBase64Url(signature)}`;
+}
+
+/**
+ * Verify a session token and return its data, or null if the token is
+ * forged, tampered with, signed with an unknown key or expired.
+ */
+export async function unsealSession(
+  token: string,
+  keyOptions: SessionKeyOptions,
+  now: number = Math.floor(Date.now() / 1000)
+): Promise<SessionData | null> {
+  const separator = token.lastIndexOf(".");
+  if (separator <= 0) {
+    return null;
+  }
+  const unsigned = token.slice(0, separator);
+  const parts = unsigned.split(".");
+  const isEncrypted = parts[0] === ENCRYPTED_VERSION && parts.length === 3;
+  const isSigned = parts[0] === SIGNED_VERSION && parts.length === 2;
+  if (!isEncrypted && !isSigned) {
+    return null;
+  }
+
+  const signature = fromBase64Url(token.slice(separator + 1));
+  for (const secret of keyOptions.secrets) {
+    const { signKey, encryptKey } = await deriveKeys(secret);
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      signKey,
+      signature,
+      encoder.encode(unsigned)
+    );
+    if (!valid) continue;
+
+    const payload = isEncrypted
+      ? await crypto.subtle.decrypt(
+          { name: "AES-GCM", iv: fromBase64Url(parts[1]) },
+          encryptKey,
+          fromBase64Url(parts[2])
+        )
+      : fromBase64Url(parts[1]);
+    const sessionData = JSON.parse(decoder.decode(payload)) as SessionData;
+
+    if (typeof sessionData.exp !== "number" || sessionData.exp <= now) {
+      return null;
+    }
+    if (
+      typeof sessionData.iat !== "number" ||
+      sessionData.iat > now + CLOCK_SKEW_SECONDS
+    ) {
+      return null;
+    }
+    return sessionData;
+  }
+
+  return null;
+}
+
+export async function createSessionCookie(
   sessionData: SessionData,
-  options?: SerializeOptions
-): string {
+  options?: SerializeOptions,
+  keyOptions: SessionKeyOptions = getSessionKeyOptions()
+): Promise<string> {
   const finalOptions = { ...defaultCookieOptions, ...options };
-  const stringifiedData = JSON.stringify(sessionData);
-  // In a real app, you'd sign or encrypt this value using SESSION_SECRET
-  const cookieValue = Buffer.from(stringifiedData).toString("base64");
+  const iat = Math.floor(Date.now() / 1000);
+  const cookieValue = await sealSession(
+    {
+      ...sessionData,
+      iat,
+      exp: iat + (finalOptions.maxAge ?? defaultCookieOptions.maxAge ?? 0),
+    },
+    keyOptions
+  );
   return serialize(SESSION_COOKIE_NAME, cookieValue, finalOptions);
 }
 
+export interface GetSessionOptions {
+  /** Session store, when given the cookie must reference an active session */
+  db?: D1Database;
+  keys?: SessionKeyOptions;
+}
+
 export async function getSession(
-  request: Request
+  request: Request,
+  { db, keys = getSessionKeyOptions() }: GetSessionOptions = {}
 ): Promise<SessionData | null> {
   const cookieHeader = request.headers.get("Cookie");
   if (!cookieHeader) {
@@ -47,16 +251,28 @@ export async function getSession(
     return null;
   }
 
-  const cookieValue = sessionCookie.split("=")[1];
+  const cookieValue = sessionCookie
+    .trim()
+    .slice(SESSION_COOKIE_NAME.length + 1);
   if (!cookieValue) {
     return null;
   }
 
   try {
-    // In a real app, you'd verify the signature or decrypt this value
-    const decodedValue = Buffer.from(cookieValue, "base64").toString("utf-8");
-    const sessionData = JSON.parse(decodedValue) as SessionData;
-    // Here you might add checks for session expiry if you stored it in the sessionData
+    const sessionData = await unsealSession(cookieValue, keys);
+    if (!sessionData || !db) {
+      return sessionData;
+    }
+
+    // Revoked sessions and cookies issued before the store existed are rejected
+    if (!sessionData.sid) {
+      return null;
+    }
+    const record = await getActiveSession(db, sessionData.sid);
+    if (!record || record.userId !== sessionData.userId) {
+      return null;
+    }
+    await touchSession(db, record, getSessionClientInfo(request));
     return sessionData;
   } catch (error) {
     console.error("Failed to parse session cookie:", error);
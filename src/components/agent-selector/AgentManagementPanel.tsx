@@ -1,7 +1,12 @@
-import React, { useState } from 'react';
-import { Plus, Gear, X, CaretDown, CaretRight } from '@phosphor-icons/react';
-import type { Agent, MCPGroup } from '../../types/mcp';
+import React, { useRef, useState } from 'react';
+import { Plus, Gear, X, CaretDown, CaretRight, DownloadSimple, UploadSimple } from '@phosphor-icons/react';
+import type { Agent, MCPGroup, ToolRules } from '../../types/mcp';
 import { MCPServerConfigModal } from '../mcp-config/MCPServerConfigModal';
+import { useModelOptions } from '../../hooks/useModelOptions';
+import { useAgentTools } from '../../hooks/useAgentTools';
+import { isToolAllowed } from '../../lib/tool-rules';
+import { agentExportUrl, uploadAgentBundle } from '../../lib/agent-bundles-client';
+import type { AgentBundleConflict } from '../../lib/agent-bundles';
 
 interface AgentManagementPanelProps {
     isOpen: boolean;
@@ -14,6 +19,8 @@ interface AgentManagementPanelProps {
     onCreateMCPServer?: (groupId: string, server: any) => Promise<void>;
     onUpdateMCPServer?: (serverId: string, updates: any) => Promise<void>;
     onDeleteMCPServer?: (serverId: string) => Promise<void>;
+    // Called after a bundle was imported so agents and groups can be reloaded
+    onAgentImported?: () => void;
 }
 
 const colors = [
@@ -25,6 +32,15 @@ const colors = [
     { name: 'Pink', value: 'pink', bg: 'bg-pink-100 dark:bg-pink-900', text: 'text-pink-800 dark:text-pink-200', border: 'border-pink-200 dark:border-pink-700' },
 ];
 
+// Tool patterns are entered separated by commas or new lines
+const parsePatterns = (value: string) =>
+    value.split(/[,\n]/).map(pattern => pattern.trim()).filter(Boolean);
+
+const toToolRules = (allowedTools: string, deniedTools: string): ToolRules | null => {
+    const rules = { allow: parsePatterns(allowedTools), deny: parsePatterns(deniedTools) };
+    return rules.allow.length === 0 && rules.deny.length === 0 ? null : rules;
+};
+
 export const AgentManagementPanel: React.FC<AgentManagementPanelProps> = ({
     isOpen,
     onClose,
@@ -35,7 +51,8 @@ export const AgentManagementPanel: React.FC<AgentManagementPanelProps> = ({
     onDeleteAgent,
     onCreateMCPServer,
     onUpdateMCPServer,
-    onDeleteMCPServer
+    onDeleteMCPServer,
+    onAgentImported
 }) => {
     const [editingAgent, setEditingAgent] = useState<Agent | null>(null);
     const [isCreating, setIsCreating] = useState(false);
@@ -56,8 +73,20 @@ export const AgentManagementPanel: React.FC<AgentManagementPanelProps> = ({
         description: '',
         persona: '',
         color: 'blue',
-        mcpGroupIds: [] as string[]
+        mcpGroupIds: [] as string[],
+        model: '',
+        temperature: '',
+        maxTokens: '',
+        allowedTools: '',
+        deniedTools: ''
     });
+    const importInput = useRef<HTMLInputElement>(null);
+    const [importConflict, setImportConflict] = useState<AgentBundleConflict>('rename');
+    const [importMessage, setImportMessage] = useState<string | null>(null);
+    const modelProviders = useModelOptions(isOpen);
+    const agentTools = useAgentTools(isOpen && editingAgent ? editingAgent.id : null);
+    // Preview the rules being edited, the server only knows the saved ones
+    const formToolRules = toToolRules(formData.allowedTools, formData.deniedTools);
 
     const resetForm = () => {
         setFormData({
@@ -65,12 +94,40 @@ export const AgentManagementPanel: React.FC<AgentManagementPanelProps> = ({
             description: '',
             persona: '',
             color: 'blue',
-            mcpGroupIds: []
+            mcpGroupIds: [],
+            model: '',
+            temperature: '',
+            maxTokens: '',
+            allowedTools: '',
+            deniedTools: ''
         });
         setEditingAgent(null);
         setIsCreating(false);
     };
 
+    const handleImportFile = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            const result = await uploadAgentBundle(file, importConflict);
+            const needsCredentials = result.servers.filter(server => server.needsCredentials).length;
+            setImportMessage(
+                [
+                    result.agent.status === 'skipped'
+                        ? `Skipped "${result.agent.name}"`
+                        : `Imported "${result.agent.name}"`,
+                    needsCredentials > 0 && `${needsCredentials} server${needsCredentials === 1 ? ' needs' : 's need'} credentials`,
+                    ...result.warnings
+                ].filter(Boolean).join('. ')
+            );
+            onAgentImported?.();
+        } catch (error) {
+            setImportMessage(error instanceof Error ? error.message : 'Import failed');
+        } finally {
+            // Choosing the same file again imports it again
+            if (importInput.current) importInput.current.value = '';
+        }
+    };
+
     const startCreating = () => {
         resetForm();
         setIsCreating(true);
@@ -79,11 +136,21 @@ export const AgentManagementPanel: React.FC<AgentManagementPanelProps> = ({
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
 
+        // Empty model settings clear the override and use the default model
+        const { allowedTools, deniedTools, ...fields } = formData;
+        const agentData = {
+            ...fields,
+            model: formData.model.trim() || null,
+            temperature: formData.temperature === '' ? null : Number(formData.temperature),
+            maxTokens: formData.maxTokens === '' ? null : Number(formData.maxTokens),
+            toolRules: toToolRules(allowedTools, deniedTools)
+        };
+
         if (editingAgent) {
-            onUpdateAgent(editingAgent.id, formData);
+            onUpdateAgent(editingAgent.id, agentData);
         } else {
             onCreateAgent({
-                ...formData,
+                ...agentData,
                 isActive: false,
                 lastUsed: undefined
             });
@@ -126,7 +193,7 @@ export const AgentManagementPanel: React.FC<AgentManagementPanelProps> = ({
         id?: string;
         name: string;
         url: string;
-        transport: 'websocket' | 'sse';
+        transport: 'websocket' | 'sse' | 'streamable-http';
         authType: 'none' | 'apikey' | 'basic' | 'oauth2' | 'custom';
         credentials?: {
             apiKey?: string;
@@ -177,7 +244,12 @@ export const AgentManagementPanel: React.FC<AgentManagementPanelProps> = ({
             description: agent.description || '',
             persona: agent.persona || '',
             color: agent.color,
-            mcpGroupIds: agent.mcpGroupIds
+            mcpGroupIds: agent.mcpGroupIds,
+            model: agent.model || '',
+            temperature: agent.temperature != null ? String(agent.temperature) : '',
+            maxTokens: agent.maxTokens != null ? String(agent.maxTokens) : '',
+            allowedTools: agent.toolRules?.allow.join(', ') ?? '',
+            deniedTools: agent.toolRules?.deny.join(', ') ?? ''
         });
         setEditingAgent(agent);
         setIsCreating(true);
@@ -204,14 +276,46 @@ export const AgentManagementPanel: React.FC<AgentManagementPanelProps> = ({
                     <div className="w-1/2 p-6 border-r border-gray-200 dark:border-neutral-700 overflow-y-auto">
                         <div className="flex items-center justify-between mb-4">
                             <h3 className="text-lg font-medium text-gray-900 dark:text-neutral-100">Your Agents</h3>
-                            <button
-                                onClick={startCreating}
-                                className="flex items-center space-x-2 px-3 py-2 bg-blue-600 dark:bg-blue-700 text-white rounded-lg hover:bg-blue-700 dark:hover:bg-blue-800"
-                            >
-                                <Plus className="h-4 w-4" />
-                                <span>New Agent</span>
-                            </button>
+                            <div className="flex items-center space-x-2">
+                                <select
+                                    aria-label="When names match"
+                                    value={importConflict}
+                                    onChange={(e) => setImportConflict(e.target.value as AgentBundleConflict)}
+                                    className="px-2 py-2 text-sm border border-gray-300 dark:border-neutral-600 rounded-lg bg-white dark:bg-neutral-800 text-gray-700 dark:text-neutral-300"
+                                    title="What to do with agents and tool groups named like existing ones"
+                                >
+                                    <option value="rename">Rename</option>
+                                    <option value="merge">Merge</option>
+                                    <option value="skip">Skip</option>
+                                </select>
+                                <button
+                                    type="button"
+                                    onClick={() => importInput.current?.click()}
+                                    className="flex items-center space-x-2 px-3 py-2 border border-gray-300 dark:border-neutral-600 text-gray-700 dark:text-neutral-300 rounded-lg hover:bg-gray-100 dark:hover:bg-neutral-800"
+                                >
+                                    <UploadSimple className="h-4 w-4" />
+                                    <span>Import</span>
+                                </button>
+                                <input
+                                    ref={importInput}
+                                    type="file"
+                                    accept="application/json,.json"
+                                    aria-label="Agent bundle"
+                                    className="hidden"
+                                    onChange={(e) => handleImportFile(e.target.files?.[0])}
+                                />
+                                <button
+                                    onClick={startCreating}
+                                    className="flex items-center space-x-2 px-3 py-2 bg-blue-600 dark:bg-blue-700 text-white rounded-lg hover:bg-blue-700 dark:hover:bg-blue-800"
+                                >
+                                    <Plus className="h-4 w-4" />
+                                    <span>New Agent</span>
+                                </button>
+                            </div>
                         </div>
+                        {importMessage && (
+                            <p className="mb-4 text-sm text-gray-600 dark:text-neutral-300">{importMessage}</p>
+                        )}
 
                         <div className="space-y-3">
                             {agents.map((agent) => (
@@ -235,6 +339,7 @@ export const AgentManagementPanel: React.FC<AgentManagementPanelProps> = ({
                                             )}
                                             <div className="flex items-center space-x-4 text-xs text-gray-500 dark:text-neutral-400">
                                                 <span>{agent.mcpGroupIds.length} tool groups</span>
+                                                {agent.toolRules && <span>Restricted tools</span>}
                                                 <span>Used {agent.usageCount} times</span>
                                                 {agent.lastUsed && (
                                                     <span>Last used {new Date(agent.lastUsed).toLocaleDateString()}</span>
@@ -242,6 +347,14 @@ export const AgentManagementPanel: React.FC<AgentManagementPanelProps> = ({
                                             </div>
                                         </div>
                                         <div className="flex items-center space-x-2">
+                                            <a
+                                                href={agentExportUrl(agent.id)}
+                                                download
+                                                title="Export agent"
+                                                className="p-2 hover:bg-gray-100 dark:hover:bg-neutral-700 rounded-full"
+                                            >
+                                                <DownloadSimple className="h-4 w-4 text-gray-500 dark:text-neutral-400" />
+                                            </a>
                                             <button
                                                 onClick={() => startEdit(agent)}
                                                 className="p-2 hover:bg-gray-100 dark:hover:bg-neutral-700 rounded-full"
@@ -320,6 +433,64 @@ export const AgentManagementPanel: React.FC<AgentManagementPanelProps> = ({
                                     />
                                 </div>
 
+                                <div>
+                                    <label htmlFor="model" className="block text-sm font-medium text-gray-700 dark:text-neutral-300 mb-1">
+                                        Model
+                                    </label>
+                                    <input
+                                        type="text"
+                                        id="model"
+                                        list="agent-model-options"
+                                        value={formData.model}
+                                        onChange={(e) => setFormData({ ...formData, model: e.target.value })}
+                                        className="w-full px-3 py-2 border border-gray-300 dark:border-neutral-600 bg-white dark:bg-neutral-700 text-gray-900 dark:text-neutral-100 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                        placeholder="Default model (e.g., openai:gpt-4o-mini, anthropic:claude-3-5-haiku-latest)"
+                                    />
+                                    <datalist id="agent-model-options">
+                                        {modelProviders.flatMap((provider) =>
+                                            provider.models.map((model) => (
+                                                <option key={model} value={model}>
+                                                    {provider.name}{provider.configured ? '' : ' (not configured)'}
+                                                </option>
+                                            ))
+                                        )}
+                                    </datalist>
+                                </div>
+
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label htmlFor="temperature" className="block text-sm font-medium text-gray-700 dark:text-neutral-300 mb-1">
+                                            Temperature
+                                        </label>
+                                        <input
+                                            type="number"
+                                            id="temperature"
+                                            min={0}
+                                            max={2}
+                                            step={0.1}
+                                            value={formData.temperature}
+                                            onChange={(e) => setFormData({ ...formData, temperature: e.target.value })}
+                                            className="w-full px-3 py-2 border border-gray-300 dark:border-neutral-600 bg-white dark:bg-neutral-700 text-gray-900 dark:text-neutral-100 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                            placeholder="Model default"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label htmlFor="maxTokens" className="block text-sm font-medium text-gray-700 dark:text-neutral-300 mb-1">
+                                            Max Tokens
+                                        </label>
+                                        <input
+                                            type="number"
+                                            id="maxTokens"
+                                            min={1}
+                                            step={1}
+                                            value={formData.maxTokens}
+                                            onChange={(e) => setFormData({ ...formData, maxTokens: e.target.value })}
+                                            className="w-full px-3 py-2 border border-gray-300 dark:border-neutral-600 bg-white dark:bg-neutral-700 text-gray-900 dark:text-neutral-100 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                            placeholder="Model default"
+                                        />
+                                    </div>
+                                </div>
+
                                 <div>
                                     <label className="block text-sm font-medium text-gray-700 dark:text-neutral-300 mb-2">
                                         Color Theme
@@ -459,6 +630,79 @@ export const AgentManagementPanel: React.FC<AgentManagementPanelProps> = ({
                                     )}
                                 </div>
 
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label htmlFor="allowedTools" className="block text-sm font-medium text-gray-700 dark:text-neutral-300 mb-1">
+                                            Allowed Tools
+                                        </label>
+                                        <textarea
+                                            id="allowedTools"
+                                            value={formData.allowedTools}
+                                            onChange={(e) => setFormData({ ...formData, allowedTools: e.target.value })}
+                                            className="w-full px-3 py-2 border border-gray-300 dark:border-neutral-600 bg-white dark:bg-neutral-700 text-gray-900 dark:text-neutral-100 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+                                            rows={2}
+                                            placeholder="All tools (e.g., search_*, get_?)"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label htmlFor="deniedTools" className="block text-sm font-medium text-gray-700 dark:text-neutral-300 mb-1">
+                                            Denied Tools
+                                        </label>
+                                        <textarea
+                                            id="deniedTools"
+                                            value={formData.deniedTools}
+                                            onChange={(e) => setFormData({ ...formData, deniedTools: e.target.value })}
+                                            className="w-full px-3 py-2 border border-gray-300 dark:border-neutral-600 bg-white dark:bg-neutral-700 text-gray-900 dark:text-neutral-100 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+                                            rows={2}
+                                            placeholder="None (e.g., delete_*)"
+                                        />
+                                    </div>
+                                </div>
+
+                                {editingAgent && (
+                                    <div>
+                                        <span className="block text-sm font-medium text-gray-700 dark:text-neutral-300 mb-2">
+                                            Effective Tools
+                                        </span>
+                                        {agentTools.isLoading ? (
+                                            <p className="text-sm text-gray-500 dark:text-neutral-400 italic">Loading tools...</p>
+                                        ) : agentTools.servers.length === 0 ? (
+                                            <p className="text-sm text-gray-500 dark:text-neutral-400 italic">
+                                                The agent's saved tool groups have no enabled servers.
+                                            </p>
+                                        ) : (
+                                            <div className="space-y-2 max-h-48 overflow-y-auto">
+                                                {agentTools.servers.map((server) => (
+                                                    <div key={server.id} className="text-xs bg-white dark:bg-neutral-700 border border-gray-200 dark:border-neutral-600 rounded p-2">
+                                                        <div className="font-medium text-gray-700 dark:text-neutral-300 mb-1">{server.name}</div>
+                                                        {server.error ? (
+                                                            <p className="text-red-600 dark:text-red-400">{server.error}</p>
+                                                        ) : (
+                                                            <div className="flex flex-wrap gap-1">
+                                                                {server.tools.map((tool) => {
+                                                                    const allowed = isToolAllowed(formToolRules, tool.name);
+                                                                    return (
+                                                                        <span
+                                                                            key={tool.name}
+                                                                            title={tool.description}
+                                                                            className={`px-2 py-0.5 rounded font-mono ${allowed
+                                                                                ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200'
+                                                                                : 'bg-gray-100 dark:bg-neutral-800 text-gray-400 dark:text-neutral-500 line-through'
+                                                                                }`}
+                                                                        >
+                                                                            {tool.name}
+                                                                        </span>
+                                                                    );
+                                                                })}
+                                                            </div>
+                                                        )}
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
                                 <div className="flex items-center space-x-3 pt-4 border-t border-gray-200 dark:border-neutral-600">
                                     <button
                                         type="submit"
@@ -74,6 +74,18 @@ export const SkillsDropdown: React.FC<SkillsDropdownProps> = ({
         }
     };
 
+    const renderToolCount = (server: IndependentMCPServer) => {
+        if (!server.tools) return null;
+        return (
+            <span
+                className="text-xs text-gray-400 dark:text-neutral-500"
+                title={server.tools.join(", ")}
+            >
+                {server.tools.length} {server.tools.length === 1 ? "tool" : "tools"}
+            </span>
+        );
+    };
+
     return (
         <div className={`relative ${className}`} ref={dropdownRef}>
             {/* Trigger Button */}
@@ -108,6 +120,7 @@ export const SkillsDropdown: React.FC<SkillsDropdownProps> = ({
                                             <span className="text-sm text-gray-900 dark:text-neutral-100">
                                                 {server.name}
                                             </span>
+                                            {renderToolCount(server)}
                                         </div>
                                         <button
                                             onClick={() => handleMCPServerToggle(server)}
@@ -139,6 +152,7 @@ export const SkillsDropdown: React.FC<SkillsDropdownProps> = ({
                                             <span className="text-sm text-gray-900 dark:text-neutral-100 flex-1">
                                                 {server.name}
                                             </span>
+                                            {renderToolCount(server)}
                                             <Plus className="h-3 w-3 text-gray-400" />
                                         </button>
                                     ))}
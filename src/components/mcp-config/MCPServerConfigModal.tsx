@@ -10,15 +10,27 @@ interface MCPServerConfig {
     id?: string;
     name: string;
     url: string;
-    transport: 'websocket' | 'sse';
+    transport: 'websocket' | 'sse' | 'streamable-http';
     authType: 'none' | 'apikey' | 'basic' | 'oauth2' | 'custom';
     credentials?: {
         apiKey?: string;
         username?: string;
         password?: string;
+        oauth2?: {
+            clientId: string;
+            clientSecret?: string;
+            authUrl: string;
+            tokenUrl: string;
+            scopes?: string[];
+        };
     };
+    hasCredentials?: boolean;
     isEnabled: boolean;
     status?: 'connected' | 'disconnected' | 'error' | 'authenticating' | 'pending_auth';
+    tools?: string[];
+    toolTimeouts?: Record<string, number>; // Milliseconds per tool name
+    samplingTrusted?: boolean; // Sampling requests run without asking
+    samplingTokenBudget?: number | null; // Tokens per day, null for the default
 }
 
 interface MCPServerConfigModalProps {
@@ -50,6 +62,8 @@ export const MCPServerConfigModal: React.FC<MCPServerConfigModalProps> = ({
     const [isLoading, setIsLoading] = useState(false);
     const [isTesting, setIsTesting] = useState(false);
     const [testResult, setTestResult] = useState<{ success: boolean; message: string } | null>(null);
+    // Saved credentials are never sent back, so only send them when they were edited
+    const [credentialsChanged, setCredentialsChanged] = useState(false);
 
     // Initialize form data when modal opens
     useEffect(() => {
@@ -68,6 +82,7 @@ export const MCPServerConfigModal: React.FC<MCPServerConfigModalProps> = ({
                 });
             }
             setTestResult(null);
+            setCredentialsChanged(false);
         }
     }, [isOpen, server, mode]);
 
@@ -79,6 +94,7 @@ export const MCPServerConfigModal: React.FC<MCPServerConfigModalProps> = ({
     };
 
     const handleCredentialChange = (field: string, value: any) => {
+        setCredentialsChanged(true);
         setFormData(prev => ({
             ...prev,
             credentials: {
@@ -88,6 +104,37 @@ export const MCPServerConfigModal: React.FC<MCPServerConfigModalProps> = ({
         }));
     };
 
+    const handleOAuthChange = (field: string, value: string | string[] | undefined) => {
+        setCredentialsChanged(true);
+        setFormData(prev => ({
+            ...prev,
+            credentials: {
+                ...prev.credentials,
+                oauth2: {
+                    clientId: '',
+                    authUrl: '',
+                    tokenUrl: '',
+                    ...prev.credentials?.oauth2,
+                    [field]: value
+                }
+            }
+        }));
+    };
+
+    // Timeouts are entered in seconds, an empty field falls back to the default
+    const handleToolTimeoutChange = (toolName: string, seconds: string) => {
+        const timeoutMs = Math.round(Number(seconds) * 1000);
+        setFormData(prev => {
+            const others = Object.entries(prev.toolTimeouts ?? {}).filter(([name]) => name !== toolName);
+            return {
+                ...prev,
+                toolTimeouts: Object.fromEntries(
+                    timeoutMs > 0 ? [...others, [toolName, timeoutMs]] : others
+                )
+            };
+        });
+    };
+
     const testConnection = async () => {
         console.log('🚀 Starting connection test for:', formData.url);
         setIsTesting(true);
@@ -174,7 +221,12 @@ export const MCPServerConfigModal: React.FC<MCPServerConfigModalProps> = ({
 
         setIsLoading(true);
         try {
-            await onSave(formData);
+            if (mode === 'edit' && !credentialsChanged) {
+                const { credentials, ...rest } = formData;
+                await onSave(rest);
+            } else {
+                await onSave(formData);
+            }
             onClose();
         } catch (error) {
             console.error('Failed to save MCP server:', error);
@@ -194,7 +246,7 @@ export const MCPServerConfigModal: React.FC<MCPServerConfigModalProps> = ({
                                 type="password"
                                 initialValue={formData.credentials?.apiKey || ''}
                                 onValueChange={(value) => handleCredentialChange('apiKey', value)}
-                                placeholder="Enter your API key"
+                                placeholder={formData.hasCredentials ? 'Saved, enter a new key to replace it' : 'Enter your API key'}
                             />
                         </Label>
                     </div>
@@ -217,9 +269,64 @@ export const MCPServerConfigModal: React.FC<MCPServerConfigModalProps> = ({
                                 type="password"
                                 initialValue={formData.credentials?.password || ''}
                                 onValueChange={(value) => handleCredentialChange('password', value)}
-                                placeholder="Enter password"
+                                placeholder={formData.hasCredentials ? 'Saved, enter a new password to replace it' : 'Enter password'}
+                            />
+                        </Label>
+                    </div>
+                );
+
+            case 'oauth2':
+                return (
+                    <div className="space-y-4">
+                        {formData.hasCredentials && (
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                                OAuth client settings are saved. Fill in all fields to replace them.
+                            </p>
+                        )}
+                        <Label title="Client ID" htmlFor="oauthClientId">
+                            <Input
+                                id="oauthClientId"
+                                initialValue={formData.credentials?.oauth2?.clientId || ''}
+                                onValueChange={(value) => handleOAuthChange('clientId', value)}
+                                placeholder="Enter the OAuth client ID"
+                            />
+                        </Label>
+                        <Label title="Client Secret" htmlFor="oauthClientSecret">
+                            <Input
+                                id="oauthClientSecret"
+                                type="password"
+                                initialValue={formData.credentials?.oauth2?.clientSecret || ''}
+                                onValueChange={(value) => handleOAuthChange('clientSecret', value || undefined)}
+                                placeholder="Optional for public clients"
+                            />
+                        </Label>
+                        <Label title="Authorization URL" htmlFor="oauthAuthUrl">
+                            <Input
+                                id="oauthAuthUrl"
+                                initialValue={formData.credentials?.oauth2?.authUrl || ''}
+                                onValueChange={(value) => handleOAuthChange('authUrl', value)}
+                                placeholder="https://auth.example.com/authorize"
+                            />
+                        </Label>
+                        <Label title="Token URL" htmlFor="oauthTokenUrl">
+                            <Input
+                                id="oauthTokenUrl"
+                                initialValue={formData.credentials?.oauth2?.tokenUrl || ''}
+                                onValueChange={(value) => handleOAuthChange('tokenUrl', value)}
+                                placeholder="https://auth.example.com/token"
+                            />
+                        </Label>
+                        <Label title="Scopes" htmlFor="oauthScopes">
+                            <Input
+                                id="oauthScopes"
+                                initialValue={formData.credentials?.oauth2?.scopes?.join(' ') || ''}
+                                onValueChange={(value) => handleOAuthChange('scopes', value.split(/\s+/).filter(Boolean))}
+                                placeholder="Space separated, e.g. tools:read tools:write"
                             />
                         </Label>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                            After saving, use Authorize in the server list to sign in with the provider.
+                        </p>
                     </div>
                 );
 
@@ -275,7 +382,13 @@ export const MCPServerConfigModal: React.FC<MCPServerConfigModalProps> = ({
                             >
                                 <option value="websocket">WebSocket</option>
                                 <option value="sse">Server-Sent Events</option>
+                                <option value="streamable-http">Streamable HTTP</option>
                             </select>
+                            {formData.transport === 'streamable-http' && (
+                                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                                    Falls back to Server-Sent Events if the server only supports the older protocol.
+                                </p>
+                            )}
                         </Label>
 
                         <div className="flex items-center space-x-2">
@@ -301,13 +414,14 @@ export const MCPServerConfigModal: React.FC<MCPServerConfigModalProps> = ({
                                 onChange={(e) => {
                                     handleInputChange('authType', e.target.value);
                                     setFormData(prev => ({ ...prev, credentials: {} }));
+                                    setCredentialsChanged(true);
                                 }}
                                 className="w-full px-3 py-2 border border-gray-300 dark:border-neutral-600 rounded-lg bg-white dark:bg-neutral-700 text-gray-900 dark:text-white"
                             >
                                 <option value="none">No Authentication</option>
                                 <option value="apikey">API Key</option>
                                 <option value="basic">Basic Auth</option>
-                                <option value="oauth2">OAuth 2.0 (Future)</option>
+                                <option value="oauth2">OAuth 2.0</option>
                                 <option value="custom">Custom Headers (Future)</option>
                             </select>
                         </Label>
@@ -315,6 +429,68 @@ export const MCPServerConfigModal: React.FC<MCPServerConfigModalProps> = ({
                         {getAuthFormFields()}
                     </div>
 
+                    {/* Tool Timeouts (for edit mode, once the server's tools are known) */}
+                    {mode === 'edit' && formData.tools && formData.tools.length > 0 && (
+                        <div className="space-y-3">
+                            <div>
+                                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Tool Timeouts</span>
+                                <p className="text-sm text-gray-500 dark:text-gray-400">
+                                    Seconds a tool call may run before it is cancelled. Leave empty for the default of 60 seconds.
+                                </p>
+                            </div>
+                            {formData.tools.map((toolName) => (
+                                <Label key={toolName} title={toolName} htmlFor={`toolTimeout-${toolName}`}>
+                                    <Input
+                                        id={`toolTimeout-${toolName}`}
+                                        type="number"
+                                        min={1}
+                                        initialValue={
+                                            formData.toolTimeouts?.[toolName]
+                                                ? String(formData.toolTimeouts[toolName] / 1000)
+                                                : ''
+                                        }
+                                        onValueChange={(value) => handleToolTimeoutChange(toolName, value)}
+                                        placeholder="60"
+                                    />
+                                </Label>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* Sampling */}
+                    <div className="space-y-3">
+                        <div>
+                            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Sampling</span>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                                The server can ask the chat's model for completions. Requests of untrusted servers wait for your approval.
+                            </p>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                            <input
+                                type="checkbox"
+                                id="samplingTrusted"
+                                checked={formData.samplingTrusted ?? false}
+                                onChange={(e) => handleInputChange('samplingTrusted', e.target.checked)}
+                                className="rounded border-gray-300 dark:border-neutral-600 text-blue-600 dark:text-blue-400 focus:ring-blue-500 bg-white dark:bg-neutral-700"
+                            />
+                            <label htmlFor="samplingTrusted" className="text-sm text-gray-700 dark:text-gray-300">
+                                Trust this server to sample without approval
+                            </label>
+                        </div>
+                        <Label title="Daily token budget" htmlFor="samplingTokenBudget">
+                            <Input
+                                id="samplingTokenBudget"
+                                type="number"
+                                min={1}
+                                initialValue={formData.samplingTokenBudget ? String(formData.samplingTokenBudget) : ''}
+                                onValueChange={(value) =>
+                                    handleInputChange('samplingTokenBudget', Number(value) > 0 ? Math.round(Number(value)) : null)
+                                }
+                                placeholder="10000"
+                            />
+                        </Label>
+                    </div>
+
                     {/* Connection Test */}
                     <div className="space-y-3">
                         <div className="flex items-center justify-between">
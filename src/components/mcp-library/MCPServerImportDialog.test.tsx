@@ -0,0 +1,109 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MCPServerImportDialog } from "./MCPServerImportDialog";
+
+const preview = {
+  servers: [
+    {
+      name: "github",
+      url: "https://api.githubcopilot.com/mcp/",
+      transport: "streamable-http",
+      authType: "apikey",
+      headerNames: ["Authorization"],
+      warnings: [],
+    },
+  ],
+  skipped: [
+    {
+      name: "filesystem",
+      reason: 'Runs "npx" locally over stdio, which this app can\'t start.',
+    },
+  ],
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status });
+
+describe("MCPServerImportDialog", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("previews the config before importing it", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(preview))
+      .mockResolvedValueOnce(
+        jsonResponse(
+          {
+            ...preview,
+            servers: [
+              {
+                ...preview.servers[0],
+                id: "server-1",
+                test: { success: true, message: "Connected, 3 tools" },
+              },
+            ],
+          },
+          201
+        )
+      );
+    vi.stubGlobal("fetch", fetchMock);
+    const onImported = vi.fn();
+
+    render(
+      <MCPServerImportDialog isOpen onClose={vi.fn()} onImported={onImported} />
+    );
+    expect(screen.getByText("Import")).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText("Server config"), {
+      target: { value: '{"mcpServers": {}}' },
+    });
+    fireEvent.click(screen.getByText("Preview"));
+
+    expect(await screen.findByText("1 server to import")).toBeInTheDocument();
+    expect(
+      screen.getByText("Credentials from Authorization")
+    ).toBeInTheDocument();
+    expect(screen.getByText(/Runs "npx" locally/)).toBeInTheDocument();
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+      content: '{"mcpServers": {}}',
+      dryRun: true,
+      test: false,
+    });
+
+    fireEvent.click(screen.getByText("Import"));
+
+    expect(await screen.findByText("Imported 1 server")).toBeInTheDocument();
+    expect(screen.getByText("Connected, 3 tools")).toBeInTheDocument();
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({
+      content: '{"mcpServers": {}}',
+      dryRun: false,
+      test: true,
+    });
+    expect(onImported).toHaveBeenCalled();
+  });
+
+  it("shows why a config can't be imported", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValue(
+          jsonResponse({ error: "The config has no mcpServers section" }, 400)
+        )
+    );
+
+    render(
+      <MCPServerImportDialog isOpen onClose={vi.fn()} onImported={vi.fn()} />
+    );
+    fireEvent.change(screen.getByLabelText("Server config"), {
+      target: { value: "servers: []" },
+    });
+    fireEvent.click(screen.getByText("Preview"));
+
+    expect(
+      await screen.findByText("The config has no mcpServers section")
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,214 @@
+import type React from 'react';
+import { useState } from 'react';
+import { X, CloudCheck, CloudX, Warning, Prohibit } from '@phosphor-icons/react';
+import { Modal } from '@/components/modal/Modal';
+import { Button } from '@/components/button/Button';
+import { cn } from '@/lib/utils';
+import { importMCPServers, type MCPImportResult } from '@/lib/mcp-import-client';
+
+interface MCPServerImportDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    // Called once servers were created so the library can reload them
+    onImported: () => void;
+}
+
+const TRANSPORT_LABELS = {
+    websocket: 'WebSocket',
+    sse: 'Server-Sent Events',
+    'streamable-http': 'Streamable HTTP'
+} as const;
+
+const AUTH_LABELS = {
+    none: 'No auth',
+    apikey: 'API Key',
+    basic: 'Basic Auth',
+    custom: 'Custom headers'
+} as const;
+
+const PLACEHOLDER = `{
+  "mcpServers": {
+    "github": {
+      "type": "http",
+      "url": "https://api.githubcopilot.com/mcp/",
+      "headers": { "Authorization": "Bearer ghp_..." }
+    }
+  }
+}`;
+
+/**
+ * Import servers from the mcpServers config of another MCP client. The
+ * config is previewed first, then imported and optionally tested.
+ */
+export const MCPServerImportDialog: React.FC<MCPServerImportDialogProps> = ({
+    isOpen,
+    onClose,
+    onImported
+}) => {
+    const [content, setContent] = useState('');
+    const [testAfterImport, setTestAfterImport] = useState(true);
+    const [preview, setPreview] = useState<MCPImportResult | null>(null);
+    const [imported, setImported] = useState<MCPImportResult | null>(null);
+    // Request in flight, the import can take a while when it tests servers
+    const [pending, setPending] = useState<'preview' | 'import' | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const run = async (dryRun: boolean) => {
+        setPending(dryRun ? 'preview' : 'import');
+        setError(null);
+        try {
+            const result = await importMCPServers(content, { dryRun, test: !dryRun && testAfterImport });
+            if (dryRun) {
+                setPreview(result);
+            } else {
+                setImported(result);
+                onImported();
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Import failed');
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const handleContentChange = (value: string) => {
+        setContent(value);
+        // A preview of the previous config no longer applies
+        setPreview(null);
+    };
+
+    const result = imported ?? preview;
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} clickOutsideToClose={false}>
+            <div className="w-full max-w-2xl bg-white dark:bg-neutral-800 rounded-lg shadow-xl">
+                <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-neutral-600">
+                    <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Import MCP Servers</h2>
+                    <Button variant="ghost" size="sm" onClick={onClose} className="p-2">
+                        <X className="h-5 w-5" />
+                    </Button>
+                </div>
+
+                <div className="p-6 space-y-4 max-h-[60vh] overflow-y-auto">
+                    {!imported && (
+                        <>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                                Paste an <code>mcpServers</code> config as JSON or YAML. Authorization headers become
+                                credentials, local (stdio) servers can't be imported.
+                            </p>
+                            <textarea
+                                aria-label="Server config"
+                                value={content}
+                                onChange={(e) => handleContentChange(e.target.value)}
+                                placeholder={PLACEHOLDER}
+                                rows={10}
+                                spellCheck={false}
+                                className="w-full px-3 py-2 font-mono text-xs border border-gray-300 dark:border-neutral-600 rounded-lg bg-white dark:bg-neutral-700 text-gray-900 dark:text-white"
+                            />
+                            <div className="flex items-center space-x-2">
+                                <input
+                                    type="checkbox"
+                                    id="testAfterImport"
+                                    checked={testAfterImport}
+                                    onChange={(e) => setTestAfterImport(e.target.checked)}
+                                    className="rounded border-gray-300 dark:border-neutral-600 text-blue-600 dark:text-blue-400 focus:ring-blue-500 bg-white dark:bg-neutral-700"
+                                />
+                                <label htmlFor="testAfterImport" className="text-sm text-gray-700 dark:text-gray-300">
+                                    Test each server after importing
+                                </label>
+                            </div>
+                        </>
+                    )}
+
+                    {error && (
+                        <div className="p-3 rounded-lg text-sm bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200">
+                            {error}
+                        </div>
+                    )}
+
+                    {result && (
+                        <div className="space-y-2">
+                            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                                {imported
+                                    ? `Imported ${result.servers.length} server${result.servers.length === 1 ? '' : 's'}`
+                                    : `${result.servers.length} server${result.servers.length === 1 ? '' : 's'} to import`}
+                            </span>
+                            {result.servers.map((server) => (
+                                <div
+                                    key={server.name}
+                                    className="p-3 rounded-lg border border-gray-200 dark:border-neutral-600 text-sm"
+                                >
+                                    <div className="flex items-center justify-between">
+                                        <span className="font-medium text-gray-900 dark:text-white">{server.name}</span>
+                                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                                            {TRANSPORT_LABELS[server.transport]} · {AUTH_LABELS[server.authType]}
+                                        </span>
+                                    </div>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400 break-all">{server.url}</p>
+                                    {server.headerNames.length > 0 && (
+                                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                                            Credentials from {server.headerNames.join(', ')}
+                                        </p>
+                                    )}
+                                    {server.warnings.map((warning) => (
+                                        <p key={warning} className="flex items-center space-x-1 text-xs text-yellow-700 dark:text-yellow-300">
+                                            <Warning className="h-3 w-3" />
+                                            <span>{warning}</span>
+                                        </p>
+                                    ))}
+                                    {server.test && (
+                                        <p className={cn(
+                                            "flex items-center space-x-1 text-xs",
+                                            server.test.success ? "text-green-700 dark:text-green-300" : "text-red-700 dark:text-red-300"
+                                        )}>
+                                            {server.test.success ? <CloudCheck className="h-3 w-3" /> : <CloudX className="h-3 w-3" />}
+                                            <span>{server.test.message}</span>
+                                        </p>
+                                    )}
+                                </div>
+                            ))}
+                            {result.skipped.map((server) => (
+                                <div
+                                    key={server.name}
+                                    className="p-3 rounded-lg border border-gray-200 dark:border-neutral-600 text-sm bg-gray-50 dark:bg-neutral-900"
+                                >
+                                    <div className="flex items-center space-x-1 text-gray-700 dark:text-gray-300">
+                                        <Prohibit className="h-4 w-4" />
+                                        <span className="font-medium">{server.name}</span>
+                                        <span className="text-xs">skipped</span>
+                                    </div>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">{server.reason}</p>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex items-center justify-end space-x-3 p-6 border-t border-gray-200 dark:border-neutral-600">
+                    {imported ? (
+                        <Button onClick={onClose}>Done</Button>
+                    ) : (
+                        <>
+                            <Button variant="ghost" onClick={onClose}>
+                                Cancel
+                            </Button>
+                            <Button
+                                variant="secondary"
+                                onClick={() => run(true)}
+                                disabled={pending !== null || !content.trim()}
+                            >
+                                Preview
+                            </Button>
+                            <Button
+                                onClick={() => run(false)}
+                                disabled={pending !== null || !preview || preview.servers.length === 0}
+                            >
+                                {pending === 'import' ? 'Importing...' : 'Import'}
+                            </Button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </Modal>
+    );
+};
@@ -1,23 +1,31 @@
 import React, { useState } from 'react';
-import { Plus, Gear, X, TestTube, CloudCheck, CloudX, Warning, Database } from '@phosphor-icons/react';
+import { Plus, Gear, X, TestTube, CloudCheck, CloudX, Warning, Database, Key, UploadSimple } from '@phosphor-icons/react';
 import { MCPServerConfigModal } from '../mcp-config/MCPServerConfigModal';
 import { cn } from '@/lib/utils';
+import { authorizeMCPServer } from '@/lib/mcp-oauth-client';
+import { useMCPServerHealth } from '@/hooks/useMCPServerHealth';
+import { ServerHealth } from './ServerHealth';
+import { MCPServerImportDialog } from './MCPServerImportDialog';
 
 interface MCPServer {
     id: string;
     name: string;
     url: string;
-    transport: 'websocket' | 'sse';
+    transport: 'websocket' | 'sse' | 'streamable-http';
     authType: 'none' | 'apikey' | 'basic' | 'oauth2' | 'custom';
     credentials?: {
         apiKey?: string;
         username?: string;
         password?: string;
     };
+    hasCredentials?: boolean;
     isEnabled: boolean;
     status?: 'connected' | 'disconnected' | 'error' | 'authenticating' | 'pending_auth';
     description?: string;
     tools?: string[];
+    toolTimeouts?: Record<string, number>;
+    samplingTrusted?: boolean;
+    samplingTokenBudget?: number | null;
     lastTested?: Date;
     createdAt: Date;
     updatedAt: Date;
@@ -31,6 +39,7 @@ interface MCPServerLibraryProps {
     onUpdateServer: (serverId: string, serverConfig: any) => Promise<void>;
     onDeleteServer: (serverId: string) => Promise<void>;
     onTestServer: (serverId: string) => Promise<{ success: boolean; message: string; tools?: string[] }>;
+    onServersImported?: () => void;
 }
 
 export const MCPServerLibrary: React.FC<MCPServerLibraryProps> = ({
@@ -40,7 +49,8 @@ export const MCPServerLibrary: React.FC<MCPServerLibraryProps> = ({
     onCreateServer,
     onUpdateServer,
     onDeleteServer,
-    onTestServer
+    onTestServer,
+    onServersImported
 }) => {
     const [configModal, setConfigModal] = useState<{
         isOpen: boolean;
@@ -53,6 +63,8 @@ export const MCPServerLibrary: React.FC<MCPServerLibraryProps> = ({
     });
 
     const [testingServers, setTestingServers] = useState<Set<string>>(new Set());
+    const [isImportOpen, setIsImportOpen] = useState(false);
+    const { health, refresh: refreshHealth } = useMCPServerHealth(isOpen);
 
     const handleCreateServer = () => {
         setConfigModal({
@@ -88,6 +100,8 @@ export const MCPServerLibrary: React.FC<MCPServerLibraryProps> = ({
         try {
             await onTestServer(serverId);
         } finally {
+            // The test counts as a health check
+            refreshHealth();
             setTestingServers(prev => {
                 const newSet = new Set(prev);
                 newSet.delete(serverId);
@@ -141,6 +155,14 @@ export const MCPServerLibrary: React.FC<MCPServerLibraryProps> = ({
                             <h2 className="text-xl font-semibold text-gray-900 dark:text-neutral-100">MCP Server Library</h2>
                         </div>
                         <div className="flex items-center space-x-3">
+                            <button
+                                type="button"
+                                onClick={() => setIsImportOpen(true)}
+                                className="flex items-center space-x-2 px-4 py-2 border border-gray-300 dark:border-neutral-600 text-gray-700 dark:text-neutral-300 rounded-lg hover:bg-gray-100 dark:hover:bg-neutral-800"
+                            >
+                                <UploadSimple className="h-4 w-4" />
+                                <span>Import</span>
+                            </button>
                             <button
                                 onClick={handleCreateServer}
                                 className="flex items-center space-x-2 px-4 py-2 bg-blue-600 dark:bg-blue-700 text-white rounded-lg hover:bg-blue-700 dark:hover:bg-blue-800"
@@ -190,6 +212,20 @@ export const MCPServerLibrary: React.FC<MCPServerLibraryProps> = ({
                                                 </p>
                                             </div>
                                             <div className="flex items-center space-x-1 ml-2">
+                                                {server.authType === 'oauth2' && (
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => {
+                                                            authorizeMCPServer(server.id).catch((error) => {
+                                                                console.error('Failed to start authorization:', error);
+                                                            });
+                                                        }}
+                                                        className="p-1.5 hover:bg-yellow-100 dark:hover:bg-yellow-900/20 rounded text-yellow-600 dark:text-yellow-400"
+                                                        title="Authorize"
+                                                    >
+                                                        <Key className="h-4 w-4" />
+                                                    </button>
+                                                )}
                                                 <button
                                                     onClick={() => handleTestServer(server.id)}
                                                     disabled={testingServers.has(server.id)}
@@ -226,16 +262,19 @@ export const MCPServerLibrary: React.FC<MCPServerLibraryProps> = ({
                                                 )}>
                                                     {getStatusIcon(server)}
                                                     <span className="capitalize">
-                                                        {testingServers.has(server.id) ? 'Testing...' : server.status || 'Unknown'}
+                                                        {testingServers.has(server.id) ? 'Testing...' : server.status?.replace('_', ' ') || 'Unknown'}
                                                     </span>
                                                 </div>
                                             </div>
 
+                                            {/* Health over the last day */}
+                                            <ServerHealth health={health.get(server.id)} />
+
                                             {/* Transport */}
                                             <div className="flex items-center justify-between">
                                                 <span className="text-xs text-gray-500 dark:text-neutral-400">Transport</span>
                                                 <span className="text-xs text-gray-700 dark:text-neutral-300 capitalize">
-                                                    {server.transport}
+                                                    {server.transport === 'streamable-http' ? 'Streamable HTTP' : server.transport}
                                                 </span>
                                             </div>
 
@@ -245,7 +284,8 @@ export const MCPServerLibrary: React.FC<MCPServerLibraryProps> = ({
                                                 <span className="text-xs text-gray-700 dark:text-neutral-300 capitalize">
                                                     {server.authType === 'none' ? 'None' :
                                                         server.authType === 'apikey' ? 'API Key' :
-                                                            server.authType === 'basic' ? 'Basic Auth' : server.authType}
+                                                            server.authType === 'basic' ? 'Basic Auth' :
+                                                                server.authType === 'oauth2' ? 'OAuth 2.0' : server.authType}
                                                 </span>
                                             </div>
 
@@ -322,6 +362,19 @@ export const MCPServerLibrary: React.FC<MCPServerLibraryProps> = ({
                     server={configModal.server}
                 />
             )}
+
+            {/* Import Dialog */}
+            {isImportOpen && (
+                <MCPServerImportDialog
+                    isOpen={isImportOpen}
+                    onClose={() => setIsImportOpen(false)}
+                    onImported={() => {
+                        onServersImported?.();
+                        // Tests after the import count as health checks
+                        refreshHealth();
+                    }}
+                />
+            )}
         </>
     );
 };
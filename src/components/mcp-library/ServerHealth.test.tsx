@@ -0,0 +1,59 @@
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { ServerHealth } from "./ServerHealth";
+
+const health = (overrides: Record<string, unknown> = {}) => ({
+  serverId: "gh",
+  uptime: 2 / 3,
+  averageLatencyMs: 150,
+  circuit: { open: false, reason: null },
+  checks: [
+    { ok: true, latencyMs: 100, checkedAt: "2026-01-01T10:00:00.000Z" },
+    { ok: false, latencyMs: null, checkedAt: "2026-01-01T10:05:00.000Z" },
+    { ok: true, latencyMs: 200, checkedAt: "2026-01-01T10:10:00.000Z" },
+  ],
+  ...overrides,
+});
+
+describe("ServerHealth", () => {
+  it("shows uptime, latency and a mark per check", () => {
+    const { container } = render(<ServerHealth health={health()} />);
+
+    expect(screen.getByText("67% up · 150 ms")).toBeInTheDocument();
+    expect(
+      screen.getByRole("img", {
+        name: "Latency and uptime of the last 3 health checks",
+      })
+    ).toBeInTheDocument();
+    expect(
+      Array.from(container.querySelectorAll("rect"), (rect) =>
+        rect.getAttribute("data-ok")
+      )
+    ).toEqual(["true", "false", "true"]);
+    expect(screen.queryByText(/Paused/)).not.toBeInTheDocument();
+  });
+
+  it("explains an open circuit", () => {
+    render(
+      <ServerHealth
+        health={health({
+          circuit: {
+            open: true,
+            reason: "it failed its last 3 health checks (Timed out)",
+          },
+        })}
+      />
+    );
+
+    expect(
+      screen.getByTitle("it failed its last 3 health checks (Timed out)")
+    ).toHaveTextContent(
+      "Paused: tools are hidden from chats until a check passes"
+    );
+  });
+
+  it("renders nothing for servers that were never checked", () => {
+    const { container } = render(<ServerHealth />);
+    expect(container).toBeEmptyDOMElement();
+  });
+});
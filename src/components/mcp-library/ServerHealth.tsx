@@ -0,0 +1,89 @@
+import type React from 'react';
+import type { MCPServerHealthSummary } from '@/lib/mcp-health';
+
+interface HealthSparklineProps {
+    health: MCPServerHealthSummary;
+    width?: number;
+    height?: number;
+}
+
+/**
+ * Latency of a server's recent health checks as a line, with a strip below
+ * that marks each check green when it passed and red when it failed
+ */
+export const HealthSparkline: React.FC<HealthSparklineProps> = ({ health, width = 120, height = 24 }) => {
+    const { checks } = health;
+    if (checks.length === 0) return null;
+
+    const stripHeight = 3;
+    const lineHeight = height - stripHeight - 2;
+    const step = checks.length > 1 ? width / (checks.length - 1) : 0;
+    const maxLatency = Math.max(1, ...checks.map((check) => check.latencyMs ?? 0));
+
+    // Failed checks have no latency and break the line
+    const points = checks
+        .map((check, index) =>
+            check.latencyMs === null
+                ? null
+                : `${(index * step).toFixed(1)},${(lineHeight - (check.latencyMs / maxLatency) * lineHeight + 1).toFixed(1)}`
+        )
+        .filter((point): point is string => point !== null);
+
+    const barWidth = width / checks.length;
+
+    return (
+        <svg
+            width={width}
+            height={height}
+            viewBox={`0 0 ${width} ${height}`}
+            role="img"
+            aria-label={`Latency and uptime of the last ${checks.length} health checks`}
+        >
+            {points.length > 1 && (
+                <polyline
+                    points={points.join(' ')}
+                    fill="none"
+                    strokeWidth={1.5}
+                    className="stroke-blue-500"
+                />
+            )}
+            {checks.map((check, index) => (
+                <rect
+                    key={check.checkedAt}
+                    x={index * barWidth}
+                    y={height - stripHeight}
+                    width={Math.max(1, barWidth - 0.5)}
+                    height={stripHeight}
+                    className={check.ok ? 'fill-green-500' : 'fill-red-500'}
+                    data-ok={check.ok}
+                />
+            ))}
+        </svg>
+    );
+};
+
+/**
+ * Uptime, average latency and sparkline of a server over the last day, and
+ * whether its circuit is open. Servers that were never checked show nothing.
+ */
+export const ServerHealth: React.FC<{ health?: MCPServerHealthSummary }> = ({ health }) => {
+    if (!health) return null;
+
+    return (
+        <div className="space-y-1">
+            <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-500 dark:text-neutral-400">Health (24h)</span>
+                <span className="text-xs text-gray-700 dark:text-neutral-300">
+                    {health.uptime !== null && `${Math.round(health.uptime * 100)}% up`}
+                    {health.averageLatencyMs !== null && ` · ${health.averageLatencyMs} ms`}
+                </span>
+            </div>
+            <HealthSparkline health={health} />
+            {health.circuit.open && (
+                <p className="text-xs text-red-600 dark:text-red-400" title={health.circuit.reason ?? undefined}>
+                    Paused: tools are hidden from chats until a check passes
+                </p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,105 @@
+import type React from 'react';
+import { useState } from 'react';
+import { X, Warning } from '@phosphor-icons/react';
+import { promptCommand } from '@/lib/mcp-prompts-client';
+import type { MCPPrompt } from '@/types/mcp';
+
+interface MCPPromptArgumentsFormProps {
+    prompt: MCPPrompt;
+    isRunning: boolean;
+    error: string | null;
+    onRun: (args: Record<string, string>) => void;
+    onCancel: () => void;
+}
+
+/**
+ * Collects the arguments of an MCP prompt before it is expanded
+ */
+export const MCPPromptArgumentsForm: React.FC<MCPPromptArgumentsFormProps> = ({
+    prompt,
+    isRunning,
+    error,
+    onRun,
+    onCancel
+}) => {
+    const [values, setValues] = useState<Record<string, string>>({});
+
+    const missingRequired = prompt.arguments.some(
+        (argument) => argument.required && !values[argument.name]?.trim()
+    );
+
+    const handleRun = () => {
+        // Empty optional arguments are left out so the server applies its defaults
+        const args = Object.fromEntries(
+            Object.entries(values).filter(([, value]) => value.trim() !== '')
+        );
+        onRun(args);
+    };
+
+    return (
+        <div className="mb-2 p-3 border border-neutral-200 dark:border-neutral-700 rounded-lg bg-white dark:bg-neutral-900 space-y-2">
+            <div className="flex items-start justify-between gap-2">
+                <div>
+                    <div className="text-sm font-mono">{promptCommand(prompt)}</div>
+                    {prompt.description && (
+                        <div className="text-xs text-muted-foreground">{prompt.description}</div>
+                    )}
+                </div>
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    className="p-1 rounded hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                    aria-label="Cancel prompt"
+                >
+                    <X size={14} />
+                </button>
+            </div>
+
+            {prompt.arguments.map((argument) => (
+                <div key={argument.name}>
+                    <label
+                        htmlFor={`mcp-prompt-argument-${argument.name}`}
+                        className="block text-xs font-medium mb-1"
+                    >
+                        {argument.name}
+                        {argument.required && <span className="text-red-500"> *</span>}
+                    </label>
+                    <input
+                        id={`mcp-prompt-argument-${argument.name}`}
+                        type="text"
+                        value={values[argument.name] ?? ''}
+                        onChange={(e) =>
+                            setValues((prev) => ({ ...prev, [argument.name]: e.target.value }))
+                        }
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter' && !missingRequired && !isRunning) {
+                                e.preventDefault();
+                                handleRun();
+                            }
+                        }}
+                        placeholder={argument.description}
+                        className="w-full px-2 py-1 text-sm border border-neutral-200 dark:border-neutral-700 rounded bg-transparent"
+                    />
+                </div>
+            ))}
+
+            {error && (
+                <p className="text-xs text-red-600 dark:text-red-400 flex items-center gap-1">
+                    <Warning size={12} />
+                    {error}
+                </p>
+            )}
+
+            <div className="flex justify-end">
+                <button
+                    type="button"
+                    onClick={handleRun}
+                    disabled={missingRequired || isRunning}
+                    className="px-3 py-1 text-xs rounded bg-primary text-primary-foreground disabled:opacity-50"
+                >
+                    {isRunning ? 'Running...' : 'Run prompt'}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,57 @@
+import type React from 'react';
+import { ChatText } from '@phosphor-icons/react';
+import { promptCommand } from '@/lib/mcp-prompts-client';
+import type { MCPPrompt } from '@/types/mcp';
+
+interface MCPPromptCommandMenuProps {
+    prompts: MCPPrompt[];
+    isLoading: boolean;
+    onSelect: (prompt: MCPPrompt) => void;
+}
+
+/**
+ * Slash command suggestions for the MCP prompts matching the typed command
+ */
+export const MCPPromptCommandMenu: React.FC<MCPPromptCommandMenuProps> = ({
+    prompts,
+    isLoading,
+    onSelect
+}) => {
+    return (
+        <div
+            className="absolute bottom-full left-0 right-0 mb-2 max-h-64 overflow-y-auto bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-700 rounded-lg shadow-lg z-20"
+        >
+            {prompts.length === 0 && (
+                <p className="px-3 py-2 text-xs text-muted-foreground">
+                    {isLoading ? 'Loading prompts...' : 'No matching MCP prompts'}
+                </p>
+            )}
+            {/* The first match is highlighted, it's the one Enter picks */}
+            {prompts.map((prompt, index) => (
+                <button
+                    key={`${prompt.serverId}:${prompt.name}`}
+                    type="button"
+                    onClick={() => onSelect(prompt)}
+                    className={`w-full text-left px-3 py-2 hover:bg-neutral-100 dark:hover:bg-neutral-800 ${
+                        index === 0 ? 'bg-neutral-50 dark:bg-neutral-800/50' : ''
+                    }`}
+                >
+                    <div className="flex items-center gap-2 text-sm">
+                        <ChatText size={14} className="shrink-0" />
+                        <span className="font-mono">{promptCommand(prompt)}</span>
+                        {prompt.arguments.length > 0 && (
+                            <span className="text-xs text-muted-foreground truncate">
+                                {prompt.arguments.map((argument) => argument.name).join(' ')}
+                            </span>
+                        )}
+                    </div>
+                    {(prompt.description || prompt.title) && (
+                        <div className="text-xs text-muted-foreground truncate">
+                            {prompt.description || prompt.title}
+                        </div>
+                    )}
+                </button>
+            ))}
+        </div>
+    );
+};
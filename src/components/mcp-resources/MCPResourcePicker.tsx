@@ -0,0 +1,193 @@
+import type React from 'react';
+import { useState } from 'react';
+import type { Attachment } from 'ai';
+import { Paperclip, FileText, BracketsCurly, Warning } from '@phosphor-icons/react';
+import useClickOutside from '@/hooks/useClickOutside';
+import {
+    fetchThreadResources,
+    readThreadResource,
+    resourceContentsToAttachments,
+    type ThreadMCPResources,
+} from '@/lib/mcp-resources-client';
+import type { MCPResource, MCPResourceTemplate } from '@/types/mcp';
+
+interface MCPResourcePickerProps {
+    threadId: string;
+    disabled?: boolean;
+    onAttach: (attachments: Attachment[]) => void;
+}
+
+/**
+ * Browse the resources of the thread's MCP servers and attach their contents
+ * to the next message
+ */
+export const MCPResourcePicker: React.FC<MCPResourcePickerProps> = ({
+    threadId,
+    disabled,
+    onAttach
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [available, setAvailable] = useState<ThreadMCPResources | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [readingUri, setReadingUri] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    // URIs typed in for resource templates, keyed by server and template
+    const [templateUris, setTemplateUris] = useState<Record<string, string>>({});
+    const containerRef = useClickOutside(() => setIsOpen(false));
+
+    const loadResources = async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            setAvailable(await fetchThreadResources(threadId));
+        } catch (loadError) {
+            setError(loadError instanceof Error ? loadError.message : 'Failed to load resources');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleToggle = () => {
+        if (!isOpen) {
+            // Servers can add resources at any time, so reload on every open
+            loadResources();
+        }
+        setIsOpen(!isOpen);
+    };
+
+    const attachResource = async (
+        resource: Pick<MCPResource, 'name' | 'serverId' | 'serverName'>,
+        uri: string
+    ) => {
+        setReadingUri(uri);
+        setError(null);
+        try {
+            const contents = await readThreadResource(threadId, resource.serverId, uri);
+            const attachments = resourceContentsToAttachments(resource, contents);
+            if (attachments.length === 0) {
+                setError(`${resource.name} has no contents`);
+                return;
+            }
+            onAttach(attachments);
+            setIsOpen(false);
+        } catch (readError) {
+            setError(readError instanceof Error ? readError.message : 'Failed to read resource');
+        } finally {
+            setReadingUri(null);
+        }
+    };
+
+    const templateKey = (template: MCPResourceTemplate) =>
+        `${template.serverId}:${template.uriTemplate}`;
+
+    const isEmpty =
+        available !== null &&
+        available.resources.length === 0 &&
+        available.resourceTemplates.length === 0;
+
+    return (
+        <div ref={containerRef as React.RefObject<HTMLDivElement>} className="relative">
+            <button
+                type="button"
+                onClick={handleToggle}
+                disabled={disabled}
+                className="p-1 rounded-md text-muted-foreground hover:bg-neutral-200 dark:hover:bg-neutral-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                aria-label="Attach MCP resource"
+                aria-expanded={isOpen}
+            >
+                <Paperclip size={14} />
+            </button>
+
+            {isOpen && (
+                <div className="absolute bottom-full left-0 mb-2 w-80 max-h-80 overflow-y-auto bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-700 rounded-lg shadow-lg z-20">
+                    <div className="px-3 py-2 border-b border-neutral-200 dark:border-neutral-700 text-xs font-medium">
+                        MCP resources
+                    </div>
+
+                    {isLoading && (
+                        <p className="px-3 py-2 text-xs text-muted-foreground">Loading resources...</p>
+                    )}
+
+                    {error && (
+                        <p className="px-3 py-2 text-xs text-red-600 dark:text-red-400 flex items-center gap-1">
+                            <Warning size={12} />
+                            {error}
+                        </p>
+                    )}
+
+                    {!isLoading && available?.authRequired.map((server) => (
+                        <p key={server.id} className="px-3 py-2 text-xs text-yellow-700 dark:text-yellow-400">
+                            {server.name} needs to be authorized before its resources can be used
+                        </p>
+                    ))}
+
+                    {!isLoading && isEmpty && (
+                        <p className="px-3 py-2 text-xs text-muted-foreground">
+                            The MCP servers in this chat don't offer any resources
+                        </p>
+                    )}
+
+                    {!isLoading && available?.resources.map((resource) => (
+                        <button
+                            key={`${resource.serverId}:${resource.uri}`}
+                            type="button"
+                            onClick={() => attachResource(resource, resource.uri)}
+                            disabled={readingUri !== null}
+                            className="w-full text-left px-3 py-2 hover:bg-neutral-100 dark:hover:bg-neutral-800 disabled:opacity-50"
+                            title={resource.uri}
+                        >
+                            <div className="flex items-center gap-2 text-sm">
+                                <FileText size={14} className="shrink-0" />
+                                <span className="truncate">{resource.title || resource.name}</span>
+                                {readingUri === resource.uri && (
+                                    <span className="text-xs text-muted-foreground">Reading...</span>
+                                )}
+                            </div>
+                            <div className="text-xs text-muted-foreground truncate">
+                                {resource.serverName}
+                                {resource.description && ` · ${resource.description}`}
+                            </div>
+                        </button>
+                    ))}
+
+                    {!isLoading && available?.resourceTemplates.map((template) => {
+                        const key = templateKey(template);
+                        const uri = templateUris[key] ?? template.uriTemplate;
+                        return (
+                            <div key={key} className="px-3 py-2 space-y-1">
+                                <div className="flex items-center gap-2 text-sm">
+                                    <BracketsCurly size={14} className="shrink-0" />
+                                    <span className="truncate">{template.title || template.name}</span>
+                                </div>
+                                <div className="text-xs text-muted-foreground truncate">
+                                    {template.serverName}
+                                    {template.description && ` · ${template.description}`}
+                                </div>
+                                <div className="flex gap-1">
+                                    <input
+                                        type="text"
+                                        value={uri}
+                                        onChange={(e) =>
+                                            setTemplateUris((prev) => ({ ...prev, [key]: e.target.value }))
+                                        }
+                                        aria-label={`URI for ${template.name}`}
+                                        className="flex-1 min-w-0 px-2 py-1 text-xs border border-neutral-200 dark:border-neutral-700 rounded bg-transparent"
+                                    />
+                                    <button
+                                        type="button"
+                                        onClick={() => attachResource(template, uri)}
+                                        disabled={readingUri !== null || uri.includes('{')}
+                                        className="px-2 py-1 text-xs rounded bg-neutral-200 dark:bg-neutral-800 disabled:opacity-50"
+                                        title={uri.includes('{') ? 'Fill in the {placeholders} first' : undefined}
+                                    >
+                                        {readingUri === uri ? 'Reading...' : 'Attach'}
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -90,6 +90,73 @@ describe("NotificationToast", () => {
     expect(onDismiss).toHaveBeenCalledWith("test-1");
   });
 
+  it("offers to authorize MCP servers that need it", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(
+        new Response(JSON.stringify({ authUrl: "http://localhost/authorize" }))
+      );
+    vi.stubGlobal("fetch", fetchMock);
+    const onMarkAsRead = vi.fn();
+
+    render(
+      <NotificationToast
+        notification={{
+          ...mockNotification,
+          type: "warning",
+          mcpEventType: "mcp_auth_required",
+          mcpServerId: "server-1",
+        }}
+        onDismiss={vi.fn()}
+        onMarkAsRead={onMarkAsRead}
+      />
+    );
+
+    fireEvent.click(screen.getByText("Authorize"));
+
+    expect(onMarkAsRead).toHaveBeenCalledWith("test-1");
+    expect(fetchMock).toHaveBeenCalledWith(
+      "/api/mcp-servers-independent/server-1/oauth/start",
+      expect.objectContaining({ method: "POST" })
+    );
+    vi.unstubAllGlobals();
+  });
+
+  it("answers sampling requests and dismisses them", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(new Response(JSON.stringify({ success: true })));
+    vi.stubGlobal("fetch", fetchMock);
+    const onDismiss = vi.fn();
+
+    render(
+      <NotificationToast
+        notification={{
+          ...mockNotification,
+          type: "warning",
+          threadId: "thread-1",
+          mcpEventType: "sampling_request",
+          mcpServerId: "server-1",
+          samplingRequestId: "request-1",
+        }}
+        onDismiss={onDismiss}
+        onMarkAsRead={vi.fn()}
+      />
+    );
+
+    fireEvent.click(screen.getByText("Approve"));
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "/api/threads/thread-1/sampling/request-1",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ approved: true }),
+      })
+    );
+    await vi.waitFor(() => expect(onDismiss).toHaveBeenCalledWith("test-1"));
+    vi.unstubAllGlobals();
+  });
+
   it("has proper accessibility attributes", () => {
     const onDismiss = vi.fn();
 
@@ -2,6 +2,8 @@ import React from "react";
 import { CheckCircle, Warning, XCircle, Info, X } from "@phosphor-icons/react";
 import type { Notification } from "../../hooks/useNotifications";
 import { Button } from "../button/Button";
+import { authorizeMCPServer } from "../../lib/mcp-oauth-client";
+import { respondToSamplingRequest } from "../../lib/mcp-sampling-client";
 
 interface NotificationToastProps {
   notification: Notification;
@@ -64,6 +66,26 @@ export const NotificationToast: React.FC<NotificationToastProps> = ({
   };
 
   const isClickable = notification.threadId && onNavigateToChat;
+  const needsAuthorization =
+    notification.mcpEventType === "mcp_auth_required" &&
+    notification.mcpServerId;
+  const needsSamplingApproval =
+    notification.mcpEventType === "sampling_request" &&
+    notification.samplingRequestId &&
+    notification.threadId;
+
+  // The request is settled either way, so the notification has served its purpose
+  const answerSamplingRequest = (approved: boolean) => {
+    respondToSamplingRequest(
+      notification.threadId!,
+      notification.samplingRequestId!,
+      approved
+    )
+      .catch((error) => {
+        console.error("Failed to answer sampling request:", error);
+      })
+      .finally(() => onDismiss(notification.id));
+  };
 
   return (
     <div
@@ -97,10 +119,51 @@ export const NotificationToast: React.FC<NotificationToastProps> = ({
               <time className="text-[var(--text-color-ob-base-300)] text-xs opacity-70">
                 {notification.timestamp.toLocaleTimeString()}
               </time>
-              {isClickable && (
-                <span className="text-[var(--text-color-ob-base-300)] text-xs opacity-70">
-                  Click to open chat
-                </span>
+              {needsAuthorization ? (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onMarkAsRead(notification.id);
+                    authorizeMCPServer(notification.mcpServerId!).catch(
+                      (error) => {
+                        console.error("Failed to start authorization:", error);
+                      }
+                    );
+                  }}
+                >
+                  Authorize
+                </Button>
+              ) : needsSamplingApproval ? (
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      answerSamplingRequest(false);
+                    }}
+                  >
+                    Deny
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      answerSamplingRequest(true);
+                    }}
+                  >
+                    Approve
+                  </Button>
+                </div>
+              ) : (
+                isClickable && (
+                  <span className="text-[var(--text-color-ob-base-300)] text-xs opacity-70">
+                    Click to open chat
+                  </span>
+                )
               )}
             </div>
           </div>
@@ -0,0 +1,110 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ToolActivityPanel } from "./ToolActivityPanel";
+
+const execution = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  userId: "user-1",
+  threadId: "thread-1",
+  agentId: null,
+  toolCallId: `call-${id}`,
+  toolName: "getLocalTime",
+  serverId: null,
+  arguments: { location: "Lisbon" },
+  resultSize: 2048,
+  latencyMs: 120,
+  decision: "auto",
+  error: null,
+  kind: "tool",
+  tokens: null,
+  createdAt: "2026-01-01T10:00:00.000Z",
+  ...overrides,
+});
+
+const page = (executions: unknown[], nextCursor: string | null = null) =>
+  new Response(JSON.stringify({ executions, nextCursor }));
+
+describe("ToolActivityPanel", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("lists the thread's tool calls with their outcome", async () => {
+    fetchMock.mockResolvedValueOnce(
+      page([
+        execution("1", {
+          toolName: "mcp_gh_delete_repo",
+          decision: "approved",
+          resultSize: null,
+          error: "Forbidden",
+        }),
+        execution("2"),
+        execution("3", {
+          toolName: "sampling/createMessage",
+          kind: "sampling",
+          decision: "denied",
+          resultSize: 100,
+          tokens: 812,
+        }),
+      ])
+    );
+
+    render(<ToolActivityPanel threadId="thread-1" />);
+
+    expect(await screen.findByText("mcp_gh_delete_repo")).toBeInTheDocument();
+    expect(screen.getByText("Forbidden")).toBeInTheDocument();
+    expect(screen.getByText("Approved")).toBeInTheDocument();
+    expect(screen.getByText("2.0 KB")).toBeInTheDocument();
+    expect(screen.getByText("Sampling")).toBeInTheDocument();
+    expect(screen.getByText("Denied")).toBeInTheDocument();
+    expect(screen.getByText("812 tokens")).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith(
+      "/api/tool-executions?threadId=thread-1&limit=25"
+    );
+  });
+
+  it("shows the arguments of a call on click", async () => {
+    const user = userEvent.setup();
+    fetchMock.mockResolvedValueOnce(page([execution("1")]));
+
+    render(<ToolActivityPanel threadId="thread-1" />);
+    await user.click(await screen.findByText("getLocalTime"));
+
+    expect(screen.getByText(/"location": "Lisbon"/)).toBeInTheDocument();
+  });
+
+  it("loads the next page and filters failed calls", async () => {
+    const user = userEvent.setup();
+    fetchMock
+      .mockResolvedValueOnce(page([execution("1")], "cursor-1"))
+      .mockResolvedValueOnce(page([execution("2", { toolName: "older" })]))
+      .mockResolvedValueOnce(page([]));
+
+    render(<ToolActivityPanel threadId="thread-1" />);
+    await user.click(await screen.findByText("Load more"));
+
+    expect(await screen.findByText("older")).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      "/api/tool-executions?threadId=thread-1&limit=25&cursor=cursor-1"
+    );
+    expect(screen.queryByText("Load more")).not.toBeInTheDocument();
+
+    await user.click(screen.getByText("Errors"));
+    await waitFor(() =>
+      expect(
+        screen.getByText("No tool calls failed in this thread.")
+      ).toBeInTheDocument()
+    );
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      "/api/tool-executions?threadId=thread-1&limit=25&status=error"
+    );
+  });
+});
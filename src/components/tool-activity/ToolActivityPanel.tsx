@@ -0,0 +1,143 @@
+import type React from 'react';
+import { useState } from 'react';
+import { ArrowClockwise, Warning } from '@phosphor-icons/react';
+import { Button } from '@/components/button/Button';
+import { useToolExecutions } from '@/hooks/useToolExecutions';
+import type { ToolExecutionRecord } from '@/lib/tool-audit';
+
+interface ToolActivityPanelProps {
+    threadId: string;
+}
+
+type StatusFilter = 'all' | 'error';
+
+function formatSize(bytes: number | null): string {
+    if (bytes === null) return '—';
+    if (bytes < 1024) return `${bytes} B`;
+    return `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+const DECISION_LABELS: Record<ToolExecutionRecord['decision'], string> = {
+    auto: 'Automatic',
+    approved: 'Approved',
+    denied: 'Denied',
+};
+
+function formatTimestamp(timestamp: string): string {
+    return new Date(timestamp).toLocaleString([], {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+    });
+}
+
+const ToolExecutionRow: React.FC<{ execution: ToolExecutionRecord }> = ({ execution }) => {
+    const [showArguments, setShowArguments] = useState(false);
+
+    return (
+        <li className="py-2 border-b border-neutral-200 dark:border-neutral-800 last:border-b-0">
+            <div className="flex items-center gap-2 text-sm">
+                {execution.error && <Warning size={14} className="text-red-500 flex-shrink-0" />}
+                <button
+                    type="button"
+                    onClick={() => setShowArguments(!showArguments)}
+                    className="font-medium truncate text-left hover:underline"
+                    title="Show arguments"
+                >
+                    {execution.toolName}
+                </button>
+                <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">
+                    {formatTimestamp(execution.createdAt)}
+                </span>
+            </div>
+            <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground mt-0.5">
+                {execution.kind === 'sampling' && <span>Sampling</span>}
+                <span>{DECISION_LABELS[execution.decision]}</span>
+                <span>{execution.latencyMs} ms</span>
+                <span>{formatSize(execution.resultSize)}</span>
+                {execution.tokens !== null && <span>{execution.tokens} tokens</span>}
+                {execution.agentId && <span>Agent {execution.agentId}</span>}
+            </div>
+            {execution.error && (
+                <p className="text-xs text-red-500 mt-1 break-words">{execution.error}</p>
+            )}
+            {showArguments && (
+                <pre className="mt-1 bg-neutral-100 dark:bg-neutral-900 p-2 rounded-md text-xs overflow-auto whitespace-pre-wrap break-words">
+                    {JSON.stringify(execution.arguments, null, 2)}
+                </pre>
+            )}
+        </li>
+    );
+};
+
+/**
+ * Audit log of the tool calls in a thread: what ran, when, after which
+ * approval, how long it took and whether it failed
+ */
+export const ToolActivityPanel: React.FC<ToolActivityPanelProps> = ({ threadId }) => {
+    const [status, setStatus] = useState<StatusFilter>('all');
+    const { executions, isLoading, error, hasMore, loadMore, refresh } = useToolExecutions({
+        threadId,
+        status: status === 'error' ? 'error' : undefined,
+    });
+
+    return (
+        <div className="w-[560px] max-w-full">
+            <div className="flex items-center gap-2 mb-3 pr-8">
+                <h2 className="text-lg font-semibold">Tool activity</h2>
+                <div className="ml-auto flex items-center gap-1">
+                    <Button
+                        variant={status === 'all' ? 'secondary' : 'ghost'}
+                        size="sm"
+                        onClick={() => setStatus('all')}
+                    >
+                        All
+                    </Button>
+                    <Button
+                        variant={status === 'error' ? 'secondary' : 'ghost'}
+                        size="sm"
+                        onClick={() => setStatus('error')}
+                    >
+                        Errors
+                    </Button>
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        shape="square"
+                        aria-label="Refresh tool activity"
+                        onClick={refresh}
+                    >
+                        <ArrowClockwise size={14} />
+                    </Button>
+                </div>
+            </div>
+
+            {error && <p className="text-sm text-red-500 mb-2">{error}</p>}
+
+            {executions.length === 0 && !isLoading && !error ? (
+                <p className="text-sm text-muted-foreground">
+                    {status === 'error'
+                        ? 'No tool calls failed in this thread.'
+                        : 'No tools have run in this thread yet.'}
+                </p>
+            ) : (
+                <ul className="max-h-[60vh] overflow-y-auto">
+                    {executions.map((execution) => (
+                        <ToolExecutionRow key={execution.id} execution={execution} />
+                    ))}
+                </ul>
+            )}
+
+            {isLoading && <p className="text-sm text-muted-foreground mt-2">Loading...</p>}
+            {hasMore && !isLoading && (
+                <div className="flex justify-center mt-2">
+                    <Button variant="ghost" size="sm" onClick={loadMore}>
+                        Load more
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -329,4 +329,161 @@ describe("ToolInvocationCard", () => {
 
     expect(screen.queryByText("Result:")).not.toBeInTheDocument();
   });
+
+  it("shows the reported progress while the tool runs", () => {
+    renderWithProvider(
+      <ToolInvocationCard
+        toolInvocation={mockToolInvocation}
+        toolCallId="test-123"
+        needsConfirmation={false}
+        addToolResult={mockAddToolResult}
+        progress={{
+          type: "mcp_tool_progress",
+          toolCallId: "test-123",
+          progress: 1,
+          total: 4,
+          message: null,
+        }}
+      />
+    );
+
+    expect(screen.getByRole("progressbar")).toHaveAttribute("value", "25");
+    expect(screen.getByText("25%")).toBeInTheDocument();
+  });
+
+  it("hides the progress once the tool has a result", () => {
+    renderWithProvider(
+      <ToolInvocationCard
+        toolInvocation={{
+          ...mockToolInvocation,
+          state: "result",
+          result: { content: [{ type: "text", text: "Done" }] },
+        }}
+        toolCallId="test-123"
+        needsConfirmation={false}
+        addToolResult={mockAddToolResult}
+        progress={{
+          type: "mcp_tool_progress",
+          toolCallId: "test-123",
+          progress: 4,
+          total: 4,
+          message: "Finishing up",
+        }}
+      />
+    );
+
+    expect(screen.queryByRole("progressbar")).not.toBeInTheDocument();
+    expect(screen.queryByText("Finishing up")).not.toBeInTheDocument();
+  });
+
+  it("only lets a denied tool call be dismissed", async () => {
+    const user = userEvent.setup();
+    renderWithProvider(
+      <ToolInvocationCard
+        toolInvocation={mockToolInvocation}
+        toolCallId="test-123"
+        needsConfirmation={false}
+        addToolResult={mockAddToolResult}
+        decision="deny"
+      />
+    );
+
+    expect(screen.queryByText("Approve")).not.toBeInTheDocument();
+    expect(
+      screen.getByText("A tool policy denies this tool.")
+    ).toBeInTheDocument();
+
+    await user.click(screen.getByText("Dismiss"));
+    expect(mockAddToolResult).toHaveBeenCalledWith({
+      toolCallId: "test-123",
+      result: "rejected",
+    });
+  });
+
+  it("approves with the arguments the user edited", async () => {
+    const user = userEvent.setup();
+    renderWithProvider(
+      <ToolInvocationCard
+        toolInvocation={mockToolInvocation}
+        toolCallId="test-123"
+        needsConfirmation={true}
+        addToolResult={mockAddToolResult}
+      />
+    );
+
+    await user.click(screen.getByText("Edit"));
+    const textarea = screen.getByLabelText("Tool arguments");
+    await user.clear(textarea);
+    await user.type(textarea, '{{"param1": "changed"}');
+    await user.click(screen.getByText("Approve"));
+
+    expect(mockAddToolResult).toHaveBeenCalledWith({
+      toolCallId: "test-123",
+      result: {
+        approval: "approved",
+        args: { param1: "changed" },
+        alwaysAllow: undefined,
+      },
+    });
+  });
+
+  it("keeps edited arguments that are not a JSON object from being sent", async () => {
+    const user = userEvent.setup();
+    renderWithProvider(
+      <ToolInvocationCard
+        toolInvocation={mockToolInvocation}
+        toolCallId="test-123"
+        needsConfirmation={true}
+        addToolResult={mockAddToolResult}
+      />
+    );
+
+    await user.click(screen.getByText("Edit"));
+    const textarea = screen.getByLabelText("Tool arguments");
+    await user.clear(textarea);
+    await user.type(textarea, "not json");
+    await user.click(screen.getByText("Approve"));
+
+    expect(
+      screen.getByText("Arguments must be valid JSON")
+    ).toBeInTheDocument();
+    expect(mockAddToolResult).not.toHaveBeenCalled();
+  });
+
+  it("offers to always allow the tool in the thread or for the agent", async () => {
+    const user = userEvent.setup();
+    const { rerender } = renderWithProvider(
+      <ToolInvocationCard
+        toolInvocation={mockToolInvocation}
+        toolCallId="test-123"
+        needsConfirmation={true}
+        addToolResult={mockAddToolResult}
+      />
+    );
+    expect(screen.queryByText(/Always allow for/)).not.toBeInTheDocument();
+
+    rerender(
+      <TooltipProvider>
+        <ToolInvocationCard
+          toolInvocation={mockToolInvocation}
+          toolCallId="test-123"
+          needsConfirmation={true}
+          addToolResult={mockAddToolResult}
+          agentName="Analyst"
+        />
+      </TooltipProvider>
+    );
+
+    await user.click(screen.getByText("Always allow in this thread"));
+    expect(mockAddToolResult).toHaveBeenLastCalledWith({
+      toolCallId: "test-123",
+      result: { approval: "approved", args: undefined, alwaysAllow: "thread" },
+    });
+
+    await user.click(screen.getByText("Always allow for Analyst"));
+    expect(mockAddToolResult).toHaveBeenLastCalledWith({
+      toolCallId: "test-123",
+      result: { approval: "approved", args: undefined, alwaysAllow: "agent" },
+    });
+  });
 });
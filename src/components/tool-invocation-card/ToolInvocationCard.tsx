@@ -2,8 +2,11 @@ import { useState } from "react";
 import { Robot, CaretDown } from "@phosphor-icons/react";
 import { Button } from "@/components/button/Button";
 import { Card } from "@/components/card/Card";
+import { Textarea } from "@/components/textarea/Textarea";
 import { Tooltip } from "@/components/tooltip/Tooltip";
-import { APPROVAL } from "@/shared";
+import { APPROVAL, type AlwaysAllowScope, type ToolApproval } from "@/shared";
+import type { MCPToolProgressPart } from "@/lib/mcp-tool-calls";
+import type { ToolDecision } from "@/lib/tool-policies";
 
 interface ToolInvocation {
   toolName: string;
@@ -20,7 +23,16 @@ interface ToolInvocationCardProps {
   toolInvocation: ToolInvocation;
   toolCallId: string;
   needsConfirmation: boolean;
-  addToolResult: (args: { toolCallId: string; result: string }) => void;
+  addToolResult: (args: {
+    toolCallId: string;
+    result: string | ToolApproval;
+  }) => void;
+  // Latest progress reported by the MCP server while the tool runs
+  progress?: MCPToolProgressPart;
+  // Approval policy of the tool, a denied call can only be dismissed
+  decision?: ToolDecision;
+  // Primary agent of the thread, offered as a scope to always allow the tool
+  agentName?: string;
 }
 
 export function ToolInvocationCard({
@@ -28,8 +40,48 @@ export function ToolInvocationCard({
   toolCallId,
   needsConfirmation,
   addToolResult,
+  progress,
+  decision,
+  agentName,
 }: ToolInvocationCardProps) {
   const [isExpanded, setIsExpanded] = useState(true);
+  // Arguments as JSON text while the user edits them, null when not editing
+  const [editedArgs, setEditedArgs] = useState<string | null>(null);
+  const [argsError, setArgsError] = useState<string | null>(null);
+
+  const canConfirm = needsConfirmation && toolInvocation.state === "call";
+
+  const approve = (alwaysAllow?: AlwaysAllowScope) => {
+    let args: Record<string, unknown> | undefined;
+    if (editedArgs !== null) {
+      try {
+        args = JSON.parse(editedArgs);
+      } catch {
+        setArgsError("Arguments must be valid JSON");
+        return;
+      }
+      if (typeof args !== "object" || args === null || Array.isArray(args)) {
+        setArgsError("Arguments must be a JSON object");
+        return;
+      }
+    }
+
+    addToolResult({
+      toolCallId,
+      // A plain approval when nothing changed, as before
+      result:
+        args || alwaysAllow
+          ? { approval: APPROVAL.YES, args, alwaysAllow }
+          : APPROVAL.YES,
+    });
+  };
+
+  const showProgress = progress && toolInvocation.state !== "result";
+  // Without a total the server only tells us it is still working
+  const progressPercent =
+    progress?.total && progress.total > 0
+      ? Math.min(100, (progress.progress / progress.total) * 100)
+      : null;
 
   return (
     <Card
@@ -59,6 +111,23 @@ export function ToolInvocationCard({
         />
       </button>
 
+      {showProgress && (
+        <div className="mt-3">
+          {/* Without a value the bar shows the browser's busy animation */}
+          <progress
+            max={100}
+            value={progressPercent ?? undefined}
+            className="block h-1.5 w-full appearance-none overflow-hidden rounded-full bg-[#F48120]/10 [&::-webkit-progress-bar]:bg-[#F48120]/10 [&::-webkit-progress-value]:bg-[#F48120] [&::-moz-progress-bar]:bg-[#F48120]"
+          />
+          <p className="mt-1 text-xs text-muted-foreground">
+            {progress.message ??
+              (progressPercent === null
+                ? `${progress.progress} done`
+                : `${Math.round(progressPercent)}%`)}
+          </p>
+        </div>
+      )}
+
       <div
         className={`transition-all duration-200 ${isExpanded ? "max-h-[200px] opacity-100 mt-3" : "max-h-0 opacity-0 overflow-hidden"}`}
       >
@@ -67,16 +136,92 @@ export function ToolInvocationCard({
           style={{ maxHeight: isExpanded ? "180px" : "0px" }}
         >
           <div className="mb-3">
-            <h5 className="text-xs font-medium mb-1 text-muted-foreground">
-              Arguments:
-            </h5>
-            <pre className="bg-background/80 p-2 rounded-md text-xs overflow-auto whitespace-pre-wrap break-words max-w-[450px]">
-              {JSON.stringify(toolInvocation.args, null, 2)}
-            </pre>
+            <div className="flex items-center justify-between mb-1">
+              <h5 className="text-xs font-medium text-muted-foreground">
+                Arguments:
+              </h5>
+              {canConfirm && editedArgs === null && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setEditedArgs(JSON.stringify(toolInvocation.args, null, 2))
+                  }
+                >
+                  Edit
+                </Button>
+              )}
+            </div>
+            {canConfirm && editedArgs !== null ? (
+              <>
+                <Textarea
+                  aria-label="Tool arguments"
+                  value={editedArgs}
+                  onChange={(e) => {
+                    setEditedArgs(e.target.value);
+                    setArgsError(null);
+                  }}
+                  className="font-mono text-xs max-w-[450px]"
+                  rows={6}
+                />
+                {argsError && (
+                  <p className="mt-1 text-xs text-red-500">{argsError}</p>
+                )}
+              </>
+            ) : (
+              <pre className="bg-background/80 p-2 rounded-md text-xs overflow-auto whitespace-pre-wrap break-words max-w-[450px]">
+                {JSON.stringify(toolInvocation.args, null, 2)}
+              </pre>
+            )}
           </div>
 
-          {needsConfirmation && toolInvocation.state === "call" && (
-            <div className="flex gap-2 justify-end">
+          {canConfirm && (
+            <div className="flex flex-col gap-2">
+              <div className="flex gap-2 justify-end">
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={() =>
+                    addToolResult({
+                      toolCallId,
+                      result: APPROVAL.NO,
+                    })
+                  }
+                >
+                  Reject
+                </Button>
+                <Tooltip content={"Accept action"}>
+                  <Button variant="primary" size="sm" onClick={() => approve()}>
+                    Approve
+                  </Button>
+                </Tooltip>
+              </div>
+              <div className="flex flex-wrap gap-2 justify-end">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => approve("thread")}
+                >
+                  Always allow in this thread
+                </Button>
+                {agentName && (
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => approve("agent")}
+                  >
+                    Always allow for {agentName}
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {decision === "deny" && toolInvocation.state === "call" && (
+            <div className="flex items-center gap-2 justify-end">
+              <p className="text-xs text-muted-foreground flex-1">
+                A tool policy denies this tool.
+              </p>
               <Button
                 variant="primary"
                 size="sm"
@@ -87,22 +232,8 @@ export function ToolInvocationCard({
                   })
                 }
               >
-                Reject
+                Dismiss
               </Button>
-              <Tooltip content={"Accept action"}>
-                <Button
-                  variant="primary"
-                  size="sm"
-                  onClick={() =>
-                    addToolResult({
-                      toolCallId,
-                      result: APPROVAL.YES,
-                    })
-                  }
-                >
-                  Approve
-                </Button>
-              </Tooltip>
             </div>
           )}
 
@@ -0,0 +1,46 @@
+import { useEffect, useState } from "react";
+
+export interface AgentServerTools {
+  id: string;
+  name: string;
+  tools: { name: string; description: string; allowed: boolean }[];
+  error?: string;
+}
+
+/**
+ * Load the tools of the servers in an agent's MCP groups
+ */
+export function useAgentTools(agentId: string | null) {
+  const [servers, setServers] = useState<AgentServerTools[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setServers([]);
+    if (!agentId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    fetch(`/api/agents/${agentId}/tools`)
+      .then(
+        (response) =>
+          (response.ok ? response.json() : { servers: [] }) as Promise<{
+            servers?: AgentServerTools[];
+          }>
+      )
+      .then((data) => {
+        if (!cancelled) setServers(data.servers || []);
+      })
+      .catch((error) => {
+        console.error("Failed to load agent tools:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [agentId]);
+
+  return { servers, isLoading };
+}
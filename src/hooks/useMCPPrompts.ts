@@ -0,0 +1,36 @@
+import { useEffect, useState } from "react";
+import type { MCPPrompt } from "@/types/mcp";
+import { fetchThreadPrompts } from "@/lib/mcp-prompts-client";
+
+/**
+ * Load the MCP prompts of a thread's servers. Prompts are fetched each time
+ * `active` turns on, i.e. when the user starts typing a slash command, so
+ * servers added to the thread in the meantime show up.
+ */
+export function useMCPPrompts(threadId: string, active: boolean) {
+  const [prompts, setPrompts] = useState<MCPPrompt[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!active) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    fetchThreadPrompts(threadId)
+      .then((data) => {
+        if (!cancelled) setPrompts(data.prompts);
+      })
+      .catch((error) => {
+        console.error("Failed to load MCP prompts:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [threadId, active]);
+
+  return { prompts, isLoading };
+}
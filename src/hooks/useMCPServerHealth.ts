@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from "react";
+import type { MCPServerHealthSummary } from "@/lib/mcp-health";
+
+/**
+ * Load the health history of the user's MCP servers while `active`, keyed
+ * by server id. Call `refresh` after a manual test to pick up its check.
+ */
+export function useMCPServerHealth(active: boolean) {
+  const [health, setHealth] = useState<Map<string, MCPServerHealthSummary>>(
+    new Map()
+  );
+  const [reloads, setReloads] = useState(0);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reloads only triggers a refresh
+  useEffect(() => {
+    if (!active) return;
+
+    let cancelled = false;
+    fetch("/api/mcp-servers-independent/health")
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to load server health (${response.status})`);
+        }
+        const data = (await response.json()) as {
+          health: MCPServerHealthSummary[];
+        };
+        if (!cancelled) {
+          setHealth(
+            new Map(data.health.map((summary) => [summary.serverId, summary]))
+          );
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to load MCP server health:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [active, reloads]);
+
+  const refresh = useCallback(() => setReloads((count) => count + 1), []);
+
+  return { health, refresh };
+}
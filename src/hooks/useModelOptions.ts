@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+
+export interface ModelProviderOption {
+  id: string;
+  name: string;
+  configured: boolean;
+  models: string[];
+}
+
+/**
+ * Load the model providers and their suggested "provider:model" specs
+ */
+export function useModelOptions(enabled = true) {
+  const [providers, setProviders] = useState<ModelProviderOption[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    fetch("/api/models")
+      .then(
+        (response) =>
+          (response.ok ? response.json() : { providers: [] }) as Promise<{
+            providers?: ModelProviderOption[];
+          }>
+      )
+      .then((data) => {
+        if (!cancelled) setProviders(data.providers || []);
+      })
+      .catch((error) => {
+        console.error("Failed to load model providers:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  return providers;
+}
@@ -0,0 +1,77 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Message } from "@ai-sdk/react";
+import { useThreadMessages } from "./useThreadMessages";
+
+const message = (id: string): Message => ({
+  id,
+  role: "user",
+  content: `Message ${id}`,
+});
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status });
+
+describe("useThreadMessages", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("loads the latest page and earlier pages on request", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        jsonResponse({
+          messages: [message("m3"), message("m4")],
+          nextCursor: "m3",
+        })
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          messages: [message("m1"), message("m2")],
+          nextCursor: null,
+        })
+      );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const { result } = renderHook(() => useThreadMessages("thread-1", true));
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.latestMessages?.map((m) => m.id)).toEqual([
+      "m3",
+      "m4",
+    ]);
+    expect(result.current.hasEarlier).toBe(true);
+    expect(fetchMock).toHaveBeenCalledWith("/threads/thread-1?limit=50");
+
+    await act(() => result.current.loadEarlier());
+
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      "/threads/thread-1?limit=50&before=m3"
+    );
+    expect(result.current.earlierMessages.map((m) => m.id)).toEqual([
+      "m1",
+      "m2",
+    ]);
+    expect(result.current.hasEarlier).toBe(false);
+  });
+
+  it("reports a lost session and starts the chat empty", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValue(jsonResponse({ error: "Not authenticated" }, 401))
+    );
+    const onUnauthorized = vi.fn();
+
+    const { result } = renderHook(() =>
+      useThreadMessages("thread-1", true, onUnauthorized)
+    );
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(onUnauthorized).toHaveBeenCalled();
+    expect(result.current.latestMessages).toEqual([]);
+    expect(result.current.hasEarlier).toBe(false);
+  });
+});
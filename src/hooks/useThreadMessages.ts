@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Message } from "@ai-sdk/react";
+import type { ThreadMessagesPage } from "@/lib/thread-store";
+
+const PAGE_SIZE = 50;
+
+function messagesUrl(threadId: string, before?: string) {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+  if (before) params.set("before", before);
+  return `/threads/${threadId}?${params}`;
+}
+
+/**
+ * Load the latest page of a thread's messages for the chat, and the pages
+ * before it as the user scrolls up. Only the latest page is handed to the
+ * chat, the agent keeps the earlier history for the model on its side.
+ */
+export function useThreadMessages(
+  threadId: string,
+  enabled: boolean,
+  onUnauthorized?: () => void
+) {
+  // Undefined until the latest page loaded
+  const [latestMessages, setLatestMessages] = useState<Message[] | undefined>(
+    undefined
+  );
+  // Pages before the latest one, oldest first
+  const [earlierMessages, setEarlierMessages] = useState<Message[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingEarlier, setIsLoadingEarlier] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Kept in a ref so a new callback doesn't load the thread again
+  const onUnauthorizedRef = useRef(onUnauthorized);
+  onUnauthorizedRef.current = onUnauthorized;
+
+  const fetchPage = useCallback(
+    async (before?: string): Promise<ThreadMessagesPage> => {
+      const response = await fetch(messagesUrl(threadId, before));
+      if (response.status === 401) onUnauthorizedRef.current?.();
+      if (!response.ok) {
+        throw new Error(`Failed to load messages (${response.status})`);
+      }
+      return (await response.json()) as ThreadMessagesPage;
+    },
+    [threadId]
+  );
+
+  useEffect(() => {
+    if (!enabled) {
+      setLatestMessages(undefined);
+      setIsLoading(true);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setEarlierMessages([]);
+    setError(null);
+    console.log(`[HISTORY_LOADING] Loading history for thread: ${threadId}`);
+    fetchPage()
+      .then((page) => {
+        if (cancelled) return;
+        console.log(
+          `[HISTORY_LOADED] Loaded ${page.messages.length} messages for thread: ${threadId}`
+        );
+        setLatestMessages(page.messages);
+        setNextCursor(page.nextCursor);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Error fetching/parsing chat history:", error);
+        setLatestMessages([]);
+        setNextCursor(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, threadId, fetchPage]);
+
+  const loadEarlier = async () => {
+    if (!nextCursor || isLoadingEarlier) return;
+    setIsLoadingEarlier(true);
+    setError(null);
+    try {
+      const page = await fetchPage(nextCursor);
+      setEarlierMessages((current) => [...page.messages, ...current]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsLoadingEarlier(false);
+    }
+  };
+
+  // The chat was cleared, the earlier pages are gone with it
+  const clearEarlier = () => {
+    setEarlierMessages([]);
+    setNextCursor(null);
+  };
+
+  return {
+    latestMessages,
+    earlierMessages,
+    isLoading,
+    isLoadingEarlier,
+    error,
+    hasEarlier: nextCursor !== null,
+    loadEarlier,
+    clearEarlier,
+  };
+}
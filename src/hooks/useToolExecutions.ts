@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useState } from "react";
+import type { ToolExecutionRecord } from "@/lib/tool-audit";
+
+export interface ToolExecutionsQuery {
+  threadId: string;
+  status?: "success" | "error";
+  toolName?: string;
+}
+
+const PAGE_SIZE = 25;
+
+function executionsUrl(query: ToolExecutionsQuery, cursor?: string) {
+  const params = new URLSearchParams({
+    threadId: query.threadId,
+    limit: String(PAGE_SIZE),
+  });
+  if (query.status) params.set("status", query.status);
+  if (query.toolName) params.set("toolName", query.toolName);
+  if (cursor) params.set("cursor", cursor);
+  return `/api/tool-executions?${params}`;
+}
+
+/**
+ * Load a thread's tool calls from the audit log, newest first, one page at
+ * a time
+ */
+export function useToolExecutions(query: ToolExecutionsQuery) {
+  const [executions, setExecutions] = useState<ToolExecutionRecord[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloads, setReloads] = useState(0);
+  const { threadId, status, toolName } = query;
+
+  const fetchPage = useCallback(
+    async (cursor?: string) => {
+      const response = await fetch(
+        executionsUrl({ threadId, status, toolName }, cursor)
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to load tool activity (${response.status})`);
+      }
+      return (await response.json()) as {
+        executions: ToolExecutionRecord[];
+        nextCursor: string | null;
+      };
+    },
+    [threadId, status, toolName]
+  );
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reloads only triggers a refresh
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    fetchPage()
+      .then((page) => {
+        if (cancelled) return;
+        setExecutions(page.executions);
+        setNextCursor(page.nextCursor);
+      })
+      .catch((error) => {
+        if (!cancelled) setError(error.message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchPage, reloads]);
+
+  const loadMore = async () => {
+    if (!nextCursor || isLoading) return;
+    setIsLoading(true);
+    try {
+      const page = await fetchPage(nextCursor);
+      setExecutions((current) => [...current, ...page.executions]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return {
+    executions,
+    isLoading,
+    error,
+    hasMore: nextCursor !== null,
+    loadMore,
+    refresh: () => setReloads((count) => count + 1),
+  };
+}
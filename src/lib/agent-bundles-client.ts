@@ -0,0 +1,39 @@
+import type {
+  AgentBundleConflict,
+  AgentBundleImportResult,
+} from "./agent-bundles";
+
+/**
+ * Download link of an agent's bundle
+ */
+export const agentExportUrl = (agentId: string) =>
+  `/api/agents/${agentId}/export`;
+
+/**
+ * Import an agent bundle file exported by this app
+ */
+export async function uploadAgentBundle(
+  file: Blob,
+  onConflict: AgentBundleConflict
+): Promise<AgentBundleImportResult> {
+  let bundle: unknown;
+  try {
+    bundle = JSON.parse(await file.text());
+  } catch {
+    throw new Error("The file is not an agent bundle");
+  }
+
+  const response = await fetch("/api/agents/import", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ bundle, onConflict }),
+  });
+  const data = (await response.json()) as AgentBundleImportResult & {
+    error?: string;
+  };
+  if (!response.ok) {
+    throw new Error(data.error ?? `Failed to import agent: ${response.status}`);
+  }
+  return data;
+}
@@ -0,0 +1,602 @@
+/**
+ * Agent bundles
+ * An agent can be exported with its MCP groups, the servers of those groups
+ * and its tool approval rules as a versioned JSON bundle, and imported again
+ * by another user or in another environment. Bundles never contain
+ * credentials or sampling settings, imported servers that need them have to
+ * be set up again.
+ *
+ * IDs in a bundle only link its parts together, importing creates new ones.
+ * Agents and groups named like an existing one are renamed, merged into the
+ * existing one or skipped. Independent servers are reused when the user
+ * already has one with the same URL and transport.
+ */
+import { z } from "zod";
+import { v4 as uuidv4 } from "uuid";
+import { isValidModelSpec } from "./models";
+import { parseToolRules, serializeToolRules } from "./tool-rules";
+import { parseToolTimeouts } from "./mcp-tool-calls";
+import type { ToolDecision } from "./tool-policies";
+
+export const AGENT_BUNDLE_VERSION = 1;
+
+export class AgentBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AgentBundleError";
+  }
+}
+
+const transportSchema = z.enum(["websocket", "sse", "streamable-http"]);
+const authTypeSchema = z.enum(["none", "apikey", "basic", "oauth2", "custom"]);
+
+// Server of a group, stored with the group
+const bundleGroupServerSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  url: z.string().url(),
+  transport: transportSchema,
+  authType: authTypeSchema,
+  isEnabled: z.boolean(),
+});
+
+// Independent server from the server library, linked to groups
+const bundleServerSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().nullable().optional(),
+  url: z.string().url(),
+  transport: transportSchema,
+  authType: authTypeSchema,
+  toolTimeouts: z.record(z.number().int().positive()).nullable().optional(),
+});
+
+const bundleGroupSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(50),
+  description: z.string().nullable().optional(),
+  color: z.string(),
+  servers: z.array(bundleGroupServerSchema),
+  // Independent servers of the group
+  serverIds: z.array(z.string()),
+});
+
+const bundlePolicySchema = z.object({
+  // A server of the bundle, null for rules on every server
+  serverId: z.string().nullable(),
+  toolPattern: z.string().min(1),
+  decision: z.enum(["auto", "confirm", "deny"]),
+});
+
+const agentBundleSchema = z.object({
+  version: z.literal(AGENT_BUNDLE_VERSION),
+  exportedAt: z.string(),
+  agent: z.object({
+    name: z.string().min(1).max(50),
+    description: z.string().nullable().optional(),
+    persona: z.string().nullable().optional(),
+    color: z.string(),
+    model: z
+      .string()
+      .refine(isValidModelSpec, {
+        message: 'Model must be a "provider:model" spec',
+      })
+      .nullable()
+      .optional(),
+    temperature: z.number().min(0).max(2).nullable().optional(),
+    maxTokens: z.number().int().positive().nullable().optional(),
+    toolRules: z
+      .object({ allow: z.array(z.string()), deny: z.array(z.string()) })
+      .nullable()
+      .optional(),
+    groupIds: z.array(z.string()),
+    policies: z.array(bundlePolicySchema),
+  }),
+  groups: z.array(bundleGroupSchema),
+  servers: z.array(bundleServerSchema),
+});
+
+export type AgentBundle = z.infer<typeof agentBundleSchema>;
+
+type Transport = z.infer<typeof transportSchema>;
+type AuthType = z.infer<typeof authTypeSchema>;
+
+interface AgentRow {
+  name: string;
+  description: string | null;
+  persona: string | null;
+  color: string | null;
+  model: string | null;
+  temperature: number | null;
+  max_tokens: number | null;
+  tool_rules: string | null;
+}
+
+interface GroupRow {
+  id: string;
+  name: string;
+  description: string | null;
+  color: string | null;
+}
+
+interface GroupServerRow {
+  id: string;
+  name: string;
+  url: string;
+  transport: Transport;
+  auth_type: AuthType;
+  is_enabled: number;
+}
+
+interface IndependentServerRow {
+  id: string;
+  name: string;
+  description: string | null;
+  url: string;
+  transport: Transport;
+  auth_type: AuthType;
+  tool_timeouts: string | null;
+}
+
+// What to do with agents and groups named like an existing one
+export type AgentBundleConflict = "rename" | "merge" | "skip";
+
+export interface AgentBundleImportResult {
+  agent: {
+    id: string | null;
+    name: string;
+    status: "created" | "merged" | "skipped";
+  };
+  groups: {
+    id: string | null;
+    name: string;
+    status: "created" | "merged" | "skipped";
+  }[];
+  servers: {
+    id: string;
+    name: string;
+    status: "created" | "reused";
+    // Imported without the credentials its auth type needs
+    needsCredentials: boolean;
+  }[];
+  warnings: string[];
+}
+
+/**
+ * Validate a bundle, e.g. one a user uploaded
+ */
+export function parseAgentBundle(value: unknown): AgentBundle {
+  const version = (value as { version?: unknown } | null)?.version;
+  if (typeof version === "number" && version > AGENT_BUNDLE_VERSION) {
+    throw new AgentBundleError(
+      `Bundle version ${version} is newer than the supported version ${AGENT_BUNDLE_VERSION}`
+    );
+  }
+  const parsed = agentBundleSchema.safeParse(value);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new AgentBundleError(
+      `Invalid agent bundle: ${issue.path.join(".") || "bundle"} ${issue.message}`
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Bundle an agent with its groups, their servers and its tool rules, null
+ * when the user has no such agent
+ */
+export async function exportAgentBundle(
+  db: D1Database,
+  userId: string,
+  agentId: string,
+  now: Date = new Date()
+): Promise<AgentBundle | null> {
+  const agent = await db
+    .prepare("SELECT * FROM agents WHERE id = ? AND user_id = ?")
+    .bind(agentId, userId)
+    .first<AgentRow>();
+  if (!agent) return null;
+
+  const groupRows = await db
+    .prepare(
+      `SELECT g.* FROM agent_mcp_groups amg
+       JOIN mcp_groups g ON g.id = amg.group_id AND g.user_id = amg.user_id
+       WHERE amg.agent_id = ? AND amg.user_id = ?
+       ORDER BY g.name`
+    )
+    .bind(agentId, userId)
+    .all<GroupRow>();
+
+  const groups: AgentBundle["groups"] = [];
+  const servers = new Map<string, AgentBundle["servers"][number]>();
+  for (const group of groupRows.results) {
+    const groupServers = await db
+      .prepare(
+        "SELECT id, name, url, transport, auth_type, is_enabled FROM mcp_servers WHERE group_id = ? AND user_id = ? ORDER BY name"
+      )
+      .bind(group.id, userId)
+      .all<GroupServerRow>();
+    const linked = await db
+      .prepare(
+        `SELECT s.* FROM mcp_group_servers gs
+         JOIN mcp_servers_independent s ON s.id = gs.server_id AND s.user_id = gs.user_id
+         WHERE gs.group_id = ? AND gs.user_id = ?
+         ORDER BY s.name`
+      )
+      .bind(group.id, userId)
+      .all<IndependentServerRow>();
+
+    for (const server of linked.results) {
+      servers.set(server.id, {
+        id: server.id,
+        name: server.name,
+        description: server.description ?? null,
+        url: server.url,
+        transport: server.transport,
+        authType: server.auth_type,
+        toolTimeouts: parseToolTimeouts(server.tool_timeouts) ?? null,
+      });
+    }
+    groups.push({
+      id: group.id,
+      name: group.name,
+      description: group.description ?? null,
+      color: group.color ?? "blue",
+      servers: groupServers.results.map((server) => ({
+        id: server.id,
+        name: server.name,
+        url: server.url,
+        transport: server.transport,
+        authType: server.auth_type,
+        isEnabled: Boolean(server.is_enabled),
+      })),
+      serverIds: linked.results.map((server) => server.id),
+    });
+  }
+
+  const policies = await db
+    .prepare(
+      "SELECT server_id, tool_pattern, decision FROM tool_policies WHERE user_id = ? AND scope = 'agent' AND scope_id = ? ORDER BY created_at"
+    )
+    .bind(userId, agentId)
+    .all<{
+      server_id: string | null;
+      tool_pattern: string;
+      decision: ToolDecision;
+    }>();
+
+  return {
+    version: AGENT_BUNDLE_VERSION,
+    exportedAt: now.toISOString(),
+    agent: {
+      name: agent.name,
+      description: agent.description ?? null,
+      persona: agent.persona ?? null,
+      color: agent.color ?? "blue",
+      model: agent.model ?? null,
+      temperature: agent.temperature ?? null,
+      maxTokens: agent.max_tokens ?? null,
+      toolRules: parseToolRules(agent.tool_rules),
+      groupIds: groups.map((group) => group.id),
+      policies: policies.results.map((policy) => ({
+        serverId: policy.server_id,
+        toolPattern: policy.tool_pattern,
+        decision: policy.decision,
+      })),
+    },
+    groups,
+    servers: Array.from(servers.values()),
+  };
+}
+
+// "Name", "Name (2)", "Name (3)", ... whichever is free
+function freeName(name: string, taken: Set<string>): string {
+  let candidate = name;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${name} (${n})`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+async function namesById(
+  db: D1Database,
+  table: "agents" | "mcp_groups",
+  userId: string
+): Promise<Map<string, string>> {
+  const rows = await db
+    .prepare(`SELECT id, name FROM ${table} WHERE user_id = ?`)
+    .bind(userId)
+    .all<{ id: string; name: string }>();
+  // Lowercased name to ID, the first one wins when names repeat
+  const byName = new Map<string, string>();
+  for (const row of rows.results) {
+    if (!byName.has(row.name.toLowerCase())) {
+      byName.set(row.name.toLowerCase(), row.id);
+    }
+  }
+  return byName;
+}
+
+/**
+ * Create the agent of a bundle with its groups, servers and tool rules for
+ * a user
+ */
+export async function importAgentBundle(
+  db: D1Database,
+  userId: string,
+  bundle: AgentBundle,
+  onConflict: AgentBundleConflict = "rename"
+): Promise<AgentBundleImportResult> {
+  const now = new Date().toISOString();
+  const result: AgentBundleImportResult = {
+    agent: { id: null, name: bundle.agent.name, status: "skipped" },
+    groups: [],
+    servers: [],
+    warnings: [],
+  };
+
+  const agents = await namesById(db, "agents", userId);
+  const existingAgentId = agents.get(bundle.agent.name.toLowerCase());
+  if (existingAgentId && onConflict === "skip") {
+    result.agent.id = existingAgentId;
+    result.warnings.push(
+      `An agent named "${bundle.agent.name}" already exists, nothing was imported`
+    );
+    return result;
+  }
+
+  // Old IDs of the bundle's servers to the IDs they have for this user
+  const serverIds = new Map<string, string>();
+
+  const independentServers = new Map(
+    bundle.servers.map((server) => [server.id, server])
+  );
+  const importServer = async (bundleId: string): Promise<string | null> => {
+    const known = serverIds.get(bundleId);
+    if (known) return known;
+    const server = independentServers.get(bundleId);
+    if (!server) {
+      result.warnings.push(`Server ${bundleId} is missing from the bundle`);
+      return null;
+    }
+
+    const existing = await db
+      .prepare(
+        "SELECT id FROM mcp_servers_independent WHERE user_id = ? AND url = ? AND transport = ? ORDER BY created_at LIMIT 1"
+      )
+      .bind(userId, server.url, server.transport)
+      .first<{ id: string }>();
+    if (existing) {
+      serverIds.set(bundleId, existing.id);
+      result.servers.push({
+        id: existing.id,
+        name: server.name,
+        status: "reused",
+        needsCredentials: false,
+      });
+      return existing.id;
+    }
+
+    const id = uuidv4();
+    await db
+      .prepare(
+        `INSERT INTO mcp_servers_independent
+         (id, name, description, url, transport, auth_type, is_enabled, tool_timeouts,
+          sampling_trusted, sampling_token_budget, user_id, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        id,
+        server.name,
+        server.description ?? null,
+        server.url,
+        server.transport,
+        server.authType,
+        true,
+        server.toolTimeouts ? JSON.stringify(server.toolTimeouts) : null,
+        // Sampling runs on the importer's model tokens, they have to trust the server themselves
+        false,
+        null,
+        userId,
+        now,
+        now
+      )
+      .run();
+    serverIds.set(bundleId, id);
+    result.servers.push({
+      id,
+      name: server.name,
+      status: "created",
+      needsCredentials: server.authType !== "none",
+    });
+    return id;
+  };
+
+  const groups = await namesById(db, "mcp_groups", userId);
+  const takenGroupNames = new Set(groups.keys());
+  const groupIds: string[] = [];
+  for (const group of bundle.groups) {
+    if (!bundle.agent.groupIds.includes(group.id)) continue;
+
+    const existingGroupId = groups.get(group.name.toLowerCase());
+    if (existingGroupId && onConflict === "skip") {
+      result.groups.push({ id: null, name: group.name, status: "skipped" });
+      continue;
+    }
+
+    let groupId: string;
+    let groupName = group.name;
+    if (existingGroupId && onConflict === "merge") {
+      groupId = existingGroupId;
+      result.groups.push({ id: groupId, name: groupName, status: "merged" });
+    } else {
+      groupId = uuidv4();
+      groupName = freeName(group.name, takenGroupNames);
+      await db
+        .prepare(
+          "INSERT INTO mcp_groups (id, name, description, color, user_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)"
+        )
+        .bind(
+          groupId,
+          groupName,
+          group.description ?? null,
+          group.color,
+          userId,
+          now,
+          now
+        )
+        .run();
+      result.groups.push({ id: groupId, name: groupName, status: "created" });
+    }
+    groupIds.push(groupId);
+
+    // A merged group keeps its servers and gains the ones it lacks
+    const groupServers = await db
+      .prepare(
+        "SELECT id, url FROM mcp_servers WHERE group_id = ? AND user_id = ?"
+      )
+      .bind(groupId, userId)
+      .all<{ id: string; url: string }>();
+    const serversByUrl = new Map(
+      groupServers.results.map((server) => [server.url, server.id])
+    );
+    for (const server of group.servers) {
+      const existingServerId = serversByUrl.get(server.url);
+      if (existingServerId) {
+        serverIds.set(server.id, existingServerId);
+        continue;
+      }
+      const id = uuidv4();
+      await db
+        .prepare(
+          `INSERT INTO mcp_servers (id, name, url, transport, user_id, group_id, auth_type, is_enabled, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(
+          id,
+          server.name,
+          server.url,
+          server.transport,
+          userId,
+          groupId,
+          server.authType,
+          server.isEnabled,
+          now,
+          now
+        )
+        .run();
+      serverIds.set(server.id, id);
+      result.servers.push({
+        id,
+        name: server.name,
+        status: "created",
+        needsCredentials: server.authType !== "none",
+      });
+    }
+
+    for (const bundleId of group.serverIds) {
+      const serverId = await importServer(bundleId);
+      if (!serverId) continue;
+      await db
+        .prepare(
+          "INSERT OR IGNORE INTO mcp_group_servers (group_id, server_id, user_id, added_at) VALUES (?, ?, ?, ?)"
+        )
+        .bind(groupId, serverId, userId, now)
+        .run();
+    }
+  }
+
+  const { agent } = bundle;
+  let agentId: string;
+  if (existingAgentId && onConflict === "merge") {
+    agentId = existingAgentId;
+    await db
+      .prepare(
+        `UPDATE agents
+         SET description = ?, persona = ?, color = ?, model = ?, temperature = ?, max_tokens = ?, tool_rules = ?, updated_at = ?
+         WHERE id = ? AND user_id = ?`
+      )
+      .bind(
+        agent.description ?? null,
+        agent.persona ?? null,
+        agent.color,
+        agent.model ?? null,
+        agent.temperature ?? null,
+        agent.maxTokens ?? null,
+        serializeToolRules(agent.toolRules),
+        now,
+        agentId,
+        userId
+      )
+      .run();
+    result.agent = { id: agentId, name: agent.name, status: "merged" };
+  } else {
+    agentId = uuidv4();
+    const name = freeName(agent.name, new Set(agents.keys()));
+    await db
+      .prepare(
+        `INSERT INTO agents (id, name, description, persona, user_id, color, model, temperature, max_tokens, tool_rules, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        agentId,
+        name,
+        agent.description ?? null,
+        agent.persona ?? null,
+        userId,
+        agent.color,
+        agent.model ?? null,
+        agent.temperature ?? null,
+        agent.maxTokens ?? null,
+        serializeToolRules(agent.toolRules),
+        now,
+        now
+      )
+      .run();
+    result.agent = { id: agentId, name, status: "created" };
+  }
+
+  for (const groupId of groupIds) {
+    await db
+      .prepare(
+        "INSERT OR IGNORE INTO agent_mcp_groups (agent_id, group_id, user_id) VALUES (?, ?, ?)"
+      )
+      .bind(agentId, groupId, userId)
+      .run();
+  }
+
+  for (const policy of agent.policies) {
+    const serverId = policy.serverId ? serverIds.get(policy.serverId) : null;
+    if (serverId === undefined) {
+      result.warnings.push(
+        `The rule for "${policy.toolPattern}" belongs to a server that wasn't imported and was left out`
+      );
+      continue;
+    }
+    const duplicate = await db
+      .prepare(
+        "SELECT id FROM tool_policies WHERE user_id = ? AND scope = 'agent' AND scope_id = ? AND server_id IS ? AND tool_pattern = ? AND decision = ?"
+      )
+      .bind(userId, agentId, serverId, policy.toolPattern, policy.decision)
+      .first();
+    if (duplicate) continue;
+    await db
+      .prepare(
+        "INSERT INTO tool_policies (id, user_id, scope, scope_id, server_id, tool_pattern, decision, created_at) VALUES (?, ?, 'agent', ?, ?, ?, ?, ?)"
+      )
+      .bind(
+        uuidv4(),
+        userId,
+        agentId,
+        serverId,
+        policy.toolPattern,
+        policy.decision,
+        now
+      )
+      .run();
+  }
+
+  return result;
+}
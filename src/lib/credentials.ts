@@ -0,0 +1,271 @@
+import type {
+  MCPCredentials,
+  MCPServerConfig,
+  OAuthTokens,
+} from "../types/mcp";
+
+/**
+ * Envelope encryption for MCP server credentials.
+ *
+ * Each credentials blob is encrypted with its own random data key (DEK), and
+ * the DEK is wrapped with a key-encryption key (KEK) derived from the
+ * MCP_CREDENTIALS_KEY worker secret. Rotating the secret only re-wraps the
+ * DEKs, the credential ciphertext itself never changes.
+ */
+export interface CredentialKeyOptions {
+  /** Current secret first, retired secrets after it */
+  secrets: string[];
+}
+
+// Format: "enc1.<dek iv>.<wrapped dek>.<iv>.<ciphertext>"
+const ENVELOPE_VERSION = "enc1";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Read the credential keys from the environment.
+ * MCP_CREDENTIALS_KEY is the current key, MCP_CREDENTIALS_KEY_PREVIOUS holds a
+ * comma separated list of retired keys that can still unwrap data keys.
+ */
+export function getCredentialKeyOptions(): CredentialKeyOptions {
+  const current = process.env.MCP_CREDENTIALS_KEY;
+  const previous = (process.env.MCP_CREDENTIALS_KEY_PREVIOUS || "")
+    .split(",")
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+  return { secrets: current ? [current, ...previous] : previous };
+}
+
+const keyEncryptionKeys = new Map<string, Promise<CryptoKey>>();
+
+function deriveKeyEncryptionKey(secret: string): Promise<CryptoKey> {
+  let key = keyEncryptionKeys.get(secret);
+  if (!key) {
+    key = (async () => {
+      const material = await crypto.subtle.importKey(
+        "raw",
+        encoder.encode(secret),
+        "HKDF",
+        false,
+        ["deriveKey"]
+      );
+      return crypto.subtle.deriveKey(
+        {
+          name: "HKDF",
+          hash: "SHA-256",
+          salt: new Uint8Array(0),
+          info: encoder.encode("mcp-credentials-kek"),
+        },
+        material,
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"]
+      );
+    })();
+    keyEncryptionKeys.set(secret, key);
+  }
+  return key;
+}
+
+const toBase64Url = (data: ArrayBuffer | Uint8Array) =>
+  Buffer.from(
+    data instanceof Uint8Array ? data : new Uint8Array(data)
+  ).toString("base64url");
+
+const fromBase64Url = (value: string) =>
+  new Uint8Array(Buffer.from(value, "base64url"));
+
+async function wrapDataKey(
+  dataKey: Uint8Array,
+  keyOptions: CredentialKeyOptions
+): Promise<string> {
+  const [secret] = keyOptions.secrets;
+  if (!secret) {
+    throw new Error("MCP_CREDENTIALS_KEY is not configured");
+  }
+  const kek = await deriveKeyEncryptionKey(secret);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrapped = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    kek,
+    dataKey
+  );
+  return `${toBase64Url(iv)}.${toBase64Url(wrapped)}`;
+}
+
+async function unwrapDataKey(
+  iv: string,
+  wrapped: string,
+  keyOptions: CredentialKeyOptions
+): Promise<Uint8Array> {
+  for (const secret of keyOptions.secrets) {
+    const kek = await deriveKeyEncryptionKey(secret);
+    try {
+      const dataKey = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64Url(iv) },
+        kek,
+        fromBase64Url(wrapped)
+      );
+      return new Uint8Array(dataKey);
+    } catch {
+      // Wrapped with another key, try the next one
+    }
+  }
+  throw new Error("Credentials were encrypted with an unknown key");
+}
+
+export function isEncryptedCredentials(value: string): boolean {
+  return value.startsWith(`${ENVELOPE_VERSION}.`);
+}
+
+/**
+ * Encrypt credentials (or other secrets such as OAuth tokens) for storage
+ */
+export async function encryptCredentials<T extends object = MCPCredentials>(
+  credentials: T,
+  keyOptions: CredentialKeyOptions = getCredentialKeyOptions()
+): Promise<string> {
+  const dataKey = crypto.getRandomValues(new Uint8Array(32));
+  const wrappedKey = await wrapDataKey(dataKey, keyOptions);
+
+  const key = await crypto.subtle.importKey("raw", dataKey, "AES-GCM", false, [
+    "encrypt",
+  ]);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    encoder.encode(JSON.stringify(credentials))
+  );
+
+  return `${ENVELOPE_VERSION}.${wrappedKey}.${toBase64Url(iv)}.${toBase64Url(ciphertext)}`;
+}
+
+/**
+ * Decrypt stored credentials. Rows written before encryption was added hold
+ * plain JSON, which is still accepted until the re-key command encrypts it.
+ */
+export async function decryptCredentials<T extends object = MCPCredentials>(
+  value: string | null | undefined,
+  keyOptions: CredentialKeyOptions = getCredentialKeyOptions()
+): Promise<T | undefined> {
+  if (!value) {
+    return undefined;
+  }
+  if (!isEncryptedCredentials(value)) {
+    return JSON.parse(value) as T;
+  }
+
+  const parts = value.split(".");
+  if (parts.length !== 5) {
+    throw new Error("Malformed encrypted credentials");
+  }
+  const [, dekIv, wrappedKey, iv, ciphertext] = parts;
+  const dataKey = await unwrapDataKey(dekIv, wrappedKey, keyOptions);
+  const key = await crypto.subtle.importKey("raw", dataKey, "AES-GCM", false, [
+    "decrypt",
+  ]);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64Url(iv) },
+    key,
+    fromBase64Url(ciphertext)
+  );
+  return JSON.parse(decoder.decode(plaintext)) as T;
+}
+
+/**
+ * Re-wrap the data key of stored credentials with the current key.
+ * Plain JSON rows are encrypted. Returns null when nothing needs to change.
+ */
+export async function rekeyCredentials(
+  value: string,
+  keyOptions: CredentialKeyOptions = getCredentialKeyOptions()
+): Promise<string | null> {
+  if (!isEncryptedCredentials(value)) {
+    return encryptCredentials(JSON.parse(value), keyOptions);
+  }
+
+  const [, dekIv, wrappedKey, iv, ciphertext] = value.split(".");
+  const [current] = keyOptions.secrets;
+  // Already wrapped with the current key
+  if (current) {
+    try {
+      await unwrapDataKey(dekIv, wrappedKey, { secrets: [current] });
+      return null;
+    } catch {
+      // Wrapped with a retired key
+    }
+  }
+
+  const dataKey = await unwrapDataKey(dekIv, wrappedKey, keyOptions);
+  const rewrapped = await wrapDataKey(dataKey, keyOptions);
+  return `${ENVELOPE_VERSION}.${rewrapped}.${iv}.${ciphertext}`;
+}
+
+/**
+ * Columns holding encrypted credentials, re-keyed by scripts/rekey-credentials.ts
+ */
+export const CREDENTIAL_COLUMNS = [
+  { table: "mcp_servers_independent", column: "auth_config" },
+  { table: "mcp_servers_independent", column: "oauth_tokens" },
+  { table: "mcp_servers", column: "encrypted_credentials" },
+] as const;
+
+export type CredentialColumn = (typeof CREDENTIAL_COLUMNS)[number];
+
+const sqlString = (value: string) => `'${value.replaceAll("'", "''")}'`;
+
+/**
+ * SQL updates re-keying the stored values of a credential column, rows
+ * already on the current key get none
+ */
+export async function rekeyCredentialStatements(
+  { table, column }: CredentialColumn,
+  rows: { id: string; value: string }[],
+  keyOptions: CredentialKeyOptions = getCredentialKeyOptions()
+): Promise<string[]> {
+  const updates: string[] = [];
+  for (const row of rows) {
+    const rekeyed = await rekeyCredentials(row.value, keyOptions);
+    if (rekeyed) {
+      updates.push(
+        `UPDATE ${table} SET ${column} = ${sqlString(rekeyed)} WHERE id = ${sqlString(row.id)};`
+      );
+    }
+  }
+  return updates;
+}
+
+/**
+ * Build the HTTP headers that authenticate requests for the given auth type
+ */
+export function buildAuthHeaders(
+  authType: MCPServerConfig["auth"]["type"],
+  credentials: MCPCredentials,
+  oauthTokens?: OAuthTokens
+): Record<string, string> {
+  if (authType === "apikey" && credentials.apiKey) {
+    return {
+      Authorization: `Bearer ${credentials.apiKey}`,
+      ...credentials.customHeaders,
+    };
+  }
+  if (authType === "basic" && credentials.username && credentials.password) {
+    const encoded = btoa(`${credentials.username}:${credentials.password}`);
+    return {
+      Authorization: `Basic ${encoded}`,
+      ...credentials.customHeaders,
+    };
+  }
+  if (authType === "oauth2" && oauthTokens) {
+    return {
+      Authorization: `Bearer ${oauthTokens.accessToken}`,
+      ...credentials.customHeaders,
+    };
+  }
+  if (authType === "custom") {
+    return { ...credentials.customHeaders };
+  }
+  return {};
+}
@@ -0,0 +1,376 @@
+/**
+ * JSON Schema to Zod conversion for MCP tool parameters
+ * Covers the parts of draft-07 / 2020-12 that MCP servers use in practice:
+ * types and type unions, enum/const, required and defaults, string, number
+ * and array constraints, oneOf/anyOf/allOf and local $refs (including
+ * recursive ones). Unsupported keywords are ignored rather than rejected so
+ * a tool never becomes unusable because of an exotic schema.
+ */
+import { z } from "zod";
+
+type JSONSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "null"
+  | "array"
+  | "object";
+
+export type JSONSchemaDefinition = JSONSchema | boolean;
+
+export interface JSONSchema {
+  $ref?: string;
+  $defs?: Record<string, JSONSchemaDefinition>;
+  definitions?: Record<string, JSONSchemaDefinition>;
+  type?: JSONSchemaType | JSONSchemaType[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  const?: unknown;
+  /** OpenAPI style nullability, used by some servers */
+  nullable?: boolean;
+  // Combinators
+  oneOf?: JSONSchemaDefinition[];
+  anyOf?: JSONSchemaDefinition[];
+  allOf?: JSONSchemaDefinition[];
+  // Objects
+  properties?: Record<string, JSONSchemaDefinition>;
+  required?: string[];
+  additionalProperties?: JSONSchemaDefinition;
+  // Arrays
+  items?: JSONSchemaDefinition | JSONSchemaDefinition[];
+  prefixItems?: JSONSchemaDefinition[];
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  // Numbers, exclusive bounds are booleans in draft-04
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number | boolean;
+  exclusiveMaximum?: number | boolean;
+  multipleOf?: number;
+}
+
+interface ConversionContext {
+  root: JSONSchemaDefinition;
+  refs: Map<string, z.ZodTypeAny>;
+}
+
+/**
+ * Convert a JSON Schema to an equivalent Zod schema
+ */
+export function jsonSchemaToZod(schema: JSONSchemaDefinition): z.ZodTypeAny {
+  return convert(schema, { root: schema, refs: new Map() });
+}
+
+/**
+ * Convert an MCP tool's inputSchema for use as AI tool parameters. Tools
+ * always take an object, so a missing schema becomes an empty object.
+ */
+export function toolParametersToZod(inputSchema: unknown): z.ZodTypeAny {
+  if (!inputSchema || typeof inputSchema !== "object") {
+    return z.object({});
+  }
+  return jsonSchemaToZod(inputSchema as JSONSchema);
+}
+
+function convert(
+  definition: JSONSchemaDefinition,
+  context: ConversionContext
+): z.ZodTypeAny {
+  if (definition === true) {
+    return z.any();
+  }
+  if (definition === false) {
+    return z.never();
+  }
+
+  let schema = definition.$ref
+    ? resolveRef(definition.$ref, context)
+    : convertType(definition, context);
+
+  if (definition.nullable) {
+    schema = schema.nullable();
+  }
+  const description = definition.description ?? definition.title;
+  if (description) {
+    schema = schema.describe(description);
+  }
+  if (definition.default !== undefined) {
+    schema = schema.default(definition.default);
+  }
+  return schema;
+}
+
+function resolveRef(ref: string, context: ConversionContext): z.ZodTypeAny {
+  const existing = context.refs.get(ref);
+  if (existing) {
+    return existing;
+  }
+  // Only refs into the same document can be resolved
+  if (!ref.startsWith("#")) {
+    return z.any();
+  }
+
+  let target: unknown = context.root;
+  for (const segment of ref.slice(1).split("/").filter(Boolean)) {
+    const key = decodeURIComponent(segment)
+      .replaceAll("~1", "/")
+      .replaceAll("~0", "~");
+    target =
+      target && typeof target === "object"
+        ? (target as Record<string, unknown>)[key]
+        : undefined;
+  }
+  if (target === undefined) {
+    return z.any();
+  }
+
+  // Registered before converting so recursive schemas resolve to the lazy type
+  let resolved: z.ZodTypeAny | undefined;
+  const lazy = z.lazy(() => {
+    resolved ??= convert(target as JSONSchemaDefinition, context);
+    return resolved;
+  });
+  context.refs.set(ref, lazy);
+  return lazy;
+}
+
+function union(schemas: z.ZodTypeAny[]): z.ZodTypeAny {
+  if (schemas.length === 0) {
+    return z.never();
+  }
+  if (schemas.length === 1) {
+    return schemas[0];
+  }
+  return z.union(schemas as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+function literal(value: unknown): z.ZodTypeAny {
+  if (
+    value === null ||
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  ) {
+    return z.literal(value);
+  }
+  // Objects and arrays are compared structurally
+  return z
+    .any()
+    .refine((input) => JSON.stringify(input) === JSON.stringify(value), {
+      message: `Expected ${JSON.stringify(value)}`,
+    });
+}
+
+function convertType(
+  schema: JSONSchema,
+  context: ConversionContext
+): z.ZodTypeAny {
+  if (schema.const !== undefined) {
+    return literal(schema.const);
+  }
+  if (schema.enum) {
+    if (
+      schema.enum.length > 0 &&
+      schema.enum.every((value) => typeof value === "string")
+    ) {
+      return z.enum(schema.enum as [string, ...string[]]);
+    }
+    return union(schema.enum.map(literal));
+  }
+
+  const alternatives = schema.oneOf ?? schema.anyOf;
+  if (alternatives || schema.allOf) {
+    // Sibling keywords like `type` and `properties` apply on top of the
+    // combinators, so they become one more part of the intersection
+    const { oneOf, anyOf, allOf, ...base } = schema;
+    const parts = (allOf ?? []).map((part) => convert(part, context));
+    if (alternatives) {
+      parts.push(union(alternatives.map((option) => convert(option, context))));
+    }
+    if (base.type || inferType(base)) {
+      parts.unshift(convertType(base, context));
+    }
+    const [first, ...rest] = parts;
+    return rest.reduce<z.ZodTypeAny>(
+      (combined, part) => z.intersection(combined, part),
+      first ?? z.any()
+    );
+  }
+
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter((type) => type !== "null");
+    const converted = union(
+      types.map((type) => convertType({ ...schema, type }, context))
+    );
+    return schema.type.includes("null") ? converted.nullable() : converted;
+  }
+
+  switch (schema.type ?? inferType(schema)) {
+    case "string":
+      return convertString(schema);
+    case "number":
+    case "integer":
+      return convertNumber(schema);
+    case "boolean":
+      return z.boolean();
+    case "null":
+      return z.null();
+    case "array":
+      return convertArray(schema, context);
+    case "object":
+      return convertObject(schema, context);
+    default:
+      return z.any();
+  }
+}
+
+function inferType(schema: JSONSchema): JSONSchemaType | undefined {
+  if (schema.properties || schema.required || schema.additionalProperties) {
+    return "object";
+  }
+  if (schema.items || schema.prefixItems) {
+    return "array";
+  }
+  return undefined;
+}
+
+function convertString(schema: JSONSchema): z.ZodTypeAny {
+  let result = z.string();
+  switch (schema.format) {
+    case "email":
+      result = result.email();
+      break;
+    case "uri":
+    case "url":
+      result = result.url();
+      break;
+    case "uuid":
+      result = result.uuid();
+      break;
+    case "date-time":
+      result = result.datetime({ offset: true });
+      break;
+    case "date":
+      result = result.date();
+      break;
+    case "ipv4":
+      result = result.ip({ version: "v4" });
+      break;
+    case "ipv6":
+      result = result.ip({ version: "v6" });
+      break;
+  }
+  if (schema.minLength !== undefined) {
+    result = result.min(schema.minLength);
+  }
+  if (schema.maxLength !== undefined) {
+    result = result.max(schema.maxLength);
+  }
+  if (schema.pattern) {
+    try {
+      result = result.regex(new RegExp(schema.pattern, "u"));
+    } catch {
+      // Patterns using syntax JavaScript doesn't support are skipped
+    }
+  }
+  return result;
+}
+
+function convertNumber(schema: JSONSchema): z.ZodTypeAny {
+  let result = z.number();
+  if (schema.type === "integer") {
+    result = result.int();
+  }
+
+  if (typeof schema.exclusiveMinimum === "number") {
+    result = result.gt(schema.exclusiveMinimum);
+  }
+  if (schema.minimum !== undefined) {
+    result =
+      schema.exclusiveMinimum === true
+        ? result.gt(schema.minimum)
+        : result.gte(schema.minimum);
+  }
+  if (typeof schema.exclusiveMaximum === "number") {
+    result = result.lt(schema.exclusiveMaximum);
+  }
+  if (schema.maximum !== undefined) {
+    result =
+      schema.exclusiveMaximum === true
+        ? result.lt(schema.maximum)
+        : result.lte(schema.maximum);
+  }
+  if (schema.multipleOf !== undefined) {
+    result = result.multipleOf(schema.multipleOf);
+  }
+  return result;
+}
+
+function convertArray(
+  schema: JSONSchema,
+  context: ConversionContext
+): z.ZodTypeAny {
+  const tupleItems =
+    schema.prefixItems ?? (Array.isArray(schema.items) ? schema.items : null);
+  if (tupleItems) {
+    const items = tupleItems.map((item) => convert(item, context));
+    return z.tuple(items as [z.ZodTypeAny, ...z.ZodTypeAny[]]);
+  }
+
+  let result = z.array(
+    schema.items !== undefined
+      ? convert(schema.items as JSONSchemaDefinition, context)
+      : z.any()
+  );
+  if (schema.minItems !== undefined) {
+    result = result.min(schema.minItems);
+  }
+  if (schema.maxItems !== undefined) {
+    result = result.max(schema.maxItems);
+  }
+  if (schema.uniqueItems) {
+    return result.refine(
+      (items) =>
+        new Set(items.map((item) => JSON.stringify(item))).size ===
+        items.length,
+      { message: "Items must be unique" }
+    );
+  }
+  return result;
+}
+
+function convertObject(
+  schema: JSONSchema,
+  context: ConversionContext
+): z.ZodTypeAny {
+  const required = new Set(schema.required ?? []);
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const [key, property] of Object.entries(schema.properties ?? {})) {
+    const converted = convert(property, context);
+    // Properties with a default already accept undefined, wrapping them in
+    // optional() would skip the default
+    const hasDefault =
+      typeof property === "object" && property.default !== undefined;
+    shape[key] =
+      required.has(key) || hasDefault ? converted : converted.optional();
+  }
+
+  const result = z.object(shape);
+  if (schema.additionalProperties === false) {
+    return result.strict();
+  }
+  if (schema.additionalProperties && schema.additionalProperties !== true) {
+    return result.catchall(convert(schema.additionalProperties, context));
+  }
+  // JSON Schema allows extra properties unless told otherwise
+  return result.passthrough();
+}
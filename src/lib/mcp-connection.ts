@@ -1,14 +1,65 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
-import { WebSocketClientTransport } from "@modelcontextprotocol/sdk/client/websocket.js";
-import { tool } from "ai";
+import {
+    CreateMessageRequestSchema,
+    type CreateMessageResult,
+    ErrorCode,
+    type GetPromptResult,
+    McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+import { tool, type ToolExecutionOptions } from "ai";
 import { z } from "zod";
 import type {
     MCPServerConfig,
     MCPTool,
     MCPConnection,
     MCPToolExecution,
+    MCPPrompt,
+    MCPResource,
+    MCPResourceContent,
+    MCPResourceTemplate,
+    OAuthTokens,
 } from "../types/mcp";
+import {
+    buildAuthHeaders,
+    type CredentialKeyOptions,
+    decryptCredentials,
+    getCredentialKeyOptions,
+} from "./credentials";
+import { ensureFreshOAuthTokens, MCPAuthRequiredError } from "./mcp-oauth";
+import { connectMCPClient } from "./mcp-transport";
+import {
+    connectionFingerprint,
+    MCP_POOL_CONFIG,
+    type MCPPoolUsage,
+    planSweep,
+} from "./mcp-pool";
+import { toolParametersToZod } from "./json-schema-to-zod";
+import { discoverResources } from "./mcp-resources";
+import { discoverPrompts } from "./mcp-prompts";
+import {
+    checkServersInBatches,
+    pruneHealthChecks,
+    recordHealthCheck,
+} from "./mcp-health";
+import type { SamplingParams, SamplingServer } from "./mcp-sampling";
+import {
+    diffNames,
+    handleChangeNotifications,
+    MCPChangeListeners,
+    type MCPCapabilitiesChange,
+    type MCPChangeListener,
+} from "./mcp-notifications";
+import {
+    DEFAULT_TOOL_TIMEOUT_MS,
+    MAX_TIMER_DELAY_MS,
+    type MCPToolCallOptions,
+    type MCPToolProgressPart,
+    parseToolTimeouts,
+    ToolCallDeadline,
+    toolErrorResult,
+    toolProgressPart,
+    toolTimeoutMs,
+} from "./mcp-tool-calls";
 
 const MCP_RELIABILITY_CONFIG = {
     maxRetries: 3,
@@ -17,23 +68,90 @@ const MCP_RELIABILITY_CONFIG = {
     fallbackMessage: "MCP server temporarily unavailable",
 };
 
-class MCPConnectionManager {
+export interface MCPConnectionManagerOptions {
+    // Close idle connections and ping the others on this interval, off when unset
+    sweepIntervalMs?: number;
+    idleTimeoutMs?: number;
+    pingIntervalMs?: number;
+    now?: () => number;
+    // Custom fetch for HTTP transports, mainly for tests
+    fetch?: typeof fetch;
+    // Retry failed connections in the background, on unless disabled
+    retryConnections?: boolean;
+    // Answers servers' sampling requests, servers can't sample when unset
+    onSamplingRequest?: (server: SamplingServer, params: SamplingParams) => Promise<CreateMessageResult>;
+}
+
+export class MCPConnectionManager {
     private connections = new Map<string, MCPConnection>();
     private retryTimeouts = new Map<string, NodeJS.Timeout>();
+    private changeListeners = new MCPChangeListeners();
+    // Pool bookkeeping, keyed by server id like the connections
+    private fingerprints = new Map<string, string>();
+    private usage = new Map<string, MCPPoolUsage>();
+    private pendingConnections = new Map<string, Promise<MCPConnection>>();
+    private sweepTimeout?: ReturnType<typeof setTimeout>;
+    // Deadlines of running tool calls by server, paused while its sampling requests wait
+    private toolCallDeadlines = new Map<string, Set<ToolCallDeadline>>();
+
+    constructor(private options: MCPConnectionManagerOptions = {}) {}
 
     /**
-     * Initialize connection to an MCP server
+     * Connect to an MCP server, reusing the pooled connection when it was
+     * opened for the same user with the same settings
      */
-    async connectToServer(serverConfig: MCPServerConfig): Promise<MCPConnection> {
+    async connectToServer(
+        serverConfig: MCPServerConfig,
+        keyOptions: CredentialKeyOptions = getCredentialKeyOptions()
+    ): Promise<MCPConnection> {
+        const fingerprint = await connectionFingerprint(serverConfig);
         const existingConnection = this.connections.get(serverConfig.id);
         if (existingConnection?.status === "connected") {
-            return existingConnection;
+            if (this.fingerprints.get(serverConfig.id) === fingerprint) {
+                this.touch(serverConfig.id);
+                return existingConnection;
+            }
+            // Never hand out a connection authorized with other credentials
+            console.log(`[MCP] Settings of ${serverConfig.name} changed, reconnecting`);
+            await this.disconnectServer(serverConfig.id);
+        }
+
+        // Concurrent tool loads share one handshake
+        const pendingKey = `${serverConfig.id}:${fingerprint}`;
+        const pending = this.pendingConnections.get(pendingKey);
+        if (pending) {
+            return pending;
+        }
+
+        const connecting = this.openConnection(serverConfig, keyOptions).finally(() => {
+            this.pendingConnections.delete(pendingKey);
+        });
+        this.pendingConnections.set(pendingKey, connecting);
+
+        const connection = await connecting;
+        if (connection.status === "connected") {
+            this.fingerprints.set(serverConfig.id, fingerprint);
+            const now = this.now();
+            this.usage.set(serverConfig.id, { lastUsed: now, lastPinged: now });
+            this.scheduleSweep();
         }
+        return connection;
+    }
 
+    /**
+     * Initialize connection to an MCP server
+     */
+    private async openConnection(
+        serverConfig: MCPServerConfig,
+        keyOptions: CredentialKeyOptions
+    ): Promise<MCPConnection> {
         const connection: MCPConnection = {
             serverId: serverConfig.id,
             status: "connecting",
             tools: [],
+            resources: [],
+            resourceTemplates: [],
+            prompts: [],
             retryCount: 0,
             lastConnected: undefined,
         };
@@ -84,64 +202,50 @@ class MCPConnectionManager {
                 }
             }
 
-            // Create appropriate transport based on server config
-            let transport: WebSocketClientTransport | SSEClientTransport;
-            let headers: Record<string, string> = {};
-
-            // Add authentication headers if needed
-            if (serverConfig.auth.type === "apikey" && serverConfig.auth.apiKey) {
-                headers = {
-                    Authorization: `Bearer ${serverConfig.auth.apiKey}`,
-                    ...serverConfig.auth.customHeaders,
-                };
-            } else if (
-                serverConfig.auth.type === "basic" &&
-                serverConfig.auth.username &&
-                serverConfig.auth.password
-            ) {
-                const credentials = btoa(
-                    `${serverConfig.auth.username}:${serverConfig.auth.password}`
-                );
-                headers = {
-                    Authorization: `Basic ${credentials}`,
-                    ...serverConfig.auth.customHeaders,
-                };
-            }
-
-            if (serverConfig.transport === "websocket") {
-                console.log(`[MCP] Creating WebSocket transport for ${serverConfig.url}`);
-                transport = new WebSocketClientTransport(new URL(serverConfig.url));
-                // Note: WebSocket auth typically handled via query params or subprotocols
-            } else {
-                console.log(`[MCP] Creating SSE transport for ${serverConfig.url}`);
-                console.log(`[MCP] Headers:`, headers);
-
-                try {
-                    transport = new SSEClientTransport(new URL(serverConfig.url));
-                    console.log(`[MCP] SSE transport created successfully`);
-
-                    // SSE can use headers for auth
-                    if (Object.keys(headers).length > 0) {
-                        (transport as any).headers = headers;
-                        console.log(`[MCP] Headers applied to SSE transport`);
-                    }
-                } catch (transportError) {
-                    console.error(`[MCP] Failed to create SSE transport:`, transportError);
-                    throw transportError;
-                }
-            }
-
-            const client = new Client(
-                {
-                    name: "chat-agents-app",
-                    version: "1.0.0",
-                },
-                {
-                    capabilities: {
-                        tools: {},
+            // Stored credentials are only decrypted here, right before they are used
+            const storedCredentials = await decryptCredentials(
+                serverConfig.encryptedCredentials,
+                keyOptions
+            );
+            const oauthTokens = serverConfig.auth.type === "oauth2"
+                ? await decryptCredentials<OAuthTokens>(
+                    serverConfig.encryptedOAuthTokens,
+                    keyOptions
+                )
+                : undefined;
+            const headers = buildAuthHeaders(
+                serverConfig.auth.type,
+                { ...serverConfig.auth, ...storedCredentials },
+                oauthTokens
+            );
+            console.log(`[MCP] Auth headers:`, Object.keys(headers));
+
+            const { onSamplingRequest } = this.options;
+            const createClient = () => {
+                const client = new Client(
+                    {
+                        name: "chat-agents-app",
+                        version: "1.0.0",
                     },
+                    {
+                        capabilities: {
+                            tools: {},
+                            ...(onSamplingRequest ? { sampling: {} } : {}),
+                        },
+                    }
+                );
+                if (onSamplingRequest) {
+                    client.setRequestHandler(CreateMessageRequestSchema, (request) =>
+                        this.pausingToolCalls(serverConfig.id, () =>
+                            onSamplingRequest(
+                                { id: serverConfig.id, name: serverConfig.name },
+                                request.params
+                            )
+                        )
+                    );
                 }
-            );
+                return client;
+            };
 
             console.log(`[MCP] Connecting to ${serverConfig.name} at ${serverConfig.url}...`);
             console.log(`[MCP] Transport type: ${serverConfig.transport}`);
@@ -149,8 +253,14 @@ class MCPConnectionManager {
 
             // Add timeout wrapper for the connection
             console.log(`[MCP] Starting MCP client connection...`);
-            const connectPromise = client.connect(transport);
-            const timeoutPromise = new Promise((_, reject) => {
+            // Streamable HTTP servers fall back to SSE when they only speak the legacy protocol
+            const connectPromise = connectMCPClient(createClient, {
+                url: serverConfig.url,
+                transport: serverConfig.transport,
+                headers,
+                fetch: this.options.fetch,
+            });
+            const timeoutPromise = new Promise<never>((_, reject) => {
                 setTimeout(() => {
                     console.error(`[MCP] Connection timeout after ${MCP_RELIABILITY_CONFIG.timeoutMs}ms for ${serverConfig.name}`);
                     reject(new Error(`Connection timeout after ${MCP_RELIABILITY_CONFIG.timeoutMs}ms`));
@@ -167,29 +277,47 @@ class MCPConnectionManager {
                 });
 
             console.log(`[MCP] Waiting for connection to complete...`);
-            await Promise.race([connectPromise, timeoutPromise]);
+            const { client, transport } = await Promise.race([connectPromise, timeoutPromise]);
 
-            console.log(`[MCP] Connected to ${serverConfig.name}, discovering tools...`);
+            console.log(`[MCP] Connected to ${serverConfig.name} via ${transport}, discovering tools...`);
 
             // Discover available tools
-            const toolsResult = await client.listTools();
-            const tools: MCPTool[] = toolsResult.tools.map((tool) => ({
-                name: tool.name,
-                description: tool.description || "",
-                serverId: serverConfig.id,
-                serverName: serverConfig.name,
-                schema: tool.inputSchema,
-                requiresConfirmation: this.shouldRequireConfirmation(tool.name),
-            }));
+            const tools = await this.listTools(client, serverConfig);
+
+            // Discover resources when the server offers them
+            const { resources, resourceTemplates } = client.getServerCapabilities()?.resources
+                ? await discoverResources(client, serverConfig)
+                : { resources: [], resourceTemplates: [] };
+            const prompts = client.getServerCapabilities()?.prompts
+                ? await discoverPrompts(client, serverConfig)
+                : [];
 
             connection.client = client;
+            connection.transport = transport;
             connection.tools = tools;
+            connection.resources = resources;
+            connection.resourceTemplates = resourceTemplates;
+            connection.prompts = prompts;
             connection.status = "connected";
             connection.lastConnected = new Date();
             connection.retryCount = 0;
 
+            // Keep the cached capabilities current when the server changes them
+            handleChangeNotifications(client, {
+                onToolsChanged: () => this.refreshTools(serverConfig, connection),
+                onResourcesChanged: () => this.refreshResources(serverConfig, connection),
+                onResourceUpdated: (uri) =>
+                    this.changeListeners.notify({
+                        serverId: serverConfig.id,
+                        serverName: serverConfig.name,
+                        kind: "resources",
+                        resourceUri: uri,
+                    }),
+                onPromptsChanged: () => this.refreshPrompts(serverConfig, connection),
+            });
+
             console.log(
-                `Connected to MCP server: ${serverConfig.name} (${tools.length} tools)`
+                `Connected to MCP server: ${serverConfig.name} (${tools.length} tools, ${resources.length} resources, ${prompts.length} prompts)`
             );
             return connection;
         } catch (error) {
@@ -211,6 +339,7 @@ class MCPConnectionManager {
 
             // Schedule retry if enabled
             if (
+                this.options.retryConnections !== false &&
                 serverConfig.isEnabled &&
                 connection.retryCount < MCP_RELIABILITY_CONFIG.maxRetries
             ) {
@@ -227,7 +356,8 @@ class MCPConnectionManager {
     async executeTool(
         serverId: string,
         toolName: string,
-        parameters: any
+        parameters: any,
+        options: MCPToolCallOptions = {}
     ): Promise<MCPToolExecution> {
         const execution: MCPToolExecution = {
             toolName,
@@ -237,6 +367,8 @@ class MCPConnectionManager {
         };
 
         const startTime = Date.now();
+        const timeoutMs = options.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+        this.touch(serverId);
 
         try {
             const result = await this.withMCPRetry(
@@ -250,15 +382,37 @@ class MCPConnectionManager {
                         throw new Error(`MCP server ${serverId} not connected`);
                     }
 
-                    const response = await connection.client.callTool({
-                        name: toolName,
-                        arguments: parameters,
-                    });
-
-                    return response;
+                    // The SDK sends notifications/cancelled when the signal aborts or the deadline passes
+                    const deadline = new ToolCallDeadline(timeoutMs);
+                    const deadlines = this.toolCallDeadlines.get(serverId) ?? new Set();
+                    this.toolCallDeadlines.set(serverId, deadlines.add(deadline));
+                    try {
+                        return await connection.client.callTool(
+                            {
+                                name: toolName,
+                                arguments: parameters,
+                            },
+                            undefined,
+                            {
+                                signal: options.signal
+                                    ? AbortSignal.any([options.signal, deadline.signal])
+                                    : deadline.signal,
+                                timeout: MAX_TIMER_DELAY_MS,
+                                onprogress: options.onProgress,
+                            }
+                        );
+                    } finally {
+                        deadline.clear();
+                        deadlines.delete(deadline);
+                    }
                 },
                 serverId,
-                toolName
+                toolName,
+                {
+                    // The deadline rejects the call itself, even on a stuck transport
+                    timeoutMs: null,
+                    signal: options.signal,
+                }
             );
 
             execution.result = result;
@@ -277,6 +431,66 @@ class MCPConnectionManager {
         }
     }
 
+    /**
+     * Read a resource from a connected server
+     */
+    async readResource(
+        serverId: string,
+        uri: string
+    ): Promise<MCPResourceContent[]> {
+        this.touch(serverId);
+        const result = await this.withMCPRetry(
+            async () => {
+                const connection = this.connections.get(serverId);
+                if (
+                    !connection ||
+                    connection.status !== "connected" ||
+                    !connection.client
+                ) {
+                    throw new Error(`MCP server ${serverId} not connected`);
+                }
+
+                return connection.client.readResource({ uri });
+            },
+            serverId,
+            `resources/read ${uri}`
+        );
+
+        return result.contents.map((content: MCPResourceContent) => ({
+            uri: content.uri,
+            mimeType: content.mimeType,
+            text: content.text,
+            blob: content.blob,
+        }));
+    }
+
+    /**
+     * Expand a prompt template of a connected server with the given arguments
+     */
+    async getPrompt(
+        serverId: string,
+        name: string,
+        args: Record<string, string>
+    ): Promise<GetPromptResult> {
+        this.touch(serverId);
+        return this.withMCPRetry(
+            async () => {
+                const connection = this.connections.get(serverId);
+                if (
+                    !connection ||
+                    connection.status !== "connected" ||
+                    !connection.client
+                ) {
+                    throw new Error(`MCP server ${serverId} not connected`);
+                }
+
+                return connection.client.getPrompt({ name, arguments: args });
+            },
+            serverId,
+            `prompts/get ${name}`
+        );
+    }
+
     /**
      * Get available tools for a list of MCP groups
      */
@@ -298,6 +512,20 @@ class MCPConnectionManager {
         return tools;
     }
 
+    /**
+     * Find a tool of a connected server by the name the model calls it by,
+     * mcp_<serverId>_<tool>
+     */
+    findTool(name: string): MCPTool | undefined {
+        for (const connection of this.connections.values()) {
+            const tool = connection.tools.find(
+                (candidate) => `mcp_${candidate.serverId}_${candidate.name}` === name
+            );
+            if (tool) return tool;
+        }
+        return undefined;
+    }
+
     /**
      * Disconnect from a server
      */
@@ -322,6 +550,124 @@ class MCPConnectionManager {
         }
 
         this.connections.delete(serverId);
+        this.fingerprints.delete(serverId);
+        this.usage.delete(serverId);
+    }
+
+    /**
+     * Close connections that sat idle and ping the ones that haven't been
+     * checked for a while, closing those that don't answer
+     */
+    async sweep(): Promise<void> {
+        const { evict, ping } = planSweep(this.usage, this.now(), {
+            idleTimeoutMs: this.options.idleTimeoutMs ?? MCP_POOL_CONFIG.idleTimeoutMs,
+            pingIntervalMs: this.options.pingIntervalMs ?? MCP_POOL_CONFIG.pingIntervalMs,
+        });
+
+        for (const serverId of evict) {
+            console.log(`[MCP] Closing idle connection to ${serverId}`);
+            await this.disconnectServer(serverId);
+        }
+
+        await Promise.all(
+            ping.map(async (serverId) => {
+                try {
+                    await this.ping(serverId);
+                    const usage = this.usage.get(serverId);
+                    if (usage) usage.lastPinged = this.now();
+                } catch (error) {
+                    console.warn(`[MCP] Health ping to ${serverId} failed, closing connection:`, error);
+                    await this.disconnectServer(serverId);
+                }
+            })
+        );
+    }
+
+    /**
+     * Ping a connected server and return the round trip in milliseconds
+     */
+    async ping(serverId: string): Promise<number> {
+        const client = this.connections.get(serverId)?.client;
+        if (!client) throw new Error("No client");
+
+        const startedAt = Date.now();
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
+        try {
+            await Promise.race([
+                client.ping(),
+                new Promise<never>((_, reject) => {
+                    timeoutId = setTimeout(
+                        () => reject(new Error("Ping timeout")),
+                        MCP_RELIABILITY_CONFIG.timeoutMs
+                    );
+                }),
+            ]);
+            return Date.now() - startedAt;
+        } finally {
+            clearTimeout(timeoutId);
+        }
+    }
+
+    /**
+     * Run a sampling request of a server with the deadlines of its running
+     * tool calls paused, the call can't finish while the user decides
+     */
+    private async pausingToolCalls<T>(serverId: string, request: () => Promise<T>): Promise<T> {
+        const paused = Array.from(this.toolCallDeadlines.get(serverId) ?? []);
+        for (const deadline of paused) deadline.pause();
+        try {
+            return await request();
+        } finally {
+            for (const deadline of paused) deadline.resume();
+        }
+    }
+
+    /**
+     * Close every pooled connection
+     */
+    async closeAll(): Promise<void> {
+        clearTimeout(this.sweepTimeout);
+        this.sweepTimeout = undefined;
+        await Promise.all(
+            Array.from(this.connections.keys(), (serverId) => this.disconnectServer(serverId))
+        );
+    }
+
+    private now(): number {
+        return this.options.now?.() ?? Date.now();
+    }
+
+    private touch(serverId: string): void {
+        const usage = this.usage.get(serverId);
+        if (usage) usage.lastUsed = this.now();
+    }
+
+    /**
+     * Keep sweeping while connections are open, when sweeping is enabled
+     */
+    private scheduleSweep(): void {
+        const interval = this.options.sweepIntervalMs;
+        if (!interval || this.sweepTimeout) return;
+
+        this.sweepTimeout = setTimeout(async () => {
+            this.sweepTimeout = undefined;
+            await this.sweep();
+            if (this.usage.size > 0) {
+                this.scheduleSweep();
+            }
+        }, interval);
+    }
+
+    /**
+     * Listen for changes to a server's tools, resources and prompts.
+     * Subscribing again with the same key replaces the previous listener.
+     */
+    subscribeToChanges(
+        serverId: string,
+        key: string,
+        listener: MCPChangeListener
+    ): () => void {
+        return this.changeListeners.subscribe(serverId, key, listener);
     }
 
     /**
@@ -338,17 +684,30 @@ class MCPConnectionManager {
         operation: () => Promise<T>,
         serverId: string,
         toolName: string,
-        maxRetries: number = MCP_RELIABILITY_CONFIG.maxRetries
+        options: {
+            maxRetries?: number;
+            // Null when the operation times out on its own
+            timeoutMs?: number | null;
+            signal?: AbortSignal;
+        } = {}
     ): Promise<T> {
+        const maxRetries = options.maxRetries ?? MCP_RELIABILITY_CONFIG.maxRetries;
         let lastError: Error;
 
         for (let attempt = 0; attempt <= maxRetries; attempt++) {
+            let timeoutId: ReturnType<typeof setTimeout> | undefined;
             try {
                 // Add timeout protection
+                const timeoutMs = options.timeoutMs === undefined
+                    ? MCP_RELIABILITY_CONFIG.timeoutMs
+                    : options.timeoutMs;
+                if (timeoutMs === null) {
+                    return await operation();
+                }
                 const timeoutPromise = new Promise<never>((_, reject) => {
-                    setTimeout(
+                    timeoutId = setTimeout(
                         () => reject(new Error("Operation timeout")),
-                        MCP_RELIABILITY_CONFIG.timeoutMs
+                        timeoutMs
                     );
                 });
 
@@ -357,6 +716,13 @@ class MCPConnectionManager {
             } catch (error) {
                 lastError = error instanceof Error ? error : new Error(String(error));
 
+                // Cancelled and timed out calls already had their chance
+                const timedOut =
+                    error instanceof McpError && error.code === ErrorCode.RequestTimeout;
+                if (options.signal?.aborted || timedOut) {
+                    break;
+                }
+
                 if (attempt < maxRetries) {
                     const delay =
                         MCP_RELIABILITY_CONFIG.retryDelayMs * Math.pow(2, attempt);
@@ -365,12 +731,101 @@ class MCPConnectionManager {
                     );
                     await new Promise((resolve) => setTimeout(resolve, delay));
                 }
+            } finally {
+                clearTimeout(timeoutId);
             }
         }
 
         throw lastError!;
     }
 
+    private async listTools(
+        client: Client,
+        serverConfig: MCPServerConfig
+    ): Promise<MCPTool[]> {
+        const toolsResult = await client.listTools();
+        return toolsResult.tools.map((tool) => ({
+            name: tool.name,
+            description: tool.description || "",
+            serverId: serverConfig.id,
+            serverName: serverConfig.name,
+            schema: tool.inputSchema,
+            annotations: tool.annotations,
+        }));
+    }
+
+    /**
+     * Fetch the tool list again after notifications/tools/list_changed
+     */
+    private async refreshTools(
+        serverConfig: MCPServerConfig,
+        connection: MCPConnection
+    ): Promise<void> {
+        if (!connection.client) return;
+
+        try {
+            const tools = await this.listTools(connection.client, serverConfig);
+            const { added, removed } = diffNames(
+                connection.tools.map((tool) => tool.name),
+                tools.map((tool) => tool.name)
+            );
+            connection.tools = tools;
+            console.log(
+                `[MCP] Tools of ${serverConfig.name} changed: +${added.length} -${removed.length}`
+            );
+
+            await this.changeListeners.notify({
+                serverId: serverConfig.id,
+                serverName: serverConfig.name,
+                kind: "tools",
+                tools: tools.map((tool) => tool.name),
+                toolsAdded: added,
+                toolsRemoved: removed,
+            });
+        } catch (error) {
+            console.error(`[MCP] Failed to refresh tools of ${serverConfig.name}:`, error);
+        }
+    }
+
+    /**
+     * Fetch resources again after notifications/resources/list_changed
+     */
+    private async refreshResources(
+        serverConfig: MCPServerConfig,
+        connection: MCPConnection
+    ): Promise<void> {
+        if (!connection.client) return;
+
+        const { resources, resourceTemplates } = await discoverResources(
+            connection.client,
+            serverConfig
+        );
+        connection.resources = resources;
+        connection.resourceTemplates = resourceTemplates;
+        await this.changeListeners.notify({
+            serverId: serverConfig.id,
+            serverName: serverConfig.name,
+            kind: "resources",
+        });
+    }
+
+    /**
+     * Fetch prompts again after notifications/prompts/list_changed
+     */
+    private async refreshPrompts(
+        serverConfig: MCPServerConfig,
+        connection: MCPConnection
+    ): Promise<void> {
+        if (!connection.client) return;
+
+        connection.prompts = await discoverPrompts(connection.client, serverConfig);
+        await this.changeListeners.notify({
+            serverId: serverConfig.id,
+            serverName: serverConfig.name,
+            kind: "prompts",
+        });
+    }
+
     /**
      * Schedule retry connection attempt
      */
@@ -392,45 +847,191 @@ class MCPConnectionManager {
 
         this.retryTimeouts.set(serverConfig.id, timeout);
     }
+}
 
-    /**
-     * Determine if a tool should require confirmation based on its name/description
-     */
-    private shouldRequireConfirmation(toolName: string): boolean {
-        const dangerousPatterns = [
-            "delete",
-            "remove",
-            "destroy",
-            "drop",
-            "truncate",
-            "execute",
-            "run",
-            "eval",
-            "exec",
-            "write",
-            "create",
-            "update",
-            "modify",
-            "send",
-            "post",
-            "put",
-            "patch",
-        ];
-
-        const toolLower = toolName.toLowerCase();
-        return dangerousPatterns.some((pattern) => toolLower.includes(pattern));
+export interface MCPThreadToolsOptions {
+    // Called for each server the user has to authorize (again) before it can be used
+    onAuthRequired?: (server: { id: string; name: string }) => void;
+    // Called when one of the thread's servers changes its tools, resources or prompts
+    onCapabilitiesChanged?: (change: MCPCapabilitiesChange) => void;
+    // Called with the progress servers report while running a tool call
+    onToolProgress?: (part: MCPToolProgressPart) => void;
+    // Pool to connect through, the Chat agent keeps its own between turns.
+    // One-off requests without one connect through a pool closed afterwards.
+    connectionManager?: MCPConnectionManager;
+    // Why servers with an open circuit are unavailable, these are skipped without connecting
+    openCircuits?: Map<string, string>;
+    // Called for each server skipped because of its open circuit
+    onServerUnavailable?: (server: { id: string; name: string }, reason: string) => void;
+}
+
+// Tools and executions keep using the pool after loading, so they need the chat's
+export type MCPChatToolsOptions = MCPThreadToolsOptions & {
+    connectionManager: MCPConnectionManager;
+};
+
+/**
+ * Run a one-off request through the caller's pool, or through a pool of its
+ * own that is closed afterwards so no connection outlives the request
+ */
+async function withConnectionManager<T>(
+    options: MCPThreadToolsOptions,
+    run: (manager: MCPConnectionManager) => Promise<T>
+): Promise<T> {
+    if (options.connectionManager) {
+        return run(options.connectionManager);
+    }
+    const manager = new MCPConnectionManager({ retryConnections: false });
+    try {
+        return await run(manager);
+    } finally {
+        await manager.closeAll();
     }
 }
 
-// Global instance
-export const mcpConnectionManager = new MCPConnectionManager();
+/**
+ * Row of an MCP server the helpers below connect to, from
+ * mcp_servers_independent or mcp_servers
+ */
+interface MCPServerRow {
+    id: string;
+    name: string;
+    url: string;
+    transport: MCPServerConfig["transport"];
+    user_id: string;
+    group_id?: string | null;
+    auth_type?: MCPServerConfig["auth"]["type"] | null;
+    // Independent servers keep their credentials here, group servers in encrypted_credentials
+    auth_config?: string | null;
+    encrypted_credentials?: string | null;
+    oauth_tokens?: string | null;
+    oauth_token_expires_at?: string | null;
+    tool_timeouts?: string | null;
+    status?: MCPServerConfig["status"] | null;
+    is_enabled: number;
+    created_at: string;
+    updated_at?: string | null;
+}
+
+/**
+ * Whether a server's circuit is open, telling the caller why it is skipped
+ */
+function isCircuitOpen(serverRow: MCPServerRow, options: MCPThreadToolsOptions): boolean {
+    const { id, name } = serverRow;
+    const reason = options.openCircuits?.get(id);
+    if (!reason) return false;
+
+    console.warn(`[MCP] Skipping ${name}, ${reason}`);
+    options.onServerUnavailable?.({ id, name }, reason);
+    return true;
+}
+
+/**
+ * Keep the stored tool list of a server in sync with what it reports
+ */
+async function persistToolChanges(
+    db: D1Database,
+    change: MCPCapabilitiesChange
+): Promise<void> {
+    if (change.kind !== "tools" || !change.tools) return;
+
+    // Only independent servers store their tools, group servers have no such column
+    await db.prepare(`
+        UPDATE mcp_servers_independent SET tools = ?, updated_at = ? WHERE id = ?
+    `).bind(JSON.stringify(change.tools), new Date().toISOString(), change.serverId).run();
+}
+
+/**
+ * Database rows of the MCP servers a thread can use: servers added to the
+ * thread directly plus the servers in its active agents' groups. Only the
+ * user's own rows count, without a user the thread has no servers.
+ */
+async function getThreadServerRows(
+    threadId: string,
+    db: D1Database,
+    userId: string
+): Promise<MCPServerRow[]> {
+    if (!userId) {
+        return [];
+    }
+
+    // Get active agents for this thread and their MCP groups
+    const threadAgents = await db.prepare(`
+        SELECT DISTINCT a.id, a.name, amg.group_id, a.user_id
+        FROM thread_agents ta
+        JOIN agents a ON ta.agent_id = a.id  
+        JOIN agent_mcp_groups amg ON a.id = amg.agent_id
+        WHERE ta.thread_id = ? AND ta.is_active = TRUE AND ta.user_id = ? AND a.user_id = ?
+    `).bind(threadId, userId, userId).all<{ group_id: string }>();
+
+    // Get directly assigned MCP servers for this thread
+    const threadMCPServers = await db.prepare(`
+        SELECT mis.* FROM thread_mcp_servers tms
+        JOIN mcp_servers_independent mis ON tms.server_id = mis.id
+        WHERE tms.thread_id = ? AND tms.is_active = TRUE AND mis.is_enabled = TRUE AND tms.user_id = ? AND mis.user_id = ?
+    `).bind(threadId, userId, userId).all<MCPServerRow>();
+
+    // Get MCP servers from agent groups
+    const allServerConfigs = [...threadMCPServers.results];
+
+    if (threadAgents.results.length > 0) {
+        const groupIds = Array.from(new Set(threadAgents.results.map((agent) => agent.group_id)));
+
+        if (groupIds.length > 0) {
+            const groupServers = await db.prepare(`
+                SELECT ms.* FROM mcp_servers ms
+                WHERE ms.group_id IN (${groupIds.map(() => '?').join(',')}) AND ms.is_enabled = TRUE AND ms.user_id = ?
+            `).bind(...groupIds, userId).all<MCPServerRow>();
+
+            allServerConfigs.push(...groupServers.results);
+        }
+    }
+
+    return allServerConfigs;
+}
+
+/**
+ * Convert a database row to MCPServerConfig format
+ */
+async function toServerConfig(
+    db: D1Database,
+    serverRow: MCPServerRow
+): Promise<MCPServerConfig> {
+    // OAuth servers get a fresh access token before connecting
+    const encryptedOAuthTokens = serverRow.auth_type === 'oauth2' && 'oauth_tokens' in serverRow
+        ? await ensureFreshOAuthTokens(db, serverRow)
+        : null;
+
+    return {
+        id: serverRow.id,
+        name: serverRow.name,
+        url: serverRow.url,
+        transport: serverRow.transport,
+        userId: serverRow.user_id,
+        groupId: serverRow.group_id || 'independent',
+        auth: {
+            type: serverRow.auth_type || 'none',
+        },
+        // Left encrypted, connectToServer decrypts it
+        encryptedCredentials: serverRow.auth_config ?? serverRow.encrypted_credentials ?? null,
+        encryptedOAuthTokens,
+        toolTimeouts: parseToolTimeouts(serverRow.tool_timeouts),
+        status: serverRow.status || 'disconnected',
+        isEnabled: Boolean(serverRow.is_enabled),
+        createdAt: new Date(serverRow.created_at),
+        updatedAt: new Date(serverRow.updated_at || serverRow.created_at)
+    };
+}
 
 // Helper functions for server-side usage
 export async function getMCPToolsForThread(
     threadId: string,
-    db?: any // D1Database instance
+    db: D1Database | undefined,
+    userId: string,
+    options: MCPChatToolsOptions
 ): Promise<Record<string, any>> {
     const mcpTools: Record<string, any> = {};
+    const manager = options.connectionManager;
     
     if (!db) {
         console.warn("[MCP] Database not available, cannot load thread-specific MCP tools");
@@ -440,67 +1041,30 @@ export async function getMCPToolsForThread(
     try {
         console.log(`[MCP] Loading database-driven MCP tools for thread: ${threadId}`);
         
-        // Get active agents for this thread and their MCP groups
-        const threadAgents = await db.prepare(`
-            SELECT DISTINCT a.id, a.name, amg.group_id, a.user_id
-            FROM thread_agents ta
-            JOIN agents a ON ta.agent_id = a.id  
-            JOIN agent_mcp_groups amg ON a.id = amg.agent_id
-            WHERE ta.thread_id = ? AND ta.is_active = TRUE
-        `).bind(threadId).all();
-
-        // Get directly assigned MCP servers for this thread
-        const threadMCPServers = await db.prepare(`
-            SELECT mis.* FROM thread_mcp_servers tms
-            JOIN mcp_servers_independent mis ON tms.server_id = mis.id
-            WHERE tms.thread_id = ? AND tms.is_active = TRUE AND mis.is_enabled = TRUE
-        `).bind(threadId).all();
-
-        // Get MCP servers from agent groups
-        const allServerConfigs = [...threadMCPServers.results];
-        
-        if (threadAgents.results.length > 0) {
-            const groupIds = Array.from(new Set(threadAgents.results.map((agent: any) => agent.group_id)));
-            
-            if (groupIds.length > 0) {
-                const groupServers = await db.prepare(`
-                    SELECT ms.*, ms.id as server_id, ms.name as server_name, 
-                           ms.url as server_url, ms.transport, ms.auth_type,
-                           ms.user_id, ms.group_id, ms.is_enabled, ms.status
-                    FROM mcp_servers ms
-                    WHERE ms.group_id IN (${groupIds.map(() => '?').join(',')}) AND ms.is_enabled = TRUE
-                `).bind(...groupIds).all();
-                
-                allServerConfigs.push(...groupServers.results);
-            }
-        }
+        const allServerConfigs = await getThreadServerRows(threadId, db, userId);
 
         console.log(`[MCP] Found ${allServerConfigs.length} MCP servers for thread ${threadId}`);
 
         // Connect to all servers and collect their tools
         for (const serverRow of allServerConfigs) {
+            if (isCircuitOpen(serverRow, options)) continue;
             try {
-                // Convert database row to MCPServerConfig format
-                const serverConfig = {
-                    id: serverRow.id || serverRow.server_id,
-                    name: serverRow.name || serverRow.server_name,
-                    url: serverRow.url || serverRow.server_url,
-                    transport: serverRow.transport,
-                    userId: serverRow.user_id,
-                    groupId: serverRow.group_id || 'independent',
-                    auth: {
-                        type: serverRow.auth_type || 'none',
-                        // TODO: Load auth details from database if needed
-                    },
-                    status: serverRow.status || 'disconnected',
-                    isEnabled: serverRow.is_enabled,
-                    createdAt: new Date(serverRow.created_at),
-                    updatedAt: new Date(serverRow.updated_at || serverRow.created_at)
-                };
-
+                const serverConfig = await toServerConfig(db, serverRow);
                 console.log(`[MCP] Attempting to connect to server: ${serverConfig.name} (${serverConfig.url})`);
                 
-                const connection = await mcpConnectionManager.connectToServer(serverConfig);
+                const connection = await manager.connectToServer(serverConfig);
+
+                // One listener keeps the stored tools current, one per thread tells its clients
+                manager.subscribeToChanges(serverConfig.id, "db", (change) =>
+                    persistToolChanges(db, change)
+                );
+                if (options.onCapabilitiesChanged) {
+                    manager.subscribeToChanges(
+                        serverConfig.id,
+                        `thread:${threadId}`,
+                        options.onCapabilitiesChanged
+                    );
+                }
                 
                 if (connection.status === "connected" && connection.tools.length > 0) {
                     console.log(`[MCP] Connected to ${serverConfig.name}, found ${connection.tools.length} tools`);
@@ -509,83 +1073,44 @@ export async function getMCPToolsForThread(
                     for (const mcpTool of connection.tools) {
                         const toolName = `mcp_${mcpTool.serverId}_${mcpTool.name}`;
                         
-                        // Convert JSON schema to Zod schema safely
-                        let zodSchema = z.object({});
+                        // Convert the tool's JSON schema so the model sees the real parameter shapes
+                        let zodSchema: z.ZodTypeAny = z.object({});
                         try {
-                            if (mcpTool.schema && mcpTool.schema.properties) {
-                                const properties: Record<string, any> = {};
-                                for (const [key, prop] of Object.entries(mcpTool.schema.properties)) {
-                                    const propDef = prop as any;
-                                    let zodType: any = z.string(); // default to string
-                                    
-                                    switch (propDef.type) {
-                                        case 'string':
-                                            zodType = z.string();
-                                            break;
-                                        case 'number':
-                                            zodType = z.number();
-                                            break;
-                                        case 'boolean':
-                                            zodType = z.boolean();
-                                            break;
-                                        case 'array':
-                                            zodType = z.array(z.any());
-                                            break;
-                                        case 'object':
-                                            zodType = z.object({});
-                                            break;
-                                        default:
-                                            zodType = z.any();
-                                    }
-                                    
-                                    // Add description if available
-                                    if (propDef.description) {
-                                        zodType = zodType.describe(propDef.description);
-                                    }
-                                    
-                                    properties[key] = zodType;
-                                }
-                                zodSchema = z.object(properties);
-                            }
+                            zodSchema = toolParametersToZod(mcpTool.schema);
                         } catch (schemaError) {
                             console.warn(`[MCP] Could not convert schema for tool ${toolName}:`, schemaError);
-                            zodSchema = z.object({}); // fallback to empty schema
                         }
-                        
-                        // Create proper tool objects using the AI tool function
-                        if (mcpTool.requiresConfirmation) {
-                            // Tool requires confirmation (no execute function)
-                            mcpTools[toolName] = tool({
-                                description: mcpTool.description,
-                                parameters: zodSchema,
-                                // No execute function = requires confirmation
-                            });
-                        } else {
-                            // Auto-executing tool
-                            mcpTools[toolName] = tool({
-                                description: mcpTool.description,
-                                parameters: zodSchema,
-                                execute: async (parameters: any) => {
-                                    try {
-                                        const execution = await mcpConnectionManager.executeTool(
-                                            mcpTool.serverId,
-                                            mcpTool.name,
-                                            parameters
-                                        );
-
-                                        if (execution.error) {
-                                            console.error(`MCP tool ${mcpTool.name} failed:`, execution.error);
-                                            return `Tool temporarily unavailable: ${execution.error}`;
+
+                        // Every tool can execute, its approval policy decides whether it runs right away
+                        mcpTools[toolName] = tool({
+                            description: mcpTool.description,
+                            parameters: zodSchema,
+                            execute: async (parameters: any, { toolCallId, abortSignal }) => {
+                                try {
+                                    const execution = await manager.executeTool(
+                                        mcpTool.serverId,
+                                        mcpTool.name,
+                                        parameters,
+                                        {
+                                            signal: abortSignal,
+                                            timeoutMs: toolTimeoutMs(serverConfig.toolTimeouts, mcpTool.name),
+                                            onProgress: (progress) =>
+                                                options.onToolProgress?.(toolProgressPart(toolCallId, progress)),
                                         }
+                                    );
 
-                                        return execution.result;
-                                    } catch (error) {
-                                        console.error(`MCP tool execution error:`, error);
-                                        return `Tool temporarily unavailable. Please try again later.`;
+                                    if (execution.error) {
+                                        console.error(`MCP tool ${mcpTool.name} failed:`, execution.error);
+                                        return toolErrorResult(`Tool temporarily unavailable: ${execution.error}`);
                                     }
-                                },
-                            });
-                        }
+
+                                    return execution.result;
+                                } catch (error) {
+                                    console.error(`MCP tool execution error:`, error);
+                                    return toolErrorResult(`Tool temporarily unavailable. Please try again later.`);
+                                }
+                            },
+                        });
                         
                         console.log(`[MCP] Added tool: ${toolName} - ${mcpTool.description}`);
                     }
@@ -596,6 +1121,11 @@ export async function getMCPToolsForThread(
                     }
                 }
             } catch (error) {
+                if (error instanceof MCPAuthRequiredError) {
+                    console.warn(`[MCP] Server ${serverRow.name} needs authorization: ${error.message}`);
+                    options.onAuthRequired?.({ id: serverRow.id, name: serverRow.name });
+                    continue;
+                }
                 console.error(`[MCP] Failed to connect to MCP server ${serverRow.name}:`, error);
             }
         }
@@ -608,11 +1138,218 @@ export async function getMCPToolsForThread(
     return mcpTools;
 }
 
+/**
+ * Connect to every MCP server a thread can use and return the connected ones
+ */
+async function connectThreadServers(
+    threadId: string,
+    db: D1Database,
+    userId: string,
+    manager: MCPConnectionManager,
+    options: MCPThreadToolsOptions = {}
+): Promise<MCPConnection[]> {
+    const connections: MCPConnection[] = [];
+
+    for (const serverRow of await getThreadServerRows(threadId, db, userId)) {
+        if (options.openCircuits?.has(serverRow.id)) continue;
+        try {
+            const connection = await manager.connectToServer(
+                await toServerConfig(db, serverRow)
+            );
+            if (connection.status === "connected") {
+                connections.push(connection);
+            }
+        } catch (error) {
+            if (error instanceof MCPAuthRequiredError) {
+                options.onAuthRequired?.({ id: serverRow.id, name: serverRow.name });
+                continue;
+            }
+            console.error(`[MCP] Failed to connect to MCP server ${serverRow.name}:`, error);
+        }
+    }
+
+    return connections;
+}
+
+export interface MCPAgentServerTools {
+    id: string;
+    name: string;
+    tools: { name: string; description: string }[];
+    error?: string;
+}
+
+/**
+ * Tools of every server in an agent's MCP groups, before its tool rules apply
+ */
+export async function getMCPToolsForAgent(
+    agentId: string,
+    db: D1Database,
+    userId: string,
+    options: MCPThreadToolsOptions = {}
+): Promise<MCPAgentServerTools[]> {
+    const serverRows = await db.prepare(`
+        SELECT DISTINCT ms.* FROM agent_mcp_groups amg
+        JOIN mcp_servers ms ON ms.group_id = amg.group_id
+        WHERE amg.agent_id = ? AND amg.user_id = ? AND ms.user_id = ? AND ms.is_enabled = TRUE
+        ORDER BY ms.name
+    `).bind(agentId, userId, userId).all<MCPServerRow>();
+
+    return withConnectionManager(options, async (manager) => {
+        const servers: MCPAgentServerTools[] = [];
+        for (const serverRow of serverRows.results) {
+            const server: MCPAgentServerTools = { id: serverRow.id, name: serverRow.name, tools: [] };
+            try {
+                const connection = await manager.connectToServer(
+                    await toServerConfig(db, serverRow)
+                );
+                if (connection.status === "connected") {
+                    server.tools = connection.tools.map(({ name, description }) => ({ name, description }));
+                } else {
+                    server.error = connection.lastError || `Server is ${connection.status}`;
+                }
+            } catch (error) {
+                if (error instanceof MCPAuthRequiredError) {
+                    options.onAuthRequired?.({ id: serverRow.id, name: serverRow.name });
+                }
+                server.error = error instanceof Error ? error.message : String(error);
+            }
+            servers.push(server);
+        }
+
+        return servers;
+    });
+}
+
+export interface MCPThreadResources {
+    resources: MCPResource[];
+    resourceTemplates: MCPResourceTemplate[];
+}
+
+/**
+ * Resources and resource templates of all MCP servers a thread can use
+ */
+export async function getMCPResourcesForThread(
+    threadId: string,
+    db: D1Database | undefined,
+    userId: string,
+    options: MCPThreadToolsOptions = {}
+): Promise<MCPThreadResources> {
+    if (!db) {
+        console.warn("[MCP] Database not available, cannot load thread-specific MCP resources");
+        return { resources: [], resourceTemplates: [] };
+    }
+
+    return withConnectionManager(options, async (manager) => {
+        const connections = await connectThreadServers(threadId, db, userId, manager, options);
+        return {
+            resources: connections.flatMap((connection) => connection.resources),
+            resourceTemplates: connections.flatMap((connection) => connection.resourceTemplates),
+        };
+    });
+}
+
+/**
+ * Prompt templates of all MCP servers a thread can use
+ */
+export async function getMCPPromptsForThread(
+    threadId: string,
+    db: D1Database | undefined,
+    userId: string,
+    options: MCPThreadToolsOptions = {}
+): Promise<MCPPrompt[]> {
+    if (!db) {
+        console.warn("[MCP] Database not available, cannot load thread-specific MCP prompts");
+        return [];
+    }
+
+    return withConnectionManager(options, async (manager) => {
+        const connections = await connectThreadServers(threadId, db, userId, manager, options);
+        return connections.flatMap((connection) => connection.prompts);
+    });
+}
+
+/**
+ * Connect to one of the thread's MCP servers. Returns null when the server
+ * isn't available to the thread.
+ */
+async function connectThreadServer(
+    threadId: string,
+    serverId: string,
+    db: D1Database,
+    userId: string,
+    manager: MCPConnectionManager
+): Promise<MCPConnection | null> {
+    const serverRow = (await getThreadServerRows(threadId, db, userId)).find(
+        (row) => row.id === serverId
+    );
+    if (!serverRow) {
+        return null;
+    }
+
+    const connection = await manager.connectToServer(
+        await toServerConfig(db, serverRow)
+    );
+    if (connection.status !== "connected") {
+        throw new Error(connection.lastError || `MCP server ${serverRow.name} not connected`);
+    }
+    return connection;
+}
+
+/**
+ * Read a resource from one of the thread's MCP servers. Returns null when the
+ * server isn't available to the thread.
+ */
+export async function readMCPResourceForThread(
+    threadId: string,
+    serverId: string,
+    uri: string,
+    db: D1Database | undefined,
+    userId: string,
+    options: MCPThreadToolsOptions = {}
+): Promise<MCPResourceContent[] | null> {
+    if (!db) {
+        console.warn("[MCP] Database not available, cannot read thread-specific MCP resources");
+        return null;
+    }
+
+    return withConnectionManager(options, async (manager) => {
+        const connection = await connectThreadServer(threadId, serverId, db, userId, manager);
+        return connection && manager.readResource(connection.serverId, uri);
+    });
+}
+
+/**
+ * Expand a prompt of one of the thread's MCP servers. Returns null when the
+ * server isn't available to the thread.
+ */
+export async function getMCPPromptForThread(
+    threadId: string,
+    serverId: string,
+    name: string,
+    args: Record<string, string>,
+    db: D1Database | undefined,
+    userId: string,
+    options: MCPThreadToolsOptions = {}
+): Promise<GetPromptResult | null> {
+    if (!db) {
+        console.warn("[MCP] Database not available, cannot load thread-specific MCP prompts");
+        return null;
+    }
+
+    return withConnectionManager(options, async (manager) => {
+        const connection = await connectThreadServer(threadId, serverId, db, userId, manager);
+        return connection && manager.getPrompt(connection.serverId, name, args);
+    });
+}
+
 export async function getMCPExecutionsForThread(
     threadId: string,
-    db?: any // D1Database instance
+    db: D1Database | undefined,
+    userId: string,
+    options: MCPChatToolsOptions
 ): Promise<Record<string, any>> {
     const mcpExecutions: Record<string, any> = {};
+    const manager = options.connectionManager;
     
     if (!db) {
         console.warn("[MCP] Database not available, cannot load thread-specific MCP executions");
@@ -622,69 +1359,52 @@ export async function getMCPExecutionsForThread(
     try {
         console.log(`[MCP] Loading database-driven MCP executions for thread: ${threadId}`);
         
-        // Similar query logic as above, but focus on confirmation-required tools
-        const threadAgents = await db.prepare(`
-            SELECT DISTINCT a.id, a.name, amg.group_id, a.user_id
-            FROM thread_agents ta
-            JOIN agents a ON ta.agent_id = a.id  
-            JOIN agent_mcp_groups amg ON a.id = amg.agent_id
-            WHERE ta.thread_id = ? AND ta.is_active = TRUE
-        `).bind(threadId).all();
-
-        const threadMCPServers = await db.prepare(`
-            SELECT mis.* FROM thread_mcp_servers tms
-            JOIN mcp_servers_independent mis ON tms.server_id = mis.id
-            WHERE tms.thread_id = ? AND tms.is_active = TRUE AND mis.is_enabled = TRUE
-        `).bind(threadId).all();
-
-        const allServerConfigs = [...threadMCPServers.results];
-        
-        if (threadAgents.results.length > 0) {
-            const groupIds = Array.from(new Set(threadAgents.results.map((agent: any) => agent.group_id)));
-            
-            if (groupIds.length > 0) {
-                const groupServers = await db.prepare(`
-                    SELECT ms.* FROM mcp_servers ms
-                    WHERE ms.group_id IN (${groupIds.map(() => '?').join(',')}) AND ms.is_enabled = TRUE
-                `).bind(...groupIds).all();
-                
-                allServerConfigs.push(...groupServers.results);
-            }
-        }
+        // Same servers as the tools, approval policies pick the tools that wait for the user
+        const allServerConfigs = await getThreadServerRows(threadId, db, userId);
 
-        // Check each connected server for confirmation-required tools
+        // Executions run the tools the user approved
         for (const serverRow of allServerConfigs) {
             try {
-                const serverId = serverRow.id || serverRow.server_id;
-                const connection = mcpConnectionManager.getConnectionStatus(serverId);
+                const serverId = serverRow.id;
+                const connection = manager.getConnectionStatus(serverId);
                 
                 if (connection?.status === "connected") {
                     for (const tool of connection.tools) {
-                        if (tool.requiresConfirmation) {
-                            const executionName = `mcp_${tool.serverId}_${tool.name}`;
-                            
-                            mcpExecutions[executionName] = async (parameters: any) => {
-                                try {
-                                    const execution = await mcpConnectionManager.executeTool(
-                                        tool.serverId,
-                                        tool.name,
-                                        parameters
-                                    );
-
-                                    if (execution.error) {
-                                        console.error(`MCP tool ${tool.name} failed:`, execution.error);
-                                        throw new Error(`Tool failed: ${execution.error}`);
+                        const executionName = `mcp_${tool.serverId}_${tool.name}`;
+                        
+                        mcpExecutions[executionName] = async (
+                            parameters: any,
+                            { toolCallId, abortSignal }: ToolExecutionOptions
+                        ) => {
+                            try {
+                                const execution = await manager.executeTool(
+                                    tool.serverId,
+                                    tool.name,
+                                    parameters,
+                                    {
+                                        signal: abortSignal,
+                                        timeoutMs: toolTimeoutMs(
+                                            parseToolTimeouts(serverRow.tool_timeouts),
+                                            tool.name
+                                        ),
+                                        onProgress: (progress) =>
+                                            options.onToolProgress?.(toolProgressPart(toolCallId, progress)),
                                     }
+                                );
 
-                                    return execution.result;
-                                } catch (error) {
-                                    console.error(`MCP execution error:`, error);
-                                    throw error;
+                                if (execution.error) {
+                                    console.error(`MCP tool ${tool.name} failed:`, execution.error);
+                                    throw new Error(`Tool failed: ${execution.error}`);
                                 }
-                            };
-                            
-                            console.log(`[MCP] Added execution handler: ${executionName}`);
-                        }
+
+                                return execution.result;
+                            } catch (error) {
+                                console.error(`MCP execution error:`, error);
+                                throw error;
+                            }
+                        };
+                        
+                        console.log(`[MCP] Added execution handler: ${executionName}`);
                     }
                 }
             } catch (error) {
@@ -699,3 +1419,78 @@ export async function getMCPExecutionsForThread(
     console.log(`[MCP] Loaded ${Object.keys(mcpExecutions).length} database-driven MCP execution handlers for thread ${threadId}`);
     return mcpExecutions;
 }
+
+type HealthCheckTable = "mcp_servers_independent" | "mcp_servers";
+
+/**
+ * Check every enabled MCP server once, recording whether it answered a ping
+ * and how fast. Runs from the cron trigger, with a pool of its own that
+ * doesn't retry in the background since the next run checks again. Servers
+ * are loaded a page at a time and checked a few at once, each connection
+ * closes after its check.
+ */
+export async function runMCPHealthChecks(
+    db: D1Database,
+    options: Pick<MCPConnectionManagerOptions, "fetch"> = {}
+): Promise<void> {
+    const manager = new MCPConnectionManager({ ...options, retryConnections: false });
+    const tables: HealthCheckTable[] = ["mcp_servers_independent", "mcp_servers"];
+    let checked = 0;
+
+    try {
+        for (const table of tables) {
+            checked += await checkServersInBatches(
+                async (afterId, limit) => (await db.prepare(`
+                    SELECT * FROM ${table} WHERE is_enabled = TRUE AND id > ? ORDER BY id LIMIT ?
+                `).bind(afterId, limit).all<MCPServerRow>()).results,
+                (serverRow) => checkServerHealth(db, manager, table, serverRow)
+            );
+        }
+        console.log(`[MCP] Checked health of ${checked} servers`);
+        await pruneHealthChecks(db);
+    } finally {
+        await manager.closeAll();
+    }
+}
+
+/**
+ * Check one server for runMCPHealthChecks and close its connection again
+ */
+async function checkServerHealth(
+    db: D1Database,
+    manager: MCPConnectionManager,
+    table: HealthCheckTable,
+    serverRow: MCPServerRow
+): Promise<void> {
+    let latencyMs: number | null = null;
+    let error: string | null = null;
+    try {
+        const connection = await manager.connectToServer(await toServerConfig(db, serverRow));
+        if (connection.status !== "connected") {
+            throw new Error(connection.lastError ?? MCP_RELIABILITY_CONFIG.fallbackMessage);
+        }
+        latencyMs = await manager.ping(serverRow.id);
+    } catch (checkError) {
+        // Servers waiting for the user to authorize them aren't failing
+        if (checkError instanceof MCPAuthRequiredError) return;
+        error = checkError instanceof Error ? checkError.message : String(checkError);
+    } finally {
+        await manager.disconnectServer(serverRow.id);
+    }
+
+    const checkedAt = new Date().toISOString();
+    try {
+        await recordHealthCheck(db, serverRow.user_id, {
+            serverId: serverRow.id,
+            ok: error === null,
+            latencyMs,
+            error,
+            checkedAt,
+        });
+        await db.prepare(`
+            UPDATE ${table} SET status = ? WHERE id = ?
+        `).bind(error === null ? "connected" : "error", serverRow.id).run();
+    } catch (recordError) {
+        console.error(`[MCP] Failed to record health of ${serverRow.name}:`, recordError);
+    }
+}
@@ -0,0 +1,232 @@
+/**
+ * MCP server health
+ * A cron trigger checks every enabled MCP server on a schedule, and manual
+ * tests count as checks too. Each check is kept in a history table for the
+ * uptime and latency sparklines of the server library.
+ *
+ * The latest checks act as a circuit breaker: once a server failed several
+ * checks in a row, chats stop connecting to it and tell the model why its
+ * tools are missing, until a check passes again.
+ */
+
+export const MCP_HEALTH_CONFIG = {
+  // Consecutive failed checks that open a server's circuit
+  failureThreshold: 3,
+  // Checks older than this don't count for the circuit, e.g. when the cron stopped
+  circuitWindowMs: 30 * 60 * 1000,
+  // Checks older than this are deleted
+  retentionMs: 7 * 24 * 60 * 60 * 1000,
+  // History shown in the server library
+  summaryWindowMs: 24 * 60 * 60 * 1000,
+  // Servers the cron checks at once, an invocation can only keep a few connections open
+  checkConcurrency: 5,
+  // Servers the cron loads per query
+  checkPageSize: 100,
+};
+
+export interface MCPHealthCheck {
+  serverId: string;
+  ok: boolean;
+  // Round trip of a ping, null when the server didn't answer
+  latencyMs: number | null;
+  error: string | null;
+  checkedAt: string;
+}
+
+export interface MCPCircuitState {
+  open: boolean;
+  reason: string | null;
+}
+
+export interface MCPServerHealthSummary {
+  serverId: string;
+  // Share of passed checks, null without checks
+  uptime: number | null;
+  averageLatencyMs: number | null;
+  circuit: MCPCircuitState;
+  // Oldest first, for the sparklines
+  checks: Pick<MCPHealthCheck, "ok" | "latencyMs" | "checkedAt">[];
+}
+
+/**
+ * Circuit of a server from its checks, newest first
+ */
+export function circuitState(
+  checks: MCPHealthCheck[],
+  now: number,
+  config: typeof MCP_HEALTH_CONFIG = MCP_HEALTH_CONFIG
+): MCPCircuitState {
+  const recent = checks
+    .filter(
+      (check) => now - Date.parse(check.checkedAt) <= config.circuitWindowMs
+    )
+    .slice(0, config.failureThreshold);
+
+  if (
+    recent.length < config.failureThreshold ||
+    recent.some((check) => check.ok)
+  ) {
+    return { open: false, reason: null };
+  }
+
+  const lastError = recent[0].error;
+  return {
+    open: true,
+    reason: `it failed its last ${recent.length} health checks${lastError ? ` (${lastError})` : ""}`,
+  };
+}
+
+/**
+ * Uptime, latency and circuit of a server from its checks, newest first
+ */
+export function summarizeHealth(
+  serverId: string,
+  checks: MCPHealthCheck[],
+  now: number
+): MCPServerHealthSummary {
+  const latencies = checks
+    .map((check) => check.latencyMs)
+    .filter((latency): latency is number => latency !== null);
+
+  return {
+    serverId,
+    uptime:
+      checks.length > 0
+        ? checks.filter((check) => check.ok).length / checks.length
+        : null,
+    averageLatencyMs:
+      latencies.length > 0
+        ? Math.round(
+            latencies.reduce((sum, latency) => sum + latency, 0) /
+              latencies.length
+          )
+        : null,
+    circuit: circuitState(checks, now),
+    checks: checks
+      .map(({ ok, latencyMs, checkedAt }) => ({ ok, latencyMs, checkedAt }))
+      .reverse(),
+  };
+}
+
+interface MCPHealthRow {
+  server_id: string;
+  ok: number;
+  latency_ms: number | null;
+  error: string | null;
+  checked_at: string;
+}
+
+export async function recordHealthCheck(
+  db: D1Database,
+  userId: string,
+  check: MCPHealthCheck
+): Promise<void> {
+  await db
+    .prepare(
+      "INSERT INTO mcp_server_health (id, server_id, user_id, ok, latency_ms, error, checked_at) VALUES (?, ?, ?, ?, ?, ?, ?)"
+    )
+    .bind(
+      crypto.randomUUID(),
+      check.serverId,
+      userId,
+      check.ok ? 1 : 0,
+      check.latencyMs,
+      check.error,
+      check.checkedAt
+    )
+    .run();
+}
+
+/**
+ * A user's checks since the given time, by server and newest first
+ */
+export async function loadHealthChecks(
+  db: D1Database,
+  userId: string,
+  since: number
+): Promise<Map<string, MCPHealthCheck[]>> {
+  const rows = await db
+    .prepare(
+      "SELECT server_id, ok, latency_ms, error, checked_at FROM mcp_server_health WHERE user_id = ? AND checked_at >= ? ORDER BY checked_at DESC"
+    )
+    .bind(userId, new Date(since).toISOString())
+    .all<MCPHealthRow>();
+
+  const checks = new Map<string, MCPHealthCheck[]>();
+  for (const row of rows.results) {
+    const serverChecks = checks.get(row.server_id) ?? [];
+    serverChecks.push({
+      serverId: row.server_id,
+      ok: Boolean(row.ok),
+      latencyMs: row.latency_ms,
+      error: row.error,
+      checkedAt: row.checked_at,
+    });
+    checks.set(row.server_id, serverChecks);
+  }
+  return checks;
+}
+
+/**
+ * Why each of a user's servers with an open circuit is unavailable
+ */
+export async function getOpenCircuits(
+  db: D1Database | undefined,
+  userId: string | undefined,
+  now: number = Date.now()
+): Promise<Map<string, string>> {
+  const open = new Map<string, string>();
+  if (!db || !userId) return open;
+
+  try {
+    const checks = await loadHealthChecks(
+      db,
+      userId,
+      now - MCP_HEALTH_CONFIG.circuitWindowMs
+    );
+    for (const [serverId, serverChecks] of checks) {
+      const circuit = circuitState(serverChecks, now);
+      if (circuit.open && circuit.reason) open.set(serverId, circuit.reason);
+    }
+  } catch (error) {
+    // Without the history every server gets its chance
+    console.error("[MCP] Failed to load server health:", error);
+  }
+  return open;
+}
+
+export async function pruneHealthChecks(
+  db: D1Database,
+  now: number = Date.now()
+): Promise<void> {
+  await db
+    .prepare("DELETE FROM mcp_server_health WHERE checked_at < ?")
+    .bind(new Date(now - MCP_HEALTH_CONFIG.retentionMs).toISOString())
+    .run();
+}
+
+/**
+ * Check every server a paged query returns, a few at once. Pages follow the
+ * id of their last server, `loadPage` returns the servers after `afterId`.
+ * Returns how many servers were checked.
+ */
+export async function checkServersInBatches<Server extends { id: string }>(
+  loadPage: (afterId: string, limit: number) => Promise<Server[]>,
+  check: (server: Server) => Promise<void>,
+  config: typeof MCP_HEALTH_CONFIG = MCP_HEALTH_CONFIG
+): Promise<number> {
+  let checked = 0;
+  let afterId = "";
+  for (;;) {
+    const servers = await loadPage(afterId, config.checkPageSize);
+    for (let i = 0; i < servers.length; i += config.checkConcurrency) {
+      await Promise.all(
+        servers.slice(i, i + config.checkConcurrency).map(check)
+      );
+    }
+    checked += servers.length;
+
+    if (servers.length < config.checkPageSize) return checked;
+    afterId = servers[servers.length - 1].id;
+  }
+}
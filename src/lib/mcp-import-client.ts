@@ -0,0 +1,35 @@
+import type { ImportedMCPServer, SkippedMCPServer } from "./mcp-import";
+
+// A server of the import, id and test are set once it was created
+export type MCPImportServer = Omit<ImportedMCPServer, "credentials"> & {
+  id?: string;
+  test?: { success: boolean; message: string; tools?: string[] };
+};
+
+export interface MCPImportResult {
+  servers: MCPImportServer[];
+  skipped: SkippedMCPServer[];
+}
+
+/**
+ * Import MCP servers from an mcpServers config as JSON or YAML. With
+ * `dryRun` nothing is created and the result previews the import.
+ */
+export async function importMCPServers(
+  content: string,
+  options: { dryRun?: boolean; test?: boolean } = {}
+): Promise<MCPImportResult> {
+  const response = await fetch("/api/mcp-servers-independent/import", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ content, ...options }),
+  });
+  const data = (await response.json()) as MCPImportResult & { error?: string };
+  if (!response.ok) {
+    throw new Error(
+      data.error ?? `Failed to import MCP servers: ${response.status}`
+    );
+  }
+  return data;
+}
@@ -0,0 +1,237 @@
+/**
+ * MCP server import
+ * Reads the `mcpServers` config files other MCP clients use, as JSON or YAML,
+ * and turns each remote server into the settings of an independent server.
+ * Auth headers become credentials, stdio servers are skipped because the
+ * worker can't start local processes.
+ */
+import { parse as parseYaml, YAMLError } from "yaml";
+import type { MCPCredentials, MCPServerConfig } from "../types/mcp";
+
+export class MCPImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MCPImportError";
+  }
+}
+
+export interface ImportedMCPServer {
+  name: string;
+  description?: string;
+  url: string;
+  transport: MCPServerConfig["transport"];
+  authType: "none" | "apikey" | "basic" | "custom";
+  credentials?: MCPCredentials;
+  // Headers that became credentials, their values are never shown
+  headerNames: string[];
+  warnings: string[];
+}
+
+export interface SkippedMCPServer {
+  name: string;
+  reason: string;
+}
+
+export interface MCPImportPlan {
+  servers: ImportedMCPServer[];
+  skipped: SkippedMCPServer[];
+}
+
+// Values other clients fill in from their environment, e.g. ${API_KEY} or ${input:token}
+const PLACEHOLDER = /\$\{[^}]+\}/;
+
+const TRANSPORTS: Record<string, MCPServerConfig["transport"]> = {
+  sse: "sse",
+  http: "streamable-http",
+  "streamable-http": "streamable-http",
+  streamable_http: "streamable-http",
+  streamableHttp: "streamable-http",
+  ws: "websocket",
+  websocket: "websocket",
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function parseContent(content: string): unknown {
+  const text = content.trim();
+  if (!text) throw new MCPImportError("The config is empty");
+  if (text.startsWith("{")) {
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      throw new MCPImportError(
+        `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  try {
+    return parseYaml(text);
+  } catch (error) {
+    if (error instanceof YAMLError) {
+      throw new MCPImportError(`Invalid YAML: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+function transportOf(
+  type: unknown,
+  url: URL
+): MCPServerConfig["transport"] | undefined {
+  if (typeof type === "string") return TRANSPORTS[type];
+  if (url.protocol === "ws:" || url.protocol === "wss:") return "websocket";
+  return /\/sse\/?$/.test(url.pathname) ? "sse" : "streamable-http";
+}
+
+/**
+ * Map the headers of a server to credentials, `Authorization: Bearer` becomes
+ * an API key, `Basic` a username and password, anything else custom headers
+ */
+export function credentialsFromHeaders(headers: Record<string, string>): {
+  authType: ImportedMCPServer["authType"];
+  credentials?: MCPCredentials;
+} {
+  const customHeaders: Record<string, string> = {};
+  let authorization: string | undefined;
+  for (const [name, value] of Object.entries(headers)) {
+    if (name.toLowerCase() === "authorization") authorization = value;
+    else customHeaders[name] = value;
+  }
+  const extra = Object.keys(customHeaders).length > 0 ? { customHeaders } : {};
+
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i);
+  if (bearer) {
+    return { authType: "apikey", credentials: { apiKey: bearer[1], ...extra } };
+  }
+  const basic = authorization?.match(/^Basic\s+(.+)$/i);
+  if (basic) {
+    let decoded: string | undefined;
+    try {
+      decoded = atob(basic[1]);
+    } catch {
+      decoded = undefined;
+    }
+    const separator = decoded?.indexOf(":") ?? -1;
+    if (decoded && separator > 0) {
+      return {
+        authType: "basic",
+        credentials: {
+          username: decoded.slice(0, separator),
+          password: decoded.slice(separator + 1),
+          ...extra,
+        },
+      };
+    }
+  }
+  // Other schemes are sent as they are
+  if (authorization !== undefined) customHeaders.Authorization = authorization;
+
+  return Object.keys(customHeaders).length > 0
+    ? { authType: "custom", credentials: { customHeaders } }
+    : { authType: "none" };
+}
+
+function planServer(
+  name: string,
+  entry: unknown
+): ImportedMCPServer | SkippedMCPServer {
+  if (!isObject(entry)) {
+    return { name, reason: "Not a server definition" };
+  }
+  if (typeof entry.command === "string" || entry.type === "stdio") {
+    const command =
+      typeof entry.command === "string" ? `"${entry.command}"` : "a command";
+    return {
+      name,
+      reason: `Runs ${command} locally over stdio, which this app can't start. Expose the server over HTTP or WebSocket and import its URL instead.`,
+    };
+  }
+
+  const rawUrl = entry.url ?? entry.serverUrl;
+  if (typeof rawUrl !== "string" || !rawUrl) {
+    return { name, reason: "Has no url" };
+  }
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return { name, reason: `Invalid url "${rawUrl}"` };
+  }
+  if (!["http:", "https:", "ws:", "wss:"].includes(url.protocol)) {
+    return { name, reason: `Unsupported url scheme "${url.protocol}"` };
+  }
+
+  const type = entry.type ?? entry.transport;
+  const transport = transportOf(type, url);
+  if (!transport) {
+    return { name, reason: `Unsupported transport "${String(type)}"` };
+  }
+
+  const warnings: string[] = [];
+  if (PLACEHOLDER.test(rawUrl)) {
+    warnings.push("The url contains a placeholder, edit it after importing");
+  }
+  const headers: Record<string, string> = {};
+  if (isObject(entry.headers)) {
+    for (const [header, value] of Object.entries(entry.headers)) {
+      headers[header] = String(value);
+      if (PLACEHOLDER.test(headers[header])) {
+        warnings.push(
+          `Header "${header}" contains a placeholder, edit its credentials after importing`
+        );
+      }
+    }
+  }
+
+  return {
+    name,
+    description:
+      typeof entry.description === "string" ? entry.description : undefined,
+    url: rawUrl,
+    transport,
+    ...credentialsFromHeaders(headers),
+    headerNames: Object.keys(headers),
+    warnings,
+  };
+}
+
+/**
+ * Plan an import from an `mcpServers` config, servers named like one in
+ * `existingNames` are skipped
+ */
+export function parseMCPServersConfig(
+  content: string,
+  existingNames: Iterable<string> = []
+): MCPImportPlan {
+  const config = parseContent(content);
+  // Some clients call the section `servers`
+  const entries = isObject(config)
+    ? (config.mcpServers ?? config.servers)
+    : undefined;
+  if (!isObject(entries)) {
+    throw new MCPImportError("The config has no mcpServers section");
+  }
+
+  const taken = new Set(
+    Array.from(existingNames, (name) => name.toLowerCase())
+  );
+  const plan: MCPImportPlan = { servers: [], skipped: [] };
+  for (const [name, entry] of Object.entries(entries)) {
+    if (taken.has(name.toLowerCase())) {
+      plan.skipped.push({
+        name,
+        reason: "A server with this name already exists",
+      });
+      continue;
+    }
+    const planned = planServer(name, entry);
+    if ("reason" in planned) {
+      plan.skipped.push(planned);
+    } else {
+      taken.add(name.toLowerCase());
+      plan.servers.push(planned);
+    }
+  }
+  return plan;
+}
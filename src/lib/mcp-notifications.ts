@@ -0,0 +1,121 @@
+/**
+ * MCP change notifications
+ * Servers announce changes to their tools, resources and prompts with
+ * list_changed notifications, and changes to a subscribed resource with
+ * notifications/resources/updated. The connection manager refreshes its
+ * cache and passes the change on to the listeners registered here.
+ */
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+
+export interface MCPCapabilitiesChange {
+  serverId: string;
+  serverName: string;
+  kind: "tools" | "resources" | "prompts";
+  // Set for tool changes
+  tools?: string[];
+  toolsAdded?: string[];
+  toolsRemoved?: string[];
+  // Set when a single resource was updated
+  resourceUri?: string;
+}
+
+export type MCPChangeListener = (
+  change: MCPCapabilitiesChange
+) => void | Promise<void>;
+
+/**
+ * Listeners per server. Each listener has a key, registering the same key
+ * again replaces the listener, so callers that reconnect on every request
+ * don't pile up listeners.
+ */
+export class MCPChangeListeners {
+  private listeners = new Map<string, Map<string, MCPChangeListener>>();
+
+  subscribe(
+    serverId: string,
+    key: string,
+    listener: MCPChangeListener
+  ): () => void {
+    let serverListeners = this.listeners.get(serverId);
+    if (!serverListeners) {
+      serverListeners = new Map();
+      this.listeners.set(serverId, serverListeners);
+    }
+    serverListeners.set(key, listener);
+
+    return () => {
+      if (serverListeners.get(key) === listener) {
+        serverListeners.delete(key);
+      }
+    };
+  }
+
+  async notify(change: MCPCapabilitiesChange): Promise<void> {
+    const serverListeners = this.listeners.get(change.serverId);
+    for (const [key, listener] of serverListeners ?? []) {
+      try {
+        await listener(change);
+      } catch (error) {
+        // One failing listener must not keep the others from hearing about it
+        console.error(
+          `[MCP] Change listener ${key} for ${change.serverName} failed:`,
+          error
+        );
+      }
+    }
+  }
+
+  clear(serverId: string): void {
+    this.listeners.delete(serverId);
+  }
+}
+
+export interface MCPNotificationHandlers {
+  onToolsChanged: () => Promise<void>;
+  onResourcesChanged: () => Promise<void>;
+  onResourceUpdated: (uri: string) => Promise<void>;
+  onPromptsChanged: () => Promise<void>;
+}
+
+/**
+ * Route a client's change notifications to the given handlers
+ */
+export function handleChangeNotifications(
+  client: Pick<Client, "setNotificationHandler">,
+  handlers: MCPNotificationHandlers
+): void {
+  client.setNotificationHandler(ToolListChangedNotificationSchema, () =>
+    handlers.onToolsChanged()
+  );
+  client.setNotificationHandler(ResourceListChangedNotificationSchema, () =>
+    handlers.onResourcesChanged()
+  );
+  client.setNotificationHandler(
+    ResourceUpdatedNotificationSchema,
+    (notification) => handlers.onResourceUpdated(notification.params.uri)
+  );
+  client.setNotificationHandler(PromptListChangedNotificationSchema, () =>
+    handlers.onPromptsChanged()
+  );
+}
+
+/**
+ * Names present in only one of two lists
+ */
+export function diffNames(
+  before: string[],
+  after: string[]
+): { added: string[]; removed: string[] } {
+  const previous = new Set(before);
+  const current = new Set(after);
+  return {
+    added: after.filter((name) => !previous.has(name)),
+    removed: before.filter((name) => !current.has(name)),
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * Send the browser to an OAuth MCP server's authorization page.
+ * The callback brings the user back to the app with `?mcp_oauth=success|error`.
+ */
+export async function authorizeMCPServer(serverId: string): Promise<void> {
+  const response = await fetch(
+    `/api/mcp-servers-independent/${serverId}/oauth/start`,
+    { method: "POST", credentials: "include" }
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to start authorization: ${response.status}`);
+  }
+  const { authUrl } = (await response.json()) as { authUrl: string };
+  window.location.href = authUrl;
+}
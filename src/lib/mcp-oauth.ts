@@ -0,0 +1,453 @@
+/**
+ * OAuth2 authorization code flow with PKCE for MCP servers
+ * Flows are tracked in mcp_oauth_flows, tokens are stored envelope-encrypted
+ * on the server row and refreshed shortly before they expire.
+ */
+import type { MCPCredentials, OAuthTokens } from "../types/mcp";
+import {
+  type CredentialKeyOptions,
+  decryptCredentials,
+  encryptCredentials,
+  getCredentialKeyOptions,
+} from "./credentials";
+
+export type OAuthClientConfig = NonNullable<MCPCredentials["oauth2"]>;
+
+type FetchFn = typeof fetch;
+
+/**
+ * Raised when a server has no usable tokens and the user has to authorize it again
+ */
+export class MCPAuthRequiredError extends Error {
+  constructor(
+    public serverId: string,
+    message = "Authorization required"
+  ) {
+    super(message);
+    this.name = "MCPAuthRequiredError";
+  }
+}
+
+/**
+ * Error response from a token endpoint, `code` is the OAuth error code
+ */
+export class OAuthTokenError extends Error {
+  constructor(
+    message: string,
+    public code?: string
+  ) {
+    super(message);
+    this.name = "OAuthTokenError";
+  }
+}
+
+// An authorization has to be completed within this time
+const FLOW_TTL_MS = 10 * 60 * 1000;
+// Refresh a little early so the token is still valid once the connection is made
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+const randomToken = () =>
+  Buffer.from(crypto.getRandomValues(new Uint8Array(32))).toString("base64url");
+
+export function generateCodeVerifier(): string {
+  return randomToken();
+}
+
+export async function createCodeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(verifier)
+  );
+  return Buffer.from(new Uint8Array(digest)).toString("base64url");
+}
+
+export function buildAuthorizationUrl(
+  config: OAuthClientConfig,
+  params: { redirectUri: string; state: string; codeChallenge: string }
+): string {
+  const url = new URL(config.authUrl);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", config.clientId);
+  url.searchParams.set("redirect_uri", params.redirectUri);
+  url.searchParams.set("state", params.state);
+  url.searchParams.set("code_challenge", params.codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
+  if (config.scopes?.length) {
+    url.searchParams.set("scope", config.scopes.join(" "));
+  }
+  return url.toString();
+}
+
+async function requestTokens(
+  config: OAuthClientConfig,
+  params: Record<string, string>,
+  fetchFn: FetchFn
+): Promise<OAuthTokens> {
+  const body = new URLSearchParams({ ...params, client_id: config.clientId });
+  if (config.clientSecret) {
+    body.set("client_secret", config.clientSecret);
+  }
+
+  const response = await fetchFn(config.tokenUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    },
+    body,
+  });
+
+  const data = (await response.json().catch(() => ({}))) as Record<
+    string,
+    unknown
+  >;
+  if (!response.ok || typeof data.access_token !== "string") {
+    const code = typeof data.error === "string" ? data.error : undefined;
+    const description =
+      typeof data.error_description === "string"
+        ? data.error_description
+        : `Token endpoint returned ${response.status}`;
+    throw new OAuthTokenError(description, code);
+  }
+
+  return {
+    accessToken: data.access_token,
+    refreshToken:
+      typeof data.refresh_token === "string" ? data.refresh_token : undefined,
+    expiresAt:
+      typeof data.expires_in === "number"
+        ? Date.now() + data.expires_in * 1000
+        : undefined,
+    scope: typeof data.scope === "string" ? data.scope : undefined,
+  };
+}
+
+export function exchangeAuthorizationCode(
+  config: OAuthClientConfig,
+  params: { code: string; codeVerifier: string; redirectUri: string },
+  fetchFn: FetchFn = fetch
+): Promise<OAuthTokens> {
+  return requestTokens(
+    config,
+    {
+      grant_type: "authorization_code",
+      code: params.code,
+      code_verifier: params.codeVerifier,
+      redirect_uri: params.redirectUri,
+    },
+    fetchFn
+  );
+}
+
+export async function refreshAccessToken(
+  config: OAuthClientConfig,
+  refreshToken: string,
+  fetchFn: FetchFn = fetch
+): Promise<OAuthTokens> {
+  const tokens = await requestTokens(
+    config,
+    { grant_type: "refresh_token", refresh_token: refreshToken },
+    fetchFn
+  );
+  // Servers that don't rotate refresh tokens leave it out of the response
+  return { ...tokens, refreshToken: tokens.refreshToken ?? refreshToken };
+}
+
+export function needsRefresh(
+  expiresAt: string | number | null | undefined,
+  now = Date.now()
+): boolean {
+  if (expiresAt === null || expiresAt === undefined) {
+    return false;
+  }
+  return new Date(expiresAt).getTime() - REFRESH_MARGIN_MS <= now;
+}
+
+async function setServerStatus(
+  db: D1Database,
+  serverId: string,
+  status: "pending_auth" | "authenticating" | "disconnected" | "error"
+) {
+  await db
+    .prepare("UPDATE mcp_servers_independent SET status = ? WHERE id = ?")
+    .bind(status, serverId)
+    .run();
+}
+
+/**
+ * Load the OAuth client settings of a server, or null if the user has no such
+ * OAuth server
+ */
+export async function getOAuthClientConfig(
+  db: D1Database,
+  serverId: string,
+  userId: string,
+  keyOptions: CredentialKeyOptions = getCredentialKeyOptions()
+): Promise<OAuthClientConfig | null> {
+  const server = await db
+    .prepare(
+      "SELECT auth_type, auth_config FROM mcp_servers_independent WHERE id = ? AND user_id = ?"
+    )
+    .bind(serverId, userId)
+    .first<{ auth_type: string; auth_config: string | null }>();
+  if (!server || server.auth_type !== "oauth2") {
+    return null;
+  }
+  const credentials = await decryptCredentials(server.auth_config, keyOptions);
+  return credentials?.oauth2 ?? null;
+}
+
+/**
+ * Start an authorization and return the URL to send the user to
+ */
+export async function startOAuthFlow(
+  db: D1Database,
+  params: {
+    serverId: string;
+    userId: string;
+    config: OAuthClientConfig;
+    redirectUri: string;
+  }
+): Promise<string> {
+  const state = randomToken();
+  const codeVerifier = generateCodeVerifier();
+  const authUrl = buildAuthorizationUrl(params.config, {
+    redirectUri: params.redirectUri,
+    state,
+    codeChallenge: await createCodeChallenge(codeVerifier),
+  });
+
+  await db
+    .prepare(
+      `
+      INSERT INTO mcp_oauth_flows (id, server_id, user_id, state, step, auth_url, code_verifier, redirect_uri, expires_at)
+      VALUES (?, ?, ?, ?, 'initiated', ?, ?, ?, ?)
+    `
+    )
+    .bind(
+      crypto.randomUUID(),
+      params.serverId,
+      params.userId,
+      state,
+      authUrl,
+      codeVerifier,
+      params.redirectUri,
+      new Date(Date.now() + FLOW_TTL_MS).toISOString()
+    )
+    .run();
+  await setServerStatus(db, params.serverId, "authenticating");
+
+  return authUrl;
+}
+
+/**
+ * Store tokens for a server. When `previous` is given the write only happens
+ * if the stored tokens are still the previous ones, so concurrent refreshes
+ * don't overwrite each other. Returns the stored value, or null if another
+ * write got there first.
+ */
+export async function storeOAuthTokens(
+  db: D1Database,
+  serverId: string,
+  tokens: OAuthTokens,
+  options: { previous?: string; keyOptions?: CredentialKeyOptions } = {}
+): Promise<string | null> {
+  const encrypted = await encryptCredentials(tokens, options.keyOptions);
+  const expiresAt = tokens.expiresAt
+    ? new Date(tokens.expiresAt).toISOString()
+    : null;
+
+  const result = await db
+    .prepare(
+      `
+      UPDATE mcp_servers_independent
+      SET oauth_tokens = ?, oauth_token_expires_at = ?
+      WHERE id = ? ${options.previous ? "AND oauth_tokens = ?" : ""}
+    `
+    )
+    .bind(
+      encrypted,
+      expiresAt,
+      serverId,
+      ...(options.previous ? [options.previous] : [])
+    )
+    .run();
+
+  return result.meta.changes > 0 ? encrypted : null;
+}
+
+/**
+ * Finish an authorization from the callback's code and state.
+ * Returns the ID of the authorized server.
+ */
+export async function completeOAuthFlow(
+  db: D1Database,
+  params: { state: string; code: string; userId: string },
+  fetchFn: FetchFn = fetch,
+  keyOptions: CredentialKeyOptions = getCredentialKeyOptions()
+): Promise<string> {
+  const flow = await db
+    .prepare(
+      `
+      SELECT id, server_id, code_verifier, redirect_uri
+      FROM mcp_oauth_flows
+      WHERE state = ? AND user_id = ? AND step = 'initiated' AND expires_at > ?
+    `
+    )
+    .bind(params.state, params.userId, new Date().toISOString())
+    .first<{
+      id: string;
+      server_id: string;
+      code_verifier: string;
+      redirect_uri: string;
+    }>();
+  if (!flow) {
+    throw new Error("Unknown or expired authorization request");
+  }
+
+  // Each state can only be redeemed once
+  const claimed = await db
+    .prepare(
+      "UPDATE mcp_oauth_flows SET step = 'token_exchange' WHERE id = ? AND step = 'initiated'"
+    )
+    .bind(flow.id)
+    .run();
+  if (claimed.meta.changes === 0) {
+    throw new Error("Authorization request was already used");
+  }
+
+  try {
+    const config = await getOAuthClientConfig(
+      db,
+      flow.server_id,
+      params.userId,
+      keyOptions
+    );
+    if (!config) {
+      throw new Error("Server is no longer configured for OAuth");
+    }
+
+    const tokens = await exchangeAuthorizationCode(
+      config,
+      {
+        code: params.code,
+        codeVerifier: flow.code_verifier,
+        redirectUri: flow.redirect_uri,
+      },
+      fetchFn
+    );
+    await storeOAuthTokens(db, flow.server_id, tokens, { keyOptions });
+    await db
+      .prepare("UPDATE mcp_oauth_flows SET step = 'completed' WHERE id = ?")
+      .bind(flow.id)
+      .run();
+    await setServerStatus(db, flow.server_id, "disconnected");
+    return flow.server_id;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await db
+      .prepare(
+        "UPDATE mcp_oauth_flows SET step = 'failed', error = ? WHERE id = ?"
+      )
+      .bind(message, flow.id)
+      .run();
+    await setServerStatus(db, flow.server_id, "error");
+    throw error;
+  }
+}
+
+/**
+ * Record that the authorization server rejected or the user declined an authorization
+ */
+export async function failOAuthFlow(
+  db: D1Database,
+  params: { state: string; userId: string; error: string }
+): Promise<void> {
+  const flow = await db
+    .prepare(
+      "SELECT id, server_id FROM mcp_oauth_flows WHERE state = ? AND user_id = ? AND step = 'initiated'"
+    )
+    .bind(params.state, params.userId)
+    .first<{ id: string; server_id: string }>();
+  if (!flow) {
+    return;
+  }
+  await db
+    .prepare(
+      "UPDATE mcp_oauth_flows SET step = 'failed', error = ? WHERE id = ?"
+    )
+    .bind(params.error, flow.id)
+    .run();
+  await setServerStatus(db, flow.server_id, "pending_auth");
+}
+
+/**
+ * Make sure an OAuth server has a usable access token before connecting,
+ * refreshing it when it is about to expire. Returns the encrypted tokens to
+ * hand to connectToServer, or throws MCPAuthRequiredError when the user has
+ * to authorize again.
+ */
+export async function ensureFreshOAuthTokens(
+  db: D1Database,
+  server: {
+    id: string;
+    user_id: string;
+    oauth_tokens?: string | null;
+    oauth_token_expires_at?: string | null;
+  },
+  fetchFn: FetchFn = fetch,
+  keyOptions: CredentialKeyOptions = getCredentialKeyOptions()
+): Promise<string> {
+  if (!server.oauth_tokens) {
+    await setServerStatus(db, server.id, "pending_auth");
+    throw new MCPAuthRequiredError(server.id);
+  }
+  if (!needsRefresh(server.oauth_token_expires_at)) {
+    return server.oauth_tokens;
+  }
+
+  const tokens = await decryptCredentials<OAuthTokens>(
+    server.oauth_tokens,
+    keyOptions
+  );
+  const config = await getOAuthClientConfig(
+    db,
+    server.id,
+    server.user_id,
+    keyOptions
+  );
+  if (!tokens?.refreshToken || !config) {
+    await setServerStatus(db, server.id, "pending_auth");
+    throw new MCPAuthRequiredError(server.id, "Access token expired");
+  }
+
+  let refreshed: OAuthTokens;
+  try {
+    refreshed = await refreshAccessToken(config, tokens.refreshToken, fetchFn);
+  } catch (error) {
+    // The refresh token was revoked or expired, only a new consent helps
+    if (error instanceof OAuthTokenError) {
+      await setServerStatus(db, server.id, "pending_auth");
+      throw new MCPAuthRequiredError(server.id, error.message);
+    }
+    throw error;
+  }
+
+  const stored = await storeOAuthTokens(db, server.id, refreshed, {
+    previous: server.oauth_tokens,
+    keyOptions,
+  });
+  if (stored) {
+    return stored;
+  }
+
+  // Another connection refreshed first, use its tokens
+  const current = await db
+    .prepare("SELECT oauth_tokens FROM mcp_servers_independent WHERE id = ?")
+    .bind(server.id)
+    .first<{ oauth_tokens: string | null }>();
+  if (!current?.oauth_tokens) {
+    throw new MCPAuthRequiredError(server.id);
+  }
+  return current.oauth_tokens;
+}
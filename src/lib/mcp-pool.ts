@@ -0,0 +1,75 @@
+/**
+ * MCP connection pooling
+ * The Chat Durable Object keeps its MCP connections open between turns so
+ * only the first message pays for the handshake. A pooled connection is only
+ * reused for the same user and server settings: it remembers a fingerprint of
+ * the settings it was opened with, and edited credentials or a refreshed
+ * OAuth token open a new connection instead. Idle connections are closed and
+ * the others pinged now and then, a connection that stops answering is closed
+ * so the next turn reconnects.
+ */
+import type { MCPServerConfig } from "../types/mcp";
+
+export const MCP_POOL_CONFIG = {
+  idleTimeoutMs: 10 * 60 * 1000,
+  pingIntervalMs: 60 * 1000,
+};
+
+export interface MCPPoolUsage {
+  lastUsed: number;
+  lastPinged: number;
+}
+
+/**
+ * Fingerprint of everything a connection was authorized with
+ */
+export async function connectionFingerprint(
+  config: Pick<
+    MCPServerConfig,
+    | "id"
+    | "userId"
+    | "url"
+    | "transport"
+    | "auth"
+    | "encryptedCredentials"
+    | "encryptedOAuthTokens"
+  >
+): Promise<string> {
+  const material = JSON.stringify([
+    config.id,
+    config.userId,
+    config.url,
+    config.transport,
+    config.auth.type,
+    config.encryptedCredentials ?? null,
+    config.encryptedOAuthTokens ?? null,
+  ]);
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(material)
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+/**
+ * Which pooled connections to close because they sat idle, and which to
+ * ping because they haven't been checked for a while
+ */
+export function planSweep(
+  usage: Map<string, MCPPoolUsage>,
+  now: number,
+  config: typeof MCP_POOL_CONFIG = MCP_POOL_CONFIG
+): { evict: string[]; ping: string[] } {
+  const evict: string[] = [];
+  const ping: string[] = [];
+  for (const [serverId, { lastUsed, lastPinged }] of usage) {
+    if (now - lastUsed >= config.idleTimeoutMs) {
+      evict.push(serverId);
+    } else if (now - lastPinged >= config.pingIntervalMs) {
+      ping.push(serverId);
+    }
+  }
+  return { evict, ping };
+}
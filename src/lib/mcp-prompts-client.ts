@@ -0,0 +1,141 @@
+import { generateId, type Attachment, type Message } from "ai";
+import type { PromptMessage } from "@modelcontextprotocol/sdk/types.js";
+import type { MCPPrompt } from "../types/mcp";
+import { resourceContentsToAttachments } from "./mcp-resources-client";
+
+export interface ThreadMCPPrompts {
+  prompts: MCPPrompt[];
+  authRequired: { id: string; name: string }[];
+}
+
+/**
+ * Slash command for a prompt, e.g. "/github:review-pr"
+ */
+export function promptCommand(
+  prompt: Pick<MCPPrompt, "name" | "serverName">
+): string {
+  const server = prompt.serverName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `/${server}:${prompt.name}`;
+}
+
+/**
+ * Load the prompts of every MCP server available to a thread
+ */
+export async function fetchThreadPrompts(
+  threadId: string
+): Promise<ThreadMCPPrompts> {
+  const response = await fetch(`/api/threads/${threadId}/mcp-prompts`, {
+    credentials: "include",
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to load MCP prompts: ${response.status}`);
+  }
+  return (await response.json()) as ThreadMCPPrompts;
+}
+
+/**
+ * Expand a prompt on its server with the given arguments
+ */
+export async function getThreadPrompt(
+  threadId: string,
+  prompt: Pick<MCPPrompt, "serverId" | "name">,
+  args: Record<string, string>
+): Promise<PromptMessage[]> {
+  const response = await fetch(`/api/threads/${threadId}/mcp-prompts/get`, {
+    method: "POST",
+    credentials: "include",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      serverId: prompt.serverId,
+      name: prompt.name,
+      arguments: args,
+    }),
+  });
+  if (!response.ok) {
+    const { error } = (await response.json().catch(() => ({}))) as {
+      error?: string;
+    };
+    throw new Error(error ?? `Failed to get MCP prompt: ${response.status}`);
+  }
+  const { messages } = (await response.json()) as {
+    messages: PromptMessage[];
+  };
+  return messages;
+}
+
+/**
+ * Convert the messages of an expanded prompt to chat messages. Consecutive
+ * messages with the same role are merged, since MCP sends one content block
+ * per message. Images, audio and embedded resources become attachments of
+ * user messages; assistant messages only keep their text.
+ */
+export function promptMessagesToChatMessages(
+  prompt: Pick<MCPPrompt, "serverName">,
+  messages: PromptMessage[]
+): Message[] {
+  const chatMessages: Message[] = [];
+  let texts: string[] = [];
+  let attachments: Attachment[] = [];
+  let role: PromptMessage["role"] | undefined;
+
+  const flush = () => {
+    if (role && (texts.length > 0 || attachments.length > 0)) {
+      chatMessages.push({
+        id: generateId(),
+        role,
+        content: texts.join("\n\n"),
+        createdAt: new Date(),
+        ...(attachments.length > 0
+          ? { experimental_attachments: attachments }
+          : {}),
+      });
+    }
+    texts = [];
+    attachments = [];
+  };
+
+  for (const message of messages) {
+    if (message.role !== role) {
+      flush();
+      role = message.role;
+    }
+
+    const { content } = message;
+    switch (content.type) {
+      case "text":
+        texts.push(content.text);
+        break;
+      case "image":
+      case "audio":
+        if (role === "user") {
+          attachments.push({
+            name: `${content.type}.${content.mimeType.split("/")[1] ?? "bin"}`,
+            contentType: content.mimeType,
+            url: `data:${content.mimeType};base64,${content.data}`,
+          });
+        }
+        break;
+      case "resource":
+        if (role === "user") {
+          attachments.push(
+            ...resourceContentsToAttachments(
+              { name: content.resource.uri, serverName: prompt.serverName },
+              [content.resource]
+            )
+          );
+        } else if (typeof content.resource.text === "string") {
+          texts.push(content.resource.text);
+        }
+        break;
+      case "resource_link":
+        texts.push(`[${content.title ?? content.name}](${content.uri})`);
+        break;
+    }
+  }
+  flush();
+
+  return chatMessages;
+}
@@ -0,0 +1,43 @@
+/**
+ * MCP prompt discovery
+ * Lists the prompt templates a server publishes through prompts/list.
+ */
+import type { ListPromptsResult } from "@modelcontextprotocol/sdk/types.js";
+import type { MCPPrompt } from "../types/mcp";
+import { listAllPages } from "./mcp-resources";
+
+// The part of the SDK client used for discovery
+export interface MCPPromptClient {
+  listPrompts(params?: { cursor?: string }): Promise<ListPromptsResult>;
+}
+
+/**
+ * Discover the prompts of a connected server. A failing prompts/list leaves
+ * the server without prompts instead of failing the connection.
+ */
+export async function discoverPrompts(
+  client: MCPPromptClient,
+  server: { id: string; name: string }
+): Promise<MCPPrompt[]> {
+  try {
+    const prompts = await listAllPages(async (cursor) => {
+      const result = await client.listPrompts(cursor ? { cursor } : undefined);
+      return { items: result.prompts, nextCursor: result.nextCursor };
+    });
+    return prompts.map((prompt) => ({
+      name: prompt.name,
+      title: prompt.title,
+      description: prompt.description,
+      arguments: (prompt.arguments ?? []).map((argument) => ({
+        name: argument.name,
+        description: argument.description,
+        required: argument.required,
+      })),
+      serverId: server.id,
+      serverName: server.name,
+    }));
+  } catch (error) {
+    console.warn(`[MCP] Could not list prompts of ${server.name}:`, error);
+    return [];
+  }
+}
@@ -0,0 +1,95 @@
+import type { Attachment } from "ai";
+import type {
+  MCPResource,
+  MCPResourceContent,
+  MCPResourceTemplate,
+} from "../types/mcp";
+
+export interface ThreadMCPResources {
+  resources: MCPResource[];
+  resourceTemplates: MCPResourceTemplate[];
+  authRequired: { id: string; name: string }[];
+}
+
+/**
+ * Load the resources of every MCP server available to a thread
+ */
+export async function fetchThreadResources(
+  threadId: string
+): Promise<ThreadMCPResources> {
+  const response = await fetch(`/api/threads/${threadId}/mcp-resources`, {
+    credentials: "include",
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to load MCP resources: ${response.status}`);
+  }
+  return (await response.json()) as ThreadMCPResources;
+}
+
+/**
+ * Read a resource through the thread's connection to its server
+ */
+export async function readThreadResource(
+  threadId: string,
+  serverId: string,
+  uri: string
+): Promise<MCPResourceContent[]> {
+  const response = await fetch(`/api/threads/${threadId}/mcp-resources/read`, {
+    method: "POST",
+    credentials: "include",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ serverId, uri }),
+  });
+  if (!response.ok) {
+    const { error } = (await response.json().catch(() => ({}))) as {
+      error?: string;
+    };
+    throw new Error(error ?? `Failed to read MCP resource: ${response.status}`);
+  }
+  const { contents } = (await response.json()) as {
+    contents: MCPResourceContent[];
+  };
+  return contents;
+}
+
+function textToBase64(text: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Turn the contents of a resource into message attachments. Text is sent as
+ * text/plain, prefixed with the resource it came from so the model knows
+ * what it is looking at; binary contents keep their MIME type.
+ */
+export function resourceContentsToAttachments(
+  resource: { name: string; serverName: string },
+  contents: MCPResourceContent[]
+): Attachment[] {
+  return contents.flatMap((content): Attachment[] => {
+    if (content.text !== undefined) {
+      const text = `Contents of the MCP resource "${resource.name}" (${content.uri}) from ${resource.serverName}:\n\n${content.text}`;
+      return [
+        {
+          name: resource.name,
+          contentType: "text/plain",
+          url: `data:text/plain;base64,${textToBase64(text)}`,
+        },
+      ];
+    }
+    if (content.blob !== undefined) {
+      const contentType = content.mimeType ?? "application/octet-stream";
+      return [
+        {
+          name: resource.name,
+          contentType,
+          url: `data:${contentType};base64,${content.blob}`,
+        },
+      ];
+    }
+    return [];
+  });
+}
@@ -0,0 +1,102 @@
+/**
+ * MCP resource discovery
+ * Lists a server's resources and resource templates, following pagination
+ * cursors. Servers that don't implement one of the lists just get an empty
+ * list so a partial implementation doesn't break the connection.
+ */
+import type {
+  ListResourcesResult,
+  ListResourceTemplatesResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { MCPResource, MCPResourceTemplate } from "../types/mcp";
+
+// The part of the SDK client used for discovery
+export interface MCPResourceClient {
+  listResources(params?: { cursor?: string }): Promise<ListResourcesResult>;
+  listResourceTemplates(params?: {
+    cursor?: string;
+  }): Promise<ListResourceTemplatesResult>;
+}
+
+export interface DiscoveredResources {
+  resources: MCPResource[];
+  resourceTemplates: MCPResourceTemplate[];
+}
+
+// Guards against servers that keep returning a cursor
+const MAX_PAGES = 20;
+
+/**
+ * Collect every page of a paginated MCP list request
+ */
+export async function listAllPages<T>(
+  listPage: (cursor?: string) => Promise<{ items: T[]; nextCursor?: string }>
+): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const result = await listPage(cursor);
+    items.push(...result.items);
+    cursor = result.nextCursor;
+    if (!cursor) {
+      break;
+    }
+  }
+  return items;
+}
+
+/**
+ * Discover the resources and resource templates of a connected server
+ */
+export async function discoverResources(
+  client: MCPResourceClient,
+  server: { id: string; name: string }
+): Promise<DiscoveredResources> {
+  const [resources, resourceTemplates] = await Promise.all([
+    listAllPages(async (cursor) => {
+      const result = await client.listResources(
+        cursor ? { cursor } : undefined
+      );
+      return { items: result.resources, nextCursor: result.nextCursor };
+    }).catch((error) => {
+      console.warn(`[MCP] Could not list resources of ${server.name}:`, error);
+      return [];
+    }),
+    listAllPages(async (cursor) => {
+      const result = await client.listResourceTemplates(
+        cursor ? { cursor } : undefined
+      );
+      return {
+        items: result.resourceTemplates,
+        nextCursor: result.nextCursor,
+      };
+    }).catch((error) => {
+      console.warn(
+        `[MCP] Could not list resource templates of ${server.name}:`,
+        error
+      );
+      return [];
+    }),
+  ]);
+
+  return {
+    resources: resources.map((resource) => ({
+      uri: resource.uri,
+      name: resource.name,
+      title: resource.title,
+      description: resource.description,
+      mimeType: resource.mimeType,
+      serverId: server.id,
+      serverName: server.name,
+    })),
+    resourceTemplates: resourceTemplates.map((template) => ({
+      uriTemplate: template.uriTemplate,
+      name: template.name,
+      title: template.title,
+      description: template.description,
+      mimeType: template.mimeType,
+      serverId: server.id,
+      serverName: server.name,
+    })),
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Approve or deny an MCP server's sampling request waiting in a thread.
+ * Resolves to false when the request is no longer waiting, e.g. after it
+ * timed out.
+ */
+export async function respondToSamplingRequest(
+  threadId: string,
+  requestId: string,
+  approved: boolean
+): Promise<boolean> {
+  const response = await fetch(
+    `/api/threads/${threadId}/sampling/${requestId}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ approved }),
+    }
+  );
+  if (response.status === 404) return false;
+  if (!response.ok) {
+    throw new Error(`Failed to answer sampling request: ${response.status}`);
+  }
+  return true;
+}
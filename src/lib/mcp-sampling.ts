@@ -0,0 +1,254 @@
+/**
+ * MCP sampling
+ * Servers can ask the client for a completion with `sampling/createMessage`.
+ * Requests run on the thread's model within a daily token budget per server,
+ * need the user's approval unless the server is trusted, and are logged with
+ * the tool executions.
+ */
+import {
+  type CreateMessageRequest,
+  type CreateMessageResult,
+  ErrorCode,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+import { type CoreMessage, generateText, type LanguageModel } from "ai";
+import { recordToolExecution, type ToolExecutionDecision } from "./tool-audit";
+
+export const MCP_SAMPLING_CONFIG = {
+  // Tokens a server may use per day unless its settings say otherwise
+  defaultTokenBudget: 10000,
+  budgetWindowMs: 24 * 60 * 60 * 1000,
+  // Requests the user doesn't answer in time are denied
+  approvalTimeoutMs: 2 * 60 * 1000,
+};
+
+// Name sampling requests are logged under
+export const SAMPLING_TOOL_NAME = "sampling/createMessage";
+
+export type SamplingParams = CreateMessageRequest["params"];
+
+export interface SamplingServer {
+  id: string;
+  name: string;
+}
+
+export interface SamplingSettings {
+  trusted: boolean;
+  tokenBudget: number;
+}
+
+// What the user sees when asked to approve a request
+export interface SamplingApprovalRequest {
+  id: string;
+  serverId: string;
+  serverName: string;
+  systemPrompt?: string;
+  // Text of the last message the server sends to the model
+  preview: string;
+  maxTokens: number;
+}
+
+export interface SamplingContext {
+  db: D1Database | undefined;
+  userId: string | undefined;
+  threadId: string;
+  agentId: string | null;
+  model: LanguageModel;
+  modelName: string;
+  // Resolves to whether the user approved the request
+  requestApproval: (request: SamplingApprovalRequest) => Promise<boolean>;
+}
+
+// MCP reserves -1 for requests the user rejected
+const USER_REJECTED = -1;
+
+/**
+ * Trust and budget of a server, group servers have no such settings
+ */
+export async function loadSamplingSettings(
+  db: D1Database | undefined,
+  userId: string | undefined,
+  serverId: string
+): Promise<SamplingSettings> {
+  const row =
+    db && userId
+      ? await db
+          .prepare(
+            "SELECT sampling_trusted, sampling_token_budget FROM mcp_servers_independent WHERE id = ? AND user_id = ?"
+          )
+          .bind(serverId, userId)
+          .first<{
+            sampling_trusted: number | null;
+            sampling_token_budget: number | null;
+          }>()
+      : null;
+
+  return {
+    trusted: Boolean(row?.sampling_trusted),
+    tokenBudget:
+      row?.sampling_token_budget ?? MCP_SAMPLING_CONFIG.defaultTokenBudget,
+  };
+}
+
+/**
+ * Tokens a server's sampling requests used within the budget window
+ */
+export async function samplingTokensUsed(
+  db: D1Database,
+  userId: string,
+  serverId: string,
+  now: number = Date.now()
+): Promise<number> {
+  const row = await db
+    .prepare(
+      "SELECT COALESCE(SUM(tokens), 0) AS used FROM tool_executions WHERE user_id = ? AND server_id = ? AND kind = 'sampling' AND created_at >= ?"
+    )
+    .bind(
+      userId,
+      serverId,
+      new Date(now - MCP_SAMPLING_CONFIG.budgetWindowMs).toISOString()
+    )
+    .first<{ used: number }>();
+  return row?.used ?? 0;
+}
+
+/**
+ * Convert the messages of a sampling request for the AI SDK, audio has no
+ * counterpart there and is left out
+ */
+export function toModelMessages(
+  messages: SamplingParams["messages"]
+): CoreMessage[] {
+  return messages.flatMap((message): CoreMessage[] => {
+    const { content } = message;
+    if (content.type === "text") {
+      return [{ role: message.role, content: content.text as string }];
+    }
+    if (content.type === "image" && message.role === "user") {
+      return [
+        {
+          role: "user",
+          content: [
+            {
+              type: "image",
+              image: content.data as string,
+              mimeType: content.mimeType as string,
+            },
+          ],
+        },
+      ];
+    }
+    return [];
+  });
+}
+
+function previewOf(messages: SamplingParams["messages"]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const { content } = messages[i];
+    if (content.type === "text") return content.text as string;
+  }
+  return "";
+}
+
+function stopReasonOf(finishReason: string): CreateMessageResult["stopReason"] {
+  if (finishReason === "stop") return "endTurn";
+  if (finishReason === "length") return "maxTokens";
+  return finishReason;
+}
+
+/**
+ * Run a server's sampling request on the thread's model
+ */
+export async function handleSamplingRequest(
+  server: SamplingServer,
+  params: SamplingParams,
+  context: SamplingContext
+): Promise<CreateMessageResult> {
+  const { db, userId } = context;
+  const createdAt = new Date().toISOString();
+  const startTime = Date.now();
+  const record = (
+    decision: ToolExecutionDecision,
+    outcome: { text?: string; tokens?: number; error?: string }
+  ) =>
+    db && userId
+      ? recordToolExecution(db, {
+          id: crypto.randomUUID(),
+          userId,
+          threadId: context.threadId,
+          agentId: context.agentId,
+          toolCallId: null,
+          toolName: SAMPLING_TOOL_NAME,
+          serverId: server.id,
+          arguments: {
+            systemPrompt: params.systemPrompt,
+            messages: params.messages,
+            maxTokens: params.maxTokens,
+          },
+          resultSize:
+            outcome.text === undefined
+              ? null
+              : new TextEncoder().encode(outcome.text).length,
+          latencyMs: Date.now() - startTime,
+          decision,
+          error: outcome.error ?? null,
+          kind: "sampling",
+          tokens: outcome.tokens ?? null,
+          createdAt,
+        })
+      : Promise.resolve();
+
+  const settings = await loadSamplingSettings(db, userId, server.id);
+  const remaining =
+    settings.tokenBudget -
+    (db && userId ? await samplingTokensUsed(db, userId, server.id) : 0);
+  if (remaining <= 0) {
+    const error = `Sampling budget of ${settings.tokenBudget} tokens per day is used up`;
+    await record("denied", { error });
+    throw new McpError(ErrorCode.InvalidRequest, error);
+  }
+
+  let decision: ToolExecutionDecision = "auto";
+  if (!settings.trusted) {
+    const approved = await context.requestApproval({
+      id: crypto.randomUUID(),
+      serverId: server.id,
+      serverName: server.name,
+      systemPrompt: params.systemPrompt,
+      preview: previewOf(params.messages),
+      maxTokens: Math.min(params.maxTokens, remaining),
+    });
+    if (!approved) {
+      const error = "User rejected sampling request";
+      await record("denied", { error });
+      throw new McpError(USER_REJECTED, error);
+    }
+    decision = "approved";
+  }
+
+  try {
+    const result = await generateText({
+      model: context.model,
+      system: params.systemPrompt,
+      messages: toModelMessages(params.messages),
+      maxTokens: Math.min(params.maxTokens, remaining),
+      temperature: params.temperature,
+      stopSequences: params.stopSequences,
+    });
+    await record(decision, {
+      text: result.text,
+      tokens: result.usage.totalTokens,
+    });
+
+    return {
+      role: "assistant",
+      content: { type: "text", text: result.text },
+      model: context.modelName,
+      stopReason: stopReasonOf(result.finishReason),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await record(decision, { error: message });
+    throw new McpError(ErrorCode.InternalError, `Sampling failed: ${message}`);
+  }
+}
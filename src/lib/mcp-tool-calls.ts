@@ -0,0 +1,169 @@
+/**
+ * MCP tool calls
+ * Servers report the progress of long-running tool calls with
+ * notifications/progress. The agent streams it to the chat as data parts so
+ * the tool card can show a progress bar. Aborting a call (the user pressing
+ * stop, or the tool's timeout) sends notifications/cancelled to the server.
+ * The timeout stops counting while the server waits for the user to approve
+ * a sampling request it made during the call.
+ */
+import {
+  ErrorCode,
+  McpError,
+  type Progress,
+} from "@modelcontextprotocol/sdk/types.js";
+
+// Used for tools without a configured timeout, the same as the SDK's default
+export const DEFAULT_TOOL_TIMEOUT_MS = 60_000;
+
+// Longest delay timers take, calls pass it to the SDK and time out with their deadline
+export const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+export interface MCPToolCallOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  onProgress?: (progress: Progress) => void;
+}
+
+export type MCPToolProgressPart = {
+  type: "mcp_tool_progress";
+  toolCallId: string;
+  progress: number;
+  total: number | null;
+  message: string | null;
+};
+
+/**
+ * Data part for the chat stream with the progress of a tool call
+ */
+export function toolProgressPart(
+  toolCallId: string,
+  progress: Progress
+): MCPToolProgressPart {
+  return {
+    type: "mcp_tool_progress",
+    toolCallId,
+    progress: progress.progress,
+    total: progress.total ?? null,
+    message: progress.message ?? null,
+  };
+}
+
+/**
+ * Tool result for a call that failed before the server answered, shaped like
+ * the errors servers report themselves so the model and the audit log see both
+ */
+export function toolErrorResult(message: string) {
+  return {
+    content: [{ type: "text" as const, text: message }],
+    isError: true,
+  };
+}
+
+function isToolProgressPart(value: unknown): value is MCPToolProgressPart {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { type?: unknown }).type === "mcp_tool_progress"
+  );
+}
+
+/**
+ * Latest progress of each tool call among the data parts of a chat
+ */
+export function latestToolProgress(
+  data: unknown[] | undefined
+): Record<string, MCPToolProgressPart> {
+  const progress: Record<string, MCPToolProgressPart> = {};
+  for (const part of data ?? []) {
+    if (isToolProgressPart(part)) {
+      progress[part.toolCallId] = part;
+    }
+  }
+  return progress;
+}
+
+/**
+ * Timeout of a tool call that can be paused, e.g. while the user decides on
+ * a sampling request of the server. Pauses nest, the time only runs again
+ * once every pause ended.
+ */
+export class ToolCallDeadline {
+  private timer?: ReturnType<typeof setTimeout>;
+  private remainingMs: number;
+  private startedAt = 0;
+  private pauses = 0;
+  private controller = new AbortController();
+
+  constructor(private timeoutMs: number) {
+    this.remainingMs = timeoutMs;
+    this.run();
+  }
+
+  // Aborts with an McpError RequestTimeout like the SDK's own timeout
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  pause(): void {
+    if (this.pauses++ > 0 || this.signal.aborted) return;
+    clearTimeout(this.timer);
+    this.remainingMs -= Date.now() - this.startedAt;
+  }
+
+  resume(): void {
+    if (this.pauses === 0 || --this.pauses > 0 || this.signal.aborted) return;
+    this.run();
+  }
+
+  clear(): void {
+    clearTimeout(this.timer);
+  }
+
+  private run(): void {
+    this.startedAt = Date.now();
+    this.timer = setTimeout(
+      () =>
+        this.controller.abort(
+          new McpError(ErrorCode.RequestTimeout, "Request timed out", {
+            timeout: this.timeoutMs,
+          })
+        ),
+      Math.max(this.remainingMs, 0)
+    );
+  }
+}
+
+/**
+ * Timeout of a tool, from the timeouts configured on its server
+ */
+export function toolTimeoutMs(
+  toolTimeouts: Record<string, number> | null | undefined,
+  toolName: string
+): number {
+  const timeout = toolTimeouts?.[toolName];
+  return typeof timeout === "number" && timeout > 0
+    ? timeout
+    : DEFAULT_TOOL_TIMEOUT_MS;
+}
+
+/**
+ * Parse the stored tool timeouts of a server, ignoring malformed values
+ */
+export function parseToolTimeouts(
+  value: string | null | undefined
+): Record<string, number> | undefined {
+  if (!value) return undefined;
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (typeof parsed !== "object" || parsed === null) return undefined;
+    return Object.fromEntries(
+      Object.entries(parsed).filter(
+        (entry): entry is [string, number] =>
+          typeof entry[1] === "number" && entry[1] > 0
+      )
+    );
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Transport selection for MCP clients
+ * Streamable HTTP servers fall back to the legacy HTTP+SSE protocol when they
+ * reject the Streamable HTTP handshake, as described in the MCP spec's
+ * backwards compatibility section.
+ */
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import {
+  StreamableHTTPClientTransport,
+  StreamableHTTPError,
+} from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { WebSocketClientTransport } from "@modelcontextprotocol/sdk/client/websocket.js";
+import type { FetchLike } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { MCPServerConfig } from "../types/mcp";
+
+export type MCPTransportType = MCPServerConfig["transport"];
+
+export interface MCPTransportOptions {
+  url: string;
+  transport: MCPTransportType;
+  /** Sent with every HTTP request, ignored for WebSocket */
+  headers?: Record<string, string>;
+  /** Custom fetch, mainly for tests */
+  fetch?: FetchLike;
+}
+
+export interface MCPClientConnection {
+  client: Client;
+  /** The transport that connected, "sse" after a fallback */
+  transport: MCPTransportType;
+}
+
+/**
+ * Whether a failed Streamable HTTP connect means the server only speaks the
+ * legacy SSE protocol. The spec has clients fall back on any 4xx response to
+ * the initialize POST, 401 and 403 are excluded because SSE would be rejected
+ * the same way and the auth error is more useful.
+ */
+export function shouldFallbackToSSE(error: unknown): boolean {
+  let status: number | undefined;
+  if (error instanceof StreamableHTTPError) {
+    status = error.code;
+  } else if (error instanceof Error) {
+    // The SDK reports rejected POSTs as plain errors with the status in the message
+    const match = error.message.match(/\(HTTP (\d{3})\)/);
+    status = match ? Number(match[1]) : undefined;
+  }
+  return (
+    status !== undefined &&
+    status >= 400 &&
+    status < 500 &&
+    status !== 401 &&
+    status !== 403
+  );
+}
+
+/**
+ * Connect a client over the configured transport. `createClient` is called
+ * again for the SSE fallback since a client can't be reused after a failed
+ * initialize.
+ */
+export async function connectMCPClient(
+  createClient: () => Client,
+  options: MCPTransportOptions
+): Promise<MCPClientConnection> {
+  if (options.transport === "websocket") {
+    const client = createClient();
+    // WebSocket auth is handled via query params or subprotocols
+    await client.connect(new WebSocketClientTransport(new URL(options.url)));
+    return { client, transport: "websocket" };
+  }
+
+  if (options.transport === "streamable-http") {
+    const client = createClient();
+    try {
+      await client.connect(
+        new StreamableHTTPClientTransport(new URL(options.url), {
+          requestInit: { headers: options.headers },
+          fetch: options.fetch,
+        })
+      );
+      return { client, transport: "streamable-http" };
+    } catch (error) {
+      if (!shouldFallbackToSSE(error)) {
+        throw error;
+      }
+      console.log(
+        `[MCP] ${options.url} does not support Streamable HTTP, falling back to SSE`
+      );
+      await client.close().catch(() => {});
+    }
+  }
+
+  const client = createClient();
+  // Headers are sent on the event stream and on every POST
+  await client.connect(
+    new SSEClientTransport(new URL(options.url), {
+      requestInit: { headers: options.headers },
+      fetch: options.fetch,
+    })
+  );
+  return { client, transport: "sse" };
+}
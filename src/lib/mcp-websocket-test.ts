@@ -0,0 +1,304 @@
+/**
+ * Connection test for WebSocket MCP servers
+ * Performs the WebSocket handshake, `initialize` and `tools/list` by hand so
+ * every step has its own timeout and failures can be reported by category.
+ */
+import {
+  InitializeResultSchema,
+  LATEST_PROTOCOL_VERSION,
+  ListToolsResultSchema,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from "@modelcontextprotocol/sdk/types.js";
+
+export type MCPTestErrorCategory =
+  | "dns"
+  | "tls"
+  | "connection"
+  | "timeout"
+  | "auth"
+  | "protocol";
+
+export interface MCPServerTestResult {
+  success: boolean;
+  message: string;
+  tools?: string[];
+  errorCategory?: MCPTestErrorCategory;
+}
+
+export interface WebSocketTestOptions {
+  /** Sent with the upgrade request, e.g. from buildAuthHeaders */
+  headers?: Record<string, string>;
+  /** Timeout for the handshake and for each request */
+  stepTimeoutMs?: number;
+  /** Custom fetch, mainly for tests */
+  fetch?: typeof fetch;
+}
+
+export class MCPServerTestError extends Error {
+  constructor(
+    public category: MCPTestErrorCategory,
+    message: string
+  ) {
+    super(message);
+    this.name = "MCPServerTestError";
+  }
+}
+
+const DEFAULT_STEP_TIMEOUT_MS = 3000;
+
+const CATEGORY_LABELS: Record<MCPTestErrorCategory, string> = {
+  dns: "DNS lookup failed",
+  tls: "TLS error",
+  connection: "Connection failed",
+  timeout: "Timed out",
+  auth: "Authentication failed",
+  protocol: "Protocol error",
+};
+
+/**
+ * Map a network error to a category. The runtime only gives us the message,
+ * so this matches the wording used by workerd, Node and browsers.
+ */
+export function categorizeConnectionError(
+  error: unknown
+): MCPTestErrorCategory {
+  if (error instanceof MCPServerTestError) {
+    return error.category;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (/ENOTFOUND|EAI_AGAIN|getaddrinfo|DNS|could not resolve/i.test(message)) {
+    return "dns";
+  }
+  if (/certificate|CERT_|SSL|TLS/i.test(message)) {
+    return "tls";
+  }
+  if (/timed? ?out/i.test(message)) {
+    return "timeout";
+  }
+  return "connection";
+}
+
+function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  step: string
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () =>
+        reject(
+          new MCPServerTestError(
+            "timeout",
+            `${step} timed out after ${timeoutMs}ms`
+          )
+        ),
+      timeoutMs
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function openWebSocket(
+  serverUrl: URL,
+  options: WebSocketTestOptions
+): Promise<WebSocket> {
+  // Workers open outgoing WebSockets with a fetch upgrade, which also lets us
+  // see the HTTP status when the server refuses the upgrade
+  const httpUrl = new URL(serverUrl);
+  httpUrl.protocol = serverUrl.protocol === "wss:" ? "https:" : "http:";
+
+  let response: Response;
+  try {
+    response = await (options.fetch ?? fetch)(httpUrl, {
+      headers: {
+        ...options.headers,
+        Upgrade: "websocket",
+        "Sec-WebSocket-Protocol": "mcp",
+      },
+    });
+  } catch (error) {
+    throw new MCPServerTestError(
+      categorizeConnectionError(error),
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    throw new MCPServerTestError(
+      "auth",
+      `Server refused the connection with ${response.status} ${response.statusText}`.trim()
+    );
+  }
+  if (!response.webSocket) {
+    throw new MCPServerTestError(
+      "protocol",
+      `Server did not accept the WebSocket upgrade (HTTP ${response.status})`
+    );
+  }
+
+  response.webSocket.accept();
+  return response.webSocket;
+}
+
+/**
+ * Minimal JSON-RPC client over an accepted socket
+ */
+function createRpc(socket: WebSocket, timeoutMs: number) {
+  let nextId = 1;
+  const pending = new Map<
+    number,
+    { resolve: (value: unknown) => void; reject: (error: Error) => void }
+  >();
+  const failAll = (error: MCPServerTestError) => {
+    for (const { reject } of pending.values()) {
+      reject(error);
+    }
+    pending.clear();
+  };
+
+  socket.addEventListener("message", (event) => {
+    let message: {
+      id?: number;
+      result?: unknown;
+      error?: { code: number; message: string };
+    };
+    try {
+      message = JSON.parse(String(event.data));
+    } catch {
+      failAll(new MCPServerTestError("protocol", "Server sent invalid JSON"));
+      return;
+    }
+    // Server notifications and requests are not needed for the test
+    const request = message.id !== undefined && pending.get(message.id);
+    if (!request) {
+      return;
+    }
+    pending.delete(message.id as number);
+    if (message.error) {
+      const category = /unauthori[sz]ed|forbidden|token/i.test(
+        message.error.message
+      )
+        ? "auth"
+        : "protocol";
+      request.reject(
+        new MCPServerTestError(
+          category,
+          `${message.error.message} (JSON-RPC ${message.error.code})`
+        )
+      );
+    } else {
+      request.resolve(message.result);
+    }
+  });
+  socket.addEventListener("close", (event) => {
+    failAll(
+      new MCPServerTestError(
+        event.code === 1008 ? "auth" : "connection",
+        `Server closed the connection (${event.code}${event.reason ? `: ${event.reason}` : ""})`
+      )
+    );
+  });
+
+  return {
+    request(method: string, params?: Record<string, unknown>) {
+      const id = nextId++;
+      const response = new Promise<unknown>((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+      });
+      socket.send(JSON.stringify({ jsonrpc: "2.0", id, method, params }));
+      return withTimeout(response, timeoutMs, method);
+    },
+    notify(method: string) {
+      socket.send(JSON.stringify({ jsonrpc: "2.0", method }));
+    },
+  };
+}
+
+/**
+ * Run the handshake, `initialize` and `tools/list` against a WebSocket MCP
+ * server. Never throws, failures are returned with their category.
+ */
+export async function testWebSocketServer(
+  serverUrl: string,
+  options: WebSocketTestOptions = {}
+): Promise<MCPServerTestResult> {
+  const timeoutMs = options.stepTimeoutMs ?? DEFAULT_STEP_TIMEOUT_MS;
+  let socket: WebSocket | undefined;
+
+  try {
+    let url: URL;
+    try {
+      url = new URL(serverUrl);
+    } catch {
+      throw new MCPServerTestError(
+        "protocol",
+        `Invalid server URL: ${serverUrl}`
+      );
+    }
+    if (url.protocol !== "ws:" && url.protocol !== "wss:") {
+      throw new MCPServerTestError(
+        "protocol",
+        `WebSocket servers need a ws:// or wss:// URL, got ${url.protocol}//`
+      );
+    }
+
+    socket = await withTimeout(
+      openWebSocket(url, options),
+      timeoutMs,
+      "WebSocket handshake"
+    );
+    const rpc = createRpc(socket, timeoutMs);
+
+    const initialize = InitializeResultSchema.safeParse(
+      await rpc.request("initialize", {
+        protocolVersion: LATEST_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: "mcp-test-agent", version: "1.0.0" },
+      })
+    );
+    if (!initialize.success) {
+      throw new MCPServerTestError(
+        "protocol",
+        "Server sent an invalid initialize result"
+      );
+    }
+    if (
+      !SUPPORTED_PROTOCOL_VERSIONS.includes(initialize.data.protocolVersion)
+    ) {
+      throw new MCPServerTestError(
+        "protocol",
+        `Unsupported protocol version ${initialize.data.protocolVersion}`
+      );
+    }
+    rpc.notify("notifications/initialized");
+
+    const toolsResult = ListToolsResultSchema.safeParse(
+      await rpc.request("tools/list")
+    );
+    if (!toolsResult.success) {
+      throw new MCPServerTestError(
+        "protocol",
+        "Server sent an invalid tools/list result"
+      );
+    }
+
+    const tools = toolsResult.data.tools.map((tool) => tool.name);
+    return {
+      success: true,
+      message: `✅ WebSocket MCP server ${initialize.data.serverInfo.name} connected. Found ${tools.length} tools: ${tools.join(", ")}`,
+      tools,
+    };
+  } catch (error) {
+    const category = categorizeConnectionError(error);
+    const detail = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      message: `${CATEGORY_LABELS[category]}: ${detail}`,
+      tools: [],
+      errorCategory: category,
+    };
+  } finally {
+    socket?.close(1000, "Test complete");
+  }
+}
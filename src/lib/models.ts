@@ -0,0 +1,284 @@
+/**
+ * Model provider registry
+ * Resolves "provider:model" specs stored on agents and threads into AI SDK
+ * language models, and works out which model settings apply to a thread.
+ */
+
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createOpenAI } from "@ai-sdk/openai";
+import { type LanguageModel, simulateReadableStream } from "ai";
+import { createWorkersAI } from "workers-ai-provider";
+
+export type ModelProviderId =
+  | "openai"
+  | "workers-ai"
+  | "anthropic"
+  | "openai-compatible"
+  | "fake";
+
+export interface ModelProvider {
+  id: ModelProviderId;
+  name: string;
+  /** Suggested models for pickers, any model id the provider accepts works */
+  models: string[];
+  /** Whether the provider can be used with the current environment */
+  isConfigured: (env: Env) => boolean;
+  createModel: (modelId: string, env: Env) => LanguageModel;
+}
+
+export interface ModelSettings {
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export const DEFAULT_MODEL = "openai:gpt-4o-2024-11-20";
+
+/**
+ * Deterministic model for local development and tests.
+ * Replies by echoing the last user message, never calls the network.
+ */
+export function createFakeModel(modelId = "echo"): LanguageModel {
+  const reply = (
+    prompt: Parameters<LanguageModel["doGenerate"]>[0]["prompt"]
+  ) => {
+    const lastUser = [...prompt].reverse().find((m) => m.role === "user");
+    const text =
+      lastUser && Array.isArray(lastUser.content)
+        ? lastUser.content
+            .map((part) => (part.type === "text" ? part.text : ""))
+            .join("")
+        : "";
+    return `You said: ${text}`;
+  };
+
+  return {
+    specificationVersion: "v1",
+    provider: "fake",
+    modelId,
+    defaultObjectGenerationMode: undefined,
+    async doGenerate(options) {
+      const text = reply(options.prompt);
+      return {
+        text,
+        finishReason: "stop",
+        usage: { promptTokens: 0, completionTokens: text.length },
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+    async doStream(options) {
+      const text = reply(options.prompt);
+      return {
+        stream: simulateReadableStream({
+          chunks: [
+            ...text
+              .split(/(?<= )/)
+              .map((textDelta) => ({ type: "text-delta" as const, textDelta })),
+            {
+              type: "finish" as const,
+              finishReason: "stop" as const,
+              usage: { promptTokens: 0, completionTokens: text.length },
+            },
+          ],
+          chunkDelayInMs: null,
+          initialDelayInMs: null,
+        }),
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+  };
+}
+
+export const MODEL_PROVIDERS: Record<ModelProviderId, ModelProvider> = {
+  openai: {
+    id: "openai",
+    name: "OpenAI",
+    models: ["gpt-4o-2024-11-20", "gpt-4o-mini", "gpt-4.1", "gpt-4.1-mini"],
+    isConfigured: (env) => Boolean(env.OPENAI_API_KEY),
+    createModel: (modelId, env) =>
+      createOpenAI({ apiKey: env.OPENAI_API_KEY })(modelId),
+  },
+  "workers-ai": {
+    id: "workers-ai",
+    name: "Workers AI",
+    models: [
+      "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
+      "@cf/meta/llama-3.1-8b-instruct",
+      "@hf/nousresearch/hermes-2-pro-mistral-7b",
+    ],
+    isConfigured: (env) => Boolean(env.AI),
+    createModel: (modelId, env) =>
+      createWorkersAI({ binding: env.AI })(
+        modelId as Parameters<ReturnType<typeof createWorkersAI>>[0]
+      ),
+  },
+  anthropic: {
+    id: "anthropic",
+    name: "Anthropic",
+    models: ["claude-3-7-sonnet-latest", "claude-3-5-haiku-latest"],
+    isConfigured: (env) => Boolean(env.ANTHROPIC_API_KEY),
+    createModel: (modelId, env) =>
+      createAnthropic({ apiKey: env.ANTHROPIC_API_KEY })(modelId),
+  },
+  "openai-compatible": {
+    id: "openai-compatible",
+    name: "OpenAI-compatible",
+    models: [],
+    isConfigured: (env) => Boolean(env.OPENAI_COMPATIBLE_BASE_URL),
+    createModel: (modelId, env) =>
+      createOpenAI({
+        name: "openai-compatible",
+        baseURL: env.OPENAI_COMPATIBLE_BASE_URL,
+        apiKey: env.OPENAI_COMPATIBLE_API_KEY || "not-needed",
+        compatibility: "compatible",
+      })(modelId),
+  },
+  fake: {
+    id: "fake",
+    name: "Local fake",
+    models: ["echo"],
+    isConfigured: () => true,
+    createModel: (modelId) => createFakeModel(modelId),
+  },
+};
+
+/**
+ * Split a "provider:model" spec. Model ids may contain colons themselves,
+ * only the first one separates the provider.
+ */
+export function parseModelSpec(spec: string): {
+  provider: ModelProviderId;
+  modelId: string;
+} {
+  const separator = spec.indexOf(":");
+  if (separator <= 0 || separator === spec.length - 1) {
+    throw new Error(`Invalid model "${spec}", expected "provider:model"`);
+  }
+
+  const provider = spec.slice(0, separator);
+  if (!(provider in MODEL_PROVIDERS)) {
+    throw new Error(`Unknown model provider "${provider}"`);
+  }
+
+  return {
+    provider: provider as ModelProviderId,
+    modelId: spec.slice(separator + 1),
+  };
+}
+
+export function isValidModelSpec(spec: string): boolean {
+  try {
+    parseModelSpec(spec);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create the language model for a spec.
+ * Invalid specs fall back to the default model so a stale agent setting
+ * cannot break the chat.
+ */
+export function resolveModel(
+  spec: string | undefined,
+  env: Env
+): LanguageModel {
+  let parsed: ReturnType<typeof parseModelSpec>;
+  try {
+    parsed = parseModelSpec(spec || DEFAULT_MODEL);
+  } catch (error) {
+    console.error(`[MODELS] ${error}, using ${DEFAULT_MODEL}`);
+    parsed = parseModelSpec(DEFAULT_MODEL);
+  }
+
+  return MODEL_PROVIDERS[parsed.provider].createModel(parsed.modelId, env);
+}
+
+/**
+ * Providers and their suggested models, for the model pickers
+ */
+export function listModelProviders(env: Env) {
+  return Object.values(MODEL_PROVIDERS).map((provider) => ({
+    id: provider.id,
+    name: provider.name,
+    configured: provider.isConfigured(env),
+    models: provider.models.map((model) => `${provider.id}:${model}`),
+  }));
+}
+
+interface ThreadModelRow {
+  source: "thread" | "agent";
+  model: string | null;
+  temperature: number | null;
+  max_tokens: number | null;
+}
+
+/**
+ * Work out the model settings for a thread.
+ * A per-thread override wins over the thread's primary agent, which wins over
+ * the default model. Each setting falls back on its own, so a thread can
+ * override just the model and keep the agent's temperature.
+ */
+export async function getThreadModelSettings(
+  threadId: string,
+  db: D1Database | undefined,
+  userId: string
+): Promise<ModelSettings> {
+  const settings: ModelSettings = { model: DEFAULT_MODEL };
+  if (!db || !userId) {
+    return settings;
+  }
+
+  try {
+    const rows = await db
+      .prepare(
+        `
+      SELECT * FROM (
+        SELECT 'thread' AS source, model, temperature, max_tokens
+        FROM thread_settings
+        WHERE thread_id = ? AND user_id = ?
+        LIMIT 1
+      )
+      UNION ALL
+      SELECT * FROM (
+        SELECT 'agent' AS source, a.model, a.temperature, a.max_tokens
+        FROM thread_agents ta
+        JOIN agents a ON ta.agent_id = a.id AND a.user_id = ?
+        WHERE ta.thread_id = ? AND ta.is_active = TRUE AND ta.role = 'primary' AND ta.user_id = ?
+        ORDER BY ta.added_at ASC
+        LIMIT 1
+      )
+    `
+      )
+      .bind(threadId, userId, userId, threadId, userId)
+      .all<ThreadModelRow>();
+
+    // Thread override first, then the primary agent
+    const ordered = [...rows.results].sort((a, b) =>
+      a.source === b.source ? 0 : a.source === "thread" ? -1 : 1
+    );
+
+    const model = ordered.find(
+      (row) => row.model && isValidModelSpec(row.model)
+    );
+    if (model?.model) {
+      settings.model = model.model;
+    }
+    const temperature = ordered.find((row) => row.temperature != null);
+    if (temperature?.temperature != null) {
+      settings.temperature = temperature.temperature;
+    }
+    const maxTokens = ordered.find((row) => row.max_tokens != null);
+    if (maxTokens?.max_tokens != null) {
+      settings.maxTokens = maxTokens.max_tokens;
+    }
+  } catch (error) {
+    console.error(
+      `[MODELS] Failed to load model settings for thread ${threadId}:`,
+      error
+    );
+  }
+
+  return settings;
+}
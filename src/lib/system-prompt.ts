@@ -0,0 +1,149 @@
+/**
+ * System prompt composition for the chat agent
+ * Builds the model's instructions from the personas of the agents that are
+ * active on a thread, so the persona configured in the agent editor actually
+ * reaches the model.
+ */
+
+export interface ThreadAgentPersona {
+  id: string;
+  name: string;
+  description?: string;
+  persona?: string;
+  role: "primary" | "specialist";
+}
+
+// An MCP server whose circuit is open, with the reason
+export interface UnavailableServer {
+  name: string;
+  reason: string;
+}
+
+export const DEFAULT_ASSISTANT_PROMPT =
+  "You are a helpful assistant that can do various tasks...";
+
+interface ThreadAgentRow {
+  agent_id: string;
+  role: string;
+  name: string;
+  description: string | null;
+  persona: string | null;
+}
+
+const SCHEDULING_INSTRUCTIONS =
+  "If the user asks to schedule a task, use the schedule tool to schedule the task.";
+
+/**
+ * Load the user's active agents for a thread together with their personas.
+ * Primary agents come first, then specialists, each in the order they were added.
+ */
+export async function getThreadAgentPersonas(
+  threadId: string,
+  db: D1Database | undefined,
+  userId: string
+): Promise<ThreadAgentPersona[]> {
+  if (!db || !userId) {
+    return [];
+  }
+
+  try {
+    const rows = await db
+      .prepare(
+        `
+      SELECT ta.agent_id, ta.role, ta.added_at,
+             a.name, a.description, a.persona
+      FROM thread_agents ta
+      JOIN agents a ON ta.agent_id = a.id AND a.user_id = ?
+      WHERE ta.thread_id = ? AND ta.is_active = TRUE AND ta.user_id = ?
+      ORDER BY CASE ta.role WHEN 'primary' THEN 0 ELSE 1 END, ta.added_at ASC
+    `
+      )
+      .bind(userId, threadId, userId)
+      .all<ThreadAgentRow>();
+
+    // An agent can be re-added to a thread, keep only its first active assignment
+    const seen = new Set<string>();
+    const agents: ThreadAgentPersona[] = [];
+    for (const row of rows.results) {
+      if (seen.has(row.agent_id)) continue;
+      seen.add(row.agent_id);
+      agents.push({
+        id: row.agent_id,
+        name: row.name,
+        description: row.description || undefined,
+        persona: row.persona || undefined,
+        role: row.role === "specialist" ? "specialist" : "primary",
+      });
+    }
+    return agents;
+  } catch (error) {
+    console.error(
+      `[SYSTEM_PROMPT] Failed to load agent personas for thread ${threadId}:`,
+      error
+    );
+    return [];
+  }
+}
+
+function describeAgent(agent: ThreadAgentPersona): string {
+  const lines = [`You are ${agent.name}.`];
+  if (agent.description) {
+    lines.push(agent.description.trim());
+  }
+  if (agent.persona) {
+    lines.push(agent.persona.trim());
+  }
+  return lines.join("\n\n");
+}
+
+/**
+ * Compose the system prompt for a chat turn.
+ *
+ * The first primary agent sets the assistant's identity. Every other active
+ * agent is appended as a delimited section so the model can tell the personas
+ * apart. Without any agents the default assistant prompt is used. MCP
+ * servers left out because they keep failing are named, so the model can
+ * explain why their tools are missing.
+ */
+export function buildSystemPrompt({
+  agents,
+  schedulePrompt,
+  unavailableServers = [],
+}: {
+  agents: ThreadAgentPersona[];
+  schedulePrompt: string;
+  unavailableServers?: UnavailableServer[];
+}): string {
+  const primary = agents.find((agent) => agent.role === "primary");
+  const others = agents.filter((agent) => agent !== primary);
+
+  const sections: string[] = [
+    primary ? describeAgent(primary) : DEFAULT_ASSISTANT_PROMPT,
+  ];
+
+  if (others.length > 0) {
+    sections.push(
+      "The following agents are also active in this conversation. Apply their instructions when the request falls within their expertise."
+    );
+    for (const agent of others) {
+      sections.push(
+        `<agent name="${agent.name.replace(/"/g, "'")}" role="${agent.role}">\n${describeAgent(agent)}\n</agent>`
+      );
+    }
+  }
+
+  if (unavailableServers.length > 0) {
+    sections.push(
+      [
+        "The tools of these MCP servers are unavailable right now. If the user asks for them, explain that the server is down and may work again later:",
+        ...unavailableServers.map(
+          (server) => `- ${server.name}: ${server.reason}`
+        ),
+      ].join("\n")
+    );
+  }
+
+  sections.push(schedulePrompt.trim(), SCHEDULING_INSTRUCTIONS);
+
+  return `${sections.join("\n\n")}\n`;
+}
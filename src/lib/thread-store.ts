@@ -0,0 +1,437 @@
+/**
+ * Thread storage
+ * A user's threads and their messages live in the SQLite storage of one
+ * Chat Durable Object per user, see threadStoreName. Messages are rows, so a
+ * turn only writes the messages it added or changed, and the Durable Object
+ * runs one write at a time so tabs of the same thread can't overwrite each
+ * other.
+ *
+ * Threads used to be KV values, `${userId}:threads` for the list and
+ * `${userId}:thread:${threadId}` for each thread's messages. They're copied
+ * over the first time the list or the thread is read or written.
+ */
+import type { Message } from "ai";
+
+export interface ThreadSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ThreadMessagesUpdate {
+  // Messages that are new or changed since the last save
+  messages: Message[];
+  // Every message of the thread in order, messages missing here are removed
+  messageIds: string[];
+  // Title for a thread that doesn't have one from its first message yet
+  title: string;
+}
+
+// Messages newest last, nextCursor asks for the messages before them
+export interface ThreadMessagesPage {
+  messages: Message[];
+  nextCursor: string | null;
+}
+
+export const DEFAULT_THREAD_MESSAGES_LIMIT = 50;
+export const MAX_THREAD_MESSAGES_LIMIT = 200;
+
+const DEFAULT_TITLE_PREFIX = "New Chat";
+
+/**
+ * Name of the Chat Durable Object holding a user's threads, chats are named
+ * "userId-threadId" so the two never collide
+ */
+export function threadStoreName(userId: string): string {
+  return `${userId}:threads`;
+}
+
+/**
+ * Owner and thread of a chat named "userId-threadId", the thread id can
+ * contain dashes itself. Null for names that aren't chats of a user.
+ */
+export function parseChatName(
+  name: string
+): { userId: string; threadId: string } | null {
+  const separator = name.indexOf("-");
+  if (separator <= 0) return null;
+  return {
+    userId: name.slice(0, separator),
+    threadId: name.slice(separator + 1).trim() || "default",
+  };
+}
+
+export function defaultThreadTitle(now: Date = new Date()): string {
+  return `${DEFAULT_TITLE_PREFIX} ${now.toLocaleDateString()}`;
+}
+
+interface ThreadRow extends Record<string, SqlStorageValue> {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface MessageRow extends Record<string, SqlStorageValue> {
+  id: string;
+  seq: number;
+  message: string;
+}
+
+const toSummary = (row: ThreadRow): ThreadSummary => ({
+  id: row.id,
+  title: row.title,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export class ThreadStore {
+  private sql: SqlStorage;
+
+  constructor(
+    private storage: DurableObjectStorage,
+    private userId: string,
+    // Legacy thread storage, read once per thread
+    private legacyKv?: KVNamespace
+  ) {
+    this.sql = storage.sql;
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS threads (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS thread_messages (
+        thread_id TEXT NOT NULL,
+        id TEXT NOT NULL,
+        seq INTEGER NOT NULL,
+        message TEXT NOT NULL,
+        PRIMARY KEY (thread_id, id)
+      );
+      CREATE INDEX IF NOT EXISTS thread_messages_seq ON thread_messages (thread_id, seq);
+      CREATE TABLE IF NOT EXISTS thread_legacy_imports (key TEXT PRIMARY KEY);
+      CREATE TABLE IF NOT EXISTS thread_settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `);
+  }
+
+  /**
+   * Threads, most recently updated first
+   */
+  async listThreads(): Promise<ThreadSummary[]> {
+    await this.importLegacyThreadList();
+    return this.sql
+      .exec<ThreadRow>(
+        "SELECT id, title, created_at, updated_at FROM threads ORDER BY updated_at DESC, created_at DESC"
+      )
+      .toArray()
+      .map(toSummary);
+  }
+
+  /**
+   * Whether the thread exists, legacy KV threads included
+   */
+  async hasThread(threadId: string): Promise<boolean> {
+    await this.importLegacyThreadList();
+    return this.findThread(threadId) !== null;
+  }
+
+  /**
+   * Create an empty thread, or return the thread when it exists so a
+   * client creating the same thread twice doesn't get a duplicate
+   */
+  async createThread(
+    threadId: string,
+    now: Date = new Date()
+  ): Promise<{ thread: ThreadSummary; created: boolean }> {
+    await this.importLegacyThreadList();
+    await this.importLegacyMessages(threadId);
+    const existing = this.findThread(threadId);
+    if (existing) return { thread: existing, created: false };
+
+    const timestamp = now.toISOString();
+    this.sql.exec(
+      "INSERT INTO threads (id, title, created_at, updated_at) VALUES (?, ?, ?, ?)",
+      threadId,
+      defaultThreadTitle(now),
+      timestamp,
+      timestamp
+    );
+    return { thread: this.findThread(threadId)!, created: true };
+  }
+
+  /**
+   * Messages of a thread in order, empty for unknown threads
+   */
+  async getMessages(threadId: string): Promise<Message[]> {
+    await this.importLegacyMessages(threadId);
+    return this.sql
+      .exec<Pick<MessageRow, "message">>(
+        "SELECT message FROM thread_messages WHERE thread_id = ? ORDER BY seq",
+        threadId
+      )
+      .toArray()
+      .map((row) => JSON.parse(row.message) as Message);
+  }
+
+  /**
+   * The latest messages of a thread, or the ones before the message `before`
+   * when paging back. The cursor is the id of the oldest message returned.
+   */
+  async getMessagesPage(
+    threadId: string,
+    options: { before?: string; limit?: number } = {}
+  ): Promise<ThreadMessagesPage> {
+    await this.importLegacyMessages(threadId);
+    let beforeSeq = Number.MAX_SAFE_INTEGER;
+    if (options.before) {
+      const [cursor] = this.sql
+        .exec<Pick<MessageRow, "seq">>(
+          `SELECT seq FROM thread_messages
+           WHERE thread_id = ? AND id = ?`,
+          threadId,
+          options.before
+        )
+        .toArray();
+      if (!cursor) throw new Error("Invalid cursor");
+      beforeSeq = cursor.seq;
+    }
+
+    const limit = Math.min(
+      Math.max(options.limit ?? DEFAULT_THREAD_MESSAGES_LIMIT, 1),
+      MAX_THREAD_MESSAGES_LIMIT
+    );
+    // One extra row tells whether there is another page
+    const rows = this.sql
+      .exec<Pick<MessageRow, "message">>(
+        `SELECT message FROM thread_messages
+         WHERE thread_id = ? AND seq < ?
+         ORDER BY seq DESC
+         LIMIT ?`,
+        threadId,
+        beforeSeq,
+        limit + 1
+      )
+      .toArray();
+    const messages = rows
+      .slice(0, limit)
+      .reverse()
+      .map((row) => JSON.parse(row.message) as Message);
+    return {
+      messages,
+      nextCursor: rows.length > limit ? messages[0].id : null,
+    };
+  }
+
+  /**
+   * Write a turn's new and changed messages and move the thread to the top
+   */
+  async saveMessages(
+    threadId: string,
+    update: ThreadMessagesUpdate,
+    now: Date = new Date()
+  ): Promise<ThreadSummary> {
+    await this.importLegacyThreadList();
+    await this.importLegacyMessages(threadId);
+
+    this.storage.transactionSync(() => {
+      // Messages dropped by the client, e.g. a regenerated answer. A chat
+      // that only has the latest page of the thread can't drop the messages
+      // before it, so only the ones from its first message on are checked.
+      const keep = new Set(update.messageIds);
+      const [first] = this.sql
+        .exec<Pick<MessageRow, "seq">>(
+          `SELECT seq FROM thread_messages
+           WHERE thread_id = ? AND id = ?`,
+          threadId,
+          update.messageIds[0] ?? ""
+        )
+        .toArray();
+      const stored = this.sql
+        .exec<Pick<MessageRow, "id">>(
+          `SELECT id FROM thread_messages
+           WHERE thread_id = ? AND seq >= ?`,
+          threadId,
+          first?.seq ?? 0
+        )
+        .toArray();
+      for (const row of stored) {
+        if (!keep.has(row.id)) {
+          this.sql.exec(
+            "DELETE FROM thread_messages WHERE thread_id = ? AND id = ?",
+            threadId,
+            row.id
+          );
+        }
+      }
+      this.insertMessages(threadId, update.messages);
+
+      const timestamp = now.toISOString();
+      this.sql.exec(
+        `INSERT INTO threads (id, title, created_at, updated_at) VALUES (?1, ?2, ?3, ?3)
+         ON CONFLICT (id) DO UPDATE SET
+           updated_at = excluded.updated_at,
+           title = CASE WHEN threads.title LIKE '${DEFAULT_TITLE_PREFIX}%' THEN excluded.title ELSE threads.title END`,
+        threadId,
+        update.title,
+        timestamp
+      );
+      if (threadId !== "default") {
+        this.sql.exec(
+          "INSERT OR REPLACE INTO thread_settings (key, value) VALUES ('last_active_thread', ?)",
+          threadId
+        );
+      }
+    });
+    return this.findThread(threadId)!;
+  }
+
+  /**
+   * Delete a thread and its messages, false when it didn't exist
+   */
+  async deleteThread(threadId: string): Promise<boolean> {
+    await this.importLegacyThreadList();
+    await this.importLegacyMessages(threadId);
+    const existed = this.findThread(threadId) !== null;
+    this.storage.transactionSync(() => {
+      this.sql.exec("DELETE FROM threads WHERE id = ?", threadId);
+      this.sql.exec(
+        "DELETE FROM thread_messages WHERE thread_id = ?",
+        threadId
+      );
+    });
+    // The import marker stays, the legacy copy goes too so nothing brings it back
+    await this.legacyKv?.delete(`${this.userId}:thread:${threadId}`);
+    return existed;
+  }
+
+  /**
+   * Thread the user last wrote in, where scheduled tasks report
+   */
+  async getLastActiveThread(): Promise<string | null> {
+    const [row] = this.sql
+      .exec<{ value: string }>(
+        `SELECT value FROM thread_settings
+         WHERE key = 'last_active_thread'`
+      )
+      .toArray();
+    if (row) return row.value;
+    return (
+      (await this.legacyKv?.get(`${this.userId}:last_active_thread`)) ?? null
+    );
+  }
+
+  private findThread(threadId: string): ThreadSummary | null {
+    const row = this.sql
+      .exec<ThreadRow>(
+        "SELECT id, title, created_at, updated_at FROM threads WHERE id = ?",
+        threadId
+      )
+      .toArray()[0];
+    return row ? toSummary(row) : null;
+  }
+
+  /**
+   * Append new messages after the thread's last one and update changed ones
+   * in place, unchanged messages aren't written
+   */
+  private insertMessages(threadId: string, messages: Message[]) {
+    for (const message of messages) {
+      this.sql.exec(
+        `INSERT INTO thread_messages (thread_id, id, seq, message)
+         VALUES (?1, ?2, (SELECT COALESCE(MAX(seq), 0) + 1 FROM thread_messages WHERE thread_id = ?1), ?3)
+         ON CONFLICT (thread_id, id) DO UPDATE SET message = excluded.message
+         WHERE thread_messages.message != excluded.message`,
+        threadId,
+        message.id,
+        JSON.stringify(message)
+      );
+    }
+  }
+
+  private isImported(key: string): boolean {
+    return (
+      this.sql
+        .exec("SELECT key FROM thread_legacy_imports WHERE key = ?", key)
+        .toArray().length > 0
+    );
+  }
+
+  // Imports are idempotent, a request racing this one copies the same rows
+  private markImported(key: string) {
+    this.sql.exec(
+      "INSERT OR IGNORE INTO thread_legacy_imports (key) VALUES (?)",
+      key
+    );
+  }
+
+  private async importLegacyThreadList() {
+    if (!this.legacyKv || this.isImported("threads")) return;
+    const json = await this.legacyKv.get(`${this.userId}:threads`);
+    const threads = parseLegacy<ThreadSummary[]>(json) ?? [];
+    this.storage.transactionSync(() => {
+      for (const thread of threads) {
+        if (!thread?.id) continue;
+        const createdAt = thread.createdAt ?? new Date().toISOString();
+        this.sql.exec(
+          "INSERT OR IGNORE INTO threads (id, title, created_at, updated_at) VALUES (?, ?, ?, ?)",
+          thread.id,
+          thread.title || defaultThreadTitle(),
+          createdAt,
+          thread.updatedAt ?? createdAt
+        );
+      }
+      this.markImported("threads");
+    });
+  }
+
+  private async importLegacyMessages(threadId: string) {
+    const key = `thread:${threadId}`;
+    if (!this.legacyKv || this.isImported(key)) return;
+    const json = await this.legacyKv.get(`${this.userId}:${key}`);
+    const messages = parseLegacy<Message[]>(json);
+    this.storage.transactionSync(() => {
+      if (Array.isArray(messages)) {
+        this.insertMessages(
+          threadId,
+          messages.filter((message) => message?.id)
+        );
+      }
+      this.markImported(key);
+    });
+  }
+}
+
+/**
+ * Clients that only loaded the latest page of a long thread send just that
+ * page, the messages before it are taken from the history so the model
+ * still sees the whole thread
+ */
+export function withEarlierMessages(
+  history: Message[],
+  messages: Message[]
+): Message[] {
+  if (messages.length === 0) return messages;
+  const start = history.findIndex((message) => message.id === messages[0].id);
+  return start > 0 ? [...history.slice(0, start), ...messages] : messages;
+}
+
+/**
+ * Parse a legacy KV value, a corrupt value is treated as missing
+ */
+function parseLegacy<T>(json: string | null): T | null {
+  if (!json) return null;
+  try {
+    return JSON.parse(json) as T;
+  } catch (error) {
+    console.error(
+      "[THREAD_STORE] Ignoring unreadable legacy thread data",
+      error
+    );
+    return null;
+  }
+}
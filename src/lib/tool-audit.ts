@@ -0,0 +1,359 @@
+/**
+ * Tool execution audit log
+ * Every tool call the Chat agent runs, automatically or after the user
+ * approved it, is recorded with its thread, agent, arguments, result size,
+ * latency and error, so incident reviews can tell who ran what and when.
+ * Calls the user rejected or a tool policy denied are recorded as denied.
+ * Sampling requests of MCP servers are logged alongside them.
+ */
+import type { ToolExecution } from "./tool-policies";
+
+// Tool calls are denied by the user or a policy, sampling requests also by their budget
+export type ToolExecutionDecision = "auto" | "approved" | "denied";
+
+export type ToolExecutionKind = "tool" | "sampling";
+
+export interface ToolExecutionRecord {
+  id: string;
+  userId: string;
+  threadId: string;
+  agentId: string | null;
+  toolCallId: string | null;
+  // Name the model called the tool by
+  toolName: string;
+  serverId: string | null;
+  arguments: unknown;
+  // Bytes of the JSON result, null when the call failed
+  resultSize: number | null;
+  latencyMs: number;
+  decision: ToolExecutionDecision;
+  error: string | null;
+  kind: ToolExecutionKind;
+  // Model tokens used by a sampling request
+  tokens: number | null;
+  createdAt: string;
+}
+
+export interface ToolAuditContext {
+  db: D1Database | undefined;
+  userId: string | undefined;
+  threadId: string;
+  // Primary agent of the thread
+  agentId: string | null;
+  findServerId: (toolName: string) => string | undefined;
+}
+
+export interface ToolExecutionFilters {
+  threadId?: string;
+  agentId?: string;
+  toolName?: string;
+  serverId?: string;
+  status?: "success" | "error";
+  kind?: ToolExecutionKind;
+  // ISO timestamps bounding created_at
+  since?: string;
+  until?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export const DEFAULT_TOOL_EXECUTIONS_LIMIT = 50;
+export const MAX_TOOL_EXECUTIONS_LIMIT = 200;
+
+function resultSize(result: unknown): number {
+  const json = JSON.stringify(result);
+  return json === undefined ? 0 : new TextEncoder().encode(json).length;
+}
+
+/**
+ * Error an MCP tool reported in its result instead of throwing
+ */
+function resultError(result: unknown): string | null {
+  if (
+    typeof result !== "object" ||
+    result === null ||
+    !(result as { isError?: boolean }).isError
+  ) {
+    return null;
+  }
+  const content = (result as { content?: { type: string; text?: string }[] })
+    .content;
+  const text = content
+    ?.filter((item) => item.type === "text" && item.text)
+    .map((item) => item.text)
+    .join("\n");
+  return text || "Tool reported an error";
+}
+
+/**
+ * Store one tool call, a failure to record never fails the call itself
+ */
+export async function recordToolExecution(
+  db: D1Database,
+  record: ToolExecutionRecord
+): Promise<void> {
+  try {
+    await db
+      .prepare(
+        `INSERT INTO tool_executions (id, user_id, thread_id, agent_id, tool_call_id, tool_name, server_id, arguments, result_size, latency_ms, decision, error, kind, tokens, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        record.id,
+        record.userId,
+        record.threadId,
+        record.agentId,
+        record.toolCallId,
+        record.toolName,
+        record.serverId,
+        JSON.stringify(record.arguments ?? null),
+        record.resultSize,
+        record.latencyMs,
+        record.decision,
+        record.error,
+        record.kind,
+        record.tokens,
+        record.createdAt
+      )
+      .run();
+  } catch (error) {
+    console.error(
+      `[AUDIT] Failed to record tool execution ${record.toolName}:`,
+      error
+    );
+  }
+}
+
+function audited(
+  toolName: string,
+  execute: ToolExecution,
+  decision: ToolExecutionDecision,
+  context: ToolAuditContext
+): ToolExecution {
+  const { db, userId } = context;
+  if (!db || !userId) return execute;
+
+  return async (args, options) => {
+    const createdAt = new Date().toISOString();
+    const startTime = Date.now();
+    const record = (result: { size: number | null; error: string | null }) =>
+      recordToolExecution(db, {
+        id: crypto.randomUUID(),
+        userId,
+        threadId: context.threadId,
+        agentId: context.agentId,
+        toolCallId: options.toolCallId ?? null,
+        toolName,
+        serverId: context.findServerId(toolName) ?? null,
+        arguments: args,
+        resultSize: result.size,
+        latencyMs: Date.now() - startTime,
+        decision,
+        error: result.error,
+        kind: "tool",
+        tokens: null,
+        createdAt,
+      });
+
+    try {
+      const result = await execute(args, options);
+      await record({ size: resultSize(result), error: resultError(result) });
+      return result;
+    } catch (error) {
+      await record({
+        size: null,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  };
+}
+
+/**
+ * Record a call that never ran because the user rejected it or a tool policy
+ * denies the tool
+ */
+export async function recordDeniedToolCall(
+  context: ToolAuditContext,
+  call: { toolName: string; toolCallId: string; args: unknown; reason: string }
+): Promise<void> {
+  const { db, userId } = context;
+  if (!db || !userId) return;
+
+  await recordToolExecution(db, {
+    id: crypto.randomUUID(),
+    userId,
+    threadId: context.threadId,
+    agentId: context.agentId,
+    toolCallId: call.toolCallId,
+    toolName: call.toolName,
+    serverId: context.findServerId(call.toolName) ?? null,
+    arguments: call.args,
+    resultSize: null,
+    latencyMs: 0,
+    decision: "denied",
+    error: call.reason,
+    kind: "tool",
+    tokens: null,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Record the calls of the tools that run right away and of the executions
+ * that run once the user approves them
+ */
+export function auditToolCalls<Tool extends { execute?: ToolExecution }>(
+  tools: Record<string, Tool>,
+  executions: Record<string, ToolExecution>,
+  context: ToolAuditContext
+): {
+  tools: Record<string, Tool>;
+  executions: Record<string, ToolExecution>;
+} {
+  return {
+    tools: Object.fromEntries(
+      Object.entries(tools).map(([name, tool]) => [
+        name,
+        tool.execute
+          ? { ...tool, execute: audited(name, tool.execute, "auto", context) }
+          : tool,
+      ])
+    ),
+    executions: Object.fromEntries(
+      Object.entries(executions).map(([name, execute]) => [
+        name,
+        audited(name, execute, "approved", context),
+      ])
+    ),
+  };
+}
+
+interface ToolExecutionRow {
+  id: string;
+  user_id: string;
+  thread_id: string;
+  agent_id: string | null;
+  tool_call_id: string | null;
+  tool_name: string;
+  server_id: string | null;
+  arguments: string | null;
+  result_size: number | null;
+  latency_ms: number;
+  decision: ToolExecutionDecision;
+  error: string | null;
+  kind: ToolExecutionKind;
+  tokens: number | null;
+  created_at: string;
+}
+
+function toToolExecutionRecord(row: ToolExecutionRow): ToolExecutionRecord {
+  let args: unknown = null;
+  try {
+    args = row.arguments ? JSON.parse(row.arguments) : null;
+  } catch {
+    args = row.arguments;
+  }
+  return {
+    id: row.id,
+    userId: row.user_id,
+    threadId: row.thread_id,
+    agentId: row.agent_id,
+    toolCallId: row.tool_call_id,
+    toolName: row.tool_name,
+    serverId: row.server_id,
+    arguments: args,
+    resultSize: row.result_size,
+    latencyMs: row.latency_ms,
+    decision: row.decision,
+    error: row.error,
+    kind: row.kind,
+    tokens: row.tokens,
+    createdAt: row.created_at,
+  };
+}
+
+// Cursors point past the last record of a page, newest records come first
+function encodeCursor(record: ToolExecutionRecord): string {
+  return btoa(`${record.createdAt}|${record.id}`);
+}
+
+function decodeCursor(cursor: string): { createdAt: string; id: string } {
+  let decoded: string;
+  try {
+    decoded = atob(cursor);
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+  const separator = decoded.indexOf("|");
+  if (separator === -1) throw new Error("Invalid cursor");
+  return {
+    createdAt: decoded.slice(0, separator),
+    id: decoded.slice(separator + 1),
+  };
+}
+
+/**
+ * A page of a user's tool calls, newest first
+ */
+export async function listToolExecutions(
+  db: D1Database,
+  userId: string,
+  filters: ToolExecutionFilters = {}
+): Promise<{ executions: ToolExecutionRecord[]; nextCursor: string | null }> {
+  const conditions = ["user_id = ?"];
+  const bindings: (string | number)[] = [userId];
+
+  const equals: [string, string | undefined][] = [
+    ["thread_id", filters.threadId],
+    ["agent_id", filters.agentId],
+    ["tool_name", filters.toolName],
+    ["server_id", filters.serverId],
+    ["kind", filters.kind],
+  ];
+  for (const [column, value] of equals) {
+    if (value) {
+      conditions.push(`${column} = ?`);
+      bindings.push(value);
+    }
+  }
+  if (filters.status === "error") conditions.push("error IS NOT NULL");
+  if (filters.status === "success") conditions.push("error IS NULL");
+  if (filters.since) {
+    conditions.push("created_at >= ?");
+    bindings.push(filters.since);
+  }
+  if (filters.until) {
+    conditions.push("created_at < ?");
+    bindings.push(filters.until);
+  }
+  if (filters.cursor) {
+    const { createdAt, id } = decodeCursor(filters.cursor);
+    conditions.push("(created_at < ? OR (created_at = ? AND id < ?))");
+    bindings.push(createdAt, createdAt, id);
+  }
+
+  const limit = Math.min(
+    Math.max(filters.limit ?? DEFAULT_TOOL_EXECUTIONS_LIMIT, 1),
+    MAX_TOOL_EXECUTIONS_LIMIT
+  );
+  // One extra row tells whether there is another page
+  const rows = await db
+    .prepare(
+      `SELECT * FROM tool_executions
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY created_at DESC, id DESC
+       LIMIT ?`
+    )
+    .bind(...bindings, limit + 1)
+    .all<ToolExecutionRow>();
+
+  const executions = rows.results.slice(0, limit).map(toToolExecutionRecord);
+  return {
+    executions,
+    nextCursor:
+      rows.results.length > limit
+        ? encodeCursor(executions[executions.length - 1])
+        : null,
+  };
+}
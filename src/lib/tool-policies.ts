@@ -0,0 +1,338 @@
+/**
+ * Tool approval policies
+ * Every tool the model can call resolves to one of three decisions: run it
+ * right away (auto), ask the user first (confirm) or keep it from the model
+ * altogether (deny). Users set rules with glob patterns of tool names for
+ * themselves, for an agent, for an MCP server or for a thread. The most
+ * specific level that has a matching rule decides, in the order thread,
+ * agent, server, user. Within a level an exact tool name beats a pattern,
+ * and between equally specific rules the stricter decision wins.
+ *
+ * Without a rule, MCP tools follow their annotations: read-only and
+ * non-destructive tools run automatically, anything else needs approval.
+ * Built-in tools need approval when they come without an execute function.
+ */
+import type { Message, ToolExecutionOptions } from "ai";
+import { parseToolApproval, type AlwaysAllowScope } from "../shared";
+import type { MCPTool, MCPToolAnnotations } from "../types/mcp";
+import { matchesToolPattern } from "./tool-rules";
+
+export type ToolDecision = "auto" | "confirm" | "deny";
+
+export type ToolPolicyScope = "user" | "agent" | "server" | "thread";
+
+export interface ToolPolicyRule {
+  id: string;
+  scope: ToolPolicyScope;
+  // Agent, server or thread the rule belongs to, null for user rules
+  scopeId: string | null;
+  // Limits the rule to the tools of one MCP server
+  serverId: string | null;
+  toolPattern: string;
+  decision: ToolDecision;
+}
+
+export interface ToolDescriptor {
+  // Name the model calls the tool by
+  name: string;
+  // Name rules match against, without the mcp_<serverId>_ prefix
+  toolName: string;
+  serverId?: string;
+  annotations?: MCPToolAnnotations;
+  executes: boolean;
+}
+
+// Agent the "always allow for this agent" choice applies to
+export interface ToolDecisionsAgent {
+  id: string;
+  name: string;
+}
+
+export interface ToolPolicyContext {
+  threadId: string;
+  agentIds: string[];
+}
+
+const SCOPE_PRECEDENCE: ToolPolicyScope[] = [
+  "thread",
+  "agent",
+  "server",
+  "user",
+];
+
+const STRICTNESS: Record<ToolDecision, number> = {
+  auto: 0,
+  confirm: 1,
+  deny: 2,
+};
+
+/**
+ * Decision for a tool no rule matches
+ */
+export function defaultToolDecision(tool: ToolDescriptor): ToolDecision {
+  if (!tool.serverId) {
+    return tool.executes ? "auto" : "confirm";
+  }
+  // Per the MCP spec a tool is assumed destructive unless it says otherwise
+  const annotations = tool.annotations ?? {};
+  return annotations.readOnlyHint === true ||
+    annotations.destructiveHint === false
+    ? "auto"
+    : "confirm";
+}
+
+function ruleApplies(
+  rule: ToolPolicyRule,
+  tool: ToolDescriptor,
+  context: ToolPolicyContext
+): boolean {
+  switch (rule.scope) {
+    case "thread":
+      if (rule.scopeId !== context.threadId) return false;
+      break;
+    case "agent":
+      if (!rule.scopeId || !context.agentIds.includes(rule.scopeId)) {
+        return false;
+      }
+      break;
+    case "server":
+      if (!tool.serverId || rule.scopeId !== tool.serverId) return false;
+      break;
+  }
+  if (rule.serverId && rule.serverId !== tool.serverId) return false;
+  return matchesToolPattern(rule.toolPattern, tool.toolName);
+}
+
+function isExactPattern(pattern: string): boolean {
+  return !/[*?]/.test(pattern);
+}
+
+/**
+ * Decision for one tool under the given rules
+ */
+export function resolveToolDecision(
+  tool: ToolDescriptor,
+  rules: ToolPolicyRule[],
+  context: ToolPolicyContext
+): ToolDecision {
+  const matching = rules.filter((rule) => ruleApplies(rule, tool, context));
+
+  for (const scope of SCOPE_PRECEDENCE) {
+    const scoped = matching.filter((rule) => rule.scope === scope);
+    if (scoped.length === 0) continue;
+
+    const exact = scoped.filter((rule) => isExactPattern(rule.toolPattern));
+    return (exact.length > 0 ? exact : scoped)
+      .map((rule) => rule.decision)
+      .reduce((strictest, decision) =>
+        STRICTNESS[decision] > STRICTNESS[strictest] ? decision : strictest
+      );
+  }
+
+  return defaultToolDecision(tool);
+}
+
+/**
+ * Decisions for all tools of a chat, by the name the model calls them by
+ */
+export function resolveToolDecisions(
+  tools: ToolDescriptor[],
+  rules: ToolPolicyRule[],
+  context: ToolPolicyContext
+): Record<string, ToolDecision> {
+  return Object.fromEntries(
+    tools.map((tool) => [tool.name, resolveToolDecision(tool, rules, context)])
+  );
+}
+
+/**
+ * Describe the tools of a chat for resolving their decisions. MCP tools are
+ * looked up by name to get their server and annotations.
+ */
+export function describeTools(
+  tools: Record<string, { execute?: unknown }>,
+  findMCPTool: (name: string) => MCPTool | undefined
+): ToolDescriptor[] {
+  return Object.entries(tools).map(([name, tool]) => {
+    const mcpTool = findMCPTool(name);
+    return {
+      name,
+      toolName: mcpTool?.name ?? name,
+      serverId: mcpTool?.serverId,
+      annotations: mcpTool?.annotations,
+      executes: typeof tool.execute === "function",
+    };
+  });
+}
+
+export type ToolExecution = (
+  // biome-ignore lint/suspicious/noExplicitAny: each tool validates its own arguments
+  args: any,
+  options: ToolExecutionOptions
+) => Promise<unknown>;
+
+/**
+ * Shape the tools and executions of a chat after their decisions: denied
+ * tools are dropped, tools that need approval lose their execute function
+ * so the call waits for the user, and tools that run automatically get one
+ */
+export function applyToolDecisions<Tool extends { execute?: ToolExecution }>(
+  tools: Record<string, Tool>,
+  executions: Record<string, ToolExecution>,
+  decisions: Record<string, ToolDecision>
+): {
+  tools: Record<string, Tool>;
+  executions: Record<string, ToolExecution>;
+} {
+  const shapedTools: Record<string, Tool> = {};
+  const shapedExecutions: Record<string, ToolExecution> = {};
+
+  for (const [name, tool] of Object.entries(tools)) {
+    const { execute, ...definition } = tool;
+    const execution = executions[name] ?? execute;
+
+    switch (decisions[name] ?? "auto") {
+      case "deny":
+        break;
+      case "confirm":
+        shapedTools[name] = definition as Tool;
+        if (execution) shapedExecutions[name] = execution;
+        break;
+      case "auto":
+        shapedTools[name] = execute
+          ? tool
+          : ({ ...definition, execute: execution } as Tool);
+        break;
+    }
+  }
+
+  return { tools: shapedTools, executions: shapedExecutions };
+}
+
+export interface ToolPolicyRow {
+  id: string;
+  scope: ToolPolicyScope;
+  scope_id: string | null;
+  server_id: string | null;
+  tool_pattern: string;
+  decision: ToolDecision;
+}
+
+export function toToolPolicyRule(row: ToolPolicyRow): ToolPolicyRule {
+  return {
+    id: row.id,
+    scope: row.scope,
+    scopeId: row.scope_id,
+    serverId: row.server_id,
+    toolPattern: row.tool_pattern,
+    decision: row.decision,
+  };
+}
+
+/**
+ * All tool policy rules of a user
+ */
+export async function loadToolPolicyRules(
+  db: D1Database | undefined,
+  userId: string | undefined
+): Promise<ToolPolicyRule[]> {
+  if (!db || !userId) return [];
+
+  // Errors are not swallowed, running without the rules would ignore denials
+  const rows = await db
+    .prepare(
+      "SELECT id, scope, scope_id, server_id, tool_pattern, decision FROM tool_policies WHERE user_id = ?"
+    )
+    .bind(userId)
+    .all<ToolPolicyRow>();
+  return rows.results.map(toToolPolicyRule);
+}
+
+export interface AlwaysAllowRequest {
+  toolName: string;
+  scope: AlwaysAllowScope;
+}
+
+/**
+ * "Always allow" choices the user made approving the tool calls of a message
+ */
+export function findAlwaysAllowRequests(
+  message: Message | undefined
+): AlwaysAllowRequest[] {
+  const requests: AlwaysAllowRequest[] = [];
+  for (const part of message?.parts ?? []) {
+    if (
+      part.type !== "tool-invocation" ||
+      part.toolInvocation.state !== "result"
+    ) {
+      continue;
+    }
+    const scope = parseToolApproval(part.toolInvocation.result)?.alwaysAllow;
+    if (scope) {
+      requests.push({ toolName: part.toolInvocation.toolName, scope });
+    }
+  }
+  return requests;
+}
+
+/**
+ * Save "always allow" choices as auto rules for the exact tool, limited to
+ * its MCP server, so its next calls in the thread or by the agent run right
+ * away. Agent rules go to the thread's primary agent, without one they are
+ * skipped. Exact confirm or deny rules for the tool at the same level are
+ * removed, as the stricter of equally specific rules would win.
+ */
+export async function saveAlwaysAllowRules(
+  db: D1Database | undefined,
+  userId: string | undefined,
+  requests: AlwaysAllowRequest[],
+  tools: ToolDescriptor[],
+  target: { threadId: string; agentId?: string }
+): Promise<void> {
+  if (!db || !userId) return;
+
+  for (const request of requests) {
+    const tool = tools.find(({ name }) => name === request.toolName);
+    const scopeId =
+      request.scope === "thread" ? target.threadId : target.agentId;
+    if (!tool || !scopeId) continue;
+
+    const deleteConflicting = db
+      .prepare(
+        `DELETE FROM tool_policies
+         WHERE user_id = ? AND scope = ? AND scope_id = ? AND (server_id IS ? OR server_id IS NULL) AND tool_pattern = ? AND decision != 'auto'`
+      )
+      .bind(
+        userId,
+        request.scope,
+        scopeId,
+        tool.serverId ?? null,
+        tool.toolName
+      );
+    // Approving the same message again doesn't add the rule twice
+    const insertRule = db
+      .prepare(
+        `INSERT INTO tool_policies (id, user_id, scope, scope_id, server_id, tool_pattern, decision, created_at)
+         SELECT ?, ?, ?, ?, ?, ?, 'auto', ?
+         WHERE NOT EXISTS (
+           SELECT 1 FROM tool_policies
+           WHERE user_id = ? AND scope = ? AND scope_id = ? AND server_id IS ? AND tool_pattern = ? AND decision = 'auto'
+         )`
+      )
+      .bind(
+        crypto.randomUUID(),
+        userId,
+        request.scope,
+        scopeId,
+        tool.serverId ?? null,
+        tool.toolName,
+        new Date().toISOString(),
+        userId,
+        request.scope,
+        scopeId,
+        tool.serverId ?? null,
+        tool.toolName
+      );
+    await db.batch([deleteConflicting, insertRule]);
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Tool allow and deny rules
+ * Agents and thread MCP assignments can narrow down which tools of their
+ * servers the model gets, with glob patterns (* and ?) of tool names. An
+ * empty allow list lets every tool through, deny patterns win over allow
+ * patterns. When several agents of a thread share a server, a tool is
+ * available if any of them allows it.
+ */
+import type { ToolRules } from "../types/mcp";
+
+// Rule sets that apply to each server of a thread, by server ID
+export type ToolPolicy = Map<string, ToolRules[]>;
+
+/**
+ * Match a tool name against a glob pattern
+ */
+export function matchesToolPattern(pattern: string, toolName: string): boolean {
+  const source = Array.from(pattern, (char) => {
+    if (char === "*") return ".*";
+    if (char === "?") return ".";
+    return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  }).join("");
+  return new RegExp(`^${source}$`).test(toolName);
+}
+
+/**
+ * Whether a set of rules lets a tool through, no rules allow everything
+ */
+export function isToolAllowed(
+  rules: ToolRules | null | undefined,
+  toolName: string
+): boolean {
+  if (!rules) return true;
+  if (rules.deny.some((pattern) => matchesToolPattern(pattern, toolName))) {
+    return false;
+  }
+  return (
+    rules.allow.length === 0 ||
+    rules.allow.some((pattern) => matchesToolPattern(pattern, toolName))
+  );
+}
+
+/**
+ * Parse stored tool rules, ignoring malformed values
+ */
+export function parseToolRules(
+  value: string | null | undefined
+): ToolRules | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value) as Partial<
+      Record<keyof ToolRules, unknown>
+    >;
+    const patterns = (list: unknown) =>
+      Array.isArray(list)
+        ? list.filter(
+            (pattern): pattern is string =>
+              typeof pattern === "string" && pattern !== ""
+          )
+        : [];
+    return { allow: patterns(parsed?.allow), deny: patterns(parsed?.deny) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Tool rules as stored in the database, null when they don't restrict anything
+ */
+export function serializeToolRules(
+  rules: ToolRules | null | undefined
+): string | null {
+  if (!rules || (rules.allow.length === 0 && rules.deny.length === 0)) {
+    return null;
+  }
+  return JSON.stringify({ allow: rules.allow, deny: rules.deny });
+}
+
+/**
+ * Drop the MCP tools, named mcp_<serverId>_<tool>, that the rules of their
+ * server don't allow. Tools of servers without rules are kept.
+ */
+export function filterToolsByPolicy<T>(
+  tools: Record<string, T>,
+  policy: ToolPolicy
+): Record<string, T> {
+  const filtered: Record<string, T> = {};
+  for (const [name, value] of Object.entries(tools)) {
+    const serverId = Array.from(policy.keys()).find((id) =>
+      name.startsWith(`mcp_${id}_`)
+    );
+    const ruleSets = serverId ? (policy.get(serverId) ?? []) : [];
+    const toolName = serverId ? name.slice(`mcp_${serverId}_`.length) : name;
+    if (
+      ruleSets.length === 0 ||
+      ruleSets.some((rules) => isToolAllowed(rules, toolName))
+    ) {
+      filtered[name] = value;
+    }
+  }
+  return filtered;
+}
+
+/**
+ * Rules of the servers a thread can use: servers added to the thread follow
+ * the rules of their assignment, group servers those of each active agent
+ * with the group
+ */
+export async function getThreadToolPolicy(
+  threadId: string,
+  db: D1Database,
+  userId: string
+): Promise<ToolPolicy> {
+  const policy: ToolPolicy = new Map();
+
+  // Latest assignment wins when a server was added more than once
+  const assignments = await db
+    .prepare(
+      `SELECT tms.server_id, tms.tool_rules FROM thread_mcp_servers tms
+       WHERE tms.thread_id = ? AND tms.is_active = TRUE AND tms.user_id = ?
+       ORDER BY tms.added_at ASC`
+    )
+    .bind(threadId, userId)
+    .all<{ server_id: string; tool_rules: string | null }>();
+  for (const row of assignments.results) {
+    const rules = parseToolRules(row.tool_rules);
+    policy.set(row.server_id, rules ? [rules] : []);
+  }
+
+  const agentServers = await db
+    .prepare(
+      `SELECT DISTINCT a.id AS agent_id, a.tool_rules, ms.id AS server_id
+       FROM thread_agents ta
+       JOIN agents a ON ta.agent_id = a.id
+       JOIN agent_mcp_groups amg ON a.id = amg.agent_id
+       JOIN mcp_servers ms ON ms.group_id = amg.group_id
+       WHERE ta.thread_id = ? AND ta.is_active = TRUE AND ta.user_id = ? AND a.user_id = ?`
+    )
+    .bind(threadId, userId, userId)
+    .all<{ agent_id: string; tool_rules: string | null; server_id: string }>();
+
+  // An agent without rules gets every tool of its servers
+  const unrestricted = new Set<string>();
+  for (const row of agentServers.results) {
+    const rules = parseToolRules(row.tool_rules);
+    if (!rules) {
+      unrestricted.add(row.server_id);
+      continue;
+    }
+    policy.set(row.server_id, [...(policy.get(row.server_id) ?? []), rules]);
+  }
+  for (const serverId of unrestricted) {
+    policy.delete(serverId);
+  }
+
+  return policy;
+}
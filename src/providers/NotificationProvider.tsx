@@ -8,6 +8,12 @@ interface NotificationContextType {
   addNotification: (
     notification: Omit<Notification, "id" | "timestamp">
   ) => string;
+  addToolsUpdated: (
+    agentName: string,
+    toolsAdded: string[],
+    toolsRemoved: string[],
+    threadId?: string
+  ) => string;
   dismissNotification: (id: string) => void;
   markAsRead: (id: string) => void;
   markThreadAsRead: (threadId: string) => void;
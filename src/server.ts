@@ -1,36 +1,97 @@
-import { routeAgentRequest, type Schedule } from "agents";
+import {
+  getAgentByName,
+  routeAgentRequest,
+  type Connection,
+  type Schedule,
+} from "agents";
 import { serialize } from "cookie";
 import {
   createSessionCookie,
   getSession,
   clearSessionCookie,
+  SESSION_MAX_AGE_SECONDS,
   type SessionData,
 } from "./auth/session";
+import {
+  createSessionRecord,
+  getSessionClientInfo,
+  listSessions,
+  revokeAllSessions,
+  revokeSession,
+} from "./auth/session-store";
 
 import { unstable_getSchedulePrompt } from "agents/schedule";
 
 import { AIChatAgent } from "agents/ai-chat-agent";
 import {
   createDataStreamResponse,
+  type DataStreamWriter,
   generateId,
   streamText,
   type StreamTextOnFinishCallback,
   type ToolSet,
   type Message, // Import Message type
 } from "ai";
-import { openai } from "@ai-sdk/openai";
 import { processToolCalls } from "./utils";
-import { getCombinedToolsForThread, getCombinedExecutionsForThread } from "./tools";
+import {
+  getCombinedToolsForThread,
+  getCombinedExecutionsForThread,
+} from "./tools";
+import {
+  MCPConnectionManager,
+  runMCPHealthChecks,
+  type MCPChatToolsOptions,
+} from "./lib/mcp-connection";
+import { getOpenCircuits } from "./lib/mcp-health";
+import {
+  handleSamplingRequest,
+  MCP_SAMPLING_CONFIG,
+  type SamplingApprovalRequest,
+  type SamplingContext,
+  type SamplingParams,
+  type SamplingServer,
+} from "./lib/mcp-sampling";
+import { MCP_POOL_CONFIG } from "./lib/mcp-pool";
+import {
+  auditToolCalls,
+  recordDeniedToolCall,
+  type ToolAuditContext,
+} from "./lib/tool-audit";
+import {
+  applyToolDecisions,
+  describeTools,
+  findAlwaysAllowRequests,
+  loadToolPolicyRules,
+  resolveToolDecisions,
+  saveAlwaysAllowRules,
+  type ToolDecision,
+  type ToolDecisionsAgent,
+} from "./lib/tool-policies";
+import {
+  buildSystemPrompt,
+  getThreadAgentPersonas,
+  type UnavailableServer,
+} from "./lib/system-prompt";
+import {
+  getThreadModelSettings,
+  listModelProviders,
+  resolveModel,
+} from "./lib/models";
 // MCP Agent API functions
 import * as agentAPI from "./api/agents";
+import {
+  defaultThreadTitle,
+  MAX_THREAD_MESSAGES_LIMIT,
+  parseChatName,
+  ThreadStore,
+  threadStoreName,
+  type ThreadMessagesUpdate,
+  type ThreadSummary,
+  withEarlierMessages,
+} from "./lib/thread-store";
 // import { env } from "cloudflare:workers";
 
-const model = openai("gpt-4o-2024-11-20");
-// Cloudflare AI Gateway
-// const openai = createOpenAI({
-//   apiKey: env.OPENAI_API_KEY,
-//   baseURL: env.GATEWAY_BASE_URL,
-// });
+// The model is resolved per thread, see src/lib/models.ts
 
 /**
  * Chat Agent implementation that handles real-time AI chat interactions
@@ -38,6 +99,20 @@ const model = openai("gpt-4o-2024-11-20");
 export class Chat extends AIChatAgent<Env> {
   private userSession: SessionData | null = null;
   private dbOperationQueue: Promise<any> = Promise.resolve();
+  // MCP connections of this chat, kept open between turns
+  private mcpConnections = new MCPConnectionManager({
+    sweepIntervalMs: MCP_POOL_CONFIG.pingIntervalMs,
+    onSamplingRequest: (server, params) => this.sample(server, params),
+  });
+  // Thread, user and model of the latest turn, for servers' sampling requests
+  private samplingContext?: Omit<SamplingContext, "requestApproval">;
+  // Messages as last saved to the thread store, by id, so a turn only writes what changed
+  private storedMessages = new Map<string, string>();
+  // Sampling requests waiting for the user, by request id
+  private pendingSamplingApprovals = new Map<
+    string,
+    (approved: boolean) => void
+  >();
 
   /**
    * Override the sql method to add retry logic for database busy errors
@@ -149,12 +224,138 @@ export class Chat extends AIChatAgent<Env> {
     });
   }
 
+  /**
+   * Remember the tool decisions of the latest turn and tell connected
+   * clients, they show approval buttons for the tools that need them and
+   * offer to always allow a tool for the thread's primary agent
+   */
+  private async publishToolDecisions(
+    threadId: string,
+    decisions: Record<string, ToolDecision>,
+    agent: ToolDecisionsAgent | null
+  ): Promise<void> {
+    await this.ctx.storage.put({
+      toolDecisions: decisions,
+      toolDecisionsAgent: agent,
+    });
+    this.broadcast(
+      JSON.stringify({ type: "tool_decisions", decisions, agent, threadId })
+    );
+  }
+
+  /**
+   * Send clients that connect later the tool decisions of the latest turn,
+   * so calls still waiting for approval keep their buttons after a reload
+   */
+  async onConnect(connection: Connection): Promise<void> {
+    const decisions =
+      await this.ctx.storage.get<Record<string, ToolDecision>>("toolDecisions");
+    if (decisions) {
+      const agent =
+        (await this.ctx.storage.get<ToolDecisionsAgent>(
+          "toolDecisionsAgent"
+        )) ?? null;
+      connection.send(
+        JSON.stringify({ type: "tool_decisions", decisions, agent })
+      );
+    }
+  }
+
+  /**
+   * Answer an MCP server's sampling request with the thread's model
+   */
+  private async sample(server: SamplingServer, params: SamplingParams) {
+    if (!this.samplingContext) {
+      throw new Error("Sampling is only available during a chat");
+    }
+    const { threadId } = this.samplingContext;
+    return handleSamplingRequest(server, params, {
+      ...this.samplingContext,
+      requestApproval: (request) =>
+        this.requestSamplingApproval(threadId, request),
+    });
+  }
+
+  /**
+   * Ask the thread's clients to approve a sampling request, denying it
+   * when nobody is connected or nobody answers in time
+   */
+  private requestSamplingApproval(
+    threadId: string,
+    request: SamplingApprovalRequest
+  ): Promise<boolean> {
+    if (Array.from(this.getConnections()).length === 0) {
+      return Promise.resolve(false);
+    }
+
+    return new Promise((resolve) => {
+      const timeout = setTimeout(
+        () => this.resolveSamplingRequest(request.id, false),
+        MCP_SAMPLING_CONFIG.approvalTimeoutMs
+      );
+      this.pendingSamplingApprovals.set(request.id, (approved) => {
+        clearTimeout(timeout);
+        resolve(approved);
+      });
+      this.broadcast(
+        JSON.stringify({ type: "sampling_request", request, threadId })
+      );
+    });
+  }
+
+  /**
+   * Settle a sampling request waiting for the user, false when it is no
+   * longer waiting
+   */
+  async resolveSamplingRequest(
+    requestId: string,
+    approved: boolean
+  ): Promise<boolean> {
+    const resolve = this.pendingSamplingApprovals.get(requestId);
+    if (!resolve) return false;
+    this.pendingSamplingApprovals.delete(requestId);
+    resolve(approved);
+    return true;
+  }
+
+  /**
+   * Keep the earlier history when a client sends only the latest page of
+   * messages it loaded, the model gets the whole thread. The page comes from
+   * the thread store, which can hold messages this chat never saw, e.g. a
+   * thread imported from KV, so the store's history is used then.
+   */
+  async persistMessages(
+    messages: Message[],
+    excludeBroadcastIds: string[] = []
+  ): Promise<void> {
+    let history = this.messages;
+    const chat = this.name ? parseChatName(this.name) : null;
+    if (
+      chat &&
+      messages.length > 0 &&
+      !history.some((message) => message.id === messages[0].id)
+    ) {
+      const store = await getAgentByName(
+        this.env.Chat,
+        threadStoreName(chat.userId)
+      );
+      history = (await store.getThreadMessages(
+        chat.userId,
+        chat.threadId
+      )) as Message[];
+    }
+    return super.persistMessages(
+      withEarlierMessages(history, messages),
+      excludeBroadcastIds
+    );
+  }
+
   /**
    * Override the fetch method to extract session from request headers
    */
   async fetch(request: Request): Promise<Response> {
     try {
-      const session = await getSession(request);
+      const session = await getSession(request, { db: this.env.DB });
       this.userSession = session;
     } catch (error) {
       console.error(`Failed to extract session in Chat agent:`, error);
@@ -170,21 +371,17 @@ export class Chat extends AIChatAgent<Env> {
 
   async onChatMessage(
     onFinish: StreamTextOnFinishCallback<ToolSet>,
-    _options?: { abortSignal?: AbortSignal }
+    options?: { abortSignal?: AbortSignal }
   ) {
-    const session = this.userSession;
-    const userId = session?.userId;
-    const kv = this.env?.CHAT_HISTORY_KV as KVNamespace | undefined;
-
-    // Extract threadId from the agent connection name (format: "userId-threadId")
+    // Extract userId and threadId from the agent connection name (format: "userId-threadId")
+    let userId = "";
     let threadId = "default";
 
-    // The connection name from frontend is in format: "userId-threadId"
+    // The name says whose chat this is, the router only connects its owner
     if (this.name) {
-      const parts = this.name.split("-");
-      if (parts.length >= 2) {
-        const extractedThreadId = parts.slice(1).join("-").trim(); // In case threadId itself contains dashes
-        threadId = extractedThreadId || "default";
+      const chat = parseChatName(this.name);
+      if (chat) {
+        ({ userId, threadId } = chat);
       }
       console.log(
         `[CHAT] Agent connection name: "${this.name}" -> Thread ID: "${threadId}"`
@@ -194,20 +391,13 @@ export class Chat extends AIChatAgent<Env> {
     }
 
     // Save user message immediately when received
-    if (userId && kv && this.messages.length > 0) {
+    if (userId && this.messages.length > 0) {
       await this.serializeDbOperation(async () => {
         try {
-          const threadKey = `${userId}:thread:${threadId}`;
-          console.log(
-            `[MESSAGE_SAVE] Agent: ${this.name} | Thread: ${threadId} | Saving ${this.messages.length} messages to: ${threadKey}`
-          );
-          await kv.put(threadKey, JSON.stringify(this.messages));
-
-          // Update thread metadata
-          await this.updateThreadMetadata(userId, threadId, kv);
           console.log(
-            `[CHAT] Successfully saved messages to thread: ${threadKey}`
+            `[MESSAGE_SAVE] Agent: ${this.name} | Thread: ${threadId} | Saving ${this.messages.length} messages`
           );
+          await this.storeThreadMessages(userId, threadId);
         } catch (e) {
           console.error(`Failed to save user message for user ${userId}:`, e);
           throw e;
@@ -218,64 +408,180 @@ export class Chat extends AIChatAgent<Env> {
     //   "https://path-to-mcp-server/sse"
     // );
 
-    // Get thread ID from agent name (format: userId:threadId)
-    const toolsThreadId = this.name ? this.name.split(':')[1] || 'default' : 'default';
-    console.log(`Loading tools for thread: ${toolsThreadId}`);
+    console.log(`Loading tools for thread: ${threadId}`);
 
     // Get database connection for MCP tool loading
     const db = this.env?.DB;
 
+    // Drop pooled MCP connections that went idle or stopped answering before reusing them
+    await this.mcpConnections.sweep();
+
+    // Tool progress goes into the response stream, which only exists once streaming starts
+    let toolDataStream: DataStreamWriter | undefined;
+
+    // Servers that keep failing their health checks are left out, the model is told why
+    const unavailableServers = new Map<string, UnavailableServer>();
+
+    const mcpOptions: MCPChatToolsOptions = {
+      connectionManager: this.mcpConnections,
+      openCircuits: await getOpenCircuits(db, userId),
+      onServerUnavailable: (server, reason) => {
+        unavailableServers.set(server.id, { name: server.name, reason });
+      },
+      // Let connected clients prompt the user to authorize the server again
+      onAuthRequired: (server) => {
+        this.broadcast(
+          JSON.stringify({
+            type: "mcp_auth_required",
+            serverId: server.id,
+            serverName: server.name,
+            threadId,
+          })
+        );
+      },
+      onCapabilitiesChanged: (change) => {
+        this.broadcast(
+          JSON.stringify({
+            type: "tools_updated",
+            serverId: change.serverId,
+            serverName: change.serverName,
+            kind: change.kind,
+            toolsAdded: change.toolsAdded ?? [],
+            toolsRemoved: change.toolsRemoved ?? [],
+            threadId,
+          })
+        );
+      },
+      onToolProgress: (part) => {
+        toolDataStream?.writeData(part);
+      },
+    };
+
     // Collect all tools, including thread-specific MCP tools
-    const combinedTools = await getCombinedToolsForThread(toolsThreadId, db);
-    const combinedExecs = await getCombinedExecutionsForThread(toolsThreadId, db);
+    const combinedTools = await getCombinedToolsForThread(
+      threadId,
+      db,
+      userId,
+      mcpOptions
+    );
+    const combinedExecs = await getCombinedExecutionsForThread(
+      threadId,
+      db,
+      userId,
+      mcpOptions
+    );
+
+    // Compose the system prompt from the personas of the thread's active agents
+    const threadAgents = await getThreadAgentPersonas(threadId, db, userId);
+    const systemPrompt = buildSystemPrompt({
+      agents: threadAgents,
+      schedulePrompt: unstable_getSchedulePrompt({ date: new Date() }),
+      unavailableServers: Array.from(unavailableServers.values()),
+    });
 
-    const allTools = {
+    // Thread override, then the primary agent's model, then the default
+    const modelSettings = await getThreadModelSettings(threadId, db, userId);
+    const model = resolveModel(modelSettings.model, this.env);
+    console.log(
+      `[CHAT] Using model ${modelSettings.model} for thread: ${threadId}`
+    );
+    this.samplingContext = {
+      db,
+      userId,
+      threadId,
+      agentId: threadAgents[0]?.id ?? null,
+      model,
+      modelName: modelSettings.model,
+    };
+
+    // Each tool runs right away, waits for the user's approval or is withheld
+    const availableTools = {
       ...combinedTools,
       ...this.mcp.unstable_getAITools(),
     };
+    const toolDescriptors = describeTools(availableTools, (name) =>
+      this.mcpConnections.findTool(name)
+    );
+    // "Always allow" approvals become rules before the decisions are made,
+    // so the approved tool runs without asking for the rest of this turn too
+    const primaryAgent = threadAgents[0];
+    await saveAlwaysAllowRules(
+      db,
+      userId,
+      findAlwaysAllowRequests(this.messages[this.messages.length - 1]),
+      toolDescriptors,
+      { threadId, agentId: primaryAgent?.id }
+    );
+    const toolDecisions = resolveToolDecisions(
+      toolDescriptors,
+      await loadToolPolicyRules(db, userId),
+      { threadId, agentIds: threadAgents.map((agent) => agent.id) }
+    );
+    const decidedTools = applyToolDecisions(
+      availableTools,
+      combinedExecs,
+      toolDecisions
+    );
+    // Every call that runs, automatically or once approved, goes to the audit log
+    const auditContext: ToolAuditContext = {
+      db,
+      userId,
+      threadId,
+      agentId: primaryAgent?.id ?? null,
+      findServerId: (name) =>
+        toolDescriptors.find((tool) => tool.name === name)?.serverId,
+    };
+    const { tools: allTools, executions: allExecutions } = auditToolCalls(
+      decidedTools.tools,
+      decidedTools.executions,
+      auditContext
+    );
+    await this.publishToolDecisions(
+      threadId,
+      toolDecisions,
+      primaryAgent ? { id: primaryAgent.id, name: primaryAgent.name } : null
+    );
 
     // Create a streaming response that handles both text and tool outputs
     const dataStreamResponse = createDataStreamResponse({
       execute: async (dataStream) => {
+        toolDataStream = dataStream;
+
         // Process any pending tool calls from previous messages
         // This handles human-in-the-loop confirmations for tools
         const processedMessages = await processToolCalls({
           messages: this.messages,
           dataStream,
           tools: allTools,
-          executions: combinedExecs,
+          executions: allExecutions,
+          abortSignal: options?.abortSignal,
+          decisions: toolDecisions,
+          // Calls that don't run are logged as denied
+          onToolDenied: (call) => recordDeniedToolCall(auditContext, call),
         });
 
-        // Stream the AI response using GPT-4
+        // Stream the AI response using the thread's model
         const result = streamText({
           model,
-          system: `You are a helpful assistant that can do various tasks... 
-
-${unstable_getSchedulePrompt({ date: new Date() })}
-
-If the user asks to schedule a task, use the schedule tool to schedule the task.
-`,
+          temperature: modelSettings.temperature,
+          maxTokens: modelSettings.maxTokens,
+          system: systemPrompt,
           messages: processedMessages,
           tools: allTools,
+          // Stopping the chat cancels running tool calls as well
+          abortSignal: options?.abortSignal,
           onFinish: async (args) => {
             onFinish(
               args as Parameters<StreamTextOnFinishCallback<ToolSet>>[0]
             );
             // Save complete conversation after AI response
-            if (userId && kv) {
+            if (userId) {
               await this.serializeDbOperation(async () => {
                 try {
-                  const threadKey = `${userId}:thread:${threadId}`;
                   console.log(
-                    `[CHAT] Saving complete conversation (${this.messages.length} messages) to thread: ${threadKey}`
-                  );
-                  await kv.put(threadKey, JSON.stringify(this.messages));
-
-                  // Update thread metadata
-                  await this.updateThreadMetadata(userId, threadId, kv);
-                  console.log(
-                    `[CHAT] Successfully saved complete conversation to thread: ${threadKey}`
+                    `[CHAT] Saving complete conversation (${this.messages.length} messages) to thread: ${threadId}`
                   );
+                  await this.storeThreadMessages(userId, threadId);
                 } catch (e) {
                   console.error(
                     `Failed to save chat history for user ${userId}:`,
@@ -339,17 +645,17 @@ If the user asks to schedule a task, use the schedule tool to schedule the task.
       }
     }
 
-    const kv = this.env?.CHAT_HISTORY_KV as KVNamespace | undefined;
-
-    if (userId && kv) {
+    if (userId) {
       await this.serializeDbOperation(async () => {
         try {
           // For scheduled tasks, try to use the user's last active thread, fallback to default
           let threadId = "default";
           try {
-            const lastActiveThread = await kv.get(
-              `${userId}:last_active_thread`
+            const store = await getAgentByName(
+              this.env.Chat,
+              threadStoreName(userId)
             );
+            const lastActiveThread = await store.getLastActiveThread(userId);
             if (lastActiveThread) {
               threadId = lastActiveThread;
               console.log(
@@ -367,11 +673,7 @@ If the user asks to schedule a task, use the schedule tool to schedule the task.
             );
           }
 
-          const threadKey = `${userId}:thread:${threadId}`;
-          await kv.put(threadKey, JSON.stringify(this.messages));
-
-          // Update thread metadata
-          await this.updateThreadMetadata(userId, threadId, kv);
+          await this.storeThreadMessages(userId, threadId);
         } catch (e) {
           console.error(
             `Failed to save chat history after executeTask for user ${userId}:`,
@@ -381,14 +683,9 @@ If the user asks to schedule a task, use the schedule tool to schedule the task.
         }
       });
     } else {
-      if (!userId)
-        console.warn(
-          `[TASK] No userId available for scheduled task. Agent name: ${this.name}, Session: ${!!session}`
-        );
-      if (!kv)
-        console.warn(
-          "KV namespace not available, skipping chat history save (executeTask)."
-        );
+      console.warn(
+        `[TASK] No userId available for scheduled task. Agent name: ${this.name}, Session: ${!!session}`
+      );
     }
 
     // Restore original name if it was set
@@ -403,62 +700,78 @@ If the user asks to schedule a task, use the schedule tool to schedule the task.
     }
   }
 
-  private async updateThreadMetadata(
+  /**
+   * Save the thread's new and changed messages to the user's thread store
+   */
+  private async storeThreadMessages(userId: string, threadId: string) {
+    // Validate threadId before saving
+    const validatedThreadId = threadId?.trim() || "default";
+    const changed = this.messages.filter(
+      (message) =>
+        this.storedMessages.get(message.id) !== JSON.stringify(message)
+    );
+    const store = await getAgentByName(this.env.Chat, threadStoreName(userId));
+    await store.saveThreadMessages(userId, validatedThreadId, {
+      messages: changed,
+      messageIds: this.messages.map((message) => message.id),
+      title: this.generateThreadTitle(),
+    });
+    this.storedMessages = new Map(
+      this.messages.map((message) => [message.id, JSON.stringify(message)])
+    );
+    console.log(
+      `[THREAD_UPDATED] ${userId}:${validatedThreadId} - ${changed.length} messages saved`
+    );
+  }
+
+  // The methods below run on the user's thread store, see threadStoreName
+
+  private threadStore(userId: string): ThreadStore {
+    return new ThreadStore(this.ctx.storage, userId, this.env.CHAT_HISTORY_KV);
+  }
+
+  async listThreads(userId: string): Promise<ThreadSummary[]> {
+    return this.threadStore(userId).listThreads();
+  }
+
+  async hasThread(userId: string, threadId: string): Promise<boolean> {
+    return this.threadStore(userId).hasThread(threadId);
+  }
+
+  async createThread(userId: string, threadId: string) {
+    return this.threadStore(userId).createThread(threadId);
+  }
+
+  // Typed loosely, the stub types of Message are too deep for the compiler
+  async getThreadMessages(
     userId: string,
-    threadId: string,
-    kv: KVNamespace
-  ) {
-    try {
-      // Validate threadId before creating metadata
-      const validatedThreadId = threadId?.trim() || "default";
-      if (validatedThreadId !== threadId) {
-        console.warn(
-          `[THREAD_METADATA] Invalid threadId "${threadId}" corrected to "${validatedThreadId}"`
-        );
-      }
+    threadId: string
+  ): Promise<unknown[]> {
+    return this.threadStore(userId).getMessages(threadId);
+  }
 
-      const threadsKey = `${userId}:threads`;
-      const existingThreadsJson = await kv.get(threadsKey);
-      const existingThreads = existingThreadsJson
-        ? JSON.parse(existingThreadsJson)
-        : [];
-
-      // Find existing thread or create new one
-      let thread = existingThreads.find((t: any) => t.id === validatedThreadId);
-      if (!thread) {
-        thread = {
-          id: validatedThreadId,
-          title: this.generateThreadTitle(),
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        };
-        existingThreads.unshift(thread);
-      } else {
-        thread.updatedAt = new Date().toISOString();
-        // Update title if it's still the default and we have messages
-        if (thread.title.startsWith("New Chat") && this.messages.length > 0) {
-          thread.title = this.generateThreadTitle();
-        }
-        // Move to front
-        const index = existingThreads.indexOf(thread);
-        existingThreads.splice(index, 1);
-        existingThreads.unshift(thread);
-      }
+  async getThreadMessagesPage(
+    userId: string,
+    threadId: string,
+    options: { before?: string; limit?: number }
+  ): Promise<{ messages: unknown[]; nextCursor: string | null }> {
+    return this.threadStore(userId).getMessagesPage(threadId, options);
+  }
 
-      await kv.put(threadsKey, JSON.stringify(existingThreads));
+  async saveThreadMessages(
+    userId: string,
+    threadId: string,
+    update: ThreadMessagesUpdate
+  ): Promise<ThreadSummary> {
+    return this.threadStore(userId).saveMessages(threadId, update);
+  }
 
-      // Store user's last active thread for scheduled tasks
-      if (validatedThreadId !== "default") {
-        await kv.put(`${userId}:last_active_thread`, validatedThreadId);
-      }
+  async deleteThread(userId: string, threadId: string): Promise<boolean> {
+    return this.threadStore(userId).deleteThread(threadId);
+  }
 
-      // Notify frontend about thread update
-      console.log(
-        `[THREAD_UPDATED] ${userId}:${validatedThreadId} - Thread metadata updated`
-      );
-    } catch (e) {
-      console.error(`Failed to update thread metadata for user ${userId}:`, e);
-    }
+  async getLastActiveThread(userId: string): Promise<string | null> {
+    return this.threadStore(userId).getLastActiveThread();
   }
 
   private generateThreadTitle(): string {
@@ -471,7 +784,7 @@ If the user asks to schedule a task, use the schedule tool to schedule the task.
         );
       }
     }
-    return `New Chat ${new Date().toLocaleDateString()}`;
+    return defaultThreadTitle();
   }
 }
 
@@ -663,13 +976,24 @@ export default {
           );
         }
 
-        // Create session
+        // Create session, recorded server-side so it can be revoked
+        const userId = githubUser.id.toString();
+        const sid = await createSessionRecord(
+          env.DB,
+          {
+            userId,
+            username: githubUser.login,
+            expiresAt: new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000),
+          },
+          getSessionClientInfo(request)
+        );
         const sessionData: SessionData = {
-          userId: githubUser.id.toString(),
+          userId,
           username: githubUser.login,
           accessToken: accessToken, // Store token if you need to make further GitHub API calls
+          sid,
         };
-        const sessionCookie = createSessionCookie(sessionData);
+        const sessionCookie = await createSessionCookie(sessionData);
 
         const headers = new Headers({
           Location: "http://localhost:5173/", // Redirect to frontend after login
@@ -691,8 +1015,12 @@ export default {
       }
     }
 
-    // Route: /auth/logout - Clear session and redirect
+    // Route: /auth/logout - Revoke the session, clear the cookie and redirect
     if (url.pathname === "/auth/logout") {
+      const session = await getSession(request, { db: env.DB });
+      if (session?.sid) {
+        await revokeSession(env.DB, session.userId, session.sid);
+      }
       const sessionClearCookie = clearSessionCookie();
       return new Response(null, {
         status: 302,
@@ -705,7 +1033,7 @@ export default {
 
     // Route: /auth/me - Get current session user (for frontend)
     if (url.pathname === "/auth/me") {
-      const session = await getSession(request); // getSession is async
+      const session = await getSession(request, { db: env.DB }); // getSession is async
       if (session) {
         return new Response(
           JSON.stringify({
@@ -732,7 +1060,7 @@ export default {
       "/auth/logout",
       "/auth/me", // Added /auth/me
       "/check-open-ai-key",
-      "/api/check-open-ai-key",  // Add this line to allow the API endpoint
+      "/api/check-open-ai-key", // Add this line to allow the API endpoint
       // Add any other public static asset paths if they are served through this worker
       // and not via a separate routing rule or 'assets' configuration in wrangler.jsonc.
       // For example, if you have CSS or JS files directly served.
@@ -741,7 +1069,7 @@ export default {
 
     // --- Authentication Middleware Logic ---
     if (!publicPaths.includes(url.pathname)) {
-      const session = await getSession(request); // getSession is async
+      const session = await getSession(request, { db: env.DB }); // getSession is async
 
       if (!session) {
         const acceptHeader = request.headers.get("Accept");
@@ -784,10 +1112,9 @@ export default {
     }
     // --- End of Authentication Middleware Logic ---
 
-    // Route for /threads - Get all threads for user (GET) or create new thread (POST)
-    if (url.pathname === "/threads") {
-      const session = await getSession(request);
-
+    // Routes: /auth/sessions - List and revoke the user's sessions
+    if (url.pathname.startsWith("/auth/sessions")) {
+      const session = await getSession(request, { db: env.DB });
       if (!session?.userId) {
         return new Response(
           JSON.stringify({ error: "Authentication required" }),
@@ -798,28 +1125,75 @@ export default {
         );
       }
 
-      const userId = session.userId;
-      const kv = env.CHAT_HISTORY_KV;
+      if (url.pathname === "/auth/sessions" && request.method === "GET") {
+        const sessions = await listSessions(env.DB, session.userId);
+        return Response.json({
+          sessions: sessions.map((record) => ({
+            id: record.id,
+            userAgent: record.userAgent,
+            ip: record.ip,
+            createdAt: record.createdAt,
+            lastSeenAt: record.lastSeenAt,
+            expiresAt: record.expiresAt,
+            current: record.id === session.sid,
+          })),
+        });
+      }
 
-      if (!kv) {
-        if (request.method === "GET") {
-          return new Response(JSON.stringify([]), {
-            status: 200,
-            headers: { "Content-Type": "application/json" },
-          });
-        } else {
-          return new Response(JSON.stringify({ error: "KV not available" }), {
-            status: 500,
+      // Log out all devices, including this one
+      if (url.pathname === "/auth/sessions" && request.method === "DELETE") {
+        const revoked = await revokeAllSessions(env.DB, session.userId);
+        return new Response(JSON.stringify({ revoked }), {
+          headers: {
+            "Content-Type": "application/json",
+            "Set-Cookie": clearSessionCookie(),
+          },
+        });
+      }
+
+      const sessionIdMatch = url.pathname.match(/^\/auth\/sessions\/([^\/]+)$/);
+      if (sessionIdMatch && request.method === "DELETE") {
+        const sessionId = decodeURIComponent(sessionIdMatch[1]);
+        const revoked = await revokeSession(env.DB, session.userId, sessionId);
+        if (!revoked) {
+          return new Response(JSON.stringify({ error: "Session not found" }), {
+            status: 404,
             headers: { "Content-Type": "application/json" },
           });
         }
+        const headers = new Headers({ "Content-Type": "application/json" });
+        if (sessionId === session.sid) {
+          headers.set("Set-Cookie", clearSessionCookie());
+        }
+        return new Response(JSON.stringify({ success: true }), { headers });
+      }
+
+      return new Response(JSON.stringify({ error: "Not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Route for /threads - Get all threads for user (GET) or create new thread (POST)
+    if (url.pathname === "/threads") {
+      const session = await getSession(request, { db: env.DB });
+
+      if (!session?.userId) {
+        return new Response(
+          JSON.stringify({ error: "Authentication required" }),
+          {
+            status: 401,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
       }
 
+      const userId = session.userId;
+      const store = await getAgentByName(env.Chat, threadStoreName(userId));
+
       if (request.method === "GET") {
         try {
-          const threadsKey = `${userId}:threads`;
-          const threadsJson = await kv.get(threadsKey);
-          const threads = threadsJson ? JSON.parse(threadsJson) : [];
+          const threads = await store.listThreads(userId);
 
           return new Response(JSON.stringify(threads), {
             status: 200,
@@ -844,42 +1218,19 @@ export default {
           const threadId =
             body.threadId?.trim() || `thread_${crypto.randomUUID()}`;
 
-          const threadsKey = `${userId}:threads`;
-          const existingThreadsJson = await kv.get(threadsKey);
-          const existingThreads = existingThreadsJson
-            ? JSON.parse(existingThreadsJson)
-            : [];
-
-          // Check if thread already exists to prevent duplicates
-          const existingThread = existingThreads.find(
-            (t: any) => t.id === threadId
+          // Creating a thread that exists returns it, which prevents duplicates
+          const { thread, created } = await store.createThread(
+            userId,
+            threadId
           );
-          if (existingThread) {
-            return new Response(JSON.stringify({ thread: existingThread }), {
+          if (!created) {
+            return new Response(JSON.stringify({ thread }), {
               status: 200,
               headers: { "Content-Type": "application/json" },
             });
           }
 
-          // Create new thread
-          const newThread = {
-            id: threadId,
-            title: `New Chat ${new Date().toLocaleDateString()}`,
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString(),
-          };
-
-          // Add to beginning of threads list
-          existingThreads.unshift(newThread);
-
-          // Save threads list
-          await kv.put(threadsKey, JSON.stringify(existingThreads));
-
-          // Initialize empty thread messages
-          const threadKey = `${userId}:thread:${threadId}`;
-          await kv.put(threadKey, JSON.stringify([]));
-
-          return new Response(JSON.stringify(newThread), {
+          return new Response(JSON.stringify(thread), {
             status: 201,
             headers: { "Content-Type": "application/json" },
           });
@@ -898,7 +1249,7 @@ export default {
 
     // Route for /threads/:threadId - Get messages for specific thread
     if (url.pathname.startsWith("/threads/") && request.method === "GET") {
-      const session = await getSession(request);
+      const session = await getSession(request, { db: env.DB });
       if (!session?.userId) {
         return new Response(
           JSON.stringify({ error: "Authentication required" }),
@@ -911,25 +1262,49 @@ export default {
 
       const threadId = url.pathname.split("/threads/")[1];
       const userId = session.userId;
-      const kv = env.CHAT_HISTORY_KV;
 
-      if (!kv) {
-        return new Response(JSON.stringify([]), {
-          status: 200,
-          headers: { "Content-Type": "application/json" },
-        });
+      // With ?before=<messageId>&limit= the messages come in pages, newest first
+      const before = url.searchParams.get("before") || undefined;
+      const limitParam = url.searchParams.get("limit");
+      const limit = limitParam === null ? undefined : Number(limitParam);
+      if (
+        limit !== undefined &&
+        (!Number.isInteger(limit) ||
+          limit < 1 ||
+          limit > MAX_THREAD_MESSAGES_LIMIT)
+      ) {
+        return new Response(
+          JSON.stringify({
+            error: `limit must be a number from 1 to ${MAX_THREAD_MESSAGES_LIMIT}`,
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
       }
 
       try {
-        const threadKey = `${userId}:thread:${threadId}`;
-        const historyJson = await kv.get(threadKey);
-        const messages = historyJson ? JSON.parse(historyJson) : [];
-
-        return new Response(JSON.stringify(messages), {
+        const store = await getAgentByName(env.Chat, threadStoreName(userId));
+        const body =
+          before || limit !== undefined
+            ? await store.getThreadMessagesPage(userId, threadId, {
+                before,
+                limit,
+              })
+            : await store.getThreadMessages(userId, threadId);
+
+        return new Response(JSON.stringify(body), {
           status: 200,
           headers: { "Content-Type": "application/json" },
         });
       } catch (error) {
+        if (error instanceof Error && error.message === "Invalid cursor") {
+          return new Response(JSON.stringify({ error: error.message }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
         console.error(
           `Failed to retrieve thread ${threadId} for user ${userId}:`,
           error
@@ -946,7 +1321,7 @@ export default {
 
     // Route for /threads/:threadId - Delete specific thread
     if (url.pathname.startsWith("/threads/") && request.method === "DELETE") {
-      const session = await getSession(request);
+      const session = await getSession(request, { db: env.DB });
       if (!session?.userId) {
         return new Response(
           JSON.stringify({ error: "Authentication required" }),
@@ -959,28 +1334,10 @@ export default {
 
       const threadId = url.pathname.split("/threads/")[1];
       const userId = session.userId;
-      const kv = env.CHAT_HISTORY_KV;
-
-      if (!kv) {
-        return new Response(JSON.stringify({ error: "KV not available" }), {
-          status: 500,
-          headers: { "Content-Type": "application/json" },
-        });
-      }
 
       try {
-        // Delete thread messages
-        const threadKey = `${userId}:thread:${threadId}`;
-        await kv.delete(threadKey);
-
-        // Remove from threads list
-        const threadsKey = `${userId}:threads`;
-        const threadsJson = await kv.get(threadsKey);
-        if (threadsJson) {
-          const threads = JSON.parse(threadsJson);
-          const updatedThreads = threads.filter((t: any) => t.id !== threadId);
-          await kv.put(threadsKey, JSON.stringify(updatedThreads));
-        }
+        const store = await getAgentByName(env.Chat, threadStoreName(userId));
+        await store.deleteThread(userId, threadId);
 
         return new Response(JSON.stringify({ success: true }), {
           status: 200,
@@ -1003,7 +1360,7 @@ export default {
 
     // NEW: Route for /chat/history (Protected by the middleware above) - Legacy compatibility
     if (url.pathname === "/chat/history") {
-      const session = await getSession(request);
+      const session = await getSession(request, { db: env.DB });
 
       // This check is a safeguard. The middleware should have caught unauthenticated access.
       if (!session || !session.userId) {
@@ -1020,37 +1377,15 @@ export default {
       }
 
       const userId = session.userId;
-      const kv = env.CHAT_HISTORY_KV;
 
-      if (!kv) {
-        console.warn(
-          "CHAT_HISTORY_KV namespace not available when trying to load history for user:",
-          userId
-        );
-        // Return empty array instead of error for development mode
-        return new Response(JSON.stringify([]), {
+      try {
+        // For backward compatibility, return default thread
+        const store = await getAgentByName(env.Chat, threadStoreName(userId));
+        const messages = await store.getThreadMessages(userId, "default");
+        return new Response(JSON.stringify(messages), {
           status: 200,
           headers: { "Content-Type": "application/json" },
         });
-      }
-
-      try {
-        // For backward compatibility, return default thread
-        const threadKey = `${userId}:thread:default`;
-        const historyJson = await kv.get(threadKey);
-        if (historyJson) {
-          const messages: Message[] = JSON.parse(historyJson);
-          return new Response(JSON.stringify(messages), {
-            status: 200,
-            headers: { "Content-Type": "application/json" },
-          });
-        } else {
-          // No history found, return an empty array. This is a valid state.
-          return new Response(JSON.stringify([]), {
-            status: 200,
-            headers: { "Content-Type": "application/json" },
-          });
-        }
       } catch (error) {
         console.error(
           `Failed to retrieve or parse chat history for user ${userId}:`,
@@ -1072,12 +1407,12 @@ export default {
     // Route for /check-open-ai-key
     if (url.pathname === "/check-open-ai-key") {
       const hasOpenAIKey = !!env.OPENAI_API_KEY;
-      console.log('OpenAI Key Check:', {
+      console.log("OpenAI Key Check:", {
         hasKey: hasOpenAIKey,
-        keyLength: env.OPENAI_API_KEY?.length || 0
+        keyLength: env.OPENAI_API_KEY?.length || 0,
       });
       return Response.json({
-        success: hasOpenAIKey,  // Changed back to 'success' to match HasOpenAIKey component
+        success: hasOpenAIKey, // Changed back to 'success' to match HasOpenAIKey component
       });
     }
 
@@ -1091,26 +1426,56 @@ export default {
 
     // MCP Agent API Routes (Protected by authentication middleware)
     if (url.pathname.startsWith("/api/")) {
+      const session = await getSession(request, { db: env.DB });
+      if (!session?.userId) {
+        return new Response(
+          JSON.stringify({ error: "Authentication required" }),
+          {
+            status: 401,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      // Every agent and MCP query is scoped to the signed-in user
+      const userId = session.userId;
+
       // Agent management routes
       if (url.pathname === "/api/agents" && request.method === "GET") {
-        return agentAPI.getAgents(env);
+        return agentAPI.getAgents(env, userId);
       }
       if (url.pathname === "/api/agents" && request.method === "POST") {
-        return agentAPI.createAgent(request, env);
+        return agentAPI.createAgent(request, env, userId);
+      }
+      if (url.pathname === "/api/agents/import" && request.method === "POST") {
+        return agentAPI.importAgent(request, env, userId);
+      }
+      if (
+        url.pathname.match(/^\/api\/agents\/[^\/]+\/export$/) &&
+        request.method === "GET"
+      ) {
+        const agentId = url.pathname.split("/")[3];
+        return agentAPI.exportAgent(env, userId, agentId);
       }
       if (
         url.pathname.match(/^\/api\/agents\/[^\/]+$/) &&
         request.method === "PUT"
       ) {
         const agentId = url.pathname.split("/").pop()!;
-        return agentAPI.updateAgent(request, env, agentId);
+        return agentAPI.updateAgent(request, env, userId, agentId);
       }
       if (
         url.pathname.match(/^\/api\/agents\/[^\/]+$/) &&
         request.method === "DELETE"
       ) {
         const agentId = url.pathname.split("/").pop()!;
-        return agentAPI.deleteAgent(env, agentId);
+        return agentAPI.deleteAgent(env, userId, agentId);
+      }
+      if (
+        url.pathname.match(/^\/api\/agents\/[^\/]+\/tools$/) &&
+        request.method === "GET"
+      ) {
+        const agentId = url.pathname.split("/")[3];
+        return agentAPI.getAgentTools(env, userId, agentId);
       }
 
       // Thread-agent routes
@@ -1119,14 +1484,14 @@ export default {
         request.method === "GET"
       ) {
         const threadId = url.pathname.split("/")[3];
-        return agentAPI.getThreadAgents(env, threadId);
+        return agentAPI.getThreadAgents(env, userId, threadId);
       }
       if (
         url.pathname.match(/^\/api\/threads\/[^\/]+\/agents$/) &&
         request.method === "POST"
       ) {
         const threadId = url.pathname.split("/")[3];
-        return agentAPI.addAgentToThread(request, env, threadId);
+        return agentAPI.addAgentToThread(request, env, userId, threadId);
       }
       if (
         url.pathname.match(/^\/api\/threads\/[^\/]+\/agents\/[^\/]+$/) &&
@@ -1135,7 +1500,65 @@ export default {
         const pathParts = url.pathname.split("/");
         const threadId = pathParts[3];
         const agentId = pathParts[5];
-        return agentAPI.removeAgentFromThread(env, threadId, agentId);
+        return agentAPI.removeAgentFromThread(env, userId, threadId, agentId);
+      }
+
+      // Thread settings routes
+      if (
+        url.pathname.match(/^\/api\/threads\/[^\/]+\/settings$/) &&
+        request.method === "GET"
+      ) {
+        const threadId = url.pathname.split("/")[3];
+        return agentAPI.getThreadSettings(env, userId, threadId);
+      }
+      if (
+        url.pathname.match(/^\/api\/threads\/[^\/]+\/settings$/) &&
+        request.method === "PUT"
+      ) {
+        const threadId = url.pathname.split("/")[3];
+        return agentAPI.updateThreadSettings(request, env, userId, threadId);
+      }
+
+      // Tool approval policy routes
+      if (url.pathname === "/api/tool-policies" && request.method === "GET") {
+        return agentAPI.getToolPolicies(env, userId);
+      }
+      if (url.pathname === "/api/tool-policies" && request.method === "POST") {
+        const store = await getAgentByName(env.Chat, threadStoreName(userId));
+        return agentAPI.createToolPolicy(request, env, userId, (threadId) =>
+          store.hasThread(userId, threadId)
+        );
+      }
+      if (
+        url.pathname.match(/^\/api\/tool-policies\/[^\/]+$/) &&
+        request.method === "DELETE"
+      ) {
+        const policyId = url.pathname.split("/").pop()!;
+        return agentAPI.deleteToolPolicy(env, userId, policyId);
+      }
+
+      // Approve or deny an MCP server's sampling request waiting in a chat
+      if (
+        url.pathname.match(/^\/api\/threads\/[^\/]+\/sampling\/[^\/]+$/) &&
+        request.method === "POST"
+      ) {
+        const pathParts = url.pathname.split("/");
+        const threadId = pathParts[3];
+        const requestId = pathParts[5];
+        const chat = await getAgentByName(env.Chat, `${userId}-${threadId}`);
+        return agentAPI.answerSamplingRequest(request, (approved) =>
+          chat.resolveSamplingRequest(requestId, approved)
+        );
+      }
+
+      // Tool execution audit log
+      if (url.pathname === "/api/tool-executions" && request.method === "GET") {
+        return agentAPI.getToolExecutions(url, env, userId);
+      }
+
+      // Model registry
+      if (url.pathname === "/api/models" && request.method === "GET") {
+        return Response.json({ providers: listModelProviders(env) });
       }
 
       // Thread-MCP server routes
@@ -1144,14 +1567,14 @@ export default {
         request.method === "GET"
       ) {
         const threadId = url.pathname.split("/")[3];
-        return agentAPI.getThreadMCPServers(env, threadId);
+        return agentAPI.getThreadMCPServers(env, userId, threadId);
       }
       if (
         url.pathname.match(/^\/api\/threads\/[^\/]+\/mcp-servers$/) &&
         request.method === "POST"
       ) {
         const threadId = url.pathname.split("/")[3];
-        return agentAPI.addMCPServerToThread(request, env, threadId);
+        return agentAPI.addMCPServerToThread(request, env, userId, threadId);
       }
       if (
         url.pathname.match(/^\/api\/threads\/[^\/]+\/mcp-servers\/[^\/]+$/) &&
@@ -1160,63 +1583,158 @@ export default {
         const pathParts = url.pathname.split("/");
         const threadId = pathParts[3];
         const serverId = pathParts[5];
-        return agentAPI.removeMCPServerFromThread(env, threadId, serverId);
+        return agentAPI.removeMCPServerFromThread(
+          env,
+          userId,
+          threadId,
+          serverId
+        );
+      }
+      if (
+        url.pathname.match(/^\/api\/threads\/[^\/]+\/mcp-servers\/[^\/]+$/) &&
+        request.method === "PUT"
+      ) {
+        const pathParts = url.pathname.split("/");
+        const threadId = pathParts[3];
+        const serverId = pathParts[5];
+        return agentAPI.updateThreadMCPServer(
+          request,
+          env,
+          userId,
+          threadId,
+          serverId
+        );
+      }
+
+      // Thread MCP resource routes
+      if (
+        url.pathname.match(/^\/api\/threads\/[^\/]+\/mcp-resources$/) &&
+        request.method === "GET"
+      ) {
+        const threadId = url.pathname.split("/")[3];
+        return agentAPI.getThreadMCPResources(env, userId, threadId);
+      }
+      if (
+        url.pathname.match(/^\/api\/threads\/[^\/]+\/mcp-resources\/read$/) &&
+        request.method === "POST"
+      ) {
+        const threadId = url.pathname.split("/")[3];
+        return agentAPI.readThreadMCPResource(request, env, userId, threadId);
+      }
+
+      // Thread MCP prompt routes
+      if (
+        url.pathname.match(/^\/api\/threads\/[^\/]+\/mcp-prompts$/) &&
+        request.method === "GET"
+      ) {
+        const threadId = url.pathname.split("/")[3];
+        return agentAPI.getThreadMCPPrompts(env, userId, threadId);
+      }
+      if (
+        url.pathname.match(/^\/api\/threads\/[^\/]+\/mcp-prompts\/get$/) &&
+        request.method === "POST"
+      ) {
+        const threadId = url.pathname.split("/")[3];
+        return agentAPI.getThreadMCPPrompt(request, env, userId, threadId);
       }
 
       // MCP group routes
       if (url.pathname === "/api/mcp-groups" && request.method === "GET") {
-        return agentAPI.getMCPGroups(env);
+        return agentAPI.getMCPGroups(env, userId);
       }
       if (url.pathname === "/api/mcp-groups" && request.method === "POST") {
-        return agentAPI.createMCPGroup(request, env);
+        return agentAPI.createMCPGroup(request, env, userId);
       }
 
       // MCP server routes
       if (url.pathname === "/api/mcp-servers" && request.method === "POST") {
-        return agentAPI.createMCPServer(request, env);
+        return agentAPI.createMCPServer(request, env, userId);
       }
       if (
         url.pathname.match(/^\/api\/mcp-servers\/[^\/]+$/) &&
         request.method === "PUT"
       ) {
         const serverId = url.pathname.split("/")[3];
-        return agentAPI.updateMCPServer(request, env, serverId);
+        return agentAPI.updateMCPServer(request, env, userId, serverId);
       }
       if (
         url.pathname.match(/^\/api\/mcp-servers\/[^\/]+$/) &&
         request.method === "DELETE"
       ) {
         const serverId = url.pathname.split("/")[3];
-        return agentAPI.deleteMCPServer(env, serverId);
+        return agentAPI.deleteMCPServer(env, userId, serverId);
       }
 
       // Independent MCP server routes
-      if (url.pathname === "/api/mcp-servers-independent" && request.method === "GET") {
-        return agentAPI.getIndependentMCPServers(env);
+      if (
+        url.pathname === "/api/mcp-servers-independent" &&
+        request.method === "GET"
+      ) {
+        return agentAPI.getIndependentMCPServers(env, userId);
       }
-      if (url.pathname === "/api/mcp-servers-independent" && request.method === "POST") {
-        return agentAPI.createIndependentMCPServer(request, env);
+      if (
+        url.pathname === "/api/mcp-servers-independent/health" &&
+        request.method === "GET"
+      ) {
+        return agentAPI.getMCPServerHealth(env, userId);
+      }
+      if (
+        url.pathname === "/api/mcp-servers-independent" &&
+        request.method === "POST"
+      ) {
+        return agentAPI.createIndependentMCPServer(request, env, userId);
+      }
+      if (
+        url.pathname === "/api/mcp-servers-independent/import" &&
+        request.method === "POST"
+      ) {
+        return agentAPI.importIndependentMCPServers(request, env, userId);
       }
       if (
         url.pathname.match(/^\/api\/mcp-servers-independent\/[^\/]+$/) &&
         request.method === "PUT"
       ) {
         const serverId = url.pathname.split("/")[3];
-        return agentAPI.updateIndependentMCPServer(request, env, serverId);
+        return agentAPI.updateIndependentMCPServer(
+          request,
+          env,
+          userId,
+          serverId
+        );
       }
       if (
         url.pathname.match(/^\/api\/mcp-servers-independent\/[^\/]+$/) &&
         request.method === "DELETE"
       ) {
         const serverId = url.pathname.split("/")[3];
-        return agentAPI.deleteIndependentMCPServer(env, serverId);
+        return agentAPI.deleteIndependentMCPServer(env, userId, serverId);
       }
       if (
         url.pathname.match(/^\/api\/mcp-servers-independent\/[^\/]+\/test$/) &&
         request.method === "POST"
       ) {
         const serverId = url.pathname.split("/")[3];
-        return agentAPI.testIndependentMCPServer(env, serverId);
+        return agentAPI.testIndependentMCPServer(env, userId, serverId);
+      }
+      if (
+        url.pathname.match(
+          /^\/api\/mcp-servers-independent\/[^\/]+\/oauth\/start$/
+        ) &&
+        request.method === "POST"
+      ) {
+        const serverId = url.pathname.split("/")[3];
+        return agentAPI.startIndependentMCPServerOAuth(
+          request,
+          env,
+          userId,
+          serverId
+        );
+      }
+      if (
+        url.pathname === "/api/mcp-servers-independent/oauth/callback" &&
+        request.method === "GET"
+      ) {
+        return agentAPI.completeIndependentMCPServerOAuth(request, env, userId);
       }
 
       // Return 404 for unhandled API routes
@@ -1294,6 +1812,16 @@ export default {
       // Potentially return an error if this is a route that requires OpenAI
     }
 
+    // Chat agents are named "userId-threadId", only connect users to their own
+    const agentPathMatch = url.pathname.match(/^\/agents\/[^\/]+\/([^\/]+)/);
+    if (agentPathMatch) {
+      const session = await getSession(request, { db: env.DB });
+      const agentName = decodeURIComponent(agentPathMatch[1]);
+      if (!session?.userId || !agentName.startsWith(`${session.userId}-`)) {
+        return new Response("Not found", { status: 404 });
+      }
+    }
+
     // Fallback to agent routing for other paths (e.g., the main chat agent interaction endpoint)
     const agentResponse = await routeAgentRequest(request, env, {
       cors: true,
@@ -1304,4 +1832,15 @@ export default {
 
     return new Response("Not found", { status: 404 });
   },
+
+  /**
+   * Cron trigger that checks the health of every enabled MCP server
+   */
+  async scheduled(
+    _controller: ScheduledController,
+    env: Env,
+    ctx: ExecutionContext
+  ) {
+    ctx.waitUntil(runMCPHealthChecks(env.DB));
+  },
 } satisfies ExportedHandler<Env>;
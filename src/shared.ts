@@ -3,3 +3,39 @@ export const APPROVAL = {
   YES: "Yes, confirmed.",
   NO: "No, denied.",
 } as const;
+
+export type AlwaysAllowScope = "thread" | "agent";
+
+// Approval that runs a tool with edited arguments or stops asking for it
+export interface ToolApproval {
+  approval: typeof APPROVAL.YES;
+  args?: Record<string, unknown>;
+  alwaysAllow?: AlwaysAllowScope;
+}
+
+/**
+ * Read the approval the user sent as a tool result, null for anything else
+ */
+export function parseToolApproval(result: unknown): ToolApproval | null {
+  if (result === APPROVAL.YES) return { approval: APPROVAL.YES };
+  if (
+    typeof result !== "object" ||
+    result === null ||
+    (result as ToolApproval).approval !== APPROVAL.YES
+  ) {
+    return null;
+  }
+
+  const { args, alwaysAllow } = result as ToolApproval;
+  return {
+    approval: APPROVAL.YES,
+    args:
+      typeof args === "object" && args !== null && !Array.isArray(args)
+        ? args
+        : undefined,
+    alwaysAllow:
+      alwaysAllow === "thread" || alwaysAllow === "agent"
+        ? alwaysAllow
+        : undefined,
+  };
+}
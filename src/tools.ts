@@ -9,7 +9,12 @@ import { z } from "zod";
 import type { Chat } from "./server";
 import { getCurrentAgent } from "agents";
 import { unstable_scheduleSchema } from "agents/schedule";
-import { mcpConnectionManager } from "./lib/mcp-connection";
+import type {
+  MCPChatToolsOptions,
+  MCPConnectionManager,
+} from "./lib/mcp-connection";
+import { toolErrorResult } from "./lib/mcp-tool-calls";
+import { filterToolsByPolicy, getThreadToolPolicy } from "./lib/tool-rules";
 import type { MCPTool } from "./types/mcp";
 
 /**
@@ -145,7 +150,10 @@ export const executions = {
  * Get MCP tools for a specific thread based on its active agents and assigned MCP servers
  * This queries the database and establishes MCP connections to provide real available tools
  */
-async function getMCPToolsForThread(threadId: string): Promise<Record<string, any>> {
+async function getMCPToolsForThread(
+  threadId: string,
+  manager: MCPConnectionManager
+): Promise<Record<string, any>> {
   const mcpTools: Record<string, any> = {};
 
   try {
@@ -184,7 +192,7 @@ async function getMCPToolsForThread(threadId: string): Promise<Record<string, an
 
     try {
       // Try to connect to the math server if available
-      const connection = await mcpConnectionManager.connectToServer(testMathServerConfig);
+      const connection = await manager.connectToServer(testMathServerConfig);
       
       if (connection.status === "connected" && connection.tools.length > 0) {
         console.log(`[MCP] Connected to ${testMathServerConfig.name}, found ${connection.tools.length} tools`);
@@ -192,7 +200,7 @@ async function getMCPToolsForThread(threadId: string): Promise<Record<string, an
         // Convert MCP tools to the format expected by the AI system
         for (const mcpTool of connection.tools) {
           const toolName = `mcp_${mcpTool.serverId}_${mcpTool.name}`;
-          mcpTools[toolName] = createMCPToolWrapper(mcpTool);
+          mcpTools[toolName] = createMCPToolWrapper(mcpTool, manager);
           console.log(`[MCP] Added tool: ${toolName} - ${mcpTool.description}`);
         }
       }
@@ -232,7 +240,7 @@ async function getMCPToolsForThread(threadId: string): Promise<Record<string, an
         // Connect to all servers and collect their tools
         for (const serverConfig of [...threadMCPServers.results, ...groupServers.results]) {
           try {
-            const connection = await mcpConnectionManager.connectToServer(serverConfig);
+            const connection = await manager.connectToServer(serverConfig);
             if (connection.status === "connected") {
               for (const mcpTool of connection.tools) {
                 const toolName = `mcp_${mcpTool.serverId}_${mcpTool.name}`;
@@ -261,7 +269,9 @@ async function getMCPToolsForThread(threadId: string): Promise<Record<string, an
  */
 export async function getCombinedToolsForThread(
   threadId: string,
-  db?: any // D1Database instance
+  db: any, // D1Database instance
+  userId: string,
+  options: MCPChatToolsOptions
 ): Promise<Record<string, any>> {
   // Start with built-in tools
   const combinedTools = { ...tools };
@@ -273,11 +283,19 @@ export async function getCombinedToolsForThread(
     if (db) {
       // Use database-aware version from mcp-connection.ts
       mcpTools = await import('./lib/mcp-connection').then(module => 
-        module.getMCPToolsForThread(threadId, db)
+        module.getMCPToolsForThread(threadId, db, userId, options)
+      );
+      // Only offer the tools the agents' and assignments' rules allow
+      mcpTools = filterToolsByPolicy(
+        mcpTools,
+        await getThreadToolPolicy(threadId, db, userId)
       );
     } else {
       // Fallback to local implementation for threads without database context
-      mcpTools = await getMCPToolsForThread(threadId);
+      mcpTools = await getMCPToolsForThread(
+        threadId,
+        options.connectionManager
+      );
     }
     
     Object.assign(combinedTools, mcpTools);
@@ -296,7 +314,9 @@ export async function getCombinedToolsForThread(
  */
 export async function getCombinedExecutionsForThread(
   threadId: string,
-  db?: any // D1Database instance  
+  db: any, // D1Database instance
+  userId: string,
+  options: MCPChatToolsOptions
 ): Promise<Record<string, any>> {
   // Start with built-in executions
   const combinedExecutions = { ...executions };
@@ -308,7 +328,12 @@ export async function getCombinedExecutionsForThread(
     if (db) {
       // Use database-aware version from mcp-connection.ts
       mcpExecutions = await import('./lib/mcp-connection').then(module =>
-        module.getMCPExecutionsForThread(threadId, db)
+        module.getMCPExecutionsForThread(threadId, db, userId, options)
+      );
+      // A denied tool must not run even if a stale client asks for it
+      mcpExecutions = filterToolsByPolicy(
+        mcpExecutions,
+        await getThreadToolPolicy(threadId, db, userId)
       );
     } else {
       // Fallback to local implementation
@@ -341,7 +366,7 @@ async function getMCPExecutionsForThread(threadId: string): Promise<Record<strin
     // For tools that were added in getMCPToolsForThread and require confirmation,
     // we need to create corresponding execution functions here
     
-    // The execution functions will use the mcpConnectionManager to actually
+    // The execution functions will use the chat's connection pool to actually
     // call the MCP server tools after user confirmation
 
     // TODO: Query database to get MCP servers for this thread
@@ -353,13 +378,11 @@ async function getMCPExecutionsForThread(threadId: string): Promise<Record<strin
       const mcpServers = await getMCPServersForThread(threadId, env.DB);
       
       for (const server of mcpServers) {
-        const connection = mcpConnectionManager.getConnectionStatus(server.id);
+        const connection = manager.getConnectionStatus(server.id);
         if (connection?.status === "connected") {
           for (const tool of connection.tools) {
-            if (tool.requiresConfirmation) {
-              const executionName = `mcp_${tool.serverId}_${tool.name}`;
-              mcpExecutions[executionName] = createMCPExecutionWrapper(tool);
-            }
+            const executionName = `mcp_${tool.serverId}_${tool.name}`;
+            mcpExecutions[executionName] = createMCPExecutionWrapper(tool);
           }
         }
       }
@@ -378,52 +401,49 @@ async function getMCPExecutionsForThread(threadId: string): Promise<Record<strin
  * Create MCP tool wrapper that follows the same pattern as built-in tools
  * This converts MCP tools to the format expected by the AI system
  */
-export function createMCPToolWrapper(mcpTool: MCPTool) {
-  const { name, description, schema, requiresConfirmation, serverId } = mcpTool;
-
-  if (requiresConfirmation) {
-    // Create tool that requires confirmation (no execute function)
-    return tool({
-      description,
-      parameters: z.object(schema.properties || {}),
-      // No execute function = requires confirmation
-    });
-  } else {
-    // Create auto-executing tool
-    return tool({
-      description,
-      parameters: z.object(schema.properties || {}),
-      execute: async (parameters: any) => {
-        try {
-          const execution = await mcpConnectionManager.executeTool(
-            serverId,
-            name,
-            parameters
-          );
-
-          if (execution.error) {
-            console.error(`MCP tool ${name} failed:`, execution.error);
-            return `Tool temporarily unavailable: ${execution.error}`;
-          }
-
-          return execution.result;
-        } catch (error) {
-          console.error(`MCP tool execution error:`, error);
-          return `Tool temporarily unavailable. Please try again later.`;
+export function createMCPToolWrapper(
+  mcpTool: MCPTool,
+  manager: MCPConnectionManager
+) {
+  const { name, description, schema, serverId } = mcpTool;
+
+  // Tool approval policies decide whether the call waits for confirmation
+  return tool({
+    description,
+    parameters: z.object(schema.properties || {}),
+    execute: async (parameters: any) => {
+      try {
+        const execution = await manager.executeTool(
+          serverId,
+          name,
+          parameters
+        );
+
+        if (execution.error) {
+          console.error(`MCP tool ${name} failed:`, execution.error);
+          return toolErrorResult(`Tool temporarily unavailable: ${execution.error}`);
         }
-      },
-    });
-  }
+
+        return execution.result;
+      } catch (error) {
+        console.error(`MCP tool execution error:`, error);
+        return toolErrorResult(`Tool temporarily unavailable. Please try again later.`);
+      }
+    },
+  });
 }
 
 /**
  * Create MCP execution function for confirmation-required tools
  * This handles the actual execution after user confirmation
  */
-export function createMCPExecutionWrapper(mcpTool: MCPTool) {
+export function createMCPExecutionWrapper(
+  mcpTool: MCPTool,
+  manager: MCPConnectionManager
+) {
   return async (parameters: any) => {
     try {
-      const execution = await mcpConnectionManager.executeTool(
+      const execution = await manager.executeTool(
         mcpTool.serverId,
         mcpTool.name,
         parameters
@@ -443,5 +463,4 @@ export function createMCPExecutionWrapper(mcpTool: MCPTool) {
 }
 
 // Export MCP utilities for use in other parts of the system
-export { mcpConnectionManager } from "./lib/mcp-connection";
 export type { MCPTool } from "./types/mcp";
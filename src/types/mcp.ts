@@ -7,6 +7,10 @@ export interface Agent {
     mcpGroupIds: string[];
     userId: string;
     color: string;
+    model?: string | null; // "provider:model" spec, e.g. "openai:gpt-4o-2024-11-20"
+    temperature?: number | null;
+    maxTokens?: number | null;
+    toolRules?: ToolRules | null;
     isActive: boolean;
     lastUsed?: Date;
     usageCount: number;
@@ -14,6 +18,13 @@ export interface Agent {
     updatedAt: Date;
 }
 
+// Glob patterns (* and ?) of tool names, deny wins over allow and an empty
+// allow list allows every tool
+export interface ToolRules {
+    allow: string[];
+    deny: string[];
+}
+
 export interface MCPGroup {
     id: string;
     name: string;
@@ -24,7 +35,7 @@ export interface MCPGroup {
         id: string;
         name: string;
         url: string;
-        transport: "websocket" | "sse";
+        transport: "websocket" | "sse" | "streamable-http";
         status: "connected" | "disconnected" | "error" | "authenticating" | "pending_auth";
         isEnabled: boolean;
     }[];
@@ -32,29 +43,36 @@ export interface MCPGroup {
     createdAt: Date;
 }
 
+export interface MCPCredentials {
+    apiKey?: string;
+    username?: string;
+    password?: string;
+    oauth2?: {
+        clientId: string;
+        clientSecret?: string;
+        authUrl: string;
+        tokenUrl: string;
+        scopes?: string[];
+    };
+    customHeaders?: Record<string, string>;
+}
+
 export interface MCPServerConfig {
     id: string;
     name: string;
     url: string;
-    transport: "websocket" | "sse";
+    transport: "websocket" | "sse" | "streamable-http";
     userId: string;
     groupId: string;
-    auth: {
+    auth: MCPCredentials & {
         type: "none" | "apikey" | "basic" | "oauth2" | "custom";
-        apiKey?: string;
-        username?: string;
-        password?: string;
-        oauth2?: {
-            clientId: string;
-            authUrl: string;
-            tokenUrl: string;
-            scopes?: string[];
-        };
-        customHeaders?: Record<string, string>;
     };
+    encryptedCredentials?: string | null; // Stored credentials, only decrypted when connecting
+    encryptedOAuthTokens?: string | null; // Stored OAuthTokens for oauth2 servers
     status: "connected" | "disconnected" | "error" | "authenticating" | "pending_auth";
     isEnabled: boolean;
     tools?: string[];
+    toolTimeouts?: Record<string, number>; // Milliseconds per tool name
     lastTested?: Date;
     createdAt: Date;
     updatedAt: Date;
@@ -65,12 +83,13 @@ export interface IndependentMCPServer {
     name: string;
     description?: string;
     url: string;
-    transport: "websocket" | "sse";
+    transport: "websocket" | "sse" | "streamable-http";
     authType: "none" | "apikey" | "basic" | "oauth2" | "custom";
-    authConfig?: any;
+    hasCredentials?: boolean; // Credentials are write-only, the API never returns them
     isEnabled: boolean;
     status?: "connected" | "disconnected" | "error" | "authenticating" | "pending_auth";
     tools?: string[];
+    toolTimeouts?: Record<string, number>; // Milliseconds per tool name
     lastTested?: Date;
     createdAt: Date;
     updatedAt: Date;
@@ -109,8 +128,11 @@ export interface MCPNotificationExtension {
     | "mcp_auth_required"
     | "tools_updated"
     | "mcp_connection_failed"
-    | "agent_switched";
+    | "agent_switched"
+    | "sampling_request";
     mcpActionRequired?: boolean;
+    // Sampling request of an MCP server waiting for the user's approval
+    samplingRequestId?: string;
     toolSource?: "builtin" | "mcp";
     toolName?: string;
     specialistChange?: {
@@ -128,7 +150,61 @@ export interface MCPTool {
     serverId: string;
     serverName: string;
     schema: any; // JSON schema for the tool's parameters
-    requiresConfirmation?: boolean;
+    annotations?: MCPToolAnnotations;
+}
+
+// Hints a server gives about a tool, they are defaults for tool approval policies
+export interface MCPToolAnnotations {
+    title?: string;
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+    idempotentHint?: boolean;
+    openWorldHint?: boolean;
+}
+
+export interface MCPResource {
+    uri: string;
+    name: string;
+    title?: string;
+    description?: string;
+    mimeType?: string;
+    serverId: string;
+    serverName: string;
+}
+
+// Parameterized resources, e.g. "github://repos/{owner}/{repo}/readme"
+export interface MCPResourceTemplate {
+    uriTemplate: string;
+    name: string;
+    title?: string;
+    description?: string;
+    mimeType?: string;
+    serverId: string;
+    serverName: string;
+}
+
+// One item of a resources/read result, binary contents are base64 in `blob`
+export interface MCPResourceContent {
+    uri: string;
+    mimeType?: string;
+    text?: string;
+    blob?: string;
+}
+
+export interface MCPPromptArgument {
+    name: string;
+    description?: string;
+    required?: boolean;
+}
+
+// Prompt template published by a server through prompts/list
+export interface MCPPrompt {
+    name: string;
+    title?: string;
+    description?: string;
+    arguments: MCPPromptArgument[];
+    serverId: string;
+    serverName: string;
 }
 
 export interface MCPToolExecution {
@@ -153,16 +229,30 @@ export interface OAuthFlowState {
     | "completed"
     | "failed";
     authUrl?: string;
+    redirectUri: string;
+    error?: string;
     expiresAt: Date;
     createdAt: Date;
 }
 
+// Tokens from an OAuth2 authorization, stored encrypted
+export interface OAuthTokens {
+    accessToken: string;
+    refreshToken?: string;
+    expiresAt?: number; // Milliseconds since epoch
+    scope?: string;
+}
+
 // MCP Client connection management
 export interface MCPConnection {
     serverId: string;
     status: "connecting" | "connected" | "disconnected" | "error";
     client?: any; // MCP client instance
+    transport?: "websocket" | "sse" | "streamable-http"; // Transport in use, differs from the config after a fallback to SSE
     tools: MCPTool[];
+    resources: MCPResource[];
+    resourceTemplates: MCPResourceTemplate[];
+    prompts: MCPPrompt[];
     lastError?: string;
     retryCount: number;
     lastConnected?: Date;
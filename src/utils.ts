@@ -1,6 +1,6 @@
 // via https://github.com/vercel/ai/blob/main/examples/next-openai/app/api/use-chat-human-in-the-loop/utils.ts
 
-import { formatDataStreamPart, type Message } from "@ai-sdk/ui-utils";
+import { asSchema, formatDataStreamPart, type Message } from "@ai-sdk/ui-utils";
 import {
   convertToCoreMessages,
   type DataStreamWriter,
@@ -8,7 +8,28 @@ import {
   type ToolSet,
 } from "ai";
 import type { z } from "zod";
-import { APPROVAL } from "./shared";
+import { APPROVAL, parseToolApproval } from "./shared";
+import type { ToolDecision } from "./lib/tool-policies";
+
+// A tool call that didn't run, with why
+export interface DeniedToolCall {
+  toolName: string;
+  toolCallId: string;
+  args: unknown;
+  reason: string;
+}
+
+// Zod lists what's wrong with each argument, JSON schemas only have a message
+function validationMessage(error: Error): string {
+  if (!("issues" in error)) return error.message;
+  return (error as z.ZodError).issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message
+    )
+    .join(", ");
+}
 
 function isValidToolName<K extends PropertyKey, T extends object>(
   key: K,
@@ -19,11 +40,15 @@ function isValidToolName<K extends PropertyKey, T extends object>(
 
 /**
  * Processes tool invocations where human input is required, executing tools when authorized.
+ * An approval is either `APPROVAL.YES` or a `ToolApproval` carrying the arguments the user edited, which replace the model's in the returned messages.
  *
  * @param options - The function options
- * @param options.tools - Map of tool names to Tool instances that may expose execute functions
+ * @param options.tools - Map of tool names to Tool instances, approved calls of tools that run automatically use their execute function
  * @param options.dataStream - Data stream for sending results back to the client
  * @param options.messages - Array of messages to process
+ * @param options.abortSignal - Signal that cancels the executed tools when the chat is stopped
+ * @param options.decisions - Approval policy decisions by tool name, denied tools never run even when approved
+ * @param options.onToolDenied - Called for each call the user rejected or a tool policy denied
  * @param executionFunctions - Map of tool names to execute functions
  * @returns Promise resolving to the processed messages
  */
@@ -36,13 +61,20 @@ export async function processToolCalls<
       : Tool]: Tools[Tool];
   },
 >({
+  tools,
   dataStream,
   messages,
   executions,
+  abortSignal,
+  decisions = {},
+  onToolDenied,
 }: {
-  tools: Tools; // used for type inference
+  tools: Tools;
   dataStream: DataStreamWriter;
   messages: Message[];
+  abortSignal?: AbortSignal;
+  decisions?: Record<string, ToolDecision>;
+  onToolDenied?: (call: DeniedToolCall) => Promise<void>;
   executions: {
     [K in keyof Tools & keyof ExecutableTools]?: (
       args: z.infer<ExecutableTools[K]["parameters"]>,
@@ -62,32 +94,64 @@ export async function processToolCalls<
       const { toolInvocation } = part;
       const toolName = toolInvocation.toolName;
 
-      // Only continue if we have an execute function for the tool (meaning it requires confirmation) and it's in a 'result' state
-      if (!(toolName in executions) || toolInvocation.state !== "result")
+      // Only continue if the tool requires confirmation or has a policy decision, and it's in a 'result' state
+      if (
+        !(toolName in executions || toolName in decisions) ||
+        toolInvocation.state !== "result"
+      )
         return part;
 
+      const approval = parseToolApproval(toolInvocation.result);
+      // Arguments the user edited before approving replace the model's
+      let args = approval?.args ?? toolInvocation.args;
       let result: unknown;
 
-      if (toolInvocation.result === APPROVAL.YES) {
-        // Get the tool and check if the tool has an execute function.
-        if (
-          !isValidToolName(toolName, executions) ||
-          toolInvocation.state !== "result"
-        ) {
-          return part;
-        }
+      // Edited arguments haven't been checked against the tool's schema yet
+      const validation =
+        approval?.args && tools[toolName]?.parameters
+          ? asSchema(tools[toolName].parameters).validate?.(approval.args)
+          : undefined;
 
-        const toolInstance = executions[toolName];
+      if (approval && decisions[toolName] === "deny") {
+        // The policy changed after the call was made
+        const reason = "Tool execution is denied by a tool policy";
+        await onToolDenied?.({
+          toolName,
+          toolCallId: toolInvocation.toolCallId,
+          args,
+          reason,
+        });
+        result = `Error: ${reason}`;
+      } else if (validation && !validation.success) {
+        result = `Error: Invalid tool arguments: ${validationMessage(validation.error)}`;
+      } else if (approval) {
+        if (validation?.success) args = validation.value;
+        // A tool allowed since the call was made runs with its own execute function
+        const toolInstance = isValidToolName(toolName, executions)
+          ? executions[toolName]
+          : tools[toolName]?.execute;
         if (toolInstance) {
-          result = await toolInstance(toolInvocation.args, {
-            messages: convertToCoreMessages(messages),
-            toolCallId: toolInvocation.toolCallId,
-          });
+          try {
+            result = await toolInstance(args, {
+              messages: convertToCoreMessages(messages),
+              toolCallId: toolInvocation.toolCallId,
+              abortSignal,
+            });
+          } catch (error) {
+            result = `Error: ${error instanceof Error ? error.message : String(error)}`;
+          }
         } else {
           result = "Error: No execute function found on tool";
         }
       } else if (toolInvocation.result === APPROVAL.NO) {
-        result = "Error: User denied access to tool execution";
+        const reason = "User denied access to tool execution";
+        await onToolDenied?.({
+          toolName,
+          toolCallId: toolInvocation.toolCallId,
+          args,
+          reason,
+        });
+        result = `Error: ${reason}`;
       } else {
         // For any unhandled responses, return the original part.
         return part;
@@ -106,6 +170,7 @@ export async function processToolCalls<
         ...part,
         toolInvocation: {
           ...toolInvocation,
+          args,
           result,
         },
       };
@@ -0,0 +1,263 @@
+import { env, applyD1Migrations } from "cloudflare:test";
+import { describe, it, expect, beforeAll } from "vitest";
+import * as agentAPI from "../src/api/agents";
+import {
+  exportAgentBundle,
+  importAgentBundle,
+  parseAgentBundle,
+  type AgentBundle,
+} from "../src/lib/agent-bundles";
+import { jsonRequest } from "./helpers";
+
+const OWNER = "user-bundle-owner";
+const TEAMMATE = "user-bundle-teammate";
+
+let agentId: string;
+
+async function seedAgent() {
+  const db = env.DB;
+  await db.batch([
+    db
+      .prepare(
+        "INSERT INTO mcp_groups (id, name, description, color, user_id) VALUES ('group-research', 'Research', 'Search tools', 'green', ?)"
+      )
+      .bind(OWNER),
+    db
+      .prepare(
+        `INSERT INTO mcp_servers (id, name, url, transport, user_id, group_id, auth_type, encrypted_credentials, is_enabled)
+         VALUES ('server-search', 'Search', 'https://search.example.com/mcp', 'streamable-http', ?, 'group-research', 'apikey', 'enc1.search-secret', TRUE)`
+      )
+      .bind(OWNER),
+    db
+      .prepare(
+        `INSERT INTO mcp_servers_independent (id, name, url, transport, auth_type, auth_config, tool_timeouts, sampling_trusted, sampling_token_budget, user_id)
+         VALUES ('server-docs', 'Docs', 'https://docs.example.com/sse', 'sse', 'basic', 'enc1.docs-secret', '{"fetch":5000}', TRUE, 5000, ?)`
+      )
+      .bind(OWNER),
+    db
+      .prepare(
+        "INSERT INTO mcp_group_servers (group_id, server_id, user_id) VALUES ('group-research', 'server-docs', ?)"
+      )
+      .bind(OWNER),
+  ]);
+
+  const response = await agentAPI.createAgent(
+    jsonRequest("POST", {
+      name: "Researcher",
+      description: "Finds sources",
+      persona: "You cite every claim.",
+      mcpGroupIds: ["group-research"],
+      color: "green",
+      model: "openai:gpt-4o-2024-11-20",
+      temperature: 0.2,
+      toolRules: { allow: ["search_*", "fetch"], deny: [] },
+    }),
+    env,
+    OWNER
+  );
+  const { agent } = (await response.json()) as { agent: { id: string } };
+  await db.batch([
+    db
+      .prepare(
+        "INSERT INTO tool_policies (id, user_id, scope, scope_id, server_id, tool_pattern, decision) VALUES ('policy-1', ?, 'agent', ?, 'server-docs', 'fetch', 'auto')"
+      )
+      .bind(OWNER, agent.id),
+    db
+      .prepare(
+        "INSERT INTO tool_policies (id, user_id, scope, scope_id, server_id, tool_pattern, decision) VALUES ('policy-2', ?, 'agent', ?, NULL, 'delete_*', 'deny')"
+      )
+      .bind(OWNER, agent.id),
+  ]);
+  return agent.id;
+}
+
+async function exported(): Promise<AgentBundle> {
+  const bundle = await exportAgentBundle(env.DB, OWNER, agentId);
+  if (!bundle) throw new Error("Agent not found");
+  return bundle;
+}
+
+beforeAll(async () => {
+  await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
+  agentId = await seedAgent();
+});
+
+describe("exportAgentBundle", () => {
+  it("bundles the agent with its groups, servers and rules but no secrets", async () => {
+    const bundle = await exported();
+
+    expect(bundle.version).toBe(1);
+    expect(bundle.agent).toMatchObject({
+      name: "Researcher",
+      persona: "You cite every claim.",
+      model: "openai:gpt-4o-2024-11-20",
+      temperature: 0.2,
+      toolRules: { allow: ["search_*", "fetch"], deny: [] },
+      groupIds: ["group-research"],
+      policies: [
+        { serverId: "server-docs", toolPattern: "fetch", decision: "auto" },
+        { serverId: null, toolPattern: "delete_*", decision: "deny" },
+      ],
+    });
+    expect(bundle.groups).toEqual([
+      expect.objectContaining({
+        id: "group-research",
+        name: "Research",
+        servers: [
+          expect.objectContaining({ id: "server-search", authType: "apikey" }),
+        ],
+        serverIds: ["server-docs"],
+      }),
+    ]);
+    expect(bundle.servers).toEqual([
+      expect.objectContaining({
+        id: "server-docs",
+        transport: "sse",
+        toolTimeouts: { fetch: 5000 },
+      }),
+    ]);
+    expect(JSON.stringify(bundle)).not.toMatch(/secret/);
+    expect(JSON.stringify(bundle)).not.toMatch(/sampling/);
+  });
+
+  it("returns a download from the API and hides other users' agents", async () => {
+    const response = await agentAPI.exportAgent(env, OWNER, agentId);
+    expect(response.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="agent-researcher.json"'
+    );
+
+    const other = await agentAPI.exportAgent(env, TEAMMATE, agentId);
+    expect(other.status).toBe(404);
+  });
+});
+
+describe("importAgentBundle", () => {
+  it("re-creates the agent for another user with new IDs", async () => {
+    const result = await importAgentBundle(env.DB, TEAMMATE, await exported());
+
+    expect(result.agent).toMatchObject({
+      name: "Researcher",
+      status: "created",
+    });
+    expect(result.agent.id).not.toBe(agentId);
+    expect(result.groups).toEqual([
+      expect.objectContaining({ name: "Research", status: "created" }),
+    ]);
+    expect(result.servers).toEqual([
+      expect.objectContaining({
+        name: "Search",
+        status: "created",
+        needsCredentials: true,
+      }),
+      expect.objectContaining({
+        name: "Docs",
+        status: "created",
+        needsCredentials: true,
+      }),
+    ]);
+
+    // The imported agent exports like the original, under new IDs
+    const bundle = await exportAgentBundle(
+      env.DB,
+      TEAMMATE,
+      result.agent.id as string
+    );
+    const docsId = result.servers[1].id;
+    expect(bundle?.groups[0].serverIds).toEqual([docsId]);
+    expect(bundle?.agent.policies[0]).toEqual({
+      serverId: docsId,
+      toolPattern: "fetch",
+      decision: "auto",
+    });
+    expect(bundle?.agent.toolRules).toEqual({
+      allow: ["search_*", "fetch"],
+      deny: [],
+    });
+  });
+
+  it("renames, merges or skips agents and groups that exist", async () => {
+    const bundle = await exported();
+    await importAgentBundle(env.DB, TEAMMATE, bundle);
+
+    const renamed = await importAgentBundle(env.DB, TEAMMATE, bundle, "rename");
+    expect(renamed.agent.name).toBe("Researcher (2)");
+    expect(renamed.groups[0].name).toBe("Research (2)");
+    // Independent servers with the same URL are reused
+    expect(renamed.servers.map((server) => server.status)).toEqual([
+      "created",
+      "reused",
+    ]);
+
+    const skipped = await importAgentBundle(env.DB, TEAMMATE, bundle, "skip");
+    expect(skipped.agent.status).toBe("skipped");
+    expect(skipped.groups).toEqual([]);
+
+    const merged = await importAgentBundle(
+      env.DB,
+      TEAMMATE,
+      { ...bundle, agent: { ...bundle.agent, temperature: 0.7 } },
+      "merge"
+    );
+    expect(merged.agent.status).toBe("merged");
+    expect(merged.groups[0].status).toBe("merged");
+    // The merged group keeps its search server, only Docs is linked again
+    expect(merged.servers.map((server) => server.status)).toEqual(["reused"]);
+
+    const counts = await env.DB.prepare(
+      `SELECT
+         (SELECT COUNT(*) FROM agents WHERE user_id = ?1) AS agents,
+         (SELECT COUNT(*) FROM mcp_servers WHERE user_id = ?1) AS groupServers,
+         (SELECT COUNT(*) FROM tool_policies WHERE user_id = ?1) AS policies,
+         (SELECT temperature FROM agents WHERE id = ?2) AS temperature`
+    )
+      .bind(TEAMMATE, merged.agent.id)
+      .first();
+    expect(counts).toEqual({
+      agents: 2,
+      groupServers: 2,
+      policies: 4,
+      temperature: 0.7,
+    });
+  });
+});
+
+describe("importAgentBundle sampling", () => {
+  it("never trusts imported servers with sampling", async () => {
+    const bundle = await exported();
+    // A bundle edited to switch sampling on for its servers
+    const edited = parseAgentBundle({
+      ...bundle,
+      servers: bundle.servers.map((server) => ({
+        ...server,
+        samplingTrusted: true,
+        samplingTokenBudget: 1_000_000,
+      })),
+    });
+    const result = await importAgentBundle(env.DB, "user-sampling", edited);
+
+    const docs = await env.DB.prepare(
+      "SELECT sampling_trusted, sampling_token_budget FROM mcp_servers_independent WHERE id = ?"
+    )
+      .bind(result.servers[1].id)
+      .first();
+    expect(docs).toEqual({ sampling_trusted: 0, sampling_token_budget: null });
+  });
+});
+
+describe("importAgent", () => {
+  it("rejects bundles from newer versions", async () => {
+    expect(() => parseAgentBundle({ version: 2, agent: {} })).toThrow(
+      "Bundle version 2 is newer than the supported version 1"
+    );
+
+    const response = await agentAPI.importAgent(
+      jsonRequest("POST", { bundle: { version: 1, agent: {} } }),
+      env,
+      TEAMMATE
+    );
+    expect(response.status).toBe(400);
+    expect(((await response.json()) as { error: string }).error).toMatch(
+      /^Invalid agent bundle/
+    );
+  });
+});
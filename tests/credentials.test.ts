@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildAuthHeaders,
+  CREDENTIAL_COLUMNS,
+  decryptCredentials,
+  encryptCredentials,
+  isEncryptedCredentials,
+  rekeyCredentialStatements,
+  rekeyCredentials,
+  type CredentialKeyOptions,
+} from "../src/lib/credentials";
+import type { MCPCredentials, OAuthTokens } from "../src/types/mcp";
+
+const credentials: MCPCredentials = {
+  apiKey: "sk-live-secret",
+  customHeaders: { "X-Team": "blue" },
+};
+const oldKeys: CredentialKeyOptions = { secrets: ["old-kek"] };
+const rotated: CredentialKeyOptions = { secrets: ["new-kek", "old-kek"] };
+
+describe("credential envelope encryption", () => {
+  it("round-trips credentials without leaking them into storage", async () => {
+    const stored = await encryptCredentials(credentials, oldKeys);
+
+    expect(isEncryptedCredentials(stored)).toBe(true);
+    expect(stored).not.toContain("sk-live-secret");
+    expect(await decryptCredentials(stored, oldKeys)).toEqual(credentials);
+  });
+
+  it("uses a fresh data key for every encryption", async () => {
+    const first = await encryptCredentials(credentials, oldKeys);
+    const second = await encryptCredentials(credentials, oldKeys);
+    expect(first.split(".")[2]).not.toBe(second.split(".")[2]);
+  });
+
+  it("refuses to encrypt without a key", async () => {
+    await expect(
+      encryptCredentials(credentials, { secrets: [] })
+    ).rejects.toThrow("MCP_CREDENTIALS_KEY is not configured");
+  });
+
+  it("rejects unknown keys and tampered ciphertext", async () => {
+    const stored = await encryptCredentials(credentials, oldKeys);
+    await expect(
+      decryptCredentials(stored, { secrets: ["other-kek"] })
+    ).rejects.toThrow("unknown key");
+
+    const parts = stored.split(".");
+    const bytes = Buffer.from(parts[4], "base64url");
+    bytes[0] ^= 1;
+    parts[4] = bytes.toString("base64url");
+    await expect(
+      decryptCredentials(parts.join("."), oldKeys)
+    ).rejects.toThrow();
+  });
+
+  it("still reads credentials stored as plain JSON", async () => {
+    expect(
+      await decryptCredentials(JSON.stringify(credentials), oldKeys)
+    ).toEqual(credentials);
+    expect(await decryptCredentials(null, oldKeys)).toBeUndefined();
+  });
+});
+
+describe("credential re-keying", () => {
+  it("re-wraps the data key and keeps the ciphertext", async () => {
+    const stored = await encryptCredentials(credentials, oldKeys);
+    const rekeyed = await rekeyCredentials(stored, rotated);
+
+    expect(rekeyed).not.toBeNull();
+    expect(rekeyed?.split(".").slice(3)).toEqual(stored.split(".").slice(3));
+    expect(await decryptCredentials(rekeyed, { secrets: ["new-kek"] })).toEqual(
+      credentials
+    );
+  });
+
+  it("leaves credentials already on the current key alone", async () => {
+    const stored = await encryptCredentials(credentials, rotated);
+    expect(await rekeyCredentials(stored, rotated)).toBeNull();
+  });
+
+  it("encrypts plain JSON credentials", async () => {
+    const rekeyed = await rekeyCredentials(
+      JSON.stringify(credentials),
+      rotated
+    );
+    expect(rekeyed && isEncryptedCredentials(rekeyed)).toBe(true);
+    expect(await decryptCredentials(rekeyed, rotated)).toEqual(credentials);
+  });
+});
+
+describe("credential column re-keying", () => {
+  it("re-keys stored OAuth tokens", async () => {
+    const tokens: OAuthTokens = {
+      accessToken: "access-secret",
+      refreshToken: "refresh-secret",
+    };
+    const oauthTokens = CREDENTIAL_COLUMNS.find(
+      ({ column }) => column === "oauth_tokens"
+    );
+    expect(oauthTokens?.table).toBe("mcp_servers_independent");
+
+    const current = await encryptCredentials(tokens, rotated);
+    const [update, ...rest] = await rekeyCredentialStatements(
+      oauthTokens!,
+      [
+        { id: "srv-'1", value: await encryptCredentials(tokens, oldKeys) },
+        { id: "srv-2", value: current },
+      ],
+      rotated
+    );
+
+    expect(rest).toEqual([]);
+    const match = update.match(
+      /^UPDATE mcp_servers_independent SET oauth_tokens = '(.+)' WHERE id = 'srv-''1';$/
+    );
+    expect(match).not.toBeNull();
+    expect(
+      await decryptCredentials<OAuthTokens>(match![1], { secrets: ["new-kek"] })
+    ).toEqual(tokens);
+  });
+});
+
+describe("buildAuthHeaders", () => {
+  it("builds headers for each auth type", () => {
+    expect(buildAuthHeaders("apikey", credentials)).toEqual({
+      Authorization: "Bearer sk-live-secret",
+      "X-Team": "blue",
+    });
+    expect(
+      buildAuthHeaders("basic", { username: "user", password: "pass" })
+    ).toEqual({ Authorization: `Basic ${btoa("user:pass")}` });
+    expect(buildAuthHeaders("custom", credentials)).toEqual({
+      "X-Team": "blue",
+    });
+    expect(buildAuthHeaders("none", credentials)).toEqual({});
+  });
+});
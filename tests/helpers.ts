@@ -0,0 +1,22 @@
+import { vi } from "vitest";
+
+// Shared helpers for the tests
+
+export const jsonRequest = (method: string, body: unknown) =>
+  new Request("http://localhost/api", {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+export const readJson = async <T>(response: Response) =>
+  (await response.json()) as T;
+
+// A D1 database whose queries all return the given rows
+export const createMockDb = (results: Record<string, unknown>[]) => {
+  const bind = vi.fn().mockReturnValue({
+    all: vi.fn().mockResolvedValue({ results }),
+  });
+  const prepare = vi.fn().mockReturnValue({ bind });
+  return { db: { prepare } as unknown as D1Database, prepare, bind };
+};
@@ -0,0 +1,350 @@
+import { describe, it, expect } from "vitest";
+import { zodSchema } from "ai";
+import {
+  jsonSchemaToZod,
+  toolParametersToZod,
+  type JSONSchema,
+} from "../src/lib/json-schema-to-zod";
+
+/**
+ * Input schemas as published by real MCP servers, with arguments the model
+ * could send. `valid` must parse, `invalid` must be rejected.
+ */
+const conformanceSuite: {
+  server: string;
+  schema: JSONSchema & Record<string, unknown>;
+  valid: unknown[];
+  invalid: unknown[];
+}[] = [
+  {
+    server: "filesystem edit_file (zod-to-json-schema)",
+    schema: {
+      type: "object",
+      properties: {
+        path: { type: "string" },
+        edits: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              oldText: {
+                type: "string",
+                description: "Text to search for - must match exactly",
+              },
+              newText: { type: "string", description: "Text to replace with" },
+            },
+            required: ["oldText", "newText"],
+            additionalProperties: false,
+          },
+        },
+        dryRun: {
+          type: "boolean",
+          default: false,
+          description: "Preview changes using git-style diff format",
+        },
+      },
+      required: ["path", "edits"],
+      additionalProperties: false,
+      $schema: "http://json-schema.org/draft-07/schema#",
+    },
+    valid: [
+      { path: "a.txt", edits: [] },
+      { path: "a.txt", edits: [{ oldText: "a", newText: "b" }], dryRun: true },
+    ],
+    invalid: [
+      { path: "a.txt" },
+      { path: "a.txt", edits: [{ oldText: "a" }] },
+      { path: "a.txt", edits: [], force: true },
+      { path: 1, edits: [] },
+    ],
+  },
+  {
+    server: "fetch (pydantic)",
+    schema: {
+      description: "Parameters for fetching a URL.",
+      properties: {
+        url: {
+          description: "URL to fetch",
+          format: "uri",
+          minLength: 1,
+          title: "Url",
+          type: "string",
+        },
+        max_length: {
+          default: 5000,
+          description: "Maximum number of characters to return.",
+          exclusiveMaximum: 1000000,
+          exclusiveMinimum: 0,
+          title: "Max Length",
+          type: "integer",
+        },
+        start_index: {
+          default: 0,
+          minimum: 0,
+          title: "Start Index",
+          type: "integer",
+        },
+        raw: { default: false, title: "Raw", type: "boolean" },
+      },
+      required: ["url"],
+      title: "Fetch",
+      type: "object",
+    },
+    valid: [
+      { url: "https://example.com" },
+      { url: "https://example.com", max_length: 999999, start_index: 0 },
+    ],
+    invalid: [
+      {},
+      { url: "not a url" },
+      { url: "https://example.com", max_length: 0 },
+      { url: "https://example.com", max_length: 1000000 },
+      { url: "https://example.com", start_index: 1.5 },
+      { url: "https://example.com", start_index: -1 },
+    ],
+  },
+  {
+    server: "github create_issue",
+    schema: {
+      type: "object",
+      properties: {
+        owner: { type: "string" },
+        repo: { type: "string" },
+        title: { type: "string" },
+        body: { type: "string" },
+        assignees: { type: "array", items: { type: "string" } },
+        labels: { type: "array", items: { type: "string" } },
+        milestone: { type: "number" },
+      },
+      required: ["owner", "repo", "title"],
+      additionalProperties: false,
+    },
+    valid: [
+      { owner: "o", repo: "r", title: "t" },
+      { owner: "o", repo: "r", title: "t", labels: ["bug"], milestone: 2 },
+    ],
+    invalid: [
+      { owner: "o", repo: "r" },
+      { owner: "o", repo: "r", title: "t", labels: "bug" },
+      { owner: "o", repo: "r", title: "t", assignees: [1] },
+    ],
+  },
+  {
+    server: "memory create_entities",
+    schema: {
+      type: "object",
+      properties: {
+        entities: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              entityType: { type: "string" },
+              observations: { type: "array", items: { type: "string" } },
+            },
+            required: ["name", "entityType", "observations"],
+          },
+        },
+      },
+      required: ["entities"],
+    },
+    valid: [
+      { entities: [] },
+      { entities: [{ name: "a", entityType: "person", observations: [] }] },
+    ],
+    invalid: [{ entities: [{ name: "a", entityType: "person" }] }, {}],
+  },
+  {
+    server: "task tracker with $defs, recursion and nullable (pydantic)",
+    schema: {
+      $defs: {
+        Priority: {
+          enum: ["low", "medium", "high"],
+          title: "Priority",
+          type: "string",
+        },
+        Subtask: {
+          properties: {
+            title: { type: "string" },
+            subtasks: { items: { $ref: "#/$defs/Subtask" }, type: "array" },
+          },
+          required: ["title"],
+          type: "object",
+        },
+      },
+      properties: {
+        title: { type: "string" },
+        priority: { $ref: "#/$defs/Priority", default: "medium" },
+        due: {
+          anyOf: [{ format: "date-time", type: "string" }, { type: "null" }],
+          default: null,
+        },
+        subtasks: { items: { $ref: "#/$defs/Subtask" }, type: "array" },
+      },
+      required: ["title"],
+      type: "object",
+    },
+    valid: [
+      { title: "t" },
+      {
+        title: "t",
+        priority: "high",
+        due: "2026-01-01T10:00:00+02:00",
+        subtasks: [{ title: "a", subtasks: [{ title: "b" }] }],
+      },
+    ],
+    invalid: [
+      { title: "t", priority: "urgent" },
+      { title: "t", due: "tomorrow" },
+      { title: "t", subtasks: [{ title: "a", subtasks: [{}] }] },
+    ],
+  },
+  {
+    server: "deploy target with oneOf and const",
+    schema: {
+      type: "object",
+      properties: {
+        target: {
+          oneOf: [
+            {
+              type: "object",
+              properties: { kind: { const: "file" }, path: { type: "string" } },
+              required: ["kind", "path"],
+            },
+            {
+              type: "object",
+              properties: {
+                kind: { const: "url" },
+                url: { type: "string", format: "uri" },
+              },
+              required: ["kind", "url"],
+            },
+          ],
+        },
+        replicas: { type: ["integer", "null"], minimum: 1 },
+        mode: { enum: ["auto", 1, 2] },
+      },
+      required: ["target"],
+    },
+    valid: [
+      { target: { kind: "file", path: "/tmp/a" } },
+      {
+        target: { kind: "url", url: "https://x.test" },
+        replicas: null,
+        mode: 2,
+      },
+    ],
+    invalid: [
+      { target: { kind: "file", url: "https://x.test" } },
+      { target: { kind: "ftp", path: "/a" } },
+      { target: { kind: "file", path: "/a" }, replicas: 0 },
+      { target: { kind: "file", path: "/a" }, mode: 3 },
+    ],
+  },
+  {
+    server: "older draft-04 style schema",
+    schema: {
+      type: "object",
+      properties: {
+        ratio: {
+          type: "number",
+          minimum: 0,
+          exclusiveMinimum: true,
+          maximum: 1,
+        },
+        point: {
+          type: "array",
+          items: [{ type: "number" }, { type: "number" }],
+        },
+        tags: { type: "array", items: { type: "string" }, uniqueItems: true },
+        metadata: { type: "object", additionalProperties: { type: "string" } },
+        code: { type: "string", pattern: "^[A-Z]{3}$" },
+      },
+    },
+    valid: [{}, { ratio: 1, point: [1, 2], tags: ["a", "b"], code: "ABC" }],
+    invalid: [
+      { ratio: 0 },
+      { point: [1] },
+      { tags: ["a", "a"] },
+      { metadata: { a: 1 } },
+      { code: "abc" },
+    ],
+  },
+];
+
+describe("JSON Schema to Zod conformance", () => {
+  for (const { server, schema, valid, invalid } of conformanceSuite) {
+    it(server, () => {
+      const parameters = toolParametersToZod(schema);
+      for (const input of valid) {
+        expect(parameters.safeParse(input).error).toBeUndefined();
+      }
+      for (const input of invalid) {
+        expect(parameters.safeParse(input).success, JSON.stringify(input)).toBe(
+          false
+        );
+      }
+    });
+  }
+});
+
+describe("jsonSchemaToZod", () => {
+  it("applies defaults for missing properties", () => {
+    const [fetchTool] = conformanceSuite.filter(({ server }) =>
+      server.startsWith("fetch")
+    );
+    expect(
+      toolParametersToZod(fetchTool.schema).parse({ url: "https://a.test" })
+    ).toEqual({
+      url: "https://a.test",
+      max_length: 5000,
+      start_index: 0,
+      raw: false,
+    });
+  });
+
+  it("keeps extra properties unless additionalProperties is false", () => {
+    const schema = jsonSchemaToZod({
+      type: "object",
+      properties: { a: { type: "string" } },
+    });
+    expect(schema.parse({ a: "x", b: 1 })).toEqual({ a: "x", b: 1 });
+  });
+
+  it("treats missing and boolean schemas sensibly", () => {
+    expect(toolParametersToZod(undefined).parse({})).toEqual({});
+    expect(jsonSchemaToZod(true).safeParse(42).success).toBe(true);
+    expect(jsonSchemaToZod(false).safeParse(42).success).toBe(false);
+    expect(
+      jsonSchemaToZod({ $ref: "#/$defs/Missing" }).safeParse(1).success
+    ).toBe(true);
+  });
+
+  it("shows the model the real parameter shapes", () => {
+    const [editFile, , , , tasks] = conformanceSuite;
+
+    expect(
+      zodSchema(toolParametersToZod(editFile.schema)).jsonSchema
+    ).toMatchObject({
+      required: ["path", "edits"],
+      additionalProperties: false,
+      properties: {
+        edits: { items: { required: ["oldText", "newText"] } },
+        dryRun: {
+          type: "boolean",
+          default: false,
+          description: "Preview changes using git-style diff format",
+        },
+      },
+    });
+
+    const taskJsonSchema = zodSchema(
+      toolParametersToZod(tasks.schema)
+    ).jsonSchema;
+    expect(taskJsonSchema).toMatchObject({ required: ["title"] });
+    expect(JSON.stringify(taskJsonSchema)).toContain(
+      '"enum":["low","medium","high"]'
+    );
+  });
+});
@@ -0,0 +1,308 @@
+import { describe, it, expect } from "vitest";
+import { MCPConnectionManager } from "../src/lib/mcp-connection";
+import type { MCPServerConfig } from "../src/types/mcp";
+
+type JSONRPCRequest = {
+  jsonrpc: "2.0";
+  id?: number | string;
+  method?: string;
+  params?: {
+    name?: string;
+    arguments?: { a: number; b: number };
+    capabilities?: Record<string, unknown>;
+  };
+};
+
+const LATENCY_MS = 20;
+
+/**
+ * Local stand-in for a Streamable HTTP MCP server that takes LATENCY_MS to
+ * answer each request
+ */
+function standInServer() {
+  const calls: string[] = [];
+  const state = {
+    failPings: false,
+    clientCapabilities: undefined as Record<string, unknown> | undefined,
+    // Ask the client for a sampling during tool calls, answering once it replied
+    sampleDuringCalls: false,
+  };
+  let samplingReplied: (() => void) | undefined;
+
+  const fetch = async (url: string | URL | Request, init?: RequestInit) => {
+    const request = new Request(url, init);
+    if (request.method !== "POST") {
+      return new Response(null, { status: 405 });
+    }
+    const message = (await request.json()) as JSONRPCRequest;
+    await new Promise((resolve) => setTimeout(resolve, LATENCY_MS));
+
+    if (!message.method) {
+      // The client's reply to the sampling request
+      samplingReplied?.();
+      return new Response(null, { status: 202 });
+    }
+    calls.push(message.method);
+    if (message.id === undefined) {
+      return new Response(null, { status: 202 });
+    }
+    if (message.method === "ping" && state.failPings) {
+      return new Response("Bad Gateway", { status: 502 });
+    }
+
+    let result: unknown = {};
+    if (message.method === "initialize") {
+      state.clientCapabilities = message.params?.capabilities;
+      result = {
+        protocolVersion: "2025-06-18",
+        capabilities: { tools: {} },
+        serverInfo: { name: "stand-in", version: "1.0.0" },
+      };
+    } else if (message.method === "tools/list") {
+      result = {
+        tools: [
+          {
+            name: "add",
+            inputSchema: {
+              type: "object",
+              properties: { a: { type: "number" }, b: { type: "number" } },
+            },
+          },
+        ],
+      };
+    } else if (message.method === "tools/call") {
+      const { a, b } = message.params?.arguments ?? { a: 0, b: 0 };
+      result = { content: [{ type: "text", text: String(a + b) }] };
+      if (state.sampleDuringCalls) {
+        return sampleThenAnswer({ jsonrpc: "2.0", id: message.id, result });
+      }
+    }
+    return Response.json(
+      { jsonrpc: "2.0", id: message.id, result },
+      { headers: { "mcp-session-id": "session-1" } }
+    );
+  };
+
+  const sampleThenAnswer = (response: unknown) => {
+    const encoder = new TextEncoder();
+    const event = (data: unknown) =>
+      encoder.encode(`event: message\ndata: ${JSON.stringify(data)}\n\n`);
+    const replied = new Promise<void>((resolve) => {
+      samplingReplied = resolve;
+    });
+    const body = new ReadableStream({
+      async start(controller) {
+        controller.enqueue(
+          event({
+            jsonrpc: "2.0",
+            id: "sampling-1",
+            method: "sampling/createMessage",
+            params: {
+              messages: [
+                { role: "user", content: { type: "text", text: "Check" } },
+              ],
+              maxTokens: 10,
+            },
+          })
+        );
+        await replied;
+        controller.enqueue(event(response));
+        controller.close();
+      },
+    });
+    return new Response(body, {
+      headers: {
+        "content-type": "text/event-stream",
+        "mcp-session-id": "session-1",
+      },
+    });
+  };
+
+  return {
+    fetch: fetch as typeof globalThis.fetch,
+    state,
+    count: (method: string) => calls.filter((call) => call === method).length,
+  };
+}
+
+const serverConfig = (
+  overrides: Partial<MCPServerConfig> = {}
+): MCPServerConfig => ({
+  id: "calc",
+  name: "Calculator",
+  url: "https://mcp.test/mcp",
+  transport: "streamable-http",
+  userId: "alice",
+  groupId: "independent",
+  auth: { type: "none" },
+  status: "disconnected",
+  isEnabled: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+/** One chat turn: load the server's tools, then call one */
+async function turn(manager: MCPConnectionManager, config = serverConfig()) {
+  const start = performance.now();
+  const connection = await manager.connectToServer(config);
+  const execution = await manager.executeTool(connection.serverId, "add", {
+    a: 2,
+    b: 3,
+  });
+  expect(execution.error).toBeUndefined();
+  return performance.now() - start;
+}
+
+describe("MCPConnectionManager pooling", () => {
+  it("skips the handshake on later turns", async () => {
+    // Before: every turn connected from scratch
+    const unpooled = standInServer();
+    const coldTurns: number[] = [];
+    for (let i = 0; i < 2; i++) {
+      const manager = new MCPConnectionManager({ fetch: unpooled.fetch });
+      coldTurns.push(await turn(manager));
+      await manager.closeAll();
+    }
+
+    // After: the chat keeps its connections between turns
+    const pooled = standInServer();
+    const manager = new MCPConnectionManager({ fetch: pooled.fetch });
+    const pooledTurns = [await turn(manager), await turn(manager)];
+    await manager.closeAll();
+
+    console.log(
+      `[MCP pool] turn latency without pooling: ${coldTurns.map(Math.round).join("ms, ")}ms, with pooling: ${pooledTurns.map(Math.round).join("ms, ")}ms`
+    );
+    expect(unpooled.count("initialize")).toBe(2);
+    expect(pooled.count("initialize")).toBe(1);
+    expect(pooled.count("tools/call")).toBe(2);
+    // A pooled turn only waits for the tool call itself
+    expect(pooledTurns[1]).toBeLessThan(coldTurns[1] / 2);
+  });
+
+  it("shares one handshake between concurrent connects", async () => {
+    const server = standInServer();
+    const manager = new MCPConnectionManager({ fetch: server.fetch });
+
+    await Promise.all([
+      manager.connectToServer(serverConfig()),
+      manager.connectToServer(serverConfig()),
+    ]);
+
+    expect(server.count("initialize")).toBe(1);
+    await manager.closeAll();
+  });
+
+  it("opens a new connection for another user or changed settings", async () => {
+    const server = standInServer();
+    const manager = new MCPConnectionManager({ fetch: server.fetch });
+
+    await manager.connectToServer(serverConfig());
+    await manager.connectToServer(serverConfig({ userId: "bob" }));
+    await manager.connectToServer(
+      serverConfig({ userId: "bob", url: "https://mcp.test/v2/mcp" })
+    );
+
+    expect(server.count("initialize")).toBe(3);
+    await manager.closeAll();
+  });
+
+  it("closes idle connections and those failing health pings", async () => {
+    const server = standInServer();
+    let now = 0;
+    const manager = new MCPConnectionManager({
+      fetch: server.fetch,
+      idleTimeoutMs: 1000,
+      pingIntervalMs: 100,
+      now: () => now,
+    });
+
+    await manager.connectToServer(serverConfig());
+    now = 200;
+    await manager.sweep();
+    expect(server.count("ping")).toBe(1);
+    expect(manager.getConnectionStatus("calc")?.status).toBe("connected");
+
+    server.state.failPings = true;
+    now = 400;
+    await manager.sweep();
+    expect(manager.getConnectionStatus("calc")).toBeUndefined();
+
+    server.state.failPings = false;
+    await manager.connectToServer(serverConfig());
+    now = 2000;
+    await manager.sweep();
+    expect(manager.getConnectionStatus("calc")).toBeUndefined();
+    expect(server.count("initialize")).toBe(2);
+  });
+
+  it("offers sampling only when the pool can answer it", async () => {
+    const server = standInServer();
+    const plain = new MCPConnectionManager({ fetch: server.fetch });
+    await plain.connectToServer(serverConfig());
+    expect(server.state.clientCapabilities).not.toHaveProperty("sampling");
+    await plain.closeAll();
+
+    const sampling = new MCPConnectionManager({
+      fetch: server.fetch,
+      onSamplingRequest: async () => ({
+        role: "assistant",
+        content: { type: "text", text: "" },
+        model: "fake:echo",
+      }),
+    });
+    await sampling.connectToServer(serverConfig());
+    expect(server.state.clientCapabilities).toHaveProperty("sampling");
+    await sampling.closeAll();
+  });
+});
+
+describe("MCPConnectionManager tool call timeouts", () => {
+  it("waits for the user to answer a sampling request of the call", async () => {
+    const server = standInServer();
+    server.state.sampleDuringCalls = true;
+    const manager = new MCPConnectionManager({
+      fetch: server.fetch,
+      // The user takes longer to approve than the tool may run
+      onSamplingRequest: async () => {
+        await new Promise((resolve) => setTimeout(resolve, 300));
+        return {
+          role: "assistant",
+          content: { type: "text", text: "Fine" },
+          model: "fake:echo",
+        };
+      },
+    });
+    const connection = await manager.connectToServer(serverConfig());
+
+    const execution = await manager.executeTool(
+      connection.serverId,
+      "add",
+      { a: 2, b: 3 },
+      { timeoutMs: 200 }
+    );
+
+    expect(execution.error).toBeUndefined();
+    expect(execution.result).toMatchObject({
+      content: [{ type: "text", text: "5" }],
+    });
+    await manager.closeAll();
+  });
+
+  it("still times out a call that runs too long itself", async () => {
+    const server = standInServer();
+    const manager = new MCPConnectionManager({ fetch: server.fetch });
+    const connection = await manager.connectToServer(serverConfig());
+
+    const execution = await manager.executeTool(
+      connection.serverId,
+      "add",
+      { a: 2, b: 3 },
+      { timeoutMs: 5 }
+    );
+
+    expect(execution.error).toMatch(/timed out/);
+    await manager.closeAll();
+  });
+});
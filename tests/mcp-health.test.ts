@@ -0,0 +1,169 @@
+import { env, applyD1Migrations } from "cloudflare:test";
+import { describe, it, expect, beforeAll } from "vitest";
+import * as agentAPI from "../src/api/agents";
+import {
+  checkServersInBatches,
+  circuitState,
+  getOpenCircuits,
+  loadHealthChecks,
+  MCP_HEALTH_CONFIG,
+  pruneHealthChecks,
+  recordHealthCheck,
+  summarizeHealth,
+  type MCPHealthCheck,
+  type MCPServerHealthSummary,
+} from "../src/lib/mcp-health";
+
+const USER = "user-mcp-health";
+const NOW = Date.parse("2026-01-01T12:00:00.000Z");
+
+const minutesAgo = (minutes: number) =>
+  new Date(NOW - minutes * 60 * 1000).toISOString();
+
+const check = (
+  minutes: number,
+  ok: boolean,
+  overrides: Partial<MCPHealthCheck> = {}
+): MCPHealthCheck => ({
+  serverId: "gh",
+  ok,
+  latencyMs: ok ? 100 : null,
+  error: ok ? null : "Connection timeout",
+  checkedAt: minutesAgo(minutes),
+  ...overrides,
+});
+
+beforeAll(async () => {
+  await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
+});
+
+describe("circuitState", () => {
+  it("opens after consecutive failed checks", () => {
+    expect(
+      circuitState([check(5, false), check(10, false), check(15, false)], NOW)
+    ).toEqual({
+      open: true,
+      reason: "it failed its last 3 health checks (Connection timeout)",
+    });
+  });
+
+  it("stays closed after a passing check or too few failures", () => {
+    expect(
+      circuitState([check(5, true), check(10, false), check(15, false)], NOW)
+        .open
+    ).toBe(false);
+    expect(
+      circuitState([check(5, false), check(10, false), check(15, true)], NOW)
+        .open
+    ).toBe(false);
+    expect(circuitState([check(5, false), check(10, false)], NOW).open).toBe(
+      false
+    );
+  });
+
+  it("ignores checks outside the window", () => {
+    expect(
+      circuitState([check(5, false), check(10, false), check(90, false)], NOW)
+        .open
+    ).toBe(false);
+  });
+});
+
+describe("summarizeHealth", () => {
+  it("computes uptime and latency with the checks oldest first", () => {
+    const summary = summarizeHealth(
+      "gh",
+      [
+        check(5, true, { latencyMs: 200 }),
+        check(10, false),
+        check(15, true, { latencyMs: 100 }),
+      ],
+      NOW
+    );
+
+    expect(summary.uptime).toBeCloseTo(2 / 3);
+    expect(summary.averageLatencyMs).toBe(150);
+    expect(summary.circuit.open).toBe(false);
+    expect(summary.checks.map((c) => c.checkedAt)).toEqual([
+      minutesAgo(15),
+      minutesAgo(10),
+      minutesAgo(5),
+    ]);
+    expect(summarizeHealth("gh", [], NOW)).toMatchObject({
+      uptime: null,
+      averageLatencyMs: null,
+    });
+  });
+});
+
+describe("checkServersInBatches", () => {
+  it("pages through the servers and checks a few at once", async () => {
+    const servers = Array.from({ length: 7 }, (_, i) => ({
+      id: `server-${i}`,
+    }));
+    const pages: string[] = [];
+    let running = 0;
+    let maxRunning = 0;
+
+    const checked = await checkServersInBatches(
+      async (afterId, limit) => {
+        pages.push(afterId);
+        return servers.filter(({ id }) => id > afterId).slice(0, limit);
+      },
+      async () => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        running--;
+      },
+      { ...MCP_HEALTH_CONFIG, checkConcurrency: 2, checkPageSize: 3 }
+    );
+
+    expect(checked).toBe(7);
+    expect(maxRunning).toBe(2);
+    expect(pages).toEqual(["", "server-2", "server-5"]);
+  });
+});
+
+describe("health history", () => {
+  it("reports the user's servers with an open circuit", async () => {
+    for (const minutes of [5, 10, 15]) {
+      await recordHealthCheck(env.DB, USER, check(minutes, false));
+      await recordHealthCheck(
+        env.DB,
+        USER,
+        check(minutes, minutes !== 5, { serverId: "docs" })
+      );
+    }
+
+    const open = await getOpenCircuits(env.DB, USER, NOW);
+    expect(Array.from(open.keys())).toEqual(["gh"]);
+    expect(open.get("gh")).toContain("failed its last 3 health checks");
+    expect((await getOpenCircuits(env.DB, "someone-else", NOW)).size).toBe(0);
+    expect((await getOpenCircuits(undefined, USER, NOW)).size).toBe(0);
+  });
+
+  it("prunes checks past the retention", async () => {
+    await recordHealthCheck(env.DB, USER, check(8 * 24 * 60, true));
+    await recordHealthCheck(env.DB, USER, check(5, true));
+
+    await pruneHealthChecks(env.DB, NOW);
+
+    const checks = await loadHealthChecks(env.DB, USER, 0);
+    expect(checks.get("gh")?.map((c) => c.checkedAt)).toEqual([minutesAgo(5)]);
+  });
+
+  it("summarizes the last day through the API", async () => {
+    await recordHealthCheck(env.DB, USER, {
+      ...check(0, true),
+      checkedAt: new Date().toISOString(),
+    });
+
+    const response = await agentAPI.getMCPServerHealth(env, USER);
+    expect(response.status).toBe(200);
+    const { health } = (await response.json()) as {
+      health: MCPServerHealthSummary[];
+    };
+    expect(health).toHaveLength(1);
+    expect(health[0]).toMatchObject({ serverId: "gh", uptime: 1 });
+  });
+});
@@ -0,0 +1,232 @@
+import { env, applyD1Migrations } from "cloudflare:test";
+import { describe, it, expect, beforeAll } from "vitest";
+import * as agentAPI from "../src/api/agents";
+import {
+  credentialsFromHeaders,
+  MCPImportError,
+  parseMCPServersConfig,
+} from "../src/lib/mcp-import";
+
+const USER = "user-mcp-import";
+
+const config = JSON.stringify({
+  mcpServers: {
+    github: {
+      type: "http",
+      url: "https://api.githubcopilot.com/mcp/",
+      headers: { Authorization: "Bearer ghp_secret", "X-Team": "blue" },
+    },
+    events: { url: "https://events.example.com/sse" },
+    filesystem: {
+      command: "npx",
+      args: ["-y", "@modelcontextprotocol/server-filesystem", "/tmp"],
+    },
+  },
+});
+
+const importRequest = (body: unknown) =>
+  new Request("http://localhost/api/mcp-servers-independent/import", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+beforeAll(async () => {
+  await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
+});
+
+describe("credentialsFromHeaders", () => {
+  it("maps bearer tokens to API keys and keeps other headers", () => {
+    expect(
+      credentialsFromHeaders({ authorization: "Bearer t0k", "X-Team": "blue" })
+    ).toEqual({
+      authType: "apikey",
+      credentials: { apiKey: "t0k", customHeaders: { "X-Team": "blue" } },
+    });
+  });
+
+  it("decodes basic auth and sends unknown schemes as custom headers", () => {
+    expect(
+      credentialsFromHeaders({ Authorization: `Basic ${btoa("ada:s3cret")}` })
+    ).toEqual({
+      authType: "basic",
+      credentials: { username: "ada", password: "s3cret" },
+    });
+    expect(credentialsFromHeaders({ Authorization: "Token abc" })).toEqual({
+      authType: "custom",
+      credentials: { customHeaders: { Authorization: "Token abc" } },
+    });
+    expect(credentialsFromHeaders({})).toEqual({ authType: "none" });
+  });
+});
+
+describe("parseMCPServersConfig", () => {
+  it("plans remote servers and explains skipped ones", () => {
+    const plan = parseMCPServersConfig(config, ["Events"]);
+
+    expect(plan.servers).toEqual([
+      {
+        name: "github",
+        description: undefined,
+        url: "https://api.githubcopilot.com/mcp/",
+        transport: "streamable-http",
+        authType: "apikey",
+        credentials: {
+          apiKey: "ghp_secret",
+          customHeaders: { "X-Team": "blue" },
+        },
+        headerNames: ["Authorization", "X-Team"],
+        warnings: [],
+      },
+    ]);
+    expect(plan.skipped).toEqual([
+      { name: "events", reason: "A server with this name already exists" },
+      { name: "filesystem", reason: expect.stringContaining('Runs "npx"') },
+    ]);
+  });
+
+  it("reads YAML with comments, anchors and block scalars", () => {
+    const plan = parseMCPServersConfig(`---
+# Servers of the team
+x-auth: &auth {Authorization: "Bearer t0k"}
+mcpServers:
+  docs:
+    url: "https://docs.example.com/mcp" # hosted
+    description: |
+      Team docs
+    headers: *auth
+`);
+
+    expect(plan.servers).toMatchObject([
+      {
+        name: "docs",
+        description: "Team docs\n",
+        url: "https://docs.example.com/mcp",
+        authType: "apikey",
+        credentials: { apiKey: "t0k" },
+      },
+    ]);
+  });
+
+  it("infers transports and flags placeholders", () => {
+    const plan = parseMCPServersConfig(`
+servers:
+  events:
+    url: https://events.example.com/sse
+  socket:
+    serverUrl: wss://socket.example.com
+  typed:
+    transport: grpc
+    url: https://typed.example.com
+  env:
+    url: https://env.example.com/mcp
+    headers:
+      Authorization: Bearer \${API_KEY}
+`);
+
+    expect(
+      plan.servers.map(({ name, transport }) => ({ name, transport }))
+    ).toEqual([
+      { name: "events", transport: "sse" },
+      { name: "socket", transport: "websocket" },
+      { name: "env", transport: "streamable-http" },
+    ]);
+    expect(plan.servers[2].warnings).toEqual([
+      'Header "Authorization" contains a placeholder, edit its credentials after importing',
+    ]);
+    expect(plan.skipped).toEqual([
+      { name: "typed", reason: 'Unsupported transport "grpc"' },
+    ]);
+  });
+
+  it("rejects configs without servers", () => {
+    expect(() => parseMCPServersConfig('{"mcpServers": ')).toThrow(
+      MCPImportError
+    );
+    expect(() => parseMCPServersConfig("servers: []")).toThrow(
+      "The config has no mcpServers section"
+    );
+  });
+});
+
+describe("importIndependentMCPServers", () => {
+  it("previews without creating servers or returning credentials", async () => {
+    const response = await agentAPI.importIndependentMCPServers(
+      importRequest({ content: config, dryRun: true }),
+      env,
+      USER
+    );
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(body).not.toContain("ghp_secret");
+    expect(
+      JSON.parse(body).servers.map((s: { name: string }) => s.name)
+    ).toEqual(["github", "events"]);
+    const count = await env.DB.prepare(
+      "SELECT COUNT(*) AS count FROM mcp_servers_independent WHERE user_id = ?"
+    )
+      .bind(USER)
+      .first<{ count: number }>();
+    expect(count?.count).toBe(0);
+  });
+
+  it("creates the servers it previewed", async () => {
+    const content = `
+mcpServers:
+  events:
+    url: https://events.example.com/sse
+  socket:
+    url: wss://socket.example.com
+  filesystem:
+    command: npx
+`;
+    const response = await agentAPI.importIndependentMCPServers(
+      importRequest({ content }),
+      env,
+      USER
+    );
+    const { servers, skipped } = (await response.json()) as {
+      servers: { id: string; name: string }[];
+      skipped: { name: string }[];
+    };
+
+    expect(response.status).toBe(201);
+    expect(servers.map((server) => server.name)).toEqual(["events", "socket"]);
+    expect(skipped.map((server) => server.name)).toEqual(["filesystem"]);
+
+    const row = await env.DB.prepare(
+      "SELECT transport, auth_type, is_enabled FROM mcp_servers_independent WHERE id = ? AND user_id = ?"
+    )
+      .bind(servers[1].id, USER)
+      .first<{ transport: string; auth_type: string; is_enabled: number }>();
+    expect(row).toEqual({
+      transport: "websocket",
+      auth_type: "none",
+      is_enabled: 1,
+    });
+
+    // Importing again skips the servers that now exist
+    const again = await agentAPI.importIndependentMCPServers(
+      importRequest({ content, dryRun: true }),
+      env,
+      USER
+    );
+    expect(((await again.json()) as { servers: unknown[] }).servers).toEqual(
+      []
+    );
+  });
+
+  it("reports invalid configs", async () => {
+    const response = await agentAPI.importIndependentMCPServers(
+      importRequest({ content: "mcpServers: [" }),
+      env,
+      USER
+    );
+
+    expect(response.status).toBe(400);
+    expect(((await response.json()) as { error: string }).error).toMatch(
+      /^Invalid YAML/
+    );
+  });
+});
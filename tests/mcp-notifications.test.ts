@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  diffNames,
+  handleChangeNotifications,
+  MCPChangeListeners,
+  type MCPCapabilitiesChange,
+} from "../src/lib/mcp-notifications";
+
+type NotificationClient = Parameters<typeof handleChangeNotifications>[0];
+
+const change: MCPCapabilitiesChange = {
+  serverId: "gh",
+  serverName: "GitHub",
+  kind: "tools",
+  tools: ["search"],
+  toolsAdded: ["search"],
+  toolsRemoved: [],
+};
+
+describe("MCPChangeListeners", () => {
+  it("replaces a listener subscribed again with the same key", async () => {
+    const listeners = new MCPChangeListeners();
+    const first = vi.fn();
+    const second = vi.fn();
+    const other = vi.fn();
+
+    listeners.subscribe("gh", "thread:1", first);
+    listeners.subscribe("gh", "thread:1", second);
+    listeners.subscribe("docs", "thread:1", other);
+    await listeners.notify(change);
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledWith(change);
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it("keeps notifying after a listener fails", async () => {
+    const listeners = new MCPChangeListeners();
+    const after = vi.fn();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    listeners.subscribe("gh", "db", async () => {
+      throw new Error("D1 unavailable");
+    });
+    listeners.subscribe("gh", "thread:1", after);
+    await listeners.notify(change);
+
+    expect(after).toHaveBeenCalledWith(change);
+  });
+
+  it("stops notifying after unsubscribe", async () => {
+    const listeners = new MCPChangeListeners();
+    const listener = vi.fn();
+
+    const unsubscribe = listeners.subscribe("gh", "db", listener);
+    unsubscribe();
+    await listeners.notify(change);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe("handleChangeNotifications", () => {
+  it("routes each notification to its handler", async () => {
+    const registered = new Map<
+      unknown,
+      (notification: { params?: { uri: string } }) => unknown
+    >();
+    const handlers = {
+      onToolsChanged: vi.fn(async () => {}),
+      onResourcesChanged: vi.fn(async () => {}),
+      onResourceUpdated: vi.fn(async () => {}),
+      onPromptsChanged: vi.fn(async () => {}),
+    };
+
+    handleChangeNotifications(
+      {
+        setNotificationHandler: (schema, handler) => {
+          registered.set(schema, handler);
+        },
+      } as NotificationClient,
+      handlers
+    );
+
+    await registered.get(ToolListChangedNotificationSchema)?.({});
+    await registered.get(ResourceListChangedNotificationSchema)?.({});
+    await registered.get(ResourceUpdatedNotificationSchema)?.({
+      method: "notifications/resources/updated",
+      params: { uri: "file:///notes.md" },
+    });
+    await registered.get(PromptListChangedNotificationSchema)?.({});
+
+    expect(handlers.onToolsChanged).toHaveBeenCalledOnce();
+    expect(handlers.onResourcesChanged).toHaveBeenCalledOnce();
+    expect(handlers.onResourceUpdated).toHaveBeenCalledWith("file:///notes.md");
+    expect(handlers.onPromptsChanged).toHaveBeenCalledOnce();
+  });
+});
+
+describe("diffNames", () => {
+  it("reports names that were added and removed", () => {
+    expect(diffNames(["search", "read"], ["read", "write"])).toEqual({
+      added: ["write"],
+      removed: ["search"],
+    });
+  });
+});
@@ -0,0 +1,384 @@
+import { env, applyD1Migrations } from "cloudflare:test";
+import { describe, it, expect, beforeAll } from "vitest";
+import * as agentAPI from "../src/api/agents";
+import {
+  MCPAuthRequiredError,
+  OAuthTokenError,
+  buildAuthorizationUrl,
+  completeOAuthFlow,
+  createCodeChallenge,
+  ensureFreshOAuthTokens,
+  needsRefresh,
+  refreshAccessToken,
+  startOAuthFlow,
+  type OAuthClientConfig,
+} from "../src/lib/mcp-oauth";
+import {
+  decryptCredentials,
+  encryptCredentials,
+  type CredentialKeyOptions,
+} from "../src/lib/credentials";
+import type { OAuthTokens } from "../src/types/mcp";
+
+const keyOptions: CredentialKeyOptions = { secrets: ["oauth-test-kek"] };
+const redirectUri =
+  "https://agents.test/api/mcp-servers-independent/oauth/callback";
+
+const config: OAuthClientConfig = {
+  clientId: "mcp-client",
+  clientSecret: "client-secret",
+  authUrl: "https://auth.test/authorize",
+  tokenUrl: "https://auth.test/token",
+  scopes: ["tools:read", "tools:write"],
+};
+
+/**
+ * Minimal stand-in for an authorization server. Codes are issued for a PKCE
+ * challenge and can only be redeemed with the matching verifier.
+ */
+function createAuthServer() {
+  const codes = new Map<string, string>();
+  const refreshTokens = new Set<string>();
+  const requests: URLSearchParams[] = [];
+  let issued = 0;
+
+  const issueTokens = () => {
+    issued++;
+    const refreshToken = `refresh-${issued}`;
+    refreshTokens.add(refreshToken);
+    return Response.json({
+      access_token: `access-${issued}`,
+      refresh_token: refreshToken,
+      expires_in: 3600,
+      token_type: "Bearer",
+    });
+  };
+
+  const fetchFn = async (_input: RequestInfo | URL, init?: RequestInit) => {
+    const body = new URLSearchParams(init?.body as URLSearchParams);
+    requests.push(body);
+    if (body.get("client_secret") !== config.clientSecret) {
+      return Response.json({ error: "invalid_client" }, { status: 401 });
+    }
+
+    if (body.get("grant_type") === "authorization_code") {
+      const challenge = codes.get(body.get("code") ?? "");
+      const verifier = body.get("code_verifier") ?? "";
+      if (!challenge || challenge !== (await createCodeChallenge(verifier))) {
+        return Response.json({ error: "invalid_grant" }, { status: 400 });
+      }
+      codes.delete(body.get("code") ?? "");
+      return issueTokens();
+    }
+
+    if (body.get("grant_type") === "refresh_token") {
+      if (!refreshTokens.delete(body.get("refresh_token") ?? "")) {
+        return Response.json(
+          {
+            error: "invalid_grant",
+            error_description: "Refresh token revoked",
+          },
+          { status: 400 }
+        );
+      }
+      return issueTokens();
+    }
+
+    return Response.json({ error: "unsupported_grant_type" }, { status: 400 });
+  };
+
+  /** Simulate the user consenting on the authorization page */
+  const authorize = (authUrl: string) => {
+    const url = new URL(authUrl);
+    const code = `code-${codes.size + 1}`;
+    codes.set(code, url.searchParams.get("code_challenge") ?? "");
+    return { code, state: url.searchParams.get("state") ?? "" };
+  };
+
+  return {
+    fetchFn: fetchFn as typeof fetch,
+    authorize,
+    requests,
+    revokeAll: () => refreshTokens.clear(),
+  };
+}
+
+async function createOAuthServer(userId: string): Promise<string> {
+  const id = crypto.randomUUID();
+  await env.DB.prepare(
+    `
+    INSERT INTO mcp_servers_independent (id, name, url, transport, auth_type, auth_config, user_id)
+    VALUES (?, 'OAuth server', 'https://mcp.test/sse', 'sse', 'oauth2', ?, ?)
+  `
+  )
+    .bind(id, await encryptCredentials({ oauth2: config }, keyOptions), userId)
+    .run();
+  return id;
+}
+
+const getServerRow = (id: string) =>
+  env.DB.prepare(
+    "SELECT id, user_id, status, oauth_tokens, oauth_token_expires_at FROM mcp_servers_independent WHERE id = ?"
+  )
+    .bind(id)
+    .first<{
+      id: string;
+      user_id: string;
+      status: string | null;
+      oauth_tokens: string | null;
+      oauth_token_expires_at: string | null;
+    }>();
+
+async function authorizeServer(
+  serverId: string,
+  userId: string,
+  authServer: ReturnType<typeof createAuthServer>
+) {
+  const authUrl = await startOAuthFlow(env.DB, {
+    serverId,
+    userId,
+    config,
+    redirectUri,
+  });
+  const { code, state } = authServer.authorize(authUrl);
+  await completeOAuthFlow(
+    env.DB,
+    { state, code, userId },
+    authServer.fetchFn,
+    keyOptions
+  );
+}
+
+beforeAll(async () => {
+  await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
+});
+
+describe("PKCE helpers", () => {
+  it("derives the S256 code challenge", async () => {
+    // Example from RFC 7636, appendix B
+    expect(
+      await createCodeChallenge("dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk")
+    ).toBe("E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM");
+  });
+
+  it("builds the authorization URL", () => {
+    const url = new URL(
+      buildAuthorizationUrl(config, {
+        redirectUri,
+        state: "state-1",
+        codeChallenge: "challenge-1",
+      })
+    );
+
+    expect(url.origin + url.pathname).toBe(config.authUrl);
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      response_type: "code",
+      client_id: "mcp-client",
+      redirect_uri: redirectUri,
+      state: "state-1",
+      code_challenge: "challenge-1",
+      code_challenge_method: "S256",
+      scope: "tools:read tools:write",
+    });
+  });
+
+  it("refreshes tokens shortly before they expire", () => {
+    const now = Date.now();
+    expect(needsRefresh(null, now)).toBe(false);
+    expect(needsRefresh(now + 10 * 60 * 1000, now)).toBe(false);
+    expect(needsRefresh(now + 30 * 1000, now)).toBe(true);
+    expect(needsRefresh(new Date(now - 1000).toISOString(), now)).toBe(true);
+  });
+
+  it("reports token endpoint errors with their OAuth error code", async () => {
+    const authServer = createAuthServer();
+    const error = await refreshAccessToken(
+      config,
+      "unknown",
+      authServer.fetchFn
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(OAuthTokenError);
+    expect(error).toMatchObject({
+      code: "invalid_grant",
+      message: "Refresh token revoked",
+    });
+  });
+});
+
+describe("authorization flow", () => {
+  it("exchanges the code with the PKCE verifier and stores encrypted tokens", async () => {
+    const authServer = createAuthServer();
+    const serverId = await createOAuthServer("flow-user");
+
+    const authUrl = await startOAuthFlow(env.DB, {
+      serverId,
+      userId: "flow-user",
+      config,
+      redirectUri,
+    });
+    expect((await getServerRow(serverId))?.status).toBe("authenticating");
+
+    const { code, state } = authServer.authorize(authUrl);
+    expect(
+      await completeOAuthFlow(
+        env.DB,
+        { state, code, userId: "flow-user" },
+        authServer.fetchFn,
+        keyOptions
+      )
+    ).toBe(serverId);
+
+    const [exchange] = authServer.requests;
+    expect(exchange.get("grant_type")).toBe("authorization_code");
+    expect(exchange.get("redirect_uri")).toBe(redirectUri);
+
+    const row = await getServerRow(serverId);
+    expect(row?.status).toBe("disconnected");
+    expect(row?.oauth_tokens).not.toContain("access-1");
+    expect(
+      await decryptCredentials<OAuthTokens>(row?.oauth_tokens, keyOptions)
+    ).toMatchObject({ accessToken: "access-1", refreshToken: "refresh-1" });
+  });
+
+  it("only redeems a state once and only for its user", async () => {
+    const authServer = createAuthServer();
+    const serverId = await createOAuthServer("single-use");
+    const authUrl = await startOAuthFlow(env.DB, {
+      serverId,
+      userId: "single-use",
+      config,
+      redirectUri,
+    });
+    const { code, state } = authServer.authorize(authUrl);
+
+    await expect(
+      completeOAuthFlow(
+        env.DB,
+        { state, code, userId: "someone-else" },
+        authServer.fetchFn,
+        keyOptions
+      )
+    ).rejects.toThrow("Unknown or expired");
+
+    await completeOAuthFlow(
+      env.DB,
+      { state, code, userId: "single-use" },
+      authServer.fetchFn,
+      keyOptions
+    );
+    await expect(
+      completeOAuthFlow(
+        env.DB,
+        { state, code, userId: "single-use" },
+        authServer.fetchFn,
+        keyOptions
+      )
+    ).rejects.toThrow("Unknown or expired");
+  });
+
+  it("marks the server as failed when the exchange is rejected", async () => {
+    const authServer = createAuthServer();
+    const serverId = await createOAuthServer("bad-code");
+    const authUrl = await startOAuthFlow(env.DB, {
+      serverId,
+      userId: "bad-code",
+      config,
+      redirectUri,
+    });
+    const { state } = authServer.authorize(authUrl);
+
+    await expect(
+      completeOAuthFlow(
+        env.DB,
+        { state, code: "forged", userId: "bad-code" },
+        authServer.fetchFn,
+        keyOptions
+      )
+    ).rejects.toBeInstanceOf(OAuthTokenError);
+    expect((await getServerRow(serverId))?.status).toBe("error");
+  });
+});
+
+describe("ensureFreshOAuthTokens", () => {
+  it("asks for authorization when there are no tokens", async () => {
+    const serverId = await createOAuthServer("never-authorized");
+    const row = await getServerRow(serverId);
+
+    await expect(
+      ensureFreshOAuthTokens(
+        env.DB,
+        row!,
+        createAuthServer().fetchFn,
+        keyOptions
+      )
+    ).rejects.toBeInstanceOf(MCPAuthRequiredError);
+    expect((await getServerRow(serverId))?.status).toBe("pending_auth");
+  });
+
+  it("reports a test of a server without tokens as needing authorization", async () => {
+    const serverId = await createOAuthServer("never-tested");
+
+    const response = await agentAPI.testIndependentMCPServer(
+      env,
+      "never-tested",
+      serverId
+    );
+
+    expect(await response.json()).toMatchObject({
+      success: false,
+      message: "Server needs authorization",
+    });
+    expect((await getServerRow(serverId))?.status).toBe("pending_auth");
+  });
+
+  it("keeps tokens that are still valid", async () => {
+    const authServer = createAuthServer();
+    const serverId = await createOAuthServer("valid-tokens");
+    await authorizeServer(serverId, "valid-tokens", authServer);
+    const row = await getServerRow(serverId);
+
+    expect(
+      await ensureFreshOAuthTokens(env.DB, row!, authServer.fetchFn, keyOptions)
+    ).toBe(row?.oauth_tokens);
+    expect(authServer.requests).toHaveLength(1);
+  });
+
+  it("refreshes tokens that are about to expire", async () => {
+    const authServer = createAuthServer();
+    const serverId = await createOAuthServer("expiring");
+    await authorizeServer(serverId, "expiring", authServer);
+    const row = await getServerRow(serverId);
+
+    const stored = await ensureFreshOAuthTokens(
+      env.DB,
+      { ...row!, oauth_token_expires_at: new Date().toISOString() },
+      authServer.fetchFn,
+      keyOptions
+    );
+
+    expect(authServer.requests[1].get("refresh_token")).toBe("refresh-1");
+    expect(
+      await decryptCredentials<OAuthTokens>(stored, keyOptions)
+    ).toMatchObject({ accessToken: "access-2", refreshToken: "refresh-2" });
+    expect((await getServerRow(serverId))?.oauth_tokens).toBe(stored);
+  });
+
+  it("asks for authorization again when the refresh token is revoked", async () => {
+    const authServer = createAuthServer();
+    const serverId = await createOAuthServer("revoked");
+    await authorizeServer(serverId, "revoked", authServer);
+    authServer.revokeAll();
+    const row = await getServerRow(serverId);
+
+    await expect(
+      ensureFreshOAuthTokens(
+        env.DB,
+        { ...row!, oauth_token_expires_at: new Date().toISOString() },
+        authServer.fetchFn,
+        keyOptions
+      )
+    ).rejects.toBeInstanceOf(MCPAuthRequiredError);
+    expect((await getServerRow(serverId))?.status).toBe("pending_auth");
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { connectionFingerprint, planSweep } from "../src/lib/mcp-pool";
+
+const server = {
+  id: "srv-1",
+  userId: "alice",
+  url: "https://mcp.test/mcp",
+  transport: "streamable-http" as const,
+  auth: { type: "apikey" as const },
+  encryptedCredentials: "v1.key.iv.data.tag",
+  encryptedOAuthTokens: null,
+};
+
+describe("connectionFingerprint", () => {
+  it("is stable for the same settings", async () => {
+    expect(await connectionFingerprint(server)).toBe(
+      await connectionFingerprint({ ...server })
+    );
+  });
+
+  it("differs per user and per credentials", async () => {
+    const fingerprint = await connectionFingerprint(server);
+    expect(await connectionFingerprint({ ...server, userId: "bob" })).not.toBe(
+      fingerprint
+    );
+    expect(
+      await connectionFingerprint({
+        ...server,
+        encryptedCredentials: "v1.key.iv.other.tag",
+      })
+    ).not.toBe(fingerprint);
+    expect(
+      await connectionFingerprint({
+        ...server,
+        encryptedOAuthTokens: "v1.key.iv.tokens.tag",
+      })
+    ).not.toBe(fingerprint);
+  });
+});
+
+describe("planSweep", () => {
+  const config = { idleTimeoutMs: 1000, pingIntervalMs: 100 };
+
+  it("evicts idle connections and pings the ones not checked recently", () => {
+    const usage = new Map([
+      ["idle", { lastUsed: 0, lastPinged: 900 }],
+      ["stale", { lastUsed: 900, lastPinged: 850 }],
+      ["fresh", { lastUsed: 900, lastPinged: 950 }],
+    ]);
+
+    expect(planSweep(usage, 1000, config)).toEqual({
+      evict: ["idle"],
+      ping: ["stale"],
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import { discoverPrompts } from "../src/lib/mcp-prompts";
+import {
+  promptCommand,
+  promptMessagesToChatMessages,
+} from "../src/lib/mcp-prompts-client";
+
+const server = { id: "gh", name: "GitHub Tools" };
+
+describe("discoverPrompts", () => {
+  it("lists every page of prompts with their arguments", async () => {
+    const prompts = await discoverPrompts(
+      {
+        async listPrompts(params) {
+          return params?.cursor
+            ? { prompts: [{ name: "summarize" }] }
+            : {
+                prompts: [
+                  {
+                    name: "review-pr",
+                    description: "Review a pull request",
+                    arguments: [
+                      { name: "number", required: true },
+                      { name: "focus", description: "What to look at" },
+                    ],
+                  },
+                ],
+                nextCursor: "2",
+              };
+        },
+      },
+      server
+    );
+
+    expect(prompts).toEqual([
+      {
+        name: "review-pr",
+        description: "Review a pull request",
+        arguments: [
+          { name: "number", required: true },
+          { name: "focus", description: "What to look at" },
+        ],
+        serverId: "gh",
+        serverName: "GitHub Tools",
+      },
+      {
+        name: "summarize",
+        arguments: [],
+        serverId: "gh",
+        serverName: "GitHub Tools",
+      },
+    ]);
+  });
+
+  it("returns no prompts when prompts/list fails", async () => {
+    const prompts = await discoverPrompts(
+      {
+        async listPrompts() {
+          throw new Error("MCP error -32601: Method not found");
+        },
+      },
+      server
+    );
+    expect(prompts).toEqual([]);
+  });
+});
+
+describe("promptCommand", () => {
+  it("prefixes the prompt with a slug of the server name", () => {
+    expect(
+      promptCommand({ name: "review-pr", serverName: "GitHub Tools" })
+    ).toBe("/github-tools:review-pr");
+    expect(promptCommand({ name: "draft", serverName: " Docs (v2) " })).toBe(
+      "/docs-v2:draft"
+    );
+  });
+});
+
+describe("promptMessagesToChatMessages", () => {
+  it("merges consecutive messages of the same role", () => {
+    const messages = promptMessagesToChatMessages(server, [
+      { role: "user", content: { type: "text", text: "Review PR #12" } },
+      {
+        role: "user",
+        content: {
+          type: "resource",
+          resource: { uri: "gh://pr/12/diff", text: "+ added line" },
+        },
+      },
+      {
+        role: "user",
+        content: {
+          type: "resource_link",
+          uri: "https://github.test/pr/12",
+          name: "pr-12",
+          title: "PR #12",
+        },
+      },
+      { role: "assistant", content: { type: "text", text: "Looking at it." } },
+      { role: "user", content: { type: "text", text: "Focus on tests" } },
+    ]);
+
+    expect(messages.map(({ role, content }) => ({ role, content }))).toEqual([
+      {
+        role: "user",
+        content: "Review PR #12\n\n[PR #12](https://github.test/pr/12)",
+      },
+      { role: "assistant", content: "Looking at it." },
+      { role: "user", content: "Focus on tests" },
+    ]);
+    expect(messages[0].experimental_attachments).toMatchObject([
+      { name: "gh://pr/12/diff", contentType: "text/plain" },
+    ]);
+    expect(new Set(messages.map((message) => message.id)).size).toBe(3);
+  });
+
+  it("attaches images to user messages only", () => {
+    const image = {
+      type: "image" as const,
+      data: "iVBORw0KGgo=",
+      mimeType: "image/png",
+    };
+    const [user, assistant] = promptMessagesToChatMessages(server, [
+      { role: "user", content: image },
+      { role: "assistant", content: image },
+      { role: "assistant", content: { type: "text", text: "A logo." } },
+    ]);
+
+    expect(user).toMatchObject({
+      role: "user",
+      content: "",
+      experimental_attachments: [
+        {
+          name: "image.png",
+          contentType: "image/png",
+          url: "data:image/png;base64,iVBORw0KGgo=",
+        },
+      ],
+    });
+    expect(assistant.content).toBe("A logo.");
+    expect(assistant.experimental_attachments).toBeUndefined();
+  });
+});
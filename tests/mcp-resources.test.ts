@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import {
+  discoverResources,
+  type MCPResourceClient,
+} from "../src/lib/mcp-resources";
+import { resourceContentsToAttachments } from "../src/lib/mcp-resources-client";
+
+const server = { id: "docs", name: "Docs" };
+
+const decode = (url: string) => {
+  const binary = atob(url.split(",")[1]);
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (char) => char.charCodeAt(0))
+  );
+};
+
+describe("discoverResources", () => {
+  it("follows pagination cursors and tags each resource with its server", async () => {
+    const cursors: (string | undefined)[] = [];
+    const client: MCPResourceClient = {
+      async listResources(params) {
+        cursors.push(params?.cursor);
+        return params?.cursor
+          ? { resources: [{ uri: "docs://b", name: "b" }] }
+          : {
+              resources: [
+                { uri: "docs://a", name: "a", mimeType: "text/markdown" },
+              ],
+              nextCursor: "page-2",
+            };
+      },
+      async listResourceTemplates() {
+        return {
+          resourceTemplates: [
+            { uriTemplate: "docs://pages/{slug}", name: "page" },
+          ],
+        };
+      },
+    };
+
+    const { resources, resourceTemplates } = await discoverResources(
+      client,
+      server
+    );
+    expect(cursors).toEqual([undefined, "page-2"]);
+    expect(resources).toEqual([
+      {
+        uri: "docs://a",
+        name: "a",
+        mimeType: "text/markdown",
+        serverId: "docs",
+        serverName: "Docs",
+      },
+      { uri: "docs://b", name: "b", serverId: "docs", serverName: "Docs" },
+    ]);
+    expect(resourceTemplates).toEqual([
+      {
+        uriTemplate: "docs://pages/{slug}",
+        name: "page",
+        serverId: "docs",
+        serverName: "Docs",
+      },
+    ]);
+  });
+
+  it("keeps the resources when the server doesn't support templates", async () => {
+    const client: MCPResourceClient = {
+      async listResources() {
+        return { resources: [{ uri: "docs://a", name: "a" }] };
+      },
+      async listResourceTemplates() {
+        throw new Error("MCP error -32601: Method not found");
+      },
+    };
+
+    const { resources, resourceTemplates } = await discoverResources(
+      client,
+      server
+    );
+    expect(resources.map((resource) => resource.uri)).toEqual(["docs://a"]);
+    expect(resourceTemplates).toEqual([]);
+  });
+});
+
+describe("resourceContentsToAttachments", () => {
+  const resource = { name: "README.md", serverName: "Docs" };
+
+  it("sends text contents as text/plain labelled with their source", () => {
+    const [attachment] = resourceContentsToAttachments(resource, [
+      { uri: "docs://readme", mimeType: "text/markdown", text: "# Héllo ✓" },
+    ]);
+
+    expect(attachment).toMatchObject({
+      name: "README.md",
+      contentType: "text/plain",
+    });
+    expect(attachment.url.startsWith("data:text/plain;base64,")).toBe(true);
+    expect(decode(attachment.url)).toBe(
+      'Contents of the MCP resource "README.md" (docs://readme) from Docs:\n\n# Héllo ✓'
+    );
+  });
+
+  it("keeps the MIME type of binary contents", () => {
+    const attachments = resourceContentsToAttachments(resource, [
+      { uri: "docs://logo", mimeType: "image/png", blob: "iVBORw0KGgo=" },
+      { uri: "docs://empty" },
+    ]);
+
+    expect(attachments).toEqual([
+      {
+        name: "README.md",
+        contentType: "image/png",
+        url: "data:image/png;base64,iVBORw0KGgo=",
+      },
+    ]);
+  });
+});
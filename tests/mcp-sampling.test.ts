@@ -0,0 +1,242 @@
+import { env, applyD1Migrations } from "cloudflare:test";
+import { describe, it, expect, beforeAll, vi } from "vitest";
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { LanguageModelV1 } from "ai";
+import * as agentAPI from "../src/api/agents";
+import { createFakeModel } from "../src/lib/models";
+import {
+  handleSamplingRequest,
+  samplingTokensUsed,
+  toModelMessages,
+  type SamplingContext,
+  type SamplingParams,
+} from "../src/lib/mcp-sampling";
+import { listToolExecutions } from "../src/lib/tool-audit";
+import { jsonRequest } from "./helpers";
+
+const USER = "user-mcp-sampling";
+
+const params = (text: string, maxTokens = 100): SamplingParams => ({
+  messages: [{ role: "user", content: { type: "text", text } }],
+  systemPrompt: "Be brief.",
+  maxTokens,
+});
+
+async function createServer(settings: Record<string, unknown>) {
+  const response = await agentAPI.createIndependentMCPServer(
+    jsonRequest("POST", {
+      name: "Docs",
+      url: "https://docs.example.com/mcp",
+      transport: "streamable-http",
+      ...settings,
+    }),
+    env,
+    USER
+  );
+  const { server } = (await response.json()) as {
+    server: { id: string; name: string };
+  };
+  return server;
+}
+
+function samplingContext(
+  overrides: Partial<SamplingContext> = {}
+): SamplingContext {
+  return {
+    db: env.DB,
+    userId: USER,
+    threadId: "thread-1",
+    agentId: "analyst",
+    model: createFakeModel(),
+    modelName: "fake:echo",
+    requestApproval: vi.fn().mockResolvedValue(true),
+    ...overrides,
+  };
+}
+
+beforeAll(async () => {
+  await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
+});
+
+describe("toModelMessages", () => {
+  it("keeps text and user images", () => {
+    expect(
+      toModelMessages([
+        { role: "user", content: { type: "text", text: "Describe" } },
+        {
+          role: "user",
+          content: { type: "image", data: "aGk=", mimeType: "image/png" },
+        },
+        {
+          role: "assistant",
+          content: { type: "audio", data: "aGk=", mimeType: "audio/wav" },
+        },
+      ])
+    ).toEqual([
+      { role: "user", content: "Describe" },
+      {
+        role: "user",
+        content: [{ type: "image", image: "aGk=", mimeType: "image/png" }],
+      },
+    ]);
+  });
+});
+
+describe("handleSamplingRequest", () => {
+  it("runs requests of trusted servers on the thread's model", async () => {
+    const server = await createServer({ samplingTrusted: true });
+    const context = samplingContext();
+
+    const result = await handleSamplingRequest(
+      server,
+      params("summarize"),
+      context
+    );
+
+    expect(result).toEqual({
+      role: "assistant",
+      content: { type: "text", text: "You said: summarize" },
+      model: "fake:echo",
+      stopReason: "endTurn",
+    });
+    expect(context.requestApproval).not.toHaveBeenCalled();
+
+    const { executions } = await listToolExecutions(env.DB, USER, {
+      kind: "sampling",
+    });
+    expect(executions).toHaveLength(1);
+    expect(executions[0]).toMatchObject({
+      toolName: "sampling/createMessage",
+      serverId: server.id,
+      threadId: "thread-1",
+      decision: "auto",
+      tokens: "You said: summarize".length,
+      error: null,
+    });
+  });
+
+  it("asks the user before running requests of other servers", async () => {
+    const server = await createServer({});
+    const requestApproval = vi
+      .fn()
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(true);
+    const context = samplingContext({ requestApproval });
+
+    const denied = handleSamplingRequest(server, params("first"), context);
+    await expect(denied).rejects.toBeInstanceOf(McpError);
+    await expect(denied).rejects.toMatchObject({ code: -1 });
+    await handleSamplingRequest(server, params("second"), context);
+
+    expect(requestApproval).toHaveBeenCalledWith(
+      expect.objectContaining({
+        serverId: server.id,
+        serverName: "Docs",
+        preview: "first",
+        systemPrompt: "Be brief.",
+      })
+    );
+    const { executions } = await listToolExecutions(env.DB, USER, {
+      serverId: server.id,
+    });
+    expect(executions.map((e) => [e.decision, e.error])).toEqual([
+      ["approved", null],
+      ["denied", "User rejected sampling request"],
+    ]);
+  });
+
+  it("stays within the server's daily token budget", async () => {
+    const server = await createServer({
+      samplingTrusted: true,
+      samplingTokenBudget: 30,
+    });
+    const model = createFakeModel();
+    const doGenerate = vi.fn(model.doGenerate.bind(model));
+    const context = samplingContext({
+      model: { ...model, doGenerate } as LanguageModelV1,
+    });
+
+    await handleSamplingRequest(server, params("summarize", 100), context);
+    expect(doGenerate.mock.calls[0][0].maxTokens).toBe(30);
+    expect(await samplingTokensUsed(env.DB, USER, server.id)).toBe(19);
+
+    await handleSamplingRequest(server, params("more", 100), context);
+    expect(doGenerate.mock.calls[1][0].maxTokens).toBe(11);
+
+    await expect(
+      handleSamplingRequest(server, params("again"), context)
+    ).rejects.toThrow("Sampling budget of 30 tokens per day is used up");
+    expect(doGenerate).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("sampling answer API", () => {
+  it("settles the request with the user's answer", async () => {
+    const resolve = vi.fn().mockResolvedValue(true);
+    const response = await agentAPI.answerSamplingRequest(
+      jsonRequest("POST", { approved: false }),
+      resolve
+    );
+
+    expect(response.status).toBe(200);
+    expect(resolve).toHaveBeenCalledWith(false);
+    expect(
+      (
+        await agentAPI.answerSamplingRequest(
+          jsonRequest("POST", { approved: true }),
+          vi.fn().mockResolvedValue(false)
+        )
+      ).status
+    ).toBe(404);
+  });
+
+  it("rejects malformed bodies", async () => {
+    const resolve = vi.fn();
+    const malformed = new Request("http://localhost/api", {
+      method: "POST",
+      body: "{not json",
+    });
+
+    expect(
+      (await agentAPI.answerSamplingRequest(malformed, resolve)).status
+    ).toBe(400);
+    expect(
+      (
+        await agentAPI.answerSamplingRequest(
+          jsonRequest("POST", { approved: "yes" }),
+          resolve
+        )
+      ).status
+    ).toBe(400);
+    expect(resolve).not.toHaveBeenCalled();
+  });
+});
+
+describe("sampling settings API", () => {
+  it("stores trust and budget and rejects invalid budgets", async () => {
+    const server = await createServer({
+      samplingTrusted: true,
+      samplingTokenBudget: 5000,
+    });
+
+    const list = await agentAPI.getIndependentMCPServers(env, USER);
+    const { servers } = (await list.json()) as {
+      servers: { id: string; samplingTrusted: boolean }[];
+    };
+    expect(servers.find((s) => s.id === server.id)).toMatchObject({
+      samplingTrusted: true,
+      samplingTokenBudget: 5000,
+    });
+
+    const invalid = await agentAPI.createIndependentMCPServer(
+      jsonRequest("POST", {
+        name: "Bad",
+        url: "https://bad.example.com/mcp",
+        samplingTokenBudget: -1,
+      }),
+      env,
+      USER
+    );
+    expect(invalid.status).toBe(400);
+  });
+});
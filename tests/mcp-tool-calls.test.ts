@@ -0,0 +1,97 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  DEFAULT_TOOL_TIMEOUT_MS,
+  latestToolProgress,
+  parseToolTimeouts,
+  ToolCallDeadline,
+  toolProgressPart,
+  toolTimeoutMs,
+} from "../src/lib/mcp-tool-calls";
+
+describe("toolProgressPart", () => {
+  it("keeps missing totals and messages as null so the part is valid JSON", () => {
+    expect(toolProgressPart("call-1", { progress: 3 })).toEqual({
+      type: "mcp_tool_progress",
+      toolCallId: "call-1",
+      progress: 3,
+      total: null,
+      message: null,
+    });
+  });
+});
+
+describe("latestToolProgress", () => {
+  it("returns the last progress part of each tool call", () => {
+    const progress = latestToolProgress([
+      toolProgressPart("call-1", { progress: 1, total: 4 }),
+      { type: "something_else" },
+      "text",
+      toolProgressPart("call-2", { progress: 10, message: "Indexing" }),
+      toolProgressPart("call-1", { progress: 3, total: 4 }),
+    ]);
+
+    expect(Object.keys(progress)).toEqual(["call-1", "call-2"]);
+    expect(progress["call-1"].progress).toBe(3);
+    expect(progress["call-2"].message).toBe("Indexing");
+  });
+
+  it("handles a chat without data", () => {
+    expect(latestToolProgress(undefined)).toEqual({});
+  });
+});
+
+describe("tool timeouts", () => {
+  it("uses the configured timeout of a tool", () => {
+    expect(toolTimeoutMs({ crawl: 300_000 }, "crawl")).toBe(300_000);
+    expect(toolTimeoutMs({ crawl: 300_000 }, "search")).toBe(
+      DEFAULT_TOOL_TIMEOUT_MS
+    );
+    expect(toolTimeoutMs(undefined, "search")).toBe(DEFAULT_TOOL_TIMEOUT_MS);
+  });
+
+  it("ignores malformed stored timeouts", () => {
+    expect(
+      parseToolTimeouts('{"crawl":300000,"search":-1,"fetch":"10"}')
+    ).toEqual({ crawl: 300_000 });
+    expect(parseToolTimeouts("not json")).toBeUndefined();
+    expect(parseToolTimeouts(null)).toBeUndefined();
+  });
+});
+
+describe("ToolCallDeadline", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("stops counting while paused", () => {
+    vi.useFakeTimers();
+    const deadline = new ToolCallDeadline(1000);
+
+    vi.advanceTimersByTime(600);
+    deadline.pause();
+    // A nested pause ends without resuming the time
+    deadline.pause();
+    vi.advanceTimersByTime(5000);
+    deadline.resume();
+    vi.advanceTimersByTime(5000);
+    expect(deadline.signal.aborted).toBe(false);
+
+    deadline.resume();
+    vi.advanceTimersByTime(399);
+    expect(deadline.signal.aborted).toBe(false);
+    vi.advanceTimersByTime(1);
+    expect(deadline.signal.aborted).toBe(true);
+    expect(deadline.signal.reason).toMatchObject({
+      message: expect.stringContaining("Request timed out"),
+      data: { timeout: 1000 },
+    });
+  });
+
+  it("never aborts once cleared", () => {
+    vi.useFakeTimers();
+    const deadline = new ToolCallDeadline(1000);
+    deadline.clear();
+    vi.advanceTimersByTime(2000);
+    expect(deadline.signal.aborted).toBe(false);
+  });
+});
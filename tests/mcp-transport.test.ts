@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPError } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import {
+  connectMCPClient,
+  shouldFallbackToSSE,
+} from "../src/lib/mcp-transport";
+
+const SERVER_URL = "https://mcp.test/mcp";
+
+type JSONRPCRequest = { jsonrpc: "2.0"; id?: number; method: string };
+
+const createClient = () =>
+  new Client(
+    { name: "transport-test", version: "1.0.0" },
+    { capabilities: { tools: {} } }
+  );
+
+function respond(request: JSONRPCRequest) {
+  const result =
+    request.method === "initialize"
+      ? {
+          protocolVersion: "2025-06-18",
+          capabilities: { tools: {} },
+          serverInfo: { name: "stand-in", version: "1.0.0" },
+        }
+      : { tools: [{ name: "add", inputSchema: { type: "object" } }] };
+  return { jsonrpc: "2.0", id: request.id, result };
+}
+
+/** A server that speaks Streamable HTTP with plain JSON responses */
+function streamableHttpServer(requests: Request[]) {
+  return async (url: string | URL, init?: RequestInit) => {
+    const request = new Request(url, init);
+    requests.push(request.clone());
+    if (request.method !== "POST") {
+      // No standalone event stream
+      return new Response(null, { status: 405 });
+    }
+    const message = (await request.json()) as JSONRPCRequest;
+    if (message.id === undefined) {
+      return new Response(null, { status: 202 });
+    }
+    return Response.json(respond(message), {
+      headers: { "mcp-session-id": "session-1" },
+    });
+  };
+}
+
+/** A server that only speaks the legacy HTTP+SSE protocol */
+function legacySSEServer(requests: Request[]) {
+  const encoder = new TextEncoder();
+  let stream: ReadableStreamDefaultController<Uint8Array> | undefined;
+  const send = (event: string, data: string) =>
+    stream?.enqueue(encoder.encode(`event: ${event}\ndata: ${data}\n\n`));
+
+  return async (url: string | URL, init?: RequestInit) => {
+    const request = new Request(url, init);
+    requests.push(request.clone());
+    const { pathname } = new URL(request.url);
+
+    if (request.method === "GET" && pathname === "/mcp") {
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          stream = controller;
+          send("endpoint", "/messages?sessionId=1");
+        },
+      });
+      return new Response(body, {
+        headers: { "Content-Type": "text/event-stream" },
+      });
+    }
+    if (request.method === "POST" && pathname === "/messages") {
+      const message = (await request.json()) as JSONRPCRequest;
+      if (message.id !== undefined) {
+        send("message", JSON.stringify(respond(message)));
+      }
+      return new Response(null, { status: 202 });
+    }
+    return new Response("Method Not Allowed", { status: 405 });
+  };
+}
+
+describe("shouldFallbackToSSE", () => {
+  it("falls back on client errors other than auth failures", () => {
+    expect(shouldFallbackToSSE(new StreamableHTTPError(405, "nope"))).toBe(
+      true
+    );
+    expect(
+      shouldFallbackToSSE(
+        new Error("Error POSTing to endpoint (HTTP 404): Not Found")
+      )
+    ).toBe(true);
+
+    expect(shouldFallbackToSSE(new StreamableHTTPError(401, "nope"))).toBe(
+      false
+    );
+    expect(
+      shouldFallbackToSSE(new Error("Error POSTing to endpoint (HTTP 403): "))
+    ).toBe(false);
+    expect(
+      shouldFallbackToSSE(new Error("Error POSTing to endpoint (HTTP 500): "))
+    ).toBe(false);
+    expect(shouldFallbackToSSE(new TypeError("fetch failed"))).toBe(false);
+  });
+});
+
+describe("connectMCPClient", () => {
+  it("connects to Streamable HTTP servers with the auth headers", async () => {
+    const requests: Request[] = [];
+    const { client, transport } = await connectMCPClient(createClient, {
+      url: SERVER_URL,
+      transport: "streamable-http",
+      headers: { Authorization: "Bearer token" },
+      fetch: streamableHttpServer(requests),
+    });
+
+    expect(transport).toBe("streamable-http");
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual(["add"]);
+    expect(requests[0].headers.get("Authorization")).toBe("Bearer token");
+    expect(requests.at(-1)?.headers.get("mcp-session-id")).toBe("session-1");
+    await client.close();
+  });
+
+  it("falls back to SSE when the server only supports the legacy protocol", async () => {
+    const requests: Request[] = [];
+    const { client, transport } = await connectMCPClient(createClient, {
+      url: SERVER_URL,
+      transport: "streamable-http",
+      headers: { Authorization: "Bearer token" },
+      fetch: legacySSEServer(requests),
+    });
+
+    expect(transport).toBe("sse");
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual(["add"]);
+
+    const [initialize, stream] = requests;
+    expect(initialize.method).toBe("POST");
+    expect(stream.method).toBe("GET");
+    expect(stream.headers.get("Authorization")).toBe("Bearer token");
+    await client.close();
+  });
+
+  it("does not fall back when the server rejects the credentials", async () => {
+    const requests: Request[] = [];
+    const unauthorized = async (url: string | URL, init?: RequestInit) => {
+      requests.push(new Request(url, init));
+      return new Response("Unauthorized", { status: 401 });
+    };
+
+    await expect(
+      connectMCPClient(createClient, {
+        url: SERVER_URL,
+        transport: "streamable-http",
+        fetch: unauthorized,
+      })
+    ).rejects.toThrow();
+    expect(requests.every((request) => request.method === "POST")).toBe(true);
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect } from "vitest";
+import {
+  categorizeConnectionError,
+  testWebSocketServer,
+} from "../src/lib/mcp-websocket-test";
+
+type JSONRPCMessage = {
+  id?: number;
+  method: string;
+  params?: Record<string, unknown>;
+};
+
+type Handler = (message: JSONRPCMessage, socket: WebSocket) => void;
+
+const reply = (socket: WebSocket, id: number | undefined, result: unknown) =>
+  socket.send(JSON.stringify({ jsonrpc: "2.0", id, result }));
+
+/** Responds like a well-behaved WebSocket MCP server */
+const mcpServer: Handler = (message, socket) => {
+  if (message.method === "initialize") {
+    reply(socket, message.id, {
+      protocolVersion: message.params?.protocolVersion,
+      capabilities: { tools: {} },
+      serverInfo: { name: "stand-in", version: "1.0.0" },
+    });
+  } else if (message.method === "tools/list") {
+    reply(socket, message.id, {
+      tools: [
+        { name: "add", inputSchema: { type: "object" } },
+        { name: "multiply", inputSchema: { type: "object" } },
+      ],
+    });
+  }
+};
+
+/**
+ * Local stand-in for a WebSocket MCP server. Returns a fetch that accepts
+ * the upgrade with one end of a WebSocketPair and serves the other end.
+ */
+function standIn(handler: Handler, requests: Request[] = []) {
+  return (async (input: RequestInfo | URL, init?: RequestInit) => {
+    requests.push(new Request(input, init));
+    const { 0: client, 1: server } = new WebSocketPair();
+    server.accept();
+    server.addEventListener("message", (event) => {
+      handler(JSON.parse(String(event.data)), server);
+    });
+    return new Response(null, { status: 101, webSocket: client });
+  }) as typeof fetch;
+}
+
+const respondWith = (response: () => Response) =>
+  (async () => response()) as typeof fetch;
+
+const failWith = (message: string) =>
+  (async () => {
+    throw new Error(message);
+  }) as typeof fetch;
+
+describe("testWebSocketServer", () => {
+  it("runs the handshake, initialize and tools/list", async () => {
+    const requests: Request[] = [];
+    const result = await testWebSocketServer("wss://mcp.test/ws", {
+      headers: { Authorization: "Bearer token" },
+      fetch: standIn(mcpServer, requests),
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      tools: ["add", "multiply"],
+    });
+    expect(result.errorCategory).toBeUndefined();
+
+    const [upgrade] = requests;
+    expect(upgrade.url).toBe("https://mcp.test/ws");
+    expect(upgrade.headers.get("Upgrade")).toBe("websocket");
+    expect(upgrade.headers.get("Sec-WebSocket-Protocol")).toBe("mcp");
+    expect(upgrade.headers.get("Authorization")).toBe("Bearer token");
+  });
+
+  it("reports refused upgrades as auth errors", async () => {
+    const result = await testWebSocketServer("ws://mcp.test/ws", {
+      fetch: respondWith(
+        () => new Response(null, { status: 401, statusText: "Unauthorized" })
+      ),
+    });
+    expect(result).toMatchObject({ success: false, errorCategory: "auth" });
+    expect(result.message).toContain("401");
+  });
+
+  it("reports servers that don't upgrade as protocol errors", async () => {
+    const result = await testWebSocketServer("ws://mcp.test/ws", {
+      fetch: respondWith(() => new Response("<html></html>")),
+    });
+    expect(result).toMatchObject({
+      success: false,
+      errorCategory: "protocol",
+    });
+  });
+
+  it("reports JSON-RPC errors and invalid results as protocol errors", async () => {
+    const rejecting = await testWebSocketServer("ws://mcp.test/ws", {
+      fetch: standIn((message, socket) =>
+        socket.send(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            id: message.id,
+            error: { code: -32601, message: "Method not found" },
+          })
+        )
+      ),
+    });
+    expect(rejecting).toMatchObject({
+      success: false,
+      errorCategory: "protocol",
+    });
+    expect(rejecting.message).toContain("Method not found");
+
+    const outdated = await testWebSocketServer("ws://mcp.test/ws", {
+      fetch: standIn((message, socket) =>
+        reply(socket, message.id, {
+          protocolVersion: "2023-01-01",
+          capabilities: {},
+          serverInfo: { name: "old", version: "0.1.0" },
+        })
+      ),
+    });
+    expect(outdated).toMatchObject({
+      success: false,
+      errorCategory: "protocol",
+    });
+    expect(outdated.message).toContain("2023-01-01");
+  });
+
+  it("reports JSON-RPC auth errors and policy closes as auth errors", async () => {
+    const unauthorized = await testWebSocketServer("ws://mcp.test/ws", {
+      fetch: standIn((message, socket) =>
+        socket.send(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            id: message.id,
+            error: { code: -32001, message: "Unauthorized" },
+          })
+        )
+      ),
+    });
+    expect(unauthorized.errorCategory).toBe("auth");
+
+    const closed = await testWebSocketServer("ws://mcp.test/ws", {
+      fetch: standIn((_message, socket) => socket.close(1008, "Invalid token")),
+    });
+    expect(closed.errorCategory).toBe("auth");
+  });
+
+  it("times out servers that never answer", async () => {
+    const result = await testWebSocketServer("ws://mcp.test/ws", {
+      stepTimeoutMs: 50,
+      fetch: standIn(() => {}),
+    });
+    expect(result).toMatchObject({ success: false, errorCategory: "timeout" });
+    expect(result.message).toContain("initialize timed out");
+  });
+
+  it("categorizes DNS and TLS failures", async () => {
+    const dns = await testWebSocketServer("wss://nowhere.test/ws", {
+      fetch: failWith("getaddrinfo ENOTFOUND nowhere.test"),
+    });
+    expect(dns).toMatchObject({ success: false, errorCategory: "dns" });
+
+    const tls = await testWebSocketServer("wss://self-signed.test/ws", {
+      fetch: failWith("unable to verify the first certificate"),
+    });
+    expect(tls).toMatchObject({ success: false, errorCategory: "tls" });
+  });
+
+  it("rejects URLs that are not WebSocket URLs", async () => {
+    const result = await testWebSocketServer("https://mcp.test/sse");
+    expect(result).toMatchObject({
+      success: false,
+      errorCategory: "protocol",
+    });
+  });
+});
+
+describe("categorizeConnectionError", () => {
+  it("falls back to connection errors", () => {
+    expect(categorizeConnectionError(new Error("ECONNREFUSED"))).toBe(
+      "connection"
+    );
+    expect(categorizeConnectionError(new Error("SSL handshake failed"))).toBe(
+      "tls"
+    );
+    expect(categorizeConnectionError(new Error("request timed out"))).toBe(
+      "timeout"
+    );
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi } from "vitest";
+import { generateText, streamText } from "ai";
+import {
+  DEFAULT_MODEL,
+  createFakeModel,
+  getThreadModelSettings,
+  parseModelSpec,
+  resolveModel,
+} from "../src/lib/models";
+import { createMockDb } from "./helpers";
+
+const env = {} as Env;
+
+describe("parseModelSpec", () => {
+  it("splits provider and model on the first colon", () => {
+    expect(parseModelSpec("openai-compatible:llama3.1:8b")).toEqual({
+      provider: "openai-compatible",
+      modelId: "llama3.1:8b",
+    });
+  });
+
+  it("rejects unknown providers and malformed specs", () => {
+    expect(() => parseModelSpec("mistral:large")).toThrow(
+      'Unknown model provider "mistral"'
+    );
+    expect(() => parseModelSpec("gpt-4o")).toThrow("provider:model");
+    expect(() => parseModelSpec("openai:")).toThrow("provider:model");
+  });
+});
+
+describe("resolveModel", () => {
+  it("creates models for the registered providers", () => {
+    expect(resolveModel("fake:echo", env).provider).toBe("fake");
+    expect(resolveModel("anthropic:claude-3-5-haiku-latest", env).modelId).toBe(
+      "claude-3-5-haiku-latest"
+    );
+  });
+
+  it("falls back to the default model for invalid specs", () => {
+    const model = resolveModel("nope", env);
+    expect(`openai:${model.modelId}`).toBe(DEFAULT_MODEL);
+  });
+});
+
+describe("createFakeModel", () => {
+  it("echoes the last user message", async () => {
+    const { text } = await generateText({
+      model: createFakeModel(),
+      messages: [
+        { role: "user", content: "first" },
+        { role: "assistant", content: "ok" },
+        { role: "user", content: "hello there" },
+      ],
+    });
+    expect(text).toBe("You said: hello there");
+  });
+
+  it("streams the same reply", async () => {
+    const result = streamText({
+      model: createFakeModel(),
+      prompt: "stream me",
+    });
+    let text = "";
+    for await (const delta of result.textStream) {
+      text += delta;
+    }
+    expect(text).toBe("You said: stream me");
+  });
+});
+
+describe("getThreadModelSettings", () => {
+  it("uses the default model without a database", async () => {
+    expect(await getThreadModelSettings("t1", undefined, "user-1")).toEqual({
+      model: DEFAULT_MODEL,
+    });
+  });
+
+  it("prefers the thread override and falls back per setting", async () => {
+    const { db, bind } = createMockDb([
+      {
+        source: "agent",
+        model: "anthropic:claude-3-5-haiku-latest",
+        temperature: 0.2,
+        max_tokens: 512,
+      },
+      {
+        source: "thread",
+        model: "fake:echo",
+        temperature: null,
+        max_tokens: null,
+      },
+    ]);
+
+    const settings = await getThreadModelSettings("t1", db, "user-1");
+
+    expect(bind).toHaveBeenCalledWith("t1", "user-1", "user-1", "t1", "user-1");
+    expect(settings).toEqual({
+      model: "fake:echo",
+      temperature: 0.2,
+      maxTokens: 512,
+    });
+  });
+
+  it("uses the default model without a user", async () => {
+    const { db, bind } = createMockDb([
+      { source: "thread", model: "fake:echo" },
+    ]);
+    expect(await getThreadModelSettings("t1", db, "")).toEqual({
+      model: DEFAULT_MODEL,
+    });
+    expect(bind).not.toHaveBeenCalled();
+  });
+
+  it("ignores stored specs that are no longer valid", async () => {
+    const { db } = createMockDb([
+      {
+        source: "agent",
+        model: "retired:model",
+        temperature: null,
+        max_tokens: null,
+      },
+    ]);
+    expect(await getThreadModelSettings("t1", db, "user-1")).toEqual({
+      model: DEFAULT_MODEL,
+    });
+  });
+
+  it("uses the default model when the query fails", async () => {
+    const db = {
+      prepare: vi.fn().mockImplementation(() => {
+        throw new Error("no such table: thread_settings");
+      }),
+    } as unknown as D1Database;
+    expect(await getThreadModelSettings("t1", db, "user-1")).toEqual({
+      model: DEFAULT_MODEL,
+    });
+  });
+});
@@ -1,21 +1,72 @@
 import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import type { Message, ToolInvocation } from "@ai-sdk/ui-utils";
+import type { DataStreamWriter, ToolExecutionOptions } from "ai";
 
-vi.mock("@ai-sdk/ui-utils", () => ({
-  formatDataStreamPart: (type: string, data: any) => ({ type, data }),
+vi.mock("@ai-sdk/ui-utils", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@ai-sdk/ui-utils")>()),
+  formatDataStreamPart: (type: string, data: unknown) => ({ type, data }),
 }));
 
 vi.mock("ai", () => ({
-  convertToCoreMessages: (m: any) => m,
+  convertToCoreMessages: (messages: Message[]) => messages,
 }));
 
 import { processToolCalls } from "../src/utils";
 import { APPROVAL } from "../src/shared";
 
-const writer = { write: vi.fn() } as any;
+type Execution = (
+  args: Record<string, unknown>,
+  options: ToolExecutionOptions
+) => Promise<unknown>;
+
+const writer = {
+  write: vi.fn(),
+  writeData: vi.fn(),
+  writeMessageAnnotation: vi.fn(),
+  writeSource: vi.fn(),
+  merge: vi.fn(),
+  onError: undefined,
+} satisfies DataStreamWriter;
+
+// A tool that needs confirmation, it has no execute function of its own
+const confirmedTool = { parameters: z.object({}) };
+
+// An assistant message with the user's answer to a call of the tool "t"
+const answeredCall = (
+  toolCallId: string,
+  result: unknown,
+  args: Record<string, unknown> = {}
+): Message => ({
+  id: "1",
+  role: "assistant",
+  content: "",
+  parts: [
+    {
+      type: "tool-invocation",
+      toolInvocation: {
+        toolName: "t",
+        state: "result",
+        result,
+        args,
+        toolCallId,
+      },
+    },
+  ],
+});
+
+// The tool call of the last message once processed
+function processedCall(messages: Message[]): ToolInvocation {
+  const part = messages[messages.length - 1].parts?.[0];
+  if (part?.type !== "tool-invocation") {
+    throw new Error("The last message has no tool call");
+  }
+  return part.toolInvocation;
+}
 
 describe("processToolCalls", () => {
   it("returns original messages when no tool invocation", async () => {
-    const messages = [{ id: "1", role: "user", content: "hi" } as any];
+    const messages: Message[] = [{ id: "1", role: "user", content: "hi" }];
     const result = await processToolCalls({
       tools: {},
       dataStream: writer,
@@ -26,29 +77,11 @@ describe("processToolCalls", () => {
   });
 
   it("executes tool when approved", async () => {
-    const exec = vi.fn().mockResolvedValue("ok");
-    const messages = [
-      {
-        id: "1",
-        role: "assistant",
-        parts: [
-          {
-            type: "tool-invocation",
-            toolInvocation: {
-              toolName: "t",
-              state: "result",
-              result: APPROVAL.YES,
-              args: { a: 1 },
-              toolCallId: "tc1",
-            },
-          },
-        ],
-      } as any,
-    ];
+    const exec = vi.fn<Execution>().mockResolvedValue("ok");
     const out = await processToolCalls({
-      tools: { t: {} } as any,
+      tools: { t: confirmedTool },
       dataStream: writer,
-      messages,
+      messages: [answeredCall("tc1", APPROVAL.YES, { a: 1 })],
       executions: { t: exec },
     });
     expect(exec).toHaveBeenCalled();
@@ -56,38 +89,119 @@ describe("processToolCalls", () => {
       type: "tool_result",
       data: { toolCallId: "tc1", result: "ok" },
     });
-    expect(out[out.length - 1].parts[0].toolInvocation.result).toBe("ok");
+    expect(processedCall(out)).toMatchObject({ result: "ok" });
   });
 
   it("handles denied execution", async () => {
     writer.write.mockClear();
-    const messages = [
-      {
-        id: "1",
-        role: "assistant",
-        parts: [
-          {
-            type: "tool-invocation",
-            toolInvocation: {
-              toolName: "t",
-              state: "result",
-              result: APPROVAL.NO,
-              args: {},
-              toolCallId: "tc2",
-            },
-          },
-        ],
-      } as any,
-    ];
     const out = await processToolCalls({
-      tools: { t: {} } as any,
+      tools: { t: confirmedTool },
       dataStream: writer,
-      messages,
-      executions: { t: vi.fn() },
+      messages: [answeredCall("tc2", APPROVAL.NO)],
+      executions: { t: vi.fn<Execution>() },
     });
     expect(writer.write).toHaveBeenCalled();
-    expect(out[out.length - 1].parts[0].toolInvocation.result).toContain(
-      "denied"
+    expect(processedCall(out)).toMatchObject({
+      result: expect.stringContaining("denied"),
+    });
+  });
+
+  it("does not run approved calls of denied tools", async () => {
+    writer.write.mockClear();
+    const execution = vi.fn<Execution>();
+    const out = await processToolCalls({
+      tools: { t: confirmedTool },
+      dataStream: writer,
+      messages: [answeredCall("tc3", APPROVAL.YES)],
+      executions: { t: execution },
+      decisions: { t: "deny" },
+    });
+    expect(execution).not.toHaveBeenCalled();
+    expect(processedCall(out)).toMatchObject({
+      result: expect.stringContaining("denied by a tool policy"),
+    });
+  });
+
+  it("runs approved calls with the arguments the user edited", async () => {
+    writer.write.mockClear();
+    const execution = vi.fn<Execution>().mockResolvedValue("sunny");
+    const out = await processToolCalls({
+      tools: { t: { parameters: z.object({ city: z.string() }) } },
+      dataStream: writer,
+      messages: [
+        answeredCall(
+          "tc4",
+          { approval: APPROVAL.YES, args: { city: "Lisbon" } },
+          { city: "Lisbn" }
+        ),
+      ],
+      executions: { t: execution },
+    });
+    expect(execution).toHaveBeenCalledWith(
+      { city: "Lisbon" },
+      expect.objectContaining({ toolCallId: "tc4" })
     );
+    expect(processedCall(out)).toMatchObject({
+      args: { city: "Lisbon" },
+      result: "sunny",
+    });
+  });
+
+  it("runs approved calls of tools allowed since with their own execute", async () => {
+    writer.write.mockClear();
+    const execute = vi.fn<Execution>().mockResolvedValue("done");
+    const out = await processToolCalls({
+      tools: { t: { parameters: z.object({}), execute } },
+      dataStream: writer,
+      messages: [
+        answeredCall("tc5", { approval: APPROVAL.YES, alwaysAllow: "thread" }),
+      ],
+      executions: {},
+      decisions: { t: "auto" },
+    });
+    expect(execute).toHaveBeenCalled();
+    expect(processedCall(out)).toMatchObject({ result: "done" });
+  });
+
+  it("rejects edited arguments that don't match the tool's parameters", async () => {
+    writer.write.mockClear();
+    const execution = vi.fn<Execution>().mockResolvedValue("sunny");
+    const out = await processToolCalls({
+      tools: { t: { parameters: z.object({ city: z.string() }) } },
+      dataStream: writer,
+      messages: [
+        answeredCall(
+          "tc6",
+          { approval: APPROVAL.YES, args: { city: 42 } },
+          { city: "Lisbon" }
+        ),
+      ],
+      executions: { t: execution },
+    });
+    expect(execution).not.toHaveBeenCalled();
+    expect(processedCall(out)).toMatchObject({
+      result:
+        "Error: Invalid tool arguments: city: Expected string, received number",
+    });
+  });
+
+  it("returns an error result when the approved tool throws", async () => {
+    writer.write.mockClear();
+    const execution = vi
+      .fn<Execution>()
+      .mockRejectedValue(new Error("Server offline"));
+    const out = await processToolCalls({
+      tools: { t: confirmedTool },
+      dataStream: writer,
+      messages: [answeredCall("tc7", APPROVAL.YES)],
+      executions: { t: execution },
+    });
+    expect(writer.write).toHaveBeenCalledWith({
+      type: "tool_result",
+      data: { toolCallId: "tc7", result: "Error: Server offline" },
+    });
+    expect(processedCall(out)).toMatchObject({
+      result: "Error: Server offline",
+    });
   });
 });
@@ -0,0 +1,121 @@
+import { env, applyD1Migrations } from "cloudflare:test";
+import { describe, it, expect, beforeAll } from "vitest";
+import {
+  createSessionRecord,
+  getActiveSession,
+  listSessions,
+  revokeAllSessions,
+  revokeSession,
+} from "../src/auth/session-store";
+import {
+  createSessionCookie,
+  getSession,
+  type SessionKeyOptions,
+} from "../src/auth/session";
+
+const keys: SessionKeyOptions = { secrets: ["store-secret"], encrypt: true };
+const inOneHour = () => new Date(Date.now() + 60 * 60 * 1000);
+
+const requestWith = (cookie: string) =>
+  new Request("http://x", {
+    headers: { Cookie: cookie.split(";")[0], "User-Agent": "vitest" },
+  });
+
+const newSession = (userId: string) =>
+  createSessionRecord(
+    env.DB,
+    { userId, username: userId, expiresAt: inOneHour() },
+    { userAgent: "vitest", ip: "203.0.113.7" }
+  );
+
+beforeAll(async () => {
+  await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
+});
+
+describe("session store", () => {
+  it("creates and lists sessions with client details", async () => {
+    const id = await newSession("list-user");
+
+    const sessions = await listSessions(env.DB, "list-user");
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toMatchObject({
+      id,
+      userId: "list-user",
+      userAgent: "vitest",
+      ip: "203.0.113.7",
+    });
+  });
+
+  it("ignores expired sessions", async () => {
+    const id = await createSessionRecord(env.DB, {
+      userId: "expired-user",
+      username: "expired-user",
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    expect(await getActiveSession(env.DB, id)).toBeNull();
+    expect(await listSessions(env.DB, "expired-user")).toHaveLength(0);
+  });
+
+  it("only lets the owner revoke a session", async () => {
+    const id = await newSession("owner");
+
+    expect(await revokeSession(env.DB, "someone-else", id)).toBe(false);
+    expect(await getActiveSession(env.DB, id)).not.toBeNull();
+
+    expect(await revokeSession(env.DB, "owner", id)).toBe(true);
+    expect(await getActiveSession(env.DB, id)).toBeNull();
+    expect(await revokeSession(env.DB, "owner", id)).toBe(false);
+  });
+
+  it("revokes every session of a user", async () => {
+    await newSession("everywhere");
+    await newSession("everywhere");
+    const other = await newSession("bystander");
+
+    expect(await revokeAllSessions(env.DB, "everywhere")).toBe(2);
+    expect(await listSessions(env.DB, "everywhere")).toHaveLength(0);
+    expect(await getActiveSession(env.DB, other)).not.toBeNull();
+  });
+});
+
+describe("getSession with a session store", () => {
+  it("accepts cookies for active sessions only", async () => {
+    const sid = await newSession("cookie-user");
+    const cookie = await createSessionCookie(
+      { userId: "cookie-user", username: "cookie-user", sid },
+      undefined,
+      keys
+    );
+
+    expect(
+      await getSession(requestWith(cookie), { db: env.DB, keys })
+    ).toMatchObject({ userId: "cookie-user", sid });
+
+    await revokeSession(env.DB, "cookie-user", sid);
+    expect(
+      await getSession(requestWith(cookie), { db: env.DB, keys })
+    ).toBeNull();
+  });
+
+  it("rejects cookies without a session ID or for another user", async () => {
+    const legacy = await createSessionCookie(
+      { userId: "cookie-user", username: "cookie-user" },
+      undefined,
+      keys
+    );
+    expect(
+      await getSession(requestWith(legacy), { db: env.DB, keys })
+    ).toBeNull();
+
+    const sid = await newSession("real-owner");
+    const mismatched = await createSessionCookie(
+      { userId: "impostor", username: "impostor", sid },
+      undefined,
+      keys
+    );
+    expect(
+      await getSession(requestWith(mismatched), { db: env.DB, keys })
+    ).toBeNull();
+  });
+});
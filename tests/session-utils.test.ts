@@ -1,56 +1,66 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
 import {
   createSessionCookie,
   getSession,
   clearSessionCookie,
+  sealSession,
+  unsealSession,
   type SessionData,
+  type SessionKeyOptions,
 } from "../src/auth/session";
 
 const sample: SessionData = { userId: "123", username: "tester" };
+const keys: SessionKeyOptions = { secrets: ["current-secret"], encrypt: true };
+const signedOnly: SessionKeyOptions = {
+  secrets: ["current-secret"],
+  encrypt: false,
+};
+
+const cookieValue = (cookie: string) =>
+  cookie.split("__session=")[1].split(";")[0];
+
+const requestWith = (cookie: string) =>
+  new Request("http://x", { headers: { Cookie: cookie } });
+
+afterEach(() => {
+  vi.useRealTimers();
+});
 
 describe("session cookie helpers", () => {
   it("creates and decodes a session cookie", async () => {
-    const cookie = createSessionCookie(sample, { maxAge: 100 });
+    const cookie = await createSessionCookie(sample, { maxAge: 100 }, keys);
     expect(cookie).toContain("__session=");
-    const value = cookie.split("__session=")[1].split(";")[0];
-    const decoded = JSON.parse(Buffer.from(value, "base64").toString("utf8"));
-    expect(decoded).toEqual(sample);
-    const req = new Request("http://x", { headers: { Cookie: cookie } });
-    const result = await getSession(req);
-    expect(result).toEqual(sample);
+    const result = await getSession(requestWith(cookie), { keys });
+    expect(result).toMatchObject(sample);
+    expect(result?.exp).toBe((result?.iat ?? 0) + 100);
   });
 
   it("returns null for missing or bad cookie", async () => {
-    expect(await getSession(new Request("http://x"))).toBeNull();
-    const bad = new Request("http://x", {
-      headers: { Cookie: "__session=bad" },
-    });
-    expect(await getSession(bad)).toBeNull();
+    expect(await getSession(new Request("http://x"), { keys })).toBeNull();
+    expect(await getSession(requestWith("__session=bad"), { keys })).toBeNull();
   });
 
   it("returns null for empty cookie value", async () => {
-    const emptyCookie = new Request("http://x", {
-      headers: { Cookie: "__session=" },
-    });
-    expect(await getSession(emptyCookie)).toBeNull();
+    expect(await getSession(requestWith("__session="), { keys })).toBeNull();
   });
 
   it("returns null when session cookie not found", async () => {
-    const otherCookie = new Request("http://x", {
-      headers: { Cookie: "other=value" },
-    });
-    expect(await getSession(otherCookie)).toBeNull();
+    expect(await getSession(requestWith("other=value"), { keys })).toBeNull();
   });
 
-  it("creates cookie with custom options", () => {
-    const cookie = createSessionCookie(sample, { maxAge: 3600, secure: true });
+  it("creates cookie with custom options", async () => {
+    const cookie = await createSessionCookie(
+      sample,
+      { maxAge: 3600, secure: true },
+      keys
+    );
     expect(cookie).toContain("__session=");
     expect(cookie).toContain("Max-Age=3600");
     expect(cookie).toContain("Secure");
   });
 
-  it("creates cookie with default options", () => {
-    const cookie = createSessionCookie(sample);
+  it("creates cookie with default options", async () => {
+    const cookie = await createSessionCookie(sample, undefined, keys);
     expect(cookie).toContain("__session=");
     expect(cookie).toContain("HttpOnly");
     expect(cookie).toContain("SameSite=Lax");
@@ -63,10 +73,12 @@ describe("session cookie helpers", () => {
       username: "tokenuser",
       accessToken: "github_token_123",
     };
-    const cookie = createSessionCookie(sessionWithToken);
-    const req = new Request("http://x", { headers: { Cookie: cookie } });
-    const result = await getSession(req);
-    expect(result).toEqual(sessionWithToken);
+    const cookie = await createSessionCookie(sessionWithToken, undefined, keys);
+    expect(cookieValue(cookie)).not.toContain(
+      Buffer.from("github_token_123").toString("base64url")
+    );
+    const result = await getSession(requestWith(cookie), { keys });
+    expect(result).toMatchObject(sessionWithToken);
   });
 
   it("clears session cookie", () => {
@@ -74,4 +86,125 @@ describe("session cookie helpers", () => {
     expect(cleared).toContain("Max-Age=0");
     expect(cleared).toContain("__session=");
   });
+
+  it("refuses to issue cookies without a secret", async () => {
+    await expect(
+      createSessionCookie(sample, undefined, { secrets: [], encrypt: true })
+    ).rejects.toThrow("SESSION_SECRET is not configured");
+  });
+});
+
+describe("session tampering", () => {
+  it("rejects a signed payload that was edited", async () => {
+    const token = await sealSession(
+      { ...sample, iat: 1000, exp: 5000 },
+      signedOnly
+    );
+    const [version, , signature] = token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ userId: "1", username: "admin", iat: 1000, exp: 5000 })
+    ).toString("base64url");
+
+    expect(await unsealSession(token, signedOnly, 2000)).toMatchObject(sample);
+    expect(
+      await unsealSession(`${version}.${forged}.${signature}`, signedOnly, 2000)
+    ).toBeNull();
+  });
+
+  it("rejects an encrypted payload with a flipped ciphertext byte", async () => {
+    const token = await sealSession({ ...sample, iat: 1000, exp: 5000 }, keys);
+    const [version, iv, ciphertext, signature] = token.split(".");
+    const bytes = Buffer.from(ciphertext, "base64url");
+    bytes[0] ^= 1;
+
+    expect(
+      await unsealSession(
+        `${version}.${iv}.${bytes.toString("base64url")}.${signature}`,
+        keys,
+        2000
+      )
+    ).toBeNull();
+  });
+
+  it("rejects unsigned legacy base64 cookies", async () => {
+    const legacy = Buffer.from(JSON.stringify(sample)).toString("base64");
+    expect(
+      await getSession(requestWith(`__session=${legacy}`), { keys })
+    ).toBeNull();
+  });
+
+  it("rejects tokens signed with an unknown secret", async () => {
+    const token = await sealSession(
+      { ...sample, iat: 1000, exp: 5000 },
+      { secrets: ["attacker-secret"], encrypt: true }
+    );
+    expect(await unsealSession(token, keys, 2000)).toBeNull();
+  });
+});
+
+describe("session expiry", () => {
+  it("rejects expired sessions", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+    const cookie = await createSessionCookie(sample, { maxAge: 60 }, keys);
+
+    vi.setSystemTime(new Date("2025-01-01T00:00:59Z"));
+    expect(await getSession(requestWith(cookie), { keys })).toMatchObject(
+      sample
+    );
+
+    vi.setSystemTime(new Date("2025-01-01T00:01:00Z"));
+    expect(await getSession(requestWith(cookie), { keys })).toBeNull();
+  });
+
+  it("rejects sessions without expiry or issued in the future", async () => {
+    const noExp = await sealSession({ ...sample, iat: 1000 }, keys);
+    expect(await unsealSession(noExp, keys, 2000)).toBeNull();
+
+    const future = await sealSession(
+      { ...sample, iat: 10_000, exp: 20_000 },
+      keys
+    );
+    expect(await unsealSession(future, keys, 2000)).toBeNull();
+  });
+});
+
+describe("session key rotation", () => {
+  it("accepts cookies from a previous secret and issues with the new one", async () => {
+    const oldKeys: SessionKeyOptions = {
+      secrets: ["old-secret"],
+      encrypt: true,
+    };
+    const rotated: SessionKeyOptions = {
+      secrets: ["new-secret", "old-secret"],
+      encrypt: true,
+    };
+
+    const oldCookie = await createSessionCookie(sample, undefined, oldKeys);
+    expect(
+      await getSession(requestWith(oldCookie), { keys: rotated })
+    ).toMatchObject(sample);
+
+    const newCookie = await createSessionCookie(sample, undefined, rotated);
+    expect(
+      await getSession(requestWith(newCookie), { keys: oldKeys })
+    ).toBeNull();
+    expect(
+      await getSession(requestWith(newCookie), {
+        keys: { secrets: ["new-secret"], encrypt: true },
+      })
+    ).toMatchObject(sample);
+  });
+
+  it("stops accepting a secret once it is retired", async () => {
+    const oldCookie = await createSessionCookie(sample, undefined, {
+      secrets: ["old-secret"],
+      encrypt: true,
+    });
+    expect(
+      await getSession(requestWith(oldCookie), {
+        keys: { secrets: ["new-secret"], encrypt: true },
+      })
+    ).toBeNull();
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { APPROVAL } from "../src/shared";
+import { APPROVAL, parseToolApproval } from "../src/shared";
 
 describe("shared constants", () => {
   it("should have correct APPROVAL values", () => {
@@ -13,3 +13,39 @@ describe("shared constants", () => {
     expect(Object.keys(APPROVAL)).toEqual(["YES", "NO"]);
   });
 });
+
+describe("parseToolApproval", () => {
+  it("reads plain and structured approvals", () => {
+    expect(parseToolApproval(APPROVAL.YES)).toEqual({
+      approval: APPROVAL.YES,
+    });
+    expect(
+      parseToolApproval({
+        approval: APPROVAL.YES,
+        args: { city: "Lisbon" },
+        alwaysAllow: "thread",
+      })
+    ).toEqual({
+      approval: APPROVAL.YES,
+      args: { city: "Lisbon" },
+      alwaysAllow: "thread",
+    });
+  });
+
+  it("ignores rejections, tool output and malformed fields", () => {
+    expect(parseToolApproval(APPROVAL.NO)).toBeNull();
+    expect(parseToolApproval({ content: [] })).toBeNull();
+    expect(parseToolApproval(null)).toBeNull();
+    expect(
+      parseToolApproval({
+        approval: APPROVAL.YES,
+        args: ["Lisbon"],
+        alwaysAllow: "everywhere",
+      })
+    ).toEqual({
+      approval: APPROVAL.YES,
+      args: undefined,
+      alwaysAllow: undefined,
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  buildSystemPrompt,
+  getThreadAgentPersonas,
+  DEFAULT_ASSISTANT_PROMPT,
+  type ThreadAgentPersona,
+} from "../src/lib/system-prompt";
+import { createMockDb } from "./helpers";
+
+const schedulePrompt = "Scheduling instructions go here.";
+
+describe("buildSystemPrompt", () => {
+  it("falls back to the default assistant prompt without agents", () => {
+    const prompt = buildSystemPrompt({ agents: [], schedulePrompt });
+    expect(prompt.startsWith(DEFAULT_ASSISTANT_PROMPT)).toBe(true);
+    expect(prompt).toContain(schedulePrompt);
+    expect(prompt).toContain("use the schedule tool");
+  });
+
+  it("puts the primary persona first and delimits specialists", () => {
+    const agents: ThreadAgentPersona[] = [
+      {
+        id: "a1",
+        name: "Support Lead",
+        persona: "Answer politely and concisely.",
+        role: "primary",
+      },
+      {
+        id: "a2",
+        name: "SQL Expert",
+        description: "Knows databases",
+        persona: "Always show the query you ran.",
+        role: "specialist",
+      },
+    ];
+    const prompt = buildSystemPrompt({ agents, schedulePrompt });
+
+    expect(prompt.startsWith("You are Support Lead.")).toBe(true);
+    expect(prompt).not.toContain(DEFAULT_ASSISTANT_PROMPT);
+    expect(prompt).toContain(
+      '<agent name="SQL Expert" role="specialist">\nYou are SQL Expert.\n\nKnows databases\n\nAlways show the query you ran.\n</agent>'
+    );
+    expect(prompt.indexOf("Answer politely")).toBeLessThan(
+      prompt.indexOf("SQL Expert")
+    );
+    expect(prompt.indexOf("</agent>")).toBeLessThan(
+      prompt.indexOf(schedulePrompt)
+    );
+  });
+
+  it("keeps the default identity when only specialists are active", () => {
+    const prompt = buildSystemPrompt({
+      agents: [
+        {
+          id: "a2",
+          name: "Researcher",
+          persona: "Cite sources.",
+          role: "specialist",
+        },
+      ],
+      schedulePrompt,
+    });
+    expect(prompt.startsWith(DEFAULT_ASSISTANT_PROMPT)).toBe(true);
+    expect(prompt).toContain('<agent name="Researcher" role="specialist">');
+  });
+
+  it("names unavailable MCP servers and why", () => {
+    const prompt = buildSystemPrompt({
+      agents: [],
+      schedulePrompt,
+      unavailableServers: [
+        { name: "GitHub", reason: "it failed its last 3 health checks" },
+      ],
+    });
+    expect(prompt).toContain("- GitHub: it failed its last 3 health checks");
+    expect(buildSystemPrompt({ agents: [], schedulePrompt })).not.toContain(
+      "unavailable"
+    );
+  });
+});
+
+describe("getThreadAgentPersonas", () => {
+  it("returns an empty list without a database", async () => {
+    expect(await getThreadAgentPersonas("t1", undefined, "user-1")).toEqual([]);
+  });
+
+  it("maps rows and drops duplicate assignments", async () => {
+    const { db, bind } = createMockDb([
+      {
+        agent_id: "a1",
+        role: "primary",
+        name: "Lead",
+        persona: "Be brief",
+        description: null,
+      },
+      {
+        agent_id: "a1",
+        role: "primary",
+        name: "Lead",
+        persona: "Be brief",
+        description: null,
+      },
+      {
+        agent_id: "a2",
+        role: "specialist",
+        name: "Analyst",
+        persona: null,
+        description: "Numbers",
+      },
+    ]);
+
+    const agents = await getThreadAgentPersonas("t1", db, "user-1");
+
+    expect(bind).toHaveBeenCalledWith("user-1", "t1", "user-1");
+    expect(agents).toEqual([
+      {
+        id: "a1",
+        name: "Lead",
+        description: undefined,
+        persona: "Be brief",
+        role: "primary",
+      },
+      {
+        id: "a2",
+        name: "Analyst",
+        description: "Numbers",
+        persona: undefined,
+        role: "specialist",
+      },
+    ]);
+  });
+
+  it("returns an empty list without a user", async () => {
+    const { db, bind } = createMockDb([
+      { agent_id: "a1", role: "primary", name: "Lead" },
+    ]);
+    expect(await getThreadAgentPersonas("t1", db, "")).toEqual([]);
+    expect(bind).not.toHaveBeenCalled();
+  });
+
+  it("returns an empty list when the query fails", async () => {
+    const db = {
+      prepare: vi.fn().mockImplementation(() => {
+        throw new Error("no such table: thread_agents");
+      }),
+    } as unknown as D1Database;
+    expect(await getThreadAgentPersonas("t1", db, "user-1")).toEqual([]);
+  });
+});
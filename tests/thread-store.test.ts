@@ -0,0 +1,276 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import type { Message } from "ai";
+import {
+  parseChatName,
+  ThreadStore,
+  threadStoreName,
+  withEarlierMessages,
+} from "../src/lib/thread-store";
+
+const USER = "user-threads";
+
+const message = (id: string, role: Message["role"], content: string) =>
+  ({ id, role, content }) as Message;
+
+const update = (messages: Message[], all = messages) => ({
+  messages,
+  messageIds: all.map((m) => m.id),
+  title: "Plan a trip",
+});
+
+// Storage is reset between tests, so every test starts with an empty store
+async function withStore<T>(
+  run: (store: ThreadStore, kv: KVNamespace) => Promise<T>
+): Promise<T> {
+  const stub = env.Chat.get(env.Chat.idFromName(threadStoreName(USER)));
+  return runInDurableObject(stub, (_instance, state) =>
+    run(
+      new ThreadStore(state.storage, USER, env.CHAT_HISTORY_KV),
+      env.CHAT_HISTORY_KV
+    )
+  );
+}
+
+describe("ThreadStore", () => {
+  it("creates threads once and lists the latest first", async () => {
+    await withStore(async (store) => {
+      const first = await store.createThread(
+        "thread-a",
+        new Date("2026-01-01T00:00:00Z")
+      );
+      expect(first.created).toBe(true);
+      expect(first.thread.title).toMatch(/^New Chat /);
+
+      const again = await store.createThread("thread-a");
+      expect(again).toEqual({ thread: first.thread, created: false });
+      expect(await store.hasThread("thread-a")).toBe(true);
+      expect(await store.hasThread("thread-unknown")).toBe(false);
+
+      await store.createThread("thread-b", new Date("2026-01-02T00:00:00Z"));
+      await store.saveMessages(
+        "thread-a",
+        update([message("m1", "user", "Plan a trip")]),
+        new Date("2026-01-03T00:00:00Z")
+      );
+
+      const threads = await store.listThreads();
+      expect(threads.map((thread) => thread.id)).toEqual([
+        "thread-a",
+        "thread-b",
+      ]);
+      expect(threads[0]).toMatchObject({
+        title: "Plan a trip",
+        createdAt: "2026-01-01T00:00:00.000Z",
+        updatedAt: "2026-01-03T00:00:00.000Z",
+      });
+    });
+  });
+
+  it("appends new messages and updates changed ones in place", async () => {
+    await withStore(async (store) => {
+      const question = message("m1", "user", "Weather in Paris?");
+      const answer = message("m2", "assistant", "Checking");
+      await store.saveMessages("thread-a", update([question]));
+      await store.saveMessages(
+        "thread-a",
+        update([answer], [question, answer])
+      );
+      // A tab that saw only the question saves it again, nothing is duplicated
+      await store.saveMessages(
+        "thread-a",
+        update([question], [question, answer])
+      );
+
+      const done = { ...answer, content: "Sunny, 24°C" };
+      const followUp = message("m3", "user", "And tomorrow?");
+      await store.saveMessages(
+        "thread-a",
+        update([done, followUp], [question, done, followUp])
+      );
+
+      expect(await store.getMessages("thread-a")).toEqual([
+        question,
+        done,
+        followUp,
+      ]);
+      expect(await store.getMessages("thread-unknown")).toEqual([]);
+    });
+  });
+
+  it("removes messages the chat dropped", async () => {
+    await withStore(async (store) => {
+      const question = message("m1", "user", "Name a color");
+      await store.saveMessages(
+        "thread-a",
+        update([question, message("m2", "assistant", "Red")])
+      );
+      const regenerated = message("m3", "assistant", "Blue");
+      await store.saveMessages(
+        "thread-a",
+        update([regenerated], [question, regenerated])
+      );
+
+      expect(await store.getMessages("thread-a")).toEqual([
+        question,
+        regenerated,
+      ]);
+    });
+  });
+
+  it("deletes threads with their messages and remembers the active thread", async () => {
+    await withStore(async (store) => {
+      await store.saveMessages(
+        "thread-a",
+        update([message("m1", "user", "Hi")])
+      );
+      expect(await store.getLastActiveThread()).toBe("thread-a");
+
+      expect(await store.deleteThread("thread-a")).toBe(true);
+      expect(await store.deleteThread("thread-a")).toBe(false);
+      expect(await store.listThreads()).toEqual([]);
+      expect(await store.getMessages("thread-a")).toEqual([]);
+    });
+  });
+});
+
+describe("ThreadStore message pages", () => {
+  const thread = Array.from({ length: 120 }, (_, i) =>
+    message(`m${i}`, i % 2 ? "assistant" : "user", `Message ${i}`)
+  );
+
+  it("pages back from the latest messages", async () => {
+    await withStore(async (store) => {
+      await store.saveMessages("thread-long", update(thread));
+
+      const latest = await store.getMessagesPage("thread-long");
+      expect(latest.messages).toEqual(thread.slice(70));
+      expect(latest.nextCursor).toBe("m70");
+
+      const before = await store.getMessagesPage("thread-long", {
+        before: "m70",
+        limit: 60,
+      });
+      expect(before.messages).toEqual(thread.slice(10, 70));
+
+      const first = await store.getMessagesPage("thread-long", {
+        before: before.nextCursor!,
+      });
+      expect(first).toEqual({
+        messages: thread.slice(0, 10),
+        nextCursor: null,
+      });
+
+      await expect(
+        store.getMessagesPage("thread-long", { before: "missing" })
+      ).rejects.toThrow("Invalid cursor");
+    });
+  });
+
+  it("keeps earlier messages a chat with only the latest page doesn't know", async () => {
+    await withStore(async (store) => {
+      await store.saveMessages("thread-long", update(thread));
+
+      // The chat's history starts at the page, the store has the whole thread
+      const page = thread.slice(70);
+      const regenerated = message("m120", "assistant", "Again");
+      await store.saveMessages(
+        "thread-long",
+        update([regenerated], [...page.slice(0, -1), regenerated])
+      );
+
+      expect(await store.getMessages("thread-long")).toEqual([
+        ...thread.slice(0, -1),
+        regenerated,
+      ]);
+    });
+  });
+
+  it("puts the history before a client's latest page back", () => {
+    const page = [...thread.slice(70), message("m120", "user", "Next")];
+    expect(withEarlierMessages(thread, page)).toEqual([
+      ...thread,
+      page[page.length - 1],
+    ]);
+    // Complete lists and new threads are left alone
+    expect(withEarlierMessages(thread, thread)).toEqual(thread);
+    expect(withEarlierMessages([], page)).toEqual(page);
+  });
+});
+
+describe("ThreadStore legacy import", () => {
+  const legacyThread = {
+    id: "thread-old",
+    title: "Old trip",
+    createdAt: "2025-05-01T00:00:00.000Z",
+    updatedAt: "2025-05-02T00:00:00.000Z",
+  };
+  const legacyMessages = [
+    message("old-1", "user", "Old trip"),
+    message("old-2", "assistant", "Sure"),
+  ];
+
+  async function seedLegacy(kv: KVNamespace) {
+    await kv.put(`${USER}:threads`, JSON.stringify([legacyThread]));
+    await kv.put(`${USER}:thread:thread-old`, JSON.stringify(legacyMessages));
+    await kv.put(`${USER}:last_active_thread`, "thread-old");
+  }
+
+  it("copies KV threads the first time they're read", async () => {
+    await withStore(async (store, kv) => {
+      await seedLegacy(kv);
+
+      expect(await store.hasThread("thread-old")).toBe(true);
+      expect(await store.listThreads()).toEqual([legacyThread]);
+      expect(await store.getMessages("thread-old")).toEqual(legacyMessages);
+      expect(await store.getLastActiveThread()).toBe("thread-old");
+
+      // Later KV changes are ignored, the store owns the thread now
+      await kv.put(`${USER}:threads`, "[]");
+      await kv.put(`${USER}:thread:thread-old`, "[]");
+      expect(await store.listThreads()).toHaveLength(1);
+      expect(await store.getMessages("thread-old")).toHaveLength(2);
+    });
+  });
+
+  it("appends to legacy threads after their KV messages", async () => {
+    await withStore(async (store, kv) => {
+      await seedLegacy(kv);
+      const next = message("new-1", "user", "Any updates?");
+      await store.saveMessages(
+        "thread-old",
+        update([next], [...legacyMessages, next])
+      );
+
+      expect(await store.getMessages("thread-old")).toEqual([
+        ...legacyMessages,
+        next,
+      ]);
+      // The legacy title isn't a default one, so it stays
+      expect((await store.listThreads())[0].title).toBe("Old trip");
+    });
+  });
+
+  it("keeps deleted legacy threads deleted and skips unreadable values", async () => {
+    await withStore(async (store, kv) => {
+      await seedLegacy(kv);
+      await kv.put(`${USER}:thread:thread-broken`, "{not json");
+
+      await store.deleteThread("thread-old");
+      expect(await kv.get(`${USER}:thread:thread-old`)).toBeNull();
+      expect(await store.listThreads()).toEqual([]);
+      expect(await store.getMessages("thread-broken")).toEqual([]);
+    });
+  });
+});
+
+describe("parseChatName", () => {
+  it("splits the owner from a thread id with dashes", () => {
+    expect(parseChatName("42-thread-a-b")).toEqual({
+      userId: "42",
+      threadId: "thread-a-b",
+    });
+    expect(parseChatName("42-")).toEqual({ userId: "42", threadId: "default" });
+    expect(parseChatName(threadStoreName("42"))).toBeNull();
+  });
+});
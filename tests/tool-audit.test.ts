@@ -0,0 +1,285 @@
+import { env, applyD1Migrations } from "cloudflare:test";
+import { describe, it, expect, beforeAll } from "vitest";
+import type { Message } from "ai";
+import * as agentAPI from "../src/api/agents";
+import {
+  auditToolCalls,
+  listToolExecutions,
+  recordDeniedToolCall,
+  recordToolExecution,
+  type ToolExecutionRecord,
+} from "../src/lib/tool-audit";
+import { APPROVAL } from "../src/shared";
+import { processToolCalls } from "../src/utils";
+
+const USER = "user-tool-audit";
+
+const callOptions = (toolCallId: string) => ({ toolCallId, messages: [] });
+
+const auditContext = (threadId: string) => ({
+  db: env.DB,
+  userId: USER,
+  threadId,
+  agentId: "analyst",
+  findServerId: (name: string) =>
+    name.startsWith("mcp_gh_") ? "gh" : undefined,
+});
+
+const record = (
+  overrides: Partial<ToolExecutionRecord>
+): ToolExecutionRecord => ({
+  id: crypto.randomUUID(),
+  userId: USER,
+  threadId: "paged-thread",
+  agentId: null,
+  toolCallId: null,
+  toolName: "getLocalTime",
+  serverId: null,
+  arguments: {},
+  resultSize: 2,
+  latencyMs: 5,
+  decision: "auto",
+  error: null,
+  kind: "tool",
+  tokens: null,
+  createdAt: new Date().toISOString(),
+  ...overrides,
+});
+
+beforeAll(async () => {
+  await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
+});
+
+describe("auditToolCalls", () => {
+  it("records automatic and approved calls with their outcome", async () => {
+    const { tools, executions } = auditToolCalls(
+      {
+        getLocalTime: { execute: async () => "10am" },
+        mcp_gh_search: {
+          execute: async () => ({
+            content: [{ type: "text", text: "Rate limited" }],
+            isError: true,
+          }),
+        },
+      },
+      {
+        mcp_gh_delete_repo: async () => {
+          throw new Error("Forbidden");
+        },
+      },
+      auditContext("audited-thread")
+    );
+
+    expect(
+      await tools.getLocalTime.execute?.(
+        { location: "Lisbon" },
+        callOptions("c1")
+      )
+    ).toBe("10am");
+    await tools.mcp_gh_search.execute?.({ q: "bug" }, callOptions("c2"));
+    await expect(
+      executions.mcp_gh_delete_repo({ repo: "x" }, callOptions("c3"))
+    ).rejects.toThrow("Forbidden");
+
+    const { executions: recorded } = await listToolExecutions(env.DB, USER, {
+      threadId: "audited-thread",
+    });
+    const byCall = Object.fromEntries(
+      recorded.map((execution) => [execution.toolCallId, execution])
+    );
+
+    expect(byCall.c1).toMatchObject({
+      toolName: "getLocalTime",
+      serverId: null,
+      agentId: "analyst",
+      arguments: { location: "Lisbon" },
+      resultSize: 6,
+      decision: "auto",
+      error: null,
+    });
+    expect(byCall.c2).toMatchObject({
+      serverId: "gh",
+      decision: "auto",
+      error: "Rate limited",
+    });
+    expect(byCall.c3).toMatchObject({
+      toolName: "mcp_gh_delete_repo",
+      decision: "approved",
+      resultSize: null,
+      error: "Forbidden",
+    });
+  });
+
+  it("records calls the user rejected or a policy denied", async () => {
+    const call = (toolName: string, toolCallId: string, result: unknown) => ({
+      type: "tool-invocation" as const,
+      toolInvocation: {
+        toolName,
+        toolCallId,
+        state: "result" as const,
+        args: { repo: "x" },
+        result,
+      },
+    });
+    const messages: Message[] = [
+      {
+        id: "m1",
+        role: "assistant",
+        content: "",
+        parts: [
+          call("mcp_gh_delete_repo", "d1", APPROVAL.NO),
+          call("mcp_gh_push", "d2", APPROVAL.YES),
+        ],
+      },
+    ];
+    const context = auditContext("denied-thread");
+    await processToolCalls({
+      tools: {},
+      executions: {
+        mcp_gh_delete_repo: async () => "deleted",
+        mcp_gh_push: async () => "pushed",
+      },
+      messages,
+      dataStream: { write: () => {} } as never,
+      decisions: { mcp_gh_delete_repo: "confirm", mcp_gh_push: "deny" },
+      onToolDenied: (denied) => recordDeniedToolCall(context, denied),
+    });
+
+    const { executions: recorded } = await listToolExecutions(env.DB, USER, {
+      threadId: "denied-thread",
+    });
+    const byCall = Object.fromEntries(
+      recorded.map((execution) => [execution.toolCallId, execution])
+    );
+    expect(byCall.d1).toMatchObject({
+      toolName: "mcp_gh_delete_repo",
+      serverId: "gh",
+      arguments: { repo: "x" },
+      resultSize: null,
+      decision: "denied",
+      error: "User denied access to tool execution",
+    });
+    expect(byCall.d2).toMatchObject({
+      resultSize: null,
+      decision: "denied",
+      error: "Tool execution is denied by a tool policy",
+    });
+  });
+
+  it("leaves tools alone without a user", () => {
+    const execute = async () => "ok";
+    const { tools } = auditToolCalls(
+      { getLocalTime: { execute } },
+      {},
+      { ...auditContext("t"), userId: undefined }
+    );
+    expect(tools.getLocalTime.execute).toBe(execute);
+  });
+});
+
+describe("listToolExecutions", () => {
+  it("pages through the newest calls first", async () => {
+    for (let minute = 0; minute < 5; minute++) {
+      await recordToolExecution(
+        env.DB,
+        record({
+          toolCallId: `page-${minute}`,
+          createdAt: `2026-01-01T10:0${minute}:00.000Z`,
+          error: minute === 2 ? "Timed out" : null,
+        })
+      );
+    }
+
+    const first = await listToolExecutions(env.DB, USER, {
+      threadId: "paged-thread",
+      limit: 2,
+    });
+    expect(first.executions.map((e) => e.toolCallId)).toEqual([
+      "page-4",
+      "page-3",
+    ]);
+
+    const second = await listToolExecutions(env.DB, USER, {
+      threadId: "paged-thread",
+      limit: 2,
+      cursor: first.nextCursor!,
+    });
+    const third = await listToolExecutions(env.DB, USER, {
+      threadId: "paged-thread",
+      limit: 2,
+      cursor: second.nextCursor!,
+    });
+    expect(second.executions.map((e) => e.toolCallId)).toEqual([
+      "page-2",
+      "page-1",
+    ]);
+    expect(third.executions.map((e) => e.toolCallId)).toEqual(["page-0"]);
+    expect(third.nextCursor).toBeNull();
+
+    const failed = await listToolExecutions(env.DB, USER, {
+      threadId: "paged-thread",
+      status: "error",
+    });
+    expect(failed.executions.map((e) => e.toolCallId)).toEqual(["page-2"]);
+
+    const window = await listToolExecutions(env.DB, USER, {
+      threadId: "paged-thread",
+      since: "2026-01-01T10:01:00.000Z",
+      until: "2026-01-01T10:03:00.000Z",
+    });
+    expect(window.executions.map((e) => e.toolCallId)).toEqual([
+      "page-2",
+      "page-1",
+    ]);
+  });
+
+  it("only lists the user's own calls", async () => {
+    await recordToolExecution(env.DB, record({}));
+    expect(
+      (
+        await listToolExecutions(env.DB, USER, {
+          threadId: "paged-thread",
+        })
+      ).executions
+    ).toHaveLength(1);
+    expect(
+      (
+        await listToolExecutions(env.DB, "someone-else", {
+          threadId: "paged-thread",
+        })
+      ).executions
+    ).toEqual([]);
+  });
+});
+
+describe("tool executions API", () => {
+  it("filters by query parameters and rejects invalid ones", async () => {
+    await recordToolExecution(env.DB, record({ threadId: "api-thread" }));
+    await recordToolExecution(
+      env.DB,
+      record({ threadId: "api-thread", error: "Timed out" })
+    );
+
+    const response = await agentAPI.getToolExecutions(
+      new URL(
+        "http://localhost/api/tool-executions?threadId=api-thread&status=error"
+      ),
+      env,
+      USER
+    );
+    expect(response.status).toBe(200);
+    const page = (await response.json()) as {
+      executions: ToolExecutionRecord[];
+    };
+    expect(page.executions.map((e) => e.error)).toEqual(["Timed out"]);
+
+    for (const query of ["limit=0", "status=broken", "cursor=%%%"]) {
+      const invalid = await agentAPI.getToolExecutions(
+        new URL(`http://localhost/api/tool-executions?${query}`),
+        env,
+        USER
+      );
+      expect(invalid.status).toBe(400);
+    }
+  });
+});
@@ -0,0 +1,382 @@
+import { env, applyD1Migrations } from "cloudflare:test";
+import { describe, it, expect, beforeAll } from "vitest";
+import * as agentAPI from "../src/api/agents";
+import { APPROVAL } from "../src/shared";
+import {
+  applyToolDecisions,
+  defaultToolDecision,
+  describeTools,
+  findAlwaysAllowRequests,
+  loadToolPolicyRules,
+  resolveToolDecision,
+  saveAlwaysAllowRules,
+  type ToolDescriptor,
+  type ToolPolicyRule,
+} from "../src/lib/tool-policies";
+import { jsonRequest } from "./helpers";
+
+const USER = "user-tool-policies";
+
+const context = { threadId: "thread-1", agentIds: ["analyst"] };
+
+const mcpTool = (
+  toolName: string,
+  annotations?: ToolDescriptor["annotations"]
+): ToolDescriptor => ({
+  name: `mcp_gh_${toolName}`,
+  toolName,
+  serverId: "gh",
+  annotations,
+  executes: true,
+});
+
+let ruleCount = 0;
+const rule = (
+  scope: ToolPolicyRule["scope"],
+  toolPattern: string,
+  decision: ToolPolicyRule["decision"],
+  scopeId: string | null = null
+): ToolPolicyRule => ({
+  id: `rule-${++ruleCount}`,
+  scope,
+  scopeId,
+  serverId: null,
+  toolPattern,
+  decision,
+});
+
+beforeAll(async () => {
+  await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
+});
+
+describe("defaultToolDecision", () => {
+  it("follows MCP tool annotations", () => {
+    expect(defaultToolDecision(mcpTool("search", { readOnlyHint: true }))).toBe(
+      "auto"
+    );
+    expect(
+      defaultToolDecision(mcpTool("append", { destructiveHint: false }))
+    ).toBe("auto");
+    expect(defaultToolDecision(mcpTool("delete_repo"))).toBe("confirm");
+  });
+
+  it("asks for built-in tools without an execute function", () => {
+    const builtIn = {
+      name: "getWeatherInformation",
+      toolName: "getWeatherInformation",
+    };
+    expect(defaultToolDecision({ ...builtIn, executes: false })).toBe(
+      "confirm"
+    );
+    expect(defaultToolDecision({ ...builtIn, executes: true })).toBe("auto");
+  });
+});
+
+describe("resolveToolDecision", () => {
+  it("lets the most specific level decide", () => {
+    const rules = [
+      rule("user", "*", "deny"),
+      rule("server", "search_*", "confirm", "gh"),
+      rule("agent", "search_*", "auto", "analyst"),
+      rule("thread", "search_code", "confirm", "thread-1"),
+    ];
+    expect(resolveToolDecision(mcpTool("search_code"), rules, context)).toBe(
+      "confirm"
+    );
+    expect(resolveToolDecision(mcpTool("search_issues"), rules, context)).toBe(
+      "auto"
+    );
+    expect(resolveToolDecision(mcpTool("delete_repo"), rules, context)).toBe(
+      "deny"
+    );
+  });
+
+  it("ignores rules of other agents, servers and threads", () => {
+    const rules = [
+      rule("agent", "*", "deny", "writer"),
+      rule("server", "*", "deny", "docs"),
+      rule("thread", "*", "deny", "thread-2"),
+    ];
+    expect(
+      resolveToolDecision(
+        mcpTool("search", { readOnlyHint: true }),
+        rules,
+        context
+      )
+    ).toBe("auto");
+  });
+
+  it("prefers exact names over patterns and stricter decisions among equals", () => {
+    expect(
+      resolveToolDecision(
+        mcpTool("search_code"),
+        [rule("user", "search_*", "deny"), rule("user", "search_code", "auto")],
+        context
+      )
+    ).toBe("auto");
+    expect(
+      resolveToolDecision(
+        mcpTool("search_code"),
+        [rule("user", "search_*", "auto"), rule("user", "*_code", "confirm")],
+        context
+      )
+    ).toBe("confirm");
+  });
+});
+
+describe("applyToolDecisions", () => {
+  it("drops denied tools and moves confirmed ones to the executions", async () => {
+    const execute = async () => "ran";
+    const execution = async () => "approved run";
+    const { tools, executions } = applyToolDecisions(
+      {
+        search: { description: "search", execute },
+        deleteRepo: { description: "delete", execute },
+        getWeather: { description: "weather" },
+        sendMail: { description: "mail", execute },
+      },
+      { getWeather: execution },
+      {
+        search: "auto",
+        deleteRepo: "deny",
+        getWeather: "auto",
+        sendMail: "confirm",
+      }
+    );
+
+    expect(Object.keys(tools)).toEqual(["search", "getWeather", "sendMail"]);
+    expect(tools.search.execute).toBe(execute);
+    expect(tools.getWeather.execute).toBe(execution);
+    expect(tools.sendMail).not.toHaveProperty("execute");
+    expect(executions).toEqual({ sendMail: execute });
+  });
+});
+
+describe("describeTools", () => {
+  it("looks up the server and annotations of MCP tools", () => {
+    const tools = describeTools(
+      { mcp_gh_search: { execute: () => {} }, getWeatherInformation: {} },
+      (name) =>
+        name === "mcp_gh_search"
+          ? {
+              name: "search",
+              description: "",
+              serverId: "gh",
+              serverName: "GitHub",
+              schema: {},
+              annotations: { readOnlyHint: true },
+            }
+          : undefined
+    );
+
+    expect(tools).toEqual([
+      {
+        name: "mcp_gh_search",
+        toolName: "search",
+        serverId: "gh",
+        annotations: { readOnlyHint: true },
+        executes: true,
+      },
+      {
+        name: "getWeatherInformation",
+        toolName: "getWeatherInformation",
+        serverId: undefined,
+        annotations: undefined,
+        executes: false,
+      },
+    ]);
+  });
+});
+
+describe("tool policy API", () => {
+  // The user's thread store has thread-1 only
+  const hasThread = async (threadId: string) => threadId === "thread-1";
+
+  it("creates, lists and deletes the user's rules", async () => {
+    const created = await agentAPI.createToolPolicy(
+      jsonRequest("POST", {
+        scope: "thread",
+        scopeId: "thread-1",
+        toolPattern: "delete_*",
+        decision: "deny",
+      }),
+      env,
+      USER,
+      hasThread
+    );
+    expect(created.status).toBe(201);
+    const { policy } = (await created.json()) as { policy: ToolPolicyRule };
+
+    expect(await loadToolPolicyRules(env.DB, USER)).toEqual([policy]);
+    expect(await loadToolPolicyRules(env.DB, "someone-else")).toEqual([]);
+
+    expect(
+      (await agentAPI.deleteToolPolicy(env, "someone-else", policy.id)).status
+    ).toBe(404);
+    expect((await agentAPI.deleteToolPolicy(env, USER, policy.id)).status).toBe(
+      200
+    );
+    expect(await loadToolPolicyRules(env.DB, USER)).toEqual([]);
+  });
+
+  it("rejects rules for agents and threads of other users and misplaced scope IDs", async () => {
+    const agent = await agentAPI.createAgent(
+      jsonRequest("POST", { name: "Someone's agent", mcpGroupIds: [] }),
+      env,
+      "someone-else"
+    );
+    const { agent: otherAgent } = (await agent.json()) as {
+      agent: { id: string };
+    };
+
+    const forOtherAgent = await agentAPI.createToolPolicy(
+      jsonRequest("POST", {
+        scope: "agent",
+        scopeId: otherAgent.id,
+        toolPattern: "*",
+        decision: "auto",
+      }),
+      env,
+      USER,
+      hasThread
+    );
+    expect(forOtherAgent.status).toBe(404);
+
+    const forOtherThread = await agentAPI.createToolPolicy(
+      jsonRequest("POST", {
+        scope: "thread",
+        scopeId: "thread-of-someone-else",
+        toolPattern: "*",
+        decision: "auto",
+      }),
+      env,
+      USER,
+      hasThread
+    );
+    expect(forOtherThread.status).toBe(404);
+    expect(await loadToolPolicyRules(env.DB, USER)).toEqual([]);
+
+    const userRuleWithScope = await agentAPI.createToolPolicy(
+      jsonRequest("POST", {
+        scope: "user",
+        scopeId: "thread-1",
+        toolPattern: "*",
+        decision: "auto",
+      }),
+      env,
+      USER,
+      hasThread
+    );
+    expect(userRuleWithScope.status).toBe(400);
+  });
+});
+
+describe("always allow", () => {
+  const toolCall = (toolName: string, result: unknown) => ({
+    type: "tool-invocation" as const,
+    toolInvocation: {
+      state: "result" as const,
+      toolCallId: `call-${toolName}`,
+      toolName,
+      args: {},
+      result,
+    },
+  });
+
+  it("finds the approvals that ask to stop confirming a tool", () => {
+    expect(
+      findAlwaysAllowRequests({
+        id: "m1",
+        role: "assistant",
+        content: "",
+        parts: [
+          toolCall("mcp_gh_search", {
+            approval: APPROVAL.YES,
+            alwaysAllow: "agent",
+          }),
+          toolCall("getWeatherInformation", APPROVAL.YES),
+          toolCall("mcp_gh_delete_repo", APPROVAL.NO),
+        ],
+      })
+    ).toEqual([{ toolName: "mcp_gh_search", scope: "agent" }]);
+    expect(findAlwaysAllowRequests(undefined)).toEqual([]);
+  });
+
+  it("saves an auto rule for the exact tool once", async () => {
+    const user = "user-always-allow";
+    const tools = [mcpTool("search_code")];
+    const requests = [
+      { toolName: "mcp_gh_search_code", scope: "thread" as const },
+      { toolName: "mcp_gh_search_code", scope: "agent" as const },
+      { toolName: "unknown_tool", scope: "thread" as const },
+    ];
+
+    // Without a primary agent only the thread rule is saved
+    await saveAlwaysAllowRules(env.DB, user, requests, tools, {
+      threadId: "thread-1",
+    });
+    await saveAlwaysAllowRules(env.DB, user, requests, tools, {
+      threadId: "thread-1",
+      agentId: "analyst",
+    });
+
+    const rules = await loadToolPolicyRules(env.DB, user);
+    expect(
+      rules
+        .map(({ id: _id, ...rule }) => rule)
+        .sort((a, b) => a.scope.localeCompare(b.scope))
+    ).toEqual([
+      {
+        scope: "agent",
+        scopeId: "analyst",
+        serverId: "gh",
+        toolPattern: "search_code",
+        decision: "auto",
+      },
+      {
+        scope: "thread",
+        scopeId: "thread-1",
+        serverId: "gh",
+        toolPattern: "search_code",
+        decision: "auto",
+      },
+    ]);
+    expect(resolveToolDecision(tools[0], rules, context)).toBe("auto");
+  });
+
+  it("replaces exact rules that would keep asking at the same level", async () => {
+    const user = "user-always-allow-override";
+    const tools = [mcpTool("search_code")];
+    const insertRule = (scopeId: string, serverId: string | null) =>
+      env.DB.prepare(
+        `INSERT INTO tool_policies (id, user_id, scope, scope_id, server_id, tool_pattern, decision, created_at)
+         VALUES (?, ?, 'thread', ?, ?, 'search_code', 'confirm', ?)`
+      )
+        .bind(
+          crypto.randomUUID(),
+          user,
+          scopeId,
+          serverId,
+          new Date().toISOString()
+        )
+        .run();
+    await insertRule("thread-1", "gh");
+    await insertRule("thread-1", null);
+    await insertRule("thread-2", "gh");
+
+    await saveAlwaysAllowRules(
+      env.DB,
+      user,
+      [{ toolName: "mcp_gh_search_code", scope: "thread" }],
+      tools,
+      { threadId: "thread-1" }
+    );
+
+    const rules = await loadToolPolicyRules(env.DB, user);
+    expect(resolveToolDecision(tools[0], rules, context)).toBe("auto");
+    // Other threads keep their own rules
+    expect(
+      resolveToolDecision(tools[0], rules, { ...context, threadId: "thread-2" })
+    ).toBe("confirm");
+  });
+});
@@ -0,0 +1,188 @@
+import { env, applyD1Migrations } from "cloudflare:test";
+import { describe, it, expect, beforeAll } from "vitest";
+import * as agentAPI from "../src/api/agents";
+import {
+  filterToolsByPolicy,
+  getThreadToolPolicy,
+  isToolAllowed,
+  matchesToolPattern,
+  parseToolRules,
+  serializeToolRules,
+} from "../src/lib/tool-rules";
+import { jsonRequest, readJson } from "./helpers";
+
+const USER = "user-tool-rules";
+
+beforeAll(async () => {
+  await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
+});
+
+describe("matchesToolPattern", () => {
+  it("supports * and ? wildcards over the whole name", () => {
+    expect(matchesToolPattern("search_*", "search_issues")).toBe(true);
+    expect(matchesToolPattern("search_*", "research_issues")).toBe(false);
+    expect(matchesToolPattern("get_?", "get_a")).toBe(true);
+    expect(matchesToolPattern("get_?", "get_ab")).toBe(false);
+    expect(matchesToolPattern("list.files", "list_files")).toBe(false);
+  });
+});
+
+describe("isToolAllowed", () => {
+  it("allows everything without rules or allow patterns", () => {
+    expect(isToolAllowed(null, "delete_repo")).toBe(true);
+    expect(isToolAllowed({ allow: [], deny: [] }, "delete_repo")).toBe(true);
+  });
+
+  it("lets deny patterns win over allow patterns", () => {
+    const rules = { allow: ["search_*", "get_*"], deny: ["get_secret*"] };
+    expect(isToolAllowed(rules, "search_code")).toBe(true);
+    expect(isToolAllowed(rules, "get_issue")).toBe(true);
+    expect(isToolAllowed(rules, "get_secrets")).toBe(false);
+    expect(isToolAllowed(rules, "delete_repo")).toBe(false);
+  });
+});
+
+describe("parseToolRules", () => {
+  it("round-trips stored rules and ignores malformed values", () => {
+    const rules = { allow: ["search_*"], deny: ["delete_*"] };
+    expect(parseToolRules(serializeToolRules(rules))).toEqual(rules);
+    expect(serializeToolRules({ allow: [], deny: [] })).toBeNull();
+    expect(parseToolRules("not json")).toBeNull();
+    expect(parseToolRules('{"allow":["a",1,""]}')).toEqual({
+      allow: ["a"],
+      deny: [],
+    });
+  });
+});
+
+describe("filterToolsByPolicy", () => {
+  it("filters MCP tools by their server's rules and keeps the rest", () => {
+    const tools = {
+      getLocalTime: 1,
+      mcp_gh_search_code: 2,
+      mcp_gh_delete_repo: 3,
+      mcp_docs_delete_page: 4,
+    };
+    const policy = new Map([
+      ["gh", [{ allow: ["search_*"], deny: [] }]],
+      ["docs", []],
+    ]);
+
+    expect(Object.keys(filterToolsByPolicy(tools, policy))).toEqual([
+      "getLocalTime",
+      "mcp_gh_search_code",
+      "mcp_docs_delete_page",
+    ]);
+  });
+
+  it("allows a tool that any of the rule sets allows", () => {
+    const policy = new Map([
+      [
+        "gh",
+        [
+          { allow: ["search_*"], deny: [] },
+          { allow: [], deny: ["search_*"] },
+        ],
+      ],
+    ]);
+    expect(
+      Object.keys(
+        filterToolsByPolicy(
+          { mcp_gh_search_code: 1, mcp_gh_delete_repo: 2 },
+          policy
+        )
+      )
+    ).toEqual(["mcp_gh_search_code", "mcp_gh_delete_repo"]);
+  });
+});
+
+describe("getThreadToolPolicy", () => {
+  it("collects the rules of thread agents and thread server assignments", async () => {
+    const group = await readJson<{ group: { id: string } }>(
+      await agentAPI.createMCPGroup(
+        jsonRequest("POST", { name: "GitHub" }),
+        env,
+        USER
+      )
+    );
+    const groupServer = await readJson<{ server: { id: string } }>(
+      await agentAPI.createMCPServer(
+        jsonRequest("POST", {
+          name: "GitHub MCP",
+          url: "https://mcp.example.com/sse",
+          transport: "sse",
+          groupId: group.group.id,
+        }),
+        env,
+        USER
+      )
+    );
+    const agent = await readJson<{ agent: { id: string } }>(
+      await agentAPI.createAgent(
+        jsonRequest("POST", {
+          name: "Analyst",
+          mcpGroupIds: [group.group.id],
+          toolRules: { allow: ["search_*"], deny: ["delete_*"] },
+        }),
+        env,
+        USER
+      )
+    );
+    await agentAPI.addAgentToThread(
+      jsonRequest("POST", { agentId: agent.agent.id }),
+      env,
+      USER,
+      "rules-thread"
+    );
+
+    const independent = await readJson<{ server: { id: string } }>(
+      await agentAPI.createIndependentMCPServer(
+        jsonRequest("POST", { name: "Docs", url: "https://docs.example/sse" }),
+        env,
+        USER
+      )
+    );
+    await agentAPI.addMCPServerToThread(
+      jsonRequest("POST", { serverId: independent.server.id }),
+      env,
+      USER,
+      "rules-thread"
+    );
+    const update = await agentAPI.updateThreadMCPServer(
+      jsonRequest("PUT", { toolRules: { allow: [], deny: ["write_*"] } }),
+      env,
+      USER,
+      "rules-thread",
+      independent.server.id
+    );
+    expect(update.status).toBe(200);
+
+    const policy = await getThreadToolPolicy("rules-thread", env.DB, USER);
+    expect(policy.get(groupServer.server.id)).toEqual([
+      { allow: ["search_*"], deny: ["delete_*"] },
+    ]);
+    expect(policy.get(independent.server.id)).toEqual([
+      { allow: [], deny: ["write_*"] },
+    ]);
+
+    // Another agent with the group and no rules opens the server up again
+    const admin = await readJson<{ agent: { id: string } }>(
+      await agentAPI.createAgent(
+        jsonRequest("POST", { name: "Admin", mcpGroupIds: [group.group.id] }),
+        env,
+        USER
+      )
+    );
+    await agentAPI.addAgentToThread(
+      jsonRequest("POST", { agentId: admin.agent.id }),
+      env,
+      USER,
+      "rules-thread"
+    );
+    expect(
+      (await getThreadToolPolicy("rules-thread", env.DB, USER)).has(
+        groupServer.server.id
+      )
+    ).toBe(false);
+  });
+});
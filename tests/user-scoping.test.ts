@@ -0,0 +1,192 @@
+import { env, applyD1Migrations } from "cloudflare:test";
+import { describe, it, expect, beforeAll } from "vitest";
+import * as agentAPI from "../src/api/agents";
+import { getThreadAgentPersonas } from "../src/lib/system-prompt";
+import { jsonRequest, readJson } from "./helpers";
+
+const ALICE = "user-alice";
+const BOB = "user-bob";
+
+const createAgent = async (userId: string, name: string) => {
+  const response = await agentAPI.createAgent(
+    jsonRequest("POST", { name, mcpGroupIds: [] }),
+    env,
+    userId
+  );
+  expect(response.status).toBe(201);
+  return (await readJson<{ agent: { id: string } }>(response)).agent.id;
+};
+
+const createServer = async (userId: string, name: string) => {
+  const response = await agentAPI.createIndependentMCPServer(
+    jsonRequest("POST", { name, url: "https://mcp.example.com/sse" }),
+    env,
+    userId
+  );
+  expect(response.status).toBe(201);
+  return (await readJson<{ server: { id: string } }>(response)).server.id;
+};
+
+beforeAll(async () => {
+  await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
+});
+
+describe("agent API user scoping", () => {
+  it("only lists the caller's agents", async () => {
+    await createAgent(ALICE, "Alice Agent");
+    await createAgent(BOB, "Bob Agent");
+
+    const alice = await readJson<{ agents: { name: string }[] }>(
+      await agentAPI.getAgents(env, ALICE)
+    );
+    const bob = await readJson<{ agents: { name: string }[] }>(
+      await agentAPI.getAgents(env, BOB)
+    );
+
+    expect(alice.agents.map((a) => a.name)).toContain("Alice Agent");
+    expect(alice.agents.map((a) => a.name)).not.toContain("Bob Agent");
+    expect(bob.agents.map((a) => a.name)).not.toContain("Alice Agent");
+  });
+
+  it("returns 404 when updating or deleting another user's agent", async () => {
+    const agentId = await createAgent(ALICE, "Private Agent");
+
+    const update = await agentAPI.updateAgent(
+      jsonRequest("PUT", { name: "Hijacked" }),
+      env,
+      BOB,
+      agentId
+    );
+    expect(update.status).toBe(404);
+
+    const remove = await agentAPI.deleteAgent(env, BOB, agentId);
+    expect(remove.status).toBe(404);
+
+    const row = await env.DB.prepare("SELECT name FROM agents WHERE id = ?")
+      .bind(agentId)
+      .first<{ name: string }>();
+    expect(row?.name).toBe("Private Agent");
+  });
+
+  it("refuses to assign another user's agent to a thread", async () => {
+    const agentId = await createAgent(ALICE, "Thread Agent");
+
+    const response = await agentAPI.addAgentToThread(
+      jsonRequest("POST", { agentId }),
+      env,
+      BOB,
+      "thread-1"
+    );
+    expect(response.status).toBe(404);
+
+    const own = await agentAPI.addAgentToThread(
+      jsonRequest("POST", { agentId }),
+      env,
+      ALICE,
+      "thread-1"
+    );
+    expect(own.status).toBe(201);
+
+    const bobThread = await readJson<{ agents: unknown[] }>(
+      await agentAPI.getThreadAgents(env, BOB, "thread-1")
+    );
+    expect(bobThread.agents).toHaveLength(0);
+
+    const removal = await agentAPI.removeAgentFromThread(
+      env,
+      BOB,
+      "thread-1",
+      agentId
+    );
+    expect(removal.status).toBe(404);
+  });
+
+  it("isolates MCP servers and groups between users", async () => {
+    const serverId = await createServer(ALICE, "Alice MCP");
+
+    const bobServers = await readJson<{ servers: { id: string }[] }>(
+      await agentAPI.getIndependentMCPServers(env, BOB)
+    );
+    expect(bobServers.servers.map((s) => s.id)).not.toContain(serverId);
+
+    expect(
+      (
+        await agentAPI.updateIndependentMCPServer(
+          jsonRequest("PUT", { name: "Renamed" }),
+          env,
+          BOB,
+          serverId
+        )
+      ).status
+    ).toBe(404);
+    expect(
+      (await agentAPI.deleteIndependentMCPServer(env, BOB, serverId)).status
+    ).toBe(404);
+    expect(
+      (await agentAPI.testIndependentMCPServer(env, BOB, serverId)).status
+    ).toBe(404);
+    expect(
+      (
+        await agentAPI.addMCPServerToThread(
+          jsonRequest("POST", { serverId }),
+          env,
+          BOB,
+          "thread-2"
+        )
+      ).status
+    ).toBe(404);
+
+    const group = await readJson<{ group: { id: string } }>(
+      await agentAPI.createMCPGroup(
+        jsonRequest("POST", { name: "Alice Group" }),
+        env,
+        ALICE
+      )
+    );
+    const bobGroups = await readJson<{ groups: { id: string }[] }>(
+      await agentAPI.getMCPGroups(env, BOB)
+    );
+    expect(bobGroups.groups.map((g) => g.id)).not.toContain(group.group.id);
+
+    const bobAgent = await agentAPI.createAgent(
+      jsonRequest("POST", { name: "Sneaky", mcpGroupIds: [group.group.id] }),
+      env,
+      BOB
+    );
+    expect(bobAgent.status).toBe(404);
+  });
+
+  it("keeps thread settings separate per user", async () => {
+    await agentAPI.updateThreadSettings(
+      jsonRequest("PUT", { model: "fake:echo" }),
+      env,
+      ALICE,
+      "shared-thread"
+    );
+
+    const bob = await readJson<{ settings: { model: string | null } }>(
+      await agentAPI.getThreadSettings(env, BOB, "shared-thread")
+    );
+    expect(bob.settings.model).toBeNull();
+  });
+});
+
+describe("thread loading user scoping", () => {
+  it("only gives a thread the agents of its owner", async () => {
+    const agentId = await createAgent(ALICE, "Alice Persona");
+    // A row that points Bob's thread at Alice's agent
+    await env.DB.prepare(
+      `INSERT INTO thread_agents (id, thread_id, agent_id, user_id, role)
+       VALUES ('ta-cross', 'crossed-thread', ?, ?, 'primary')`
+    )
+      .bind(agentId, BOB)
+      .run();
+
+    expect(await getThreadAgentPersonas("crossed-thread", env.DB, BOB)).toEqual(
+      []
+    );
+    expect(await getThreadAgentPersonas("crossed-thread", env.DB, "")).toEqual(
+      []
+    );
+  });
+});
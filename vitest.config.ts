@@ -1,25 +1,37 @@
-import { defineWorkersConfig } from "@cloudflare/vitest-pool-workers/config";
+import path from "node:path";
+import {
+  defineWorkersConfig,
+  readD1Migrations,
+} from "@cloudflare/vitest-pool-workers/config";
 
-export default defineWorkersConfig({
-  environments: {
-    ssr: {
-      keepProcessEnv: true,
+export default defineWorkersConfig(async () => {
+  // Exposed to tests so they can apply the D1 schema with applyD1Migrations()
+  const migrations = await readD1Migrations(path.join(__dirname, "migrations"));
+
+  return {
+    environments: {
+      ssr: {
+        keepProcessEnv: true,
+      },
     },
-  },
-  test: {
-    include: ["tests/**/*.{test,spec}.{js,ts}"],
-    exclude: ["src/**/*.{test,spec}.{js,ts,jsx,tsx}", "node_modules/**/*"],
-    poolOptions: {
-      workers: {
-        wrangler: { configPath: "./wrangler.jsonc" },
+    test: {
+      include: ["tests/**/*.{test,spec}.{js,ts}"],
+      exclude: ["src/**/*.{test,spec}.{js,ts,jsx,tsx}", "node_modules/**/*"],
+      poolOptions: {
+        workers: {
+          wrangler: { configPath: "./wrangler.jsonc" },
+          miniflare: {
+            bindings: { TEST_MIGRATIONS: migrations },
+          },
+        },
       },
+      // Coverage disabled for Cloudflare Workers due to node:inspector compatibility issues
+      // coverage: {
+      //   provider: "v8",
+      //   reporter: ["text", "json", "html"],
+      //   include: ["src/**/*"],
+      //   exclude: ["src/**/*.test.ts", "src/**/*.spec.ts"],
+      // },
     },
-    // Coverage disabled for Cloudflare Workers due to node:inspector compatibility issues
-    // coverage: {
-    //   provider: "v8",
-    //   reporter: ["text", "json", "html"],
-    //   include: ["src/**/*"],
-    //   exclude: ["src/**/*.test.ts", "src/**/*.spec.ts"],
-    // },
-  },
+  };
 });
@@ -9,8 +9,16 @@ declare namespace Cloudflare {
 		AUTH_GITHUB_CLIENT_ID: string;
 		AUTH_GITHUB_CLIENT_SECRET: string;
 		SESSION_SECRET: string;
+		SESSION_SECRET_PREVIOUS: string;
+		SESSION_ENCRYPT: string;
+		MCP_CREDENTIALS_KEY: string;
+		MCP_CREDENTIALS_KEY_PREVIOUS: string;
+		ANTHROPIC_API_KEY: string;
+		OPENAI_COMPATIBLE_BASE_URL: string;
+		OPENAI_COMPATIBLE_API_KEY: string;
 		Chat: DurableObjectNamespace<import("./src/server").Chat>;
 		DB: D1Database;
+		AI: Ai;
 	}
 }
 interface Env extends Cloudflare.Env {}
@@ -18,7 +26,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "OPENAI_API_KEY" | "AUTH_GITHUB_AUTHORIZED_USERNAMES" | "AUTH_GITHUB_CLIENT_ID" | "AUTH_GITHUB_CLIENT_SECRET" | "SESSION_SECRET">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "OPENAI_API_KEY" | "AUTH_GITHUB_AUTHORIZED_USERNAMES" | "AUTH_GITHUB_CLIENT_ID" | "AUTH_GITHUB_CLIENT_SECRET" | "SESSION_SECRET" | "SESSION_SECRET_PREVIOUS" | "SESSION_ENCRYPT" | "MCP_CREDENTIALS_KEY" | "MCP_CREDENTIALS_KEY_PREVIOUS" | "ANTHROPIC_API_KEY" | "OPENAI_COMPATIBLE_BASE_URL" | "OPENAI_COMPATIBLE_API_KEY">> {}
 }
 
 // Begin runtime types